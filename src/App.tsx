@@ -8,13 +8,22 @@ import { CartProvider } from "@/contexts/CartContext";
 import { TrackingProvider } from "@/components/TrackingProvider";
 import { Loader2 } from "lucide-react";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { RequireRole } from "@/components/RequireRole";
+import { rolesWithPermission } from "@/lib/permissions";
 
 // Lazy-loaded pages
 const Home = lazy(() => import("./pages/Home"));
 const Cart = lazy(() => import("./pages/Cart"));
+const TrackOrder = lazy(() => import("./pages/TrackOrder"));
+const PaymentResult = lazy(() => import("./pages/PaymentResult"));
+const MockPayment = lazy(() => import("./pages/MockPayment"));
+const Account = lazy(() => import("./pages/Account"));
 const Auth = lazy(() => import("./pages/Auth"));
 const Admin = lazy(() => import("./pages/Admin"));
+const PrintOrders = lazy(() => import("./pages/PrintOrders"));
+const OrderDetails = lazy(() => import("./pages/OrderDetails"));
 const ProductDetails = lazy(() => import("./pages/ProductDetails"));
+const Search = lazy(() => import("./pages/Search"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const queryClient = new QueryClient();
@@ -59,6 +68,16 @@ const App = () => (
                   </Suspense>
                 }
               />
+              <Route
+                path="/search"
+                element={
+                  <Suspense fallback={<PageLoader />}>
+                    <ErrorBoundary>
+                      <Search />
+                    </ErrorBoundary>
+                  </Suspense>
+                }
+              />
               <Route
                 path="/cart"
                 element={
@@ -69,6 +88,46 @@ const App = () => (
                   </Suspense>
                 }
               />
+              <Route
+                path="/track"
+                element={
+                  <Suspense fallback={<PageLoader />}>
+                    <ErrorBoundary>
+                      <TrackOrder />
+                    </ErrorBoundary>
+                  </Suspense>
+                }
+              />
+              <Route
+                path="/payment/result"
+                element={
+                  <Suspense fallback={<PageLoader />}>
+                    <ErrorBoundary>
+                      <PaymentResult />
+                    </ErrorBoundary>
+                  </Suspense>
+                }
+              />
+              <Route
+                path="/payment/mock"
+                element={
+                  <Suspense fallback={<PageLoader />}>
+                    <ErrorBoundary>
+                      <MockPayment />
+                    </ErrorBoundary>
+                  </Suspense>
+                }
+              />
+              <Route
+                path="/account"
+                element={
+                  <Suspense fallback={<PageLoader />}>
+                    <ErrorBoundary>
+                      <Account />
+                    </ErrorBoundary>
+                  </Suspense>
+                }
+              />
               <Route
                 path="/auth"
                 element={
@@ -84,7 +143,33 @@ const App = () => (
                 element={
                   <Suspense fallback={<PageLoader />}>
                     <ErrorBoundary>
-                      <Admin />
+                      <RequireRole>
+                        <Admin />
+                      </RequireRole>
+                    </ErrorBoundary>
+                  </Suspense>
+                }
+              />
+              <Route
+                path="/admin/print"
+                element={
+                  <Suspense fallback={<PageLoader />}>
+                    <ErrorBoundary>
+                      <RequireRole roles={rolesWithPermission("orders.view")}>
+                        <PrintOrders />
+                      </RequireRole>
+                    </ErrorBoundary>
+                  </Suspense>
+                }
+              />
+              <Route
+                path="/admin/orders/:id"
+                element={
+                  <Suspense fallback={<PageLoader />}>
+                    <ErrorBoundary>
+                      <RequireRole roles={rolesWithPermission("orders.view")}>
+                        <OrderDetails />
+                      </RequireRole>
                     </ErrorBoundary>
                   </Suspense>
                 }
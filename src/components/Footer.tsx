@@ -39,6 +39,9 @@ export const Footer = () => {
             <a href="/cart" className="text-muted-foreground hover:text-primary transition-colors duration-200 bengali-font">
               কার্ট
             </a>
+            <a href="/track" className="text-muted-foreground hover:text-primary transition-colors duration-200 bengali-font">
+              অর্ডার ট্র্যাক করুন
+            </a>
           </div>
 
           {/* Social Links */}
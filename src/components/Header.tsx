@@ -1,62 +1,13 @@
-import { ShoppingCart, Search } from 'lucide-react';
+import { ShoppingCart, UserRound } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { SearchBox } from '@/components/SearchBox';
 import { useCart } from '@/contexts/CartContext';
-import { useState } from 'react';
 import logo from '@/assets/logo.jpeg';
-import { supabase } from '@/integrations/supabase/client';
 
-interface HeaderProps {
-  onSearch?: (query: string) => void;
-}
-
-export const Header = ({ onSearch }: HeaderProps) => {
+export const Header = () => {
   const { totalItems } = useCart();
   const navigate = useNavigate();
-  const [searchQuery, setSearchQuery] = useState('');
-
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (onSearch) {
-      onSearch(searchQuery);
-      
-      // Track search activity
-      if (searchQuery.trim()) {
-        try {
-          const sessionId = sessionStorage.getItem('tracking_session_id') || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-          if (!sessionStorage.getItem('tracking_session_id')) {
-            sessionStorage.setItem('tracking_session_id', sessionId);
-          }
-          
-          const getUserAgent = () => navigator.userAgent || 'Unknown';
-          const getIPAddress = async () => {
-            try {
-              const response = await fetch('https://api.ipify.org?format=json');
-              const data = await response.json();
-              return data.ip || 'Unknown';
-            } catch {
-              return 'Unknown';
-            }
-          };
-
-          await supabase.from('user_activity' as any).insert({
-            session_id: sessionId,
-            user_agent: getUserAgent(),
-            ip_address: await getIPAddress(),
-            activity_type: 'search',
-            page_path: window.location.pathname,
-            metadata: {
-              search_query: searchQuery,
-              timestamp: new Date().toISOString(),
-            },
-          });
-        } catch (error) {
-          console.error('Error tracking search:', error);
-        }
-      }
-    }
-  };
 
   return (
     <header className="sticky top-0 z-50 w-full bg-card/95 backdrop-blur-md border-b border-border/50 shadow-lg shadow-primary/5">
@@ -82,18 +33,19 @@ export const Header = ({ onSearch }: HeaderProps) => {
             </div>
           </Link>
 
-          <form onSubmit={handleSearch} className="flex-1 max-w-md">
-            <div className="relative group">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 group-focus-within:text-primary transition-colors duration-200" />
-              <Input
-                type="text"
-                placeholder="পণ্য খুঁজুন..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10 transition-all duration-200 focus:ring-2 focus:ring-primary/20 focus:border-primary/50 bg-background/50 backdrop-blur-sm"
-              />
-            </div>
-          </form>
+          <div className="flex-1 max-w-md">
+            <SearchBox />
+          </div>
+
+          <Button
+            variant="outline"
+            size="icon"
+            className="transition-all duration-300 hover:scale-110 hover:bg-primary hover:text-primary-foreground hover:border-primary"
+            onClick={() => navigate('/account')}
+            aria-label="আমার অ্যাকাউন্ট"
+          >
+            <UserRound className="h-5 w-5" />
+          </Button>
 
           <Button
             variant="outline"
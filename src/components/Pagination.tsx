@@ -7,6 +7,7 @@ interface PaginationProps {
   onPageChange: (page: number) => void;
   itemsPerPage?: number;
   totalItems?: number;
+  disabled?: boolean; // e.g. while the next page is loading
 }
 
 export const Pagination = ({ 
@@ -14,7 +15,8 @@ export const Pagination = ({
   totalPages, 
   onPageChange,
   itemsPerPage,
-  totalItems 
+  totalItems,
+  disabled = false
 }: PaginationProps) => {
   if (totalPages <= 1) return null;
 
@@ -71,7 +73,7 @@ export const Pagination = ({
           variant="outline"
           size="icon"
           onClick={() => onPageChange(currentPage - 1)}
-          disabled={currentPage === 1}
+          disabled={disabled || currentPage === 1}
           className="transition-all duration-200 hover:scale-110"
         >
           <ChevronLeft className="h-4 w-4" />
@@ -94,6 +96,7 @@ export const Pagination = ({
                 variant={currentPage === pageNum ? 'default' : 'outline'}
                 size="sm"
                 onClick={() => onPageChange(pageNum)}
+                disabled={disabled && currentPage !== pageNum}
                 className={`transition-all duration-200 ${
                   currentPage === pageNum
                     ? 'bg-primary text-primary-foreground'
@@ -110,7 +113,7 @@ export const Pagination = ({
           variant="outline"
           size="icon"
           onClick={() => onPageChange(currentPage + 1)}
-          disabled={currentPage === totalPages}
+          disabled={disabled || currentPage === totalPages}
           className="transition-all duration-200 hover:scale-110"
         >
           <ChevronRight className="h-4 w-4" />
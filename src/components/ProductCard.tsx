@@ -4,9 +4,8 @@ import { useCart } from '@/contexts/CartContext';
 import { toast } from 'sonner';
 import { ShoppingCart } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { trackProductClick, trackProductView } from '@/hooks/useTracking';
+import { track } from '@/lib/analytics';
 import { useEffect, useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { LazyImage } from '@/components/LazyImage';
 
 interface ProductCardProps {
@@ -17,9 +16,10 @@ interface ProductCardProps {
   image_url?: string;
   images?: string[] | null;
   stock: number;
+  has_variants?: boolean;
 }
 
-export const ProductCard = ({ id, name, description, price, image_url, images, stock }: ProductCardProps) => {
+export const ProductCard = ({ id, name, description, price, image_url, images, stock, has_variants }: ProductCardProps) => {
   const { addItem } = useCart();
   const navigate = useNavigate();
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
@@ -34,7 +34,7 @@ export const ProductCard = ({ id, name, description, price, image_url, images, s
 
   // Track product view when card is rendered
   useEffect(() => {
-    trackProductView(id, name);
+    track('product_view', { product_id: id, product_name: name });
   }, [id, name]);
 
   // Auto-transition images every 5 seconds if multiple images
@@ -60,42 +60,14 @@ export const ProductCard = ({ id, name, description, price, image_url, images, s
       return;
     }
 
-    // Track add to cart activity
-    try {
-      const sessionId = sessionStorage.getItem('tracking_session_id') || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      if (!sessionStorage.getItem('tracking_session_id')) {
-        sessionStorage.setItem('tracking_session_id', sessionId);
-      }
-      
-      const getUserAgent = () => navigator.userAgent || 'Unknown';
-      const getIPAddress = async () => {
-        try {
-          const response = await fetch('https://api.ipify.org?format=json');
-          const data = await response.json();
-          return data.ip || 'Unknown';
-        } catch {
-          return 'Unknown';
-        }
-      };
-
-      await supabase.from('user_activity' as any).insert({
-        session_id: sessionId,
-        user_agent: getUserAgent(),
-        ip_address: await getIPAddress(),
-        activity_type: 'add_to_cart',
-        page_path: window.location.pathname,
-        product_id: id,
-        product_name: name,
-        metadata: {
-          price,
-          quantity: 1,
-          timestamp: new Date().toISOString(),
-        },
-      });
-    } catch (error) {
-      console.error('Error tracking add to cart:', error);
+    // Products with variants are added from the details page, where a color/size is picked
+    if (has_variants) {
+      handleCardClick();
+      return;
     }
 
+    track('add_to_cart', { product_id: id, product_name: name, price, quantity: 1 });
+
     addItem({
       id,
       name,
@@ -114,7 +86,7 @@ export const ProductCard = ({ id, name, description, price, image_url, images, s
   };
 
   const handleCardClick = () => {
-    trackProductClick(id, name);
+    track('product_click', { product_id: id, product_name: name });
     navigate(`/product/${id}`);
   };
 
@@ -199,7 +171,7 @@ export const ProductCard = ({ id, name, description, price, image_url, images, s
                 >
           <span className="relative z-10 flex items-center gap-2">
             <ShoppingCart className="h-4 w-4 group-hover/button:animate-bounce" />
-            {stock > 0 ? 'অর্ডার করুন' : 'স্টক শেষ'}
+            {stock <= 0 ? 'স্টক শেষ' : has_variants ? 'অপশন দেখুন' : 'অর্ডার করুন'}
           </span>
           <span className="absolute inset-0 bg-gradient-to-r from-accent/0 via-white/20 to-accent/0 translate-x-[-100%] group-hover/button:translate-x-[100%] transition-transform duration-700" />
         </Button>
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ProductCard } from '@/components/ProductCard';
+import { ProductFilters } from '@/components/ProductFilters';
+import { Pagination } from '@/components/Pagination';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2, SlidersHorizontal } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import {
+  Brand,
+  Category,
+  ProductFilters as Filters,
+  applyProductFilters,
+  countActiveFilters,
+  parseProductFilters,
+} from '@/lib/catalog';
+import {
+  CatalogProduct,
+  PRODUCTS_PER_PAGE,
+  ProductSort,
+  useProductFacets,
+  useProductSearch,
+} from '@/hooks/useProductSearch';
+
+interface ProductCatalogProps {
+  searchQuery?: string;
+  onProductsChange?: (products: CatalogProduct[]) => void;
+}
+
+// Facet sidebar, sort and paged product grid, shared by Home and the search page.
+// Filters are read from and written to the URL.
+export const ProductCatalog = ({ searchQuery = '', onProductsChange }: ProductCatalogProps) => {
+  const [currentPage, setCurrentPage] = useState(1);
+  const [sortBy, setSortBy] = useState<ProductSort>(searchQuery ? 'relevance' : 'priority');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseProductFilters(searchParams), [searchParams]);
+
+  const searchInput = useMemo(
+    () => ({ query: searchQuery, filters, sort: sortBy }),
+    [searchQuery, filters, sortBy]
+  );
+  const { data: page, isLoading: loading, isFetching, isError } = useProductSearch(searchInput, currentPage);
+  const { data: facets } = useProductFacets(searchQuery);
+  const products = useMemo(() => page?.items ?? [], [page]);
+  const totalItems = page?.total_count ?? 0;
+
+  // Facet options; the catalog still works without them if the tables are missing
+  useEffect(() => {
+    const fetchCatalog = async () => {
+      const [categoriesResult, brandsResult] = await Promise.all([
+        supabase.from('categories').select('id,name,slug,parent_id,sort_order').order('sort_order'),
+        supabase.from('brands').select('id,name,slug,logo_url,sort_order').order('sort_order').order('name'),
+      ]);
+
+      if (categoriesResult.error) console.error('Error fetching categories:', categoriesResult.error);
+      if (brandsResult.error) console.error('Error fetching brands:', brandsResult.error);
+      setCategories(categoriesResult.data || []);
+      setBrands(brandsResult.data || []);
+    };
+    fetchCatalog();
+  }, []);
+
+  // A new search starts on page 1, sorted by relevance
+  useEffect(() => {
+    setSortBy(searchQuery ? 'relevance' : 'priority');
+    setCurrentPage(1);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    onProductsChange?.(products);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [products]);
+
+  const handleFiltersChange = (next: Filters) => {
+    setSearchParams(applyProductFilters(searchParams, next), { replace: true });
+    setCurrentPage(1);
+  };
+
+  const priceBounds = {
+    min: Math.floor(Number(facets?.min_price ?? 0)),
+    max: Math.ceil(Number(facets?.max_price ?? 0)),
+  };
+
+  const activeFilterCount = countActiveFilters(filters);
+
+  const filterPanel = (
+    <ProductFilters
+      categories={categories}
+      brands={brands}
+      filters={filters}
+      onChange={handleFiltersChange}
+      priceBounds={priceBounds}
+      categoryCounts={facets?.categories ?? {}}
+      brandCounts={facets?.brands ?? {}}
+    />
+  );
+
+  const totalPages = Math.max(1, Math.ceil(totalItems / PRODUCTS_PER_PAGE));
+
+  // Reset currentPage if the result set shrinks and currentPage is out of range
+  useEffect(() => {
+    if (page && currentPage > totalPages) {
+      setCurrentPage(1);
+    }
+  }, [page, totalPages, currentPage]);
+
+  return (
+    <div className="flex gap-8">
+      {/* Facet sidebar (desktop) */}
+      <aside className="hidden lg:block w-64 shrink-0">
+        <div className="sticky top-24 rounded-lg border bg-card/80 p-4">{filterPanel}</div>
+      </aside>
+
+      <div className="flex-1 min-w-0">
+        {/* Sorting Controls */}
+        <div className="mb-6 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Sheet>
+              <SheetTrigger asChild>
+                <Button variant="outline" className="lg:hidden">
+                  <SlidersHorizontal className="h-4 w-4 mr-2" />
+                  ফিল্টার
+                  {activeFilterCount > 0 && <Badge className="ml-2">{activeFilterCount}</Badge>}
+                </Button>
+              </SheetTrigger>
+              <SheetContent side="left" className="overflow-y-auto">
+                <SheetTitle className="sr-only">ফিল্টার</SheetTitle>
+                <div className="pt-4">{filterPanel}</div>
+              </SheetContent>
+            </Sheet>
+            <Label htmlFor="sort" className="text-sm font-medium whitespace-nowrap">সাজান:</Label>
+            <Select value={sortBy} onValueChange={(value) => {
+              setSortBy(value as ProductSort);
+              setCurrentPage(1);
+            }}>
+              <SelectTrigger id="sort" className="w-[200px]">
+                <SelectValue placeholder="সাজান" />
+              </SelectTrigger>
+              <SelectContent>
+                {searchQuery && <SelectItem value="relevance">প্রাসঙ্গিকতা</SelectItem>}
+                <SelectItem value="priority">প্রাধান্য (Default)</SelectItem>
+                <SelectItem value="price-low">মূল্য: কম থেকে বেশি</SelectItem>
+                <SelectItem value="price-high">মূল্য: বেশি থেকে কম</SelectItem>
+                <SelectItem value="name-asc">নাম: A-Z</SelectItem>
+                <SelectItem value="name-desc">নাম: Z-A</SelectItem>
+                <SelectItem value="newest">নতুন প্রথম</SelectItem>
+                <SelectItem value="oldest">পুরাতন প্রথম</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="text-sm text-muted-foreground">{totalItems} টি পণ্য পাওয়া গেছে</div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center min-h-[400px]">
+            <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto" />
+          </div>
+        ) : isError ? (
+          <div className="text-center py-20 animate-fade-in">
+            <p className="text-xl text-muted-foreground font-semibold">পণ্য লোড করতে সমস্যা হয়েছে</p>
+          </div>
+        ) : products.length === 0 ? (
+          <div className="text-center py-20 animate-fade-in">
+            <div className="text-6xl mb-4">🔍</div>
+            <p className="text-xl sm:text-2xl text-muted-foreground font-semibold mb-2">কোন পণ্য পাওয়া যায়নি</p>
+            <p className="text-sm text-muted-foreground">অনুগ্রহ করে অন্য কীওয়ার্ড দিয়ে খুঁজুন</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
+              {products.map(product => (
+                <ProductCard key={product.id} {...product} />
+              ))}
+            </div>
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              onPageChange={setCurrentPage}
+              itemsPerPage={PRODUCTS_PER_PAGE}
+              totalItems={totalItems}
+              disabled={isFetching}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Brand, Category, ProductFilters as Filters, EMPTY_PRODUCT_FILTERS, countActiveFilters, flattenCategoryTree } from '@/lib/catalog';
+
+interface ProductFiltersProps {
+  categories: Category[];
+  brands: Brand[];
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+  priceBounds: { min: number; max: number };
+  categoryCounts: Record<string, number>;
+  brandCounts: Record<string, number>;
+}
+
+export const ProductFilters = ({
+  categories,
+  brands,
+  filters,
+  onChange,
+  priceBounds,
+  categoryCounts,
+  brandCounts,
+}: ProductFiltersProps) => {
+  const toggle = (key: 'categories' | 'brands', slug: string, checked: boolean) => {
+    onChange({
+      ...filters,
+      [key]: checked ? [...filters[key], slug] : filters[key].filter((s) => s !== slug),
+    });
+  };
+
+  const priceRange: [number, number] = [
+    filters.minPrice ?? priceBounds.min,
+    filters.maxPrice ?? priceBounds.max,
+  ];
+
+  const handlePriceChange = ([min, max]: number[]) => {
+    onChange({
+      ...filters,
+      minPrice: min > priceBounds.min ? min : null,
+      maxPrice: max < priceBounds.max ? max : null,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="font-bold text-lg">ফিল্টার</h2>
+        {countActiveFilters(filters) > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_PRODUCT_FILTERS)}>
+            সব মুছুন
+          </Button>
+        )}
+      </div>
+
+      {categories.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold text-sm">ক্যাটাগরি</h3>
+          {flattenCategoryTree(categories).map(({ category, depth }) => (
+            <label
+              key={category.id}
+              className="flex items-center gap-2 text-sm cursor-pointer"
+              style={{ paddingLeft: depth * 16 }}
+            >
+              <Checkbox
+                checked={filters.categories.includes(category.slug)}
+                onCheckedChange={(checked) => toggle('categories', category.slug, checked === true)}
+              />
+              <span className="flex-1">{category.name}</span>
+              <span className="text-xs text-muted-foreground">{categoryCounts[category.id] ?? 0}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {brands.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold text-sm">ব্র্যান্ড</h3>
+          {brands.map((brand) => (
+            <label key={brand.id} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={filters.brands.includes(brand.slug)}
+                onCheckedChange={(checked) => toggle('brands', brand.slug, checked === true)}
+              />
+              <span className="flex-1">{brand.name}</span>
+              <span className="text-xs text-muted-foreground">{brandCounts[brand.id] ?? 0}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {priceBounds.max > priceBounds.min && (
+        <div className="space-y-3">
+          <h3 className="font-semibold text-sm">মূল্য</h3>
+          <Slider
+            min={priceBounds.min}
+            max={priceBounds.max}
+            step={10}
+            value={priceRange}
+            onValueChange={handlePriceChange}
+          />
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              value={priceRange[0]}
+              min={priceBounds.min}
+              onChange={(e) => handlePriceChange([Number(e.target.value) || priceBounds.min, priceRange[1]])}
+              className="h-8"
+              aria-label="সর্বনিম্ন মূল্য"
+            />
+            <span className="text-muted-foreground">—</span>
+            <Input
+              type="number"
+              value={priceRange[1]}
+              max={priceBounds.max}
+              onChange={(e) => handlePriceChange([priceRange[0], Number(e.target.value) || priceBounds.max])}
+              className="h-8"
+              aria-label="সর্বোচ্চ মূল্য"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="in_stock" className="font-semibold text-sm">শুধু স্টকে আছে</Label>
+        <Switch
+          id="in_stock"
+          checked={filters.inStock}
+          onCheckedChange={(checked) => onChange({ ...filters, inStock: checked })}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Loader2, LogOut, ShieldAlert } from 'lucide-react';
+import { StaffContext } from '@/contexts/StaffContext';
+import { AppRole, Permission, STAFF_ROLES, rolesHavePermission } from '@/lib/permissions';
+
+interface RequireRoleProps {
+  // Any one of these roles lets the user in
+  roles?: AppRole[];
+  children: React.ReactNode;
+}
+
+// Route guard for the Admin area. Signed-out visitors go to the sign-in page; signed-in users
+// without one of the roles see a message instead of the page. The RLS policies enforce the
+// same rules on the data, this only keeps the UI out of reach.
+export const RequireRole: React.FC<RequireRoleProps> = ({ roles = STAFF_ROLES, children }) => {
+  const navigate = useNavigate();
+  const [user, setUser] = useState<User | null>(null);
+  const [granted, setGranted] = useState<AppRole[] | null>(null);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session?.user) {
+        navigate('/auth');
+        return;
+      }
+      setUser((current) => (current?.id === session.user.id ? current : session.user));
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session?.user) {
+        navigate('/auth');
+        return;
+      }
+      setUser(session.user);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    const checkRoles = async () => {
+      const results = await Promise.all(
+        roles.map((role) => supabase.rpc('has_role', { _user_id: user.id, _role: role })),
+      );
+      if (cancelled) return;
+
+      results.forEach(({ error }) => {
+        if (error) console.error('Error checking role:', error);
+      });
+      setGranted(roles.filter((_, index) => results[index].data === true));
+    };
+
+    setGranted(null);
+    checkRoles();
+    return () => {
+      cancelled = true;
+    };
+    // The roles prop is a constant per route
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user]);
+
+  // Stable while the roles are, so pages can list it in effect dependencies
+  const can = useCallback(
+    (permission: Permission) => granted !== null && rolesHavePermission(granted, permission),
+    [granted],
+  );
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+  };
+
+  if (!user || granted === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (granted.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <Card className="w-full max-w-sm">
+          <CardContent className="p-6 text-center space-y-4">
+            <ShieldAlert className="h-12 w-12 text-destructive mx-auto" />
+            <div>
+              <p className="font-semibold">এই পেজ দেখার অনুমতি নেই</p>
+              <p className="text-sm text-muted-foreground mt-1">{user.email}</p>
+            </div>
+            <div className="flex flex-col gap-2">
+              <Button variant="outline" onClick={handleLogout}>
+                <LogOut className="h-4 w-4 mr-2" />
+                লগআউট
+              </Button>
+              <Button variant="ghost" asChild>
+                <Link to="/">হোমপেজে যান</Link>
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <StaffContext.Provider value={{ user, roles: granted, can }}>
+      {children}
+    </StaffContext.Provider>
+  );
+};
@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Clock, Loader2, Search, TrendingUp, X } from 'lucide-react';
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList, CommandSeparator } from '@/components/ui/command';
+import { track } from '@/lib/analytics';
+import { usePopularSearches, useSearchSuggestions } from '@/hooks/useProductSearch';
+import {
+  MIN_SUGGESTION_LENGTH,
+  addRecentSearch,
+  getRecentSearches,
+  getSearchUrl,
+  removeRecentSearch,
+} from '@/lib/search';
+
+const SUGGESTION_DELAY_MS = 250;
+
+// Header search with a suggestion dropdown: matching products while typing,
+// otherwise recent searches on this device and popular searches in the shop
+export const SearchBox = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>(getRecentSearches);
+
+  const trimmed = debouncedQuery.trim();
+  const showSuggestions = trimmed.length >= MIN_SUGGESTION_LENGTH;
+  const { data: suggestions, isFetching } = useSearchSuggestions(trimmed, open && showSuggestions);
+  const { data: popularSearches = [] } = usePopularSearches();
+
+  // Keep the box in sync with the results page (e.g. after back/forward)
+  useEffect(() => {
+    if (location.pathname === '/search') {
+      setQuery(searchParams.get('q') || '');
+    }
+  }, [location.pathname, searchParams]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), SUGGESTION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const close = () => {
+    setOpen(false);
+    (document.activeElement as HTMLElement | null)?.blur();
+  };
+
+  const submitSearch = (value: string) => {
+    const term = value.trim();
+    if (!term) return;
+
+    addRecentSearch(term);
+    setRecentSearches(getRecentSearches());
+    setQuery(term);
+    close();
+    navigate(getSearchUrl(term));
+    track('search', { search_query: term });
+  };
+
+  const openProduct = (productId: string) => {
+    if (query.trim()) {
+      addRecentSearch(query);
+      setRecentSearches(getRecentSearches());
+    }
+    close();
+    navigate(`/product/${productId}`);
+  };
+
+  const handleRemoveRecent = (term: string) => {
+    removeRecentSearch(term);
+    setRecentSearches(getRecentSearches());
+  };
+
+  const products = showSuggestions ? suggestions?.items ?? [] : [];
+  const hasQuery = query.trim().length > 0;
+  const showRecent = !hasQuery && recentSearches.length > 0;
+  const showPopular = !hasQuery && popularSearches.length > 0;
+
+  return (
+    <Command
+      shouldFilter={false}
+      className="relative overflow-visible bg-transparent [&_[cmdk-input-wrapper]]:border-b-0"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') close();
+      }}
+    >
+      <div className="rounded-md border border-input bg-background/50 backdrop-blur-sm transition-all duration-200 focus-within:ring-2 focus-within:ring-primary/20 focus-within:border-primary/50">
+        <CommandInput
+          value={query}
+          onValueChange={(value) => {
+            setQuery(value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          placeholder="পণ্য খুঁজুন..."
+          className="h-10"
+          aria-label="পণ্য খুঁজুন"
+        />
+      </div>
+
+      {open && (hasQuery || showRecent || showPopular) && (
+        // preventDefault keeps focus in the input so clicking an item does not close the list first
+        <div
+          className="absolute left-0 right-0 top-full z-50 mt-2 overflow-hidden rounded-md border bg-popover shadow-lg animate-fade-in"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <CommandList className="max-h-[400px]">
+            {hasQuery && (
+              <CommandGroup>
+                <CommandItem value={`search:${query}`} onSelect={() => submitSearch(query)}>
+                  <Search className="mr-2 h-4 w-4 text-muted-foreground" />
+                  <span className="flex-1 truncate">"{query.trim()}" খুঁজুন</span>
+                  {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            {products.length > 0 && (
+              <>
+                <CommandSeparator />
+                <CommandGroup heading="পণ্য">
+                  {products.map((product) => {
+                    const thumbnail = product.images?.[0] || product.image_url;
+                    return (
+                      <CommandItem
+                        key={product.id}
+                        value={`product:${product.id}`}
+                        onSelect={() => openProduct(product.id)}
+                        className="gap-3"
+                      >
+                        <div className="h-10 w-10 shrink-0 overflow-hidden rounded bg-muted">
+                          {thumbnail && <img src={thumbnail} alt="" className="h-full w-full object-cover" />}
+                        </div>
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate font-medium">{product.name}</p>
+                          <p className="text-xs text-primary font-semibold">
+                            ৳{Number(product.price).toFixed(2)}
+                            {product.stock <= 0 && (
+                              <span className="ml-2 text-destructive font-normal">স্টক শেষ</span>
+                            )}
+                          </p>
+                        </div>
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              </>
+            )}
+
+            {showSuggestions && !isFetching && suggestions && products.length === 0 && (
+              <p className="px-3 py-4 text-center text-sm text-muted-foreground">কোন পণ্য পাওয়া যায়নি</p>
+            )}
+
+            {showRecent && (
+              <CommandGroup heading="সাম্প্রতিক খোঁজ">
+                {recentSearches.map((term) => (
+                  <CommandItem key={term} value={`recent:${term}`} onSelect={() => submitSearch(term)}>
+                    <Clock className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <span className="flex-1 truncate">{term}</span>
+                    <button
+                      type="button"
+                      className="rounded p-1 text-muted-foreground hover:text-foreground"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRemoveRecent(term);
+                      }}
+                      aria-label="মুছুন"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {showRecent && showPopular && <CommandSeparator />}
+
+            {showPopular && (
+              <CommandGroup heading="জনপ্রিয় খোঁজ">
+                {popularSearches.map((term) => (
+                  <CommandItem key={term} value={`popular:${term}`} onSelect={() => submitSearch(term)}>
+                    <TrendingUp className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <span className="truncate">{term}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </div>
+      )}
+    </Command>
+  );
+};
@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Edit, Loader2, MapPin, Plus, Star, Trash2 } from 'lucide-react';
+import { DeliveryArea } from '@/lib/delivery';
+import { getDistrictLabel } from '@/lib/districts';
+import {
+  AddressDraft,
+  SavedAddress,
+  deleteAddress,
+  fetchAddresses,
+  saveAddress,
+  setDefaultAddress,
+} from '@/lib/account';
+
+interface AddressBookProps {
+  areas: DeliveryArea[];
+}
+
+const emptyDraft = (isDefault: boolean): AddressDraft => ({
+  label: '',
+  customer_name: '',
+  phone: '',
+  address: '',
+  district: 'Dhaka',
+  is_default: isDefault,
+});
+
+// The default address fills in the checkout form, and its area picks the delivery zone
+export const AddressBook = ({ areas }: AddressBookProps) => {
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AddressDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadAddresses = async () => {
+    setLoading(true);
+    try {
+      setAddresses(await fetchAddresses());
+    } catch (error) {
+      console.error('Error fetching addresses:', error);
+      toast.error('ঠিকানা লোড করতে সমস্যা হয়েছে');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAddresses();
+  }, []);
+
+  const openEditor = (address?: SavedAddress) => {
+    setEditingId(address?.id ?? null);
+    setDraft(address ? { ...address, label: address.label ?? '' } : emptyDraft(addresses.length === 0));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    if (!draft.customer_name.trim() || !draft.phone.trim() || !draft.address.trim() || !draft.district) {
+      toast.error('নাম, ফোন, ঠিকানা ও এলাকা প্রয়োজন');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveAddress(draft, editingId ?? undefined);
+      toast.success('ঠিকানা সংরক্ষণ হয়েছে!');
+      setDraft(null);
+      loadAddresses();
+    } catch (error) {
+      console.error('Error saving address:', error);
+      toast.error('ঠিকানা সংরক্ষণ করতে সমস্যা হয়েছে');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (address: SavedAddress) => {
+    try {
+      await setDefaultAddress(address.id);
+      loadAddresses();
+    } catch (error) {
+      console.error('Error setting default address:', error);
+      toast.error('ডিফল্ট ঠিকানা সেট করতে সমস্যা হয়েছে');
+    }
+  };
+
+  const handleDelete = async (address: SavedAddress) => {
+    if (!confirm('আপনি কি নিশ্চিত এই ঠিকানাটি মুছে ফেলতে চান?')) return;
+
+    try {
+      await deleteAddress(address.id);
+      toast.success('ঠিকানা মুছে ফেলা হয়েছে!');
+      loadAddresses();
+    } catch (error) {
+      console.error('Error deleting address:', error);
+      toast.error('ঠিকানা মুছতে সমস্যা হয়েছে');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <MapPin className="h-5 w-5" />
+            সংরক্ষিত ঠিকানা
+          </CardTitle>
+          <Button size="sm" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-1" />
+            নতুন
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && addresses.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : addresses.length === 0 ? (
+          <p className="text-center py-6 text-sm text-muted-foreground">
+            কোন ঠিকানা সংরক্ষণ করা নেই। ডিফল্ট ঠিকানা অর্ডারের ফর্মে নিজে থেকে বসে যাবে।
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {addresses.map((address) => (
+              <div key={address.id} className="border rounded-lg p-3 text-sm space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{address.label || address.customer_name}</span>
+                    {address.is_default && <Badge>ডিফল্ট</Badge>}
+                  </div>
+                  <div className="flex gap-1">
+                    {!address.is_default && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="ডিফল্ট করুন" onClick={() => handleSetDefault(address)}>
+                        <Star className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditor(address)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(address)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <p>{address.customer_name} · {address.phone}</p>
+                <p className="text-muted-foreground">{address.address}, {getDistrictLabel(address.district)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'ঠিকানা এডিট' : 'নতুন ঠিকানা'}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <form onSubmit={handleSave} className="space-y-4">
+              <div>
+                <Label htmlFor="address_label">নাম (যেমন বাসা, অফিস)</Label>
+                <Input
+                  id="address_label"
+                  value={draft.label ?? ''}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="address_name">প্রাপকের নাম *</Label>
+                <Input
+                  id="address_name"
+                  value={draft.customer_name}
+                  onChange={(e) => setDraft({ ...draft, customer_name: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="address_phone">ফোন নম্বর *</Label>
+                <Input
+                  id="address_phone"
+                  type="tel"
+                  value={draft.phone}
+                  onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="address_address">সম্পূর্ণ ঠিকানা *</Label>
+                <Input
+                  id="address_address"
+                  value={draft.address}
+                  onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="address_district">জেলা / এলাকা *</Label>
+                <Select value={draft.district} onValueChange={(value) => setDraft({ ...draft, district: value })}>
+                  <SelectTrigger id="address_district">
+                    <SelectValue placeholder="জেলা নির্বাচন করুন" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {areas.map((area) => (
+                      <SelectItem key={area.value} value={area.value}>{area.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="address_default"
+                  checked={draft.is_default}
+                  onCheckedChange={(checked) => setDraft({ ...draft, is_default: checked === true })}
+                />
+                <Label htmlFor="address_default" className="font-normal">ডিফল্ট ঠিকানা</Label>
+              </div>
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                সংরক্ষণ করুন
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { toast } from 'sonner';
+import { Loader2, UserRound } from 'lucide-react';
+import { OtpChannel, phoneLoginEnabled, sendLoginCode, toInternationalPhone, verifyLoginCode } from '@/lib/account';
+
+const CODE_LENGTH = 6;
+const EMAIL_REGEX = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// Sign in or create an account with a code sent by SMS or email. The session that
+// verifyOtp() starts is picked up by the page's auth listener.
+export const OtpLogin = () => {
+  const [channel, setChannel] = useState<OtpChannel>(phoneLoginEnabled ? 'phone' : 'email');
+  const [input, setInput] = useState('');
+  // The phone number or email the code was sent to
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    const target = channel === 'phone' ? toInternationalPhone(input) : input.trim().toLowerCase();
+    if (!target || (channel === 'email' && !EMAIL_REGEX.test(target))) {
+      toast.error(channel === 'phone' ? 'সঠিক মোবাইল নম্বর দিন (01XXXXXXXXX)' : 'সঠিক ইমেইল দিন');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await sendLoginCode(channel, target);
+      setSentTo(target);
+      setCode('');
+      toast.success(channel === 'phone' ? 'আপনার ফোনে কোড পাঠানো হয়েছে' : 'আপনার ইমেইলে কোড পাঠানো হয়েছে');
+    } catch (error) {
+      console.error('Error sending login code:', error);
+      toast.error('কোড পাঠাতে সমস্যা হয়েছে, কিছুক্ষণ পর আবার চেষ্টা করুন');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (token: string) => {
+    if (!sentTo || token.length !== CODE_LENGTH) return;
+
+    setLoading(true);
+    try {
+      await verifyLoginCode(channel, sentTo, token);
+      toast.success('লগইন সফল হয়েছে!');
+    } catch (error) {
+      console.error('Error verifying login code:', error);
+      toast.error('কোডটি সঠিক নয় বা মেয়াদ শেষ হয়ে গেছে');
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserRound className="h-5 w-5" />
+          আমার অ্যাকাউন্ট
+        </CardTitle>
+        <CardDescription>
+          লগইন করে আগের অর্ডার দেখুন, ঠিকানা সংরক্ষণ করুন এবং এক ক্লিকে আবার অর্ডার করুন। লগইন ছাড়াও অর্ডার করা যায়।
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sentTo ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              <span className="font-medium text-foreground">{sentTo}</span> এ পাঠানো {CODE_LENGTH} সংখ্যার কোড দিন
+            </p>
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={CODE_LENGTH}
+                value={code}
+                onChange={setCode}
+                onComplete={handleVerify}
+                disabled={loading}
+                inputMode="numeric"
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <Button className="w-full" onClick={() => handleVerify(code)} disabled={loading || code.length !== CODE_LENGTH}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              লগইন
+            </Button>
+            <div className="flex justify-between text-sm">
+              <Button variant="link" className="px-0" onClick={() => setSentTo(null)} disabled={loading}>
+                {channel === 'phone' ? 'নম্বর পরিবর্তন' : 'ইমেইল পরিবর্তন'}
+              </Button>
+              <Button variant="link" className="px-0" onClick={() => handleSend()} disabled={loading}>
+                আবার কোড পাঠান
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSend} className="space-y-4">
+            {phoneLoginEnabled && (
+              <Tabs
+                value={channel}
+                onValueChange={(value) => {
+                  setChannel(value as OtpChannel);
+                  setInput('');
+                }}
+              >
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="phone">মোবাইল</TabsTrigger>
+                  <TabsTrigger value="email">ইমেইল</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
+            <div>
+              <Label htmlFor="login_target">{channel === 'phone' ? 'মোবাইল নম্বর' : 'ইমেইল'}</Label>
+              <Input
+                id="login_target"
+                type={channel === 'phone' ? 'tel' : 'email'}
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder={channel === 'phone' ? '01XXXXXXXXX' : 'you@example.com'}
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              কোড পাঠান
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
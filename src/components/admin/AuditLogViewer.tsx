@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { History, Loader2, ScrollText, X } from 'lucide-react';
+import { DateRangeFilter } from '@/components/admin/DateRangeFilter';
+import { useStaff } from '@/contexts/StaffContext';
+import { DateRange, lastDays, toReportArgs } from '@/lib/reports';
+import { orderDetailsUrl } from '@/lib/orderEditing';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AUDIT_FIELD_LABELS,
+  AUDIT_PAGE_SIZE,
+  AUDIT_TABLE_LABELS,
+  AuditEntity,
+  AuditEntry,
+  AuditFilters,
+  AuditFocus,
+  fetchAuditEntries,
+  formatAuditValue,
+} from '@/lib/audit';
+
+interface AuditLogViewerProps {
+  // Shows the full history of one product or order instead of the filtered log
+  focus: AuditFocus | null;
+  onFocusChange: (focus: AuditFocus | null) => void;
+}
+
+const ACTION_VARIANTS: Record<AuditEntry['action'], 'default' | 'secondary' | 'destructive'> = {
+  insert: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+};
+
+const AuditChangeList = ({ entry }: { entry: AuditEntry }) => {
+  const fields = Object.entries(entry.changes);
+  if (fields.length === 0) return null;
+
+  // Inserts and deletes carry the whole row, so keep them folded
+  if (entry.action !== 'update') {
+    return (
+      <details className="text-sm">
+        <summary className="cursor-pointer text-muted-foreground">সব তথ্য ({fields.length})</summary>
+        <ul className="mt-1 space-y-0.5">
+          {fields.map(([field, change]) => (
+            <li key={field}>
+              <span className="text-muted-foreground">{AUDIT_FIELD_LABELS[field] || field}:</span>{' '}
+              {formatAuditValue(field, entry.action === 'insert' ? change.to : change.from)}
+            </li>
+          ))}
+        </ul>
+      </details>
+    );
+  }
+
+  return (
+    <ul className="space-y-0.5 text-sm">
+      {fields.map(([field, change]) => (
+        <li key={field} className="break-words">
+          <span className="text-muted-foreground">{AUDIT_FIELD_LABELS[field] || field}:</span>{' '}
+          {formatAuditValue(field, change.from)} → {formatAuditValue(field, change.to)}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const AuditLogViewer = ({ focus, onFocusChange }: AuditLogViewerProps) => {
+  const { can } = useStaff();
+  const [entity, setEntity] = useState<AuditEntity | 'all'>('all');
+  const [actor, setActor] = useState('');
+  const [appliedActor, setAppliedActor] = useState('');
+  const [range, setRange] = useState<DateRange>(() => lastDays(30));
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  // The history of one product or order ignores the other filters
+  const rangeArgs = toReportArgs(range);
+  const filters: AuditFilters = focus
+    ? { entity: focus.entity, entityId: focus.entityId, actor: '', from: null, to: null }
+    : {
+        entity: entity === 'all' ? null : entity,
+        entityId: null,
+        actor: appliedActor,
+        from: rangeArgs._from,
+        to: rangeArgs._to,
+      };
+
+  const loadEntries = async (append: boolean) => {
+    setLoading(true);
+    try {
+      const beforeId = append && entries.length > 0 ? entries[entries.length - 1].id : undefined;
+      const page = await fetchAuditEntries(filters, beforeId);
+      setEntries((prev) => (append ? [...prev, ...page] : page));
+      setHasMore(page.length === AUDIT_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast.error('অডিট লগ লোড করতে সমস্যা হয়েছে');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries(false);
+    // filters is rebuilt every render from these
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focus, entity, appliedActor, range]);
+
+  const entityTitle = (entry: AuditEntry) => {
+    const label = entry.entity_label || entry.entity_id?.slice(0, 8) || '—';
+    if (entry.entity === 'order' && entry.entity_id && can('orders.view')) {
+      return <Link to={orderDetailsUrl(entry.entity_id)} className="hover:underline">{label}</Link>;
+    }
+    return label;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScrollText className="h-5 w-5" />
+          অডিট লগ
+        </CardTitle>
+        <CardDescription>
+          পণ্য, অর্ডার, ডেলিভারি চার্জ ও স্টাফ রোলের প্রতিটি পরিবর্তন, কে করেছেন সহ
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {focus ? (
+          <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-muted">
+            <p className="text-sm">
+              <span className="text-muted-foreground">{AUDIT_ENTITY_LABELS[focus.entity]} এর পুরো ইতিহাস:</span>{' '}
+              <span className="font-medium">{focus.label || focus.entityId.slice(0, 8)}</span>
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => onFocusChange(null)}>
+              <X className="h-4 w-4 mr-1" />
+              সব দেখুন
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-col lg:flex-row lg:items-end gap-3">
+            <div className="space-y-1 lg:w-48">
+              <Label htmlFor="audit_entity" className="text-xs">ধরন</Label>
+              <Select value={entity} onValueChange={(value) => setEntity(value as AuditEntity | 'all')}>
+                <SelectTrigger id="audit_entity" className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">সব</SelectItem>
+                  {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map((key) => (
+                    <SelectItem key={key} value={key}>{AUDIT_ENTITY_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <form
+              className="space-y-1 lg:w-56"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setAppliedActor(actor);
+              }}
+            >
+              <Label htmlFor="audit_actor" className="text-xs">কে করেছেন (ইমেইল)</Label>
+              <Input
+                id="audit_actor"
+                value={actor}
+                onChange={(e) => setActor(e.target.value)}
+                onBlur={() => setAppliedActor(actor)}
+                placeholder="ইমেইল লিখে Enter চাপুন"
+                className="h-9"
+              />
+            </form>
+            <DateRangeFilter id="audit-range" value={range} onChange={setRange} />
+          </div>
+        )}
+
+        {loading && entries.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">কোন পরিবর্তন পাওয়া যায়নি</p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map((entry) => (
+              <li key={entry.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={ACTION_VARIANTS[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                      <Badge variant="outline">
+                        {AUDIT_ENTITY_LABELS[entry.entity]}
+                        {AUDIT_TABLE_LABELS[entry.table_name] ? ` · ${AUDIT_TABLE_LABELS[entry.table_name]}` : ''}
+                      </Badge>
+                      <span className="font-medium truncate">{entityTitle(entry)}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(entry.created_at).toLocaleString('bn-BD')} · {entry.actor_email || 'সিস্টেম বা গ্রাহক'}
+                    </p>
+                  </div>
+                  {!focus && entry.entity_id && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        onFocusChange({ entity: entry.entity, entityId: entry.entity_id!, label: entry.entity_label })
+                      }
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      পুরো ইতিহাস
+                    </Button>
+                  )}
+                </div>
+                <AuditChangeList entry={entry} />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {hasMore && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => loadEntries(true)} disabled={loading}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              আরও দেখুন
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
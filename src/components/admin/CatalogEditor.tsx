@@ -0,0 +1,319 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Edit, FolderTree, Loader2, Plus, Tag, Trash2 } from 'lucide-react';
+import { Brand, Category, flattenCategoryTree, getCategoryDescendantIds, slugify } from '@/lib/catalog';
+
+type CatalogKind = 'category' | 'brand';
+
+// Category or brand being edited; sort_order is kept as a string while typing
+interface CatalogDraft {
+  id?: string;
+  name: string;
+  slug: string;
+  parent_id: string;
+  logo_url: string;
+  sort_order: string;
+}
+
+interface CatalogEditorProps {
+  categories: Category[];
+  brands: Brand[];
+  onChanged: () => void;
+}
+
+const emptyDraft: CatalogDraft = { name: '', slug: '', parent_id: '', logo_url: '', sort_order: '0' };
+
+const KIND_TEXT: Record<CatalogKind, string> = {
+  category: 'ক্যাটাগরি',
+  brand: 'ব্র্যান্ড',
+};
+
+export const CatalogEditor = ({ categories, brands, onChanged }: CatalogEditorProps) => {
+  const [kind, setKind] = useState<CatalogKind | null>(null);
+  const [draft, setDraft] = useState<CatalogDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (nextKind: CatalogKind, item?: Category | Brand) => {
+    setKind(nextKind);
+    setDraft(
+      item
+        ? {
+            id: item.id,
+            name: item.name,
+            slug: item.slug,
+            parent_id: 'parent_id' in item ? item.parent_id || '' : '',
+            logo_url: 'logo_url' in item ? item.logo_url || '' : '',
+            sort_order: String(item.sort_order ?? 0),
+          }
+        : emptyDraft
+    );
+  };
+
+  // A category cannot be placed under itself or its own children
+  const parentOptions = flattenCategoryTree(categories).filter(
+    ({ category }) => !draft.id || !getCategoryDescendantIds(categories, draft.id).has(category.id)
+  );
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!kind) return;
+
+    if (!draft.name.trim()) {
+      toast.error(`${KIND_TEXT[kind]}ের নাম প্রয়োজন`);
+      return;
+    }
+
+    const base = {
+      name: draft.name.trim(),
+      slug: draft.slug.trim() ? slugify(draft.slug) : slugify(draft.name),
+      sort_order: parseInt(draft.sort_order) || 0,
+    };
+
+    setSaving(true);
+    try {
+      const { error } =
+        kind === 'category'
+          ? draft.id
+            ? await supabase.from('categories').update({ ...base, parent_id: draft.parent_id || null }).eq('id', draft.id)
+            : await supabase.from('categories').insert({ ...base, parent_id: draft.parent_id || null })
+          : draft.id
+            ? await supabase.from('brands').update({ ...base, logo_url: draft.logo_url.trim() || null }).eq('id', draft.id)
+            : await supabase.from('brands').insert({ ...base, logo_url: draft.logo_url.trim() || null });
+
+      if (error) throw error;
+      toast.success(`${KIND_TEXT[kind]} সংরক্ষণ হয়েছে!`);
+      setKind(null);
+      onChanged();
+    } catch (error) {
+      const { code, message } = error as { code?: string; message?: string };
+      console.error('Error saving catalog item:', error);
+      if (code === '23505') {
+        toast.error('এই স্লাগ আগে থেকেই আছে');
+      } else if (message === 'category_cycle') {
+        toast.error('ক্যাটাগরিকে তার নিজের সাব-ক্যাটাগরির নিচে রাখা যাবে না');
+      } else {
+        toast.error(message || 'সংরক্ষণ করতে সমস্যা হয়েছে');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (deleteKind: CatalogKind, item: Category | Brand) => {
+    const warning =
+      deleteKind === 'category'
+        ? 'এর সাব-ক্যাটাগরিগুলো শীর্ষ স্তরে চলে যাবে।'
+        : 'এই ব্র্যান্ডের পণ্যগুলো ব্র্যান্ড ছাড়া থাকবে।';
+    if (!confirm(`আপনি কি নিশ্চিত "${item.name}" মুছে ফেলতে চান? ${warning}`)) return;
+
+    try {
+      const { error } = await supabase
+        .from(deleteKind === 'category' ? 'categories' : 'brands')
+        .delete()
+        .eq('id', item.id);
+
+      if (error) throw error;
+      toast.success(`${KIND_TEXT[deleteKind]} মুছে ফেলা হয়েছে!`);
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting catalog item:', error);
+      toast.error(`${KIND_TEXT[deleteKind]} মুছতে সমস্যা হয়েছে`);
+    }
+  };
+
+  const renderActions = (itemKind: CatalogKind, item: Category | Brand) => (
+    <div className="flex justify-end gap-1">
+      <Button size="icon" variant="ghost" onClick={() => openDialog(itemKind, item)}>
+        <Edit className="h-4 w-4" />
+      </Button>
+      <Button size="icon" variant="ghost" onClick={() => handleDelete(itemKind, item)}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FolderTree className="h-5 w-5" />
+          ক্যাটাগরি ও ব্র্যান্ড
+        </CardTitle>
+        <CardDescription>
+          হোম পেজের ফিল্টারে এগুলো দেখানো হয়। সাব-ক্যাটাগরির পণ্য তার মূল ক্যাটাগরিতেও দেখাবে।
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold flex items-center gap-2">
+              <FolderTree className="h-4 w-4" />
+              ক্যাটাগরি
+            </h3>
+            <Button size="sm" variant="outline" onClick={() => openDialog('category')}>
+              <Plus className="h-4 w-4 mr-1" />
+              নতুন ক্যাটাগরি
+            </Button>
+          </div>
+          {categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground">কোনো ক্যাটাগরি নেই</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>নাম</TableHead>
+                    <TableHead>স্লাগ</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {flattenCategoryTree(categories).map(({ category, depth }) => (
+                    <TableRow key={category.id}>
+                      <TableCell style={{ paddingLeft: 16 + depth * 16 }}>
+                        {depth > 0 && <span className="text-muted-foreground mr-1">└</span>}
+                        {category.name}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{category.slug}</TableCell>
+                      <TableCell>{renderActions('category', category)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold flex items-center gap-2">
+              <Tag className="h-4 w-4" />
+              ব্র্যান্ড
+            </h3>
+            <Button size="sm" variant="outline" onClick={() => openDialog('brand')}>
+              <Plus className="h-4 w-4 mr-1" />
+              নতুন ব্র্যান্ড
+            </Button>
+          </div>
+          {brands.length === 0 ? (
+            <p className="text-sm text-muted-foreground">কোনো ব্র্যান্ড নেই</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>নাম</TableHead>
+                    <TableHead>স্লাগ</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {brands.map((brand) => (
+                    <TableRow key={brand.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {brand.logo_url && (
+                            <img src={brand.logo_url} alt="" className="h-6 w-6 rounded object-contain" />
+                          )}
+                          {brand.name}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{brand.slug}</TableCell>
+                      <TableCell>{renderActions('brand', brand)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={kind !== null} onOpenChange={(open) => !open && setKind(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {kind && `${KIND_TEXT[kind]} ${draft.id ? 'সম্পাদনা করুন' : 'যোগ করুন'}`}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <Label htmlFor="catalog_name">নাম *</Label>
+              <Input
+                id="catalog_name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="catalog_slug">স্লাগ (URL)</Label>
+              <Input
+                id="catalog_slug"
+                value={draft.slug}
+                onChange={(e) => setDraft({ ...draft, slug: e.target.value })}
+                placeholder={draft.name ? slugify(draft.name) : 'earbuds'}
+                className="font-mono"
+              />
+              <p className="text-xs text-muted-foreground mt-1">খালি রাখলে নাম থেকে তৈরি হবে</p>
+            </div>
+            {kind === 'category' && (
+              <div>
+                <Label htmlFor="catalog_parent">মূল ক্যাটাগরি</Label>
+                <Select
+                  value={draft.parent_id || 'none'}
+                  onValueChange={(value) => setDraft({ ...draft, parent_id: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger id="catalog_parent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">নেই (শীর্ষ স্তর)</SelectItem>
+                    {parentOptions.map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {'— '.repeat(depth)}{category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {kind === 'brand' && (
+              <div>
+                <Label htmlFor="catalog_logo">লোগো URL</Label>
+                <Input
+                  id="catalog_logo"
+                  type="url"
+                  value={draft.logo_url}
+                  onChange={(e) => setDraft({ ...draft, logo_url: e.target.value })}
+                  placeholder="https://..."
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="catalog_sort">ক্রম</Label>
+              <Input
+                id="catalog_sort"
+                type="number"
+                value={draft.sort_order}
+                onChange={(e) => setDraft({ ...draft, sort_order: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              সংরক্ষণ করুন
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,549 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Edit, Loader2, Plus, Tag, Trash2 } from 'lucide-react';
+import { Coupon, DISCOUNT_TYPES, DiscountType, getDiscountTypeText } from '@/lib/coupons';
+
+interface CouponUsage {
+  coupon_id: string | null;
+  orders_count: number | null;
+  discount_total: number | null;
+  revenue_total: number | null;
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface CouponsEditorProps {
+  products: { id: string; name: string }[];
+}
+
+// Coupon being edited; numeric and date fields are kept as strings while typing
+interface CouponDraft {
+  id?: string;
+  code: string;
+  description: string;
+  discount_type: DiscountType;
+  discount_value: string;
+  max_discount: string;
+  min_order_amount: string;
+  starts_at: string;
+  expires_at: string;
+  usage_limit: string;
+  product_ids: string[];
+  category_ids: string[];
+  is_active: boolean;
+}
+
+const emptyDraft: CouponDraft = {
+  code: '',
+  description: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  max_discount: '',
+  min_order_amount: '0',
+  starts_at: '',
+  expires_at: '',
+  usage_limit: '',
+  product_ids: [],
+  category_ids: [],
+  is_active: true,
+};
+
+// <input type="datetime-local"> works in local time without a timezone
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const toDraft = (coupon: Coupon): CouponDraft => ({
+  id: coupon.id,
+  code: coupon.code,
+  description: coupon.description || '',
+  discount_type: coupon.discount_type,
+  discount_value: String(coupon.discount_value ?? ''),
+  max_discount: coupon.max_discount != null ? String(coupon.max_discount) : '',
+  min_order_amount: String(coupon.min_order_amount ?? 0),
+  starts_at: toLocalInput(coupon.starts_at),
+  expires_at: toLocalInput(coupon.expires_at),
+  usage_limit: coupon.usage_limit != null ? String(coupon.usage_limit) : '',
+  product_ids: coupon.product_ids || [],
+  category_ids: coupon.category_ids || [],
+  is_active: coupon.is_active,
+});
+
+const formatDiscount = (coupon: Coupon) => {
+  switch (coupon.discount_type) {
+    case 'percentage':
+      return `${coupon.discount_value}%${coupon.max_discount != null ? ` (সর্বোচ্চ ৳${coupon.max_discount})` : ''}`;
+    case 'fixed':
+      return `৳${Number(coupon.discount_value).toFixed(2)}`;
+    default:
+      return getDiscountTypeText(coupon.discount_type);
+  }
+};
+
+const getCouponState = (coupon: Coupon) => {
+  const now = new Date();
+  if (!coupon.is_active) return { label: 'নিষ্ক্রিয়', variant: 'outline' as const };
+  if (coupon.expires_at && new Date(coupon.expires_at) <= now) return { label: 'মেয়াদোত্তীর্ণ', variant: 'destructive' as const };
+  if (coupon.starts_at && new Date(coupon.starts_at) > now) return { label: 'নির্ধারিত', variant: 'secondary' as const };
+  return { label: 'চালু', variant: 'default' as const };
+};
+
+export const CouponsEditor = ({ products }: CouponsEditorProps) => {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [usage, setUsage] = useState<Record<string, CouponUsage>>({});
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<CouponDraft>(emptyDraft);
+
+  const fetchCoupons = async () => {
+    setLoading(true);
+    try {
+      const [couponsResult, usageResult, categoriesResult] = await Promise.all([
+        supabase.from('coupons').select('*').order('created_at', { ascending: false }),
+        supabase.from('coupon_usage').select('*'),
+        supabase.from('categories').select('id, name').order('sort_order', { ascending: true }),
+      ]);
+
+      if (couponsResult.error) throw couponsResult.error;
+      if (usageResult.error) throw usageResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+
+      setCoupons((couponsResult.data || []) as Coupon[]);
+      setUsage(
+        Object.fromEntries(
+          (usageResult.data || [])
+            .filter((row) => row.coupon_id)
+            .map((row) => [row.coupon_id as string, row])
+        )
+      );
+      setCategories(categoriesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching coupons:', error);
+      toast.error('কুপন লোড করতে সমস্যা হয়েছে');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCoupons();
+  }, []);
+
+  const updateDraft = (changes: Partial<CouponDraft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const toggleId = (field: 'product_ids' | 'category_ids', id: string, checked: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      [field]: checked ? [...prev[field], id] : prev[field].filter((existing) => existing !== id),
+    }));
+  };
+
+  const handleOpenDialog = (coupon?: Coupon) => {
+    setDraft(coupon ? toDraft(coupon) : emptyDraft);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const code = draft.code.trim().toUpperCase();
+    if (!code) {
+      toast.error('কুপন কোড প্রয়োজন');
+      return;
+    }
+
+    const discountValue = parseFloat(draft.discount_value) || 0;
+    if (draft.discount_type !== 'free_delivery' && discountValue <= 0) {
+      toast.error('ছাড়ের পরিমাণ দিন');
+      return;
+    }
+
+    if (draft.discount_type === 'percentage' && discountValue > 100) {
+      toast.error('শতাংশ ছাড় ১০০ এর বেশি হতে পারে না');
+      return;
+    }
+
+    if (draft.starts_at && draft.expires_at && draft.starts_at >= draft.expires_at) {
+      toast.error('মেয়াদ শেষের সময় শুরুর পরে হতে হবে');
+      return;
+    }
+
+    const couponData = {
+      code,
+      description: draft.description.trim() || null,
+      discount_type: draft.discount_type,
+      discount_value: draft.discount_type === 'free_delivery' ? 0 : discountValue,
+      max_discount: draft.discount_type === 'percentage' && draft.max_discount.trim()
+        ? parseFloat(draft.max_discount)
+        : null,
+      min_order_amount: parseFloat(draft.min_order_amount) || 0,
+      starts_at: fromLocalInput(draft.starts_at),
+      expires_at: fromLocalInput(draft.expires_at),
+      usage_limit: draft.usage_limit.trim() ? parseInt(draft.usage_limit) : null,
+      product_ids: draft.product_ids,
+      category_ids: draft.category_ids,
+      is_active: draft.is_active,
+    };
+
+    setSaving(true);
+    try {
+      if (draft.id) {
+        const { error } = await supabase
+          .from('coupons')
+          .update(couponData)
+          .eq('id', draft.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('coupons')
+          .insert(couponData);
+        if (error) throw error;
+      }
+
+      toast.success('কুপন সংরক্ষণ হয়েছে!');
+      setDialogOpen(false);
+      fetchCoupons();
+    } catch (error) {
+      console.error('Error saving coupon:', error);
+      const { code: errorCode, message } = error as { code?: string; message?: string };
+      if (errorCode === '23505') {
+        toast.error('এই কোডের কুপন আগে থেকেই আছে');
+      } else {
+        toast.error(message || 'কুপন সংরক্ষণ করতে সমস্যা হয়েছে');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('coupons')
+        .update({ is_active: isActive })
+        .eq('id', coupon.id);
+
+      if (error) throw error;
+      setCoupons((prev) => prev.map((c) => (c.id === coupon.id ? { ...c, is_active: isActive } : c)));
+    } catch (error) {
+      console.error('Error updating coupon:', error);
+      toast.error('কুপন আপডেট করতে সমস্যা হয়েছে');
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`আপনি কি নিশ্চিত "${coupon.code}" কুপনটি মুছে ফেলতে চান? পুরনো অর্ডারে কোডটি থেকে যাবে।`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('coupons')
+        .delete()
+        .eq('id', coupon.id);
+
+      if (error) throw error;
+      toast.success('কুপন মুছে ফেলা হয়েছে!');
+      fetchCoupons();
+    } catch (error) {
+      console.error('Error deleting coupon:', error);
+      toast.error('কুপন মুছতে সমস্যা হয়েছে');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Tag className="h-5 w-5" />
+              কুপন
+            </CardTitle>
+            <CardDescription>ডিসকাউন্ট কোড তৈরি করুন এবং এদের ব্যবহার দেখুন</CardDescription>
+          </div>
+          <Button onClick={() => handleOpenDialog()}>
+            <Plus className="h-4 w-4 mr-2" />
+            নতুন কুপন
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : coupons.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">কোন কুপন নেই</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>কোড</TableHead>
+                  <TableHead>ছাড়</TableHead>
+                  <TableHead>সর্বনিম্ন অর্ডার</TableHead>
+                  <TableHead>মেয়াদ</TableHead>
+                  <TableHead>ব্যবহার</TableHead>
+                  <TableHead>মোট ছাড়</TableHead>
+                  <TableHead>বিক্রয়</TableHead>
+                  <TableHead>সক্রিয়</TableHead>
+                  <TableHead>অ্যাকশন</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {coupons.map((coupon) => {
+                  const stats = usage[coupon.id];
+                  const state = getCouponState(coupon);
+                  return (
+                    <TableRow key={coupon.id} className="transition-colors hover:bg-muted/50">
+                      <TableCell>
+                        <p className="font-mono font-semibold">{coupon.code}</p>
+                        <Badge variant={state.variant} className="mt-1">{state.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p>{formatDiscount(coupon)}</p>
+                        {(coupon.product_ids.length > 0 || coupon.category_ids.length > 0) && (
+                          <p className="text-xs text-muted-foreground">
+                            নির্দিষ্ট {coupon.product_ids.length} টি পণ্য, {coupon.category_ids.length} টি ক্যাটাগরি
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>৳{Number(coupon.min_order_amount).toFixed(2)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {coupon.expires_at ? new Date(coupon.expires_at).toLocaleDateString('bn-BD') : 'সীমাহীন'}
+                      </TableCell>
+                      <TableCell>
+                        {stats?.orders_count ?? 0}
+                        {coupon.usage_limit != null && ` / ${coupon.usage_limit}`}
+                      </TableCell>
+                      <TableCell>৳{Number(stats?.discount_total ?? 0).toFixed(2)}</TableCell>
+                      <TableCell>৳{Number(stats?.revenue_total ?? 0).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={coupon.is_active}
+                          onCheckedChange={(checked) => handleToggleActive(coupon, checked)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button size="icon" variant="outline" onClick={() => handleOpenDialog(coupon)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="destructive" onClick={() => handleDelete(coupon)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="bg-muted/50 p-4 rounded-lg mt-6">
+          <p className="text-sm text-muted-foreground">
+            <strong>নোট:</strong> ব্যবহার, মোট ছাড় ও বিক্রয়ে বাতিল অর্ডার গোনা হয় না। কোন পণ্য বা ক্যাটাগরি নির্বাচন না করলে
+            ছাড় পুরো কার্টে প্রযোজ্য হবে।
+          </p>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft.id ? 'কুপন সম্পাদনা' : 'নতুন কুপন'}</DialogTitle>
+            <DialogDescription>কোডটি চেকআউটে বড় বা ছোট হাতের অক্ষরে লেখা যাবে</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="coupon_code">কোড *</Label>
+                <Input
+                  id="coupon_code"
+                  value={draft.code}
+                  onChange={(e) => updateDraft({ code: e.target.value })}
+                  placeholder="EID2025"
+                  className="font-mono uppercase"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="coupon_type">ধরন *</Label>
+                <Select
+                  value={draft.discount_type}
+                  onValueChange={(value) => updateDraft({ discount_type: value as DiscountType })}
+                >
+                  <SelectTrigger id="coupon_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DISCOUNT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{getDiscountTypeText(type)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="coupon_description">বিবরণ</Label>
+              <Input
+                id="coupon_description"
+                value={draft.description}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {draft.discount_type !== 'free_delivery' && (
+                <div>
+                  <Label htmlFor="coupon_value">
+                    {draft.discount_type === 'percentage' ? 'ছাড় (%) *' : 'ছাড় (৳) *'}
+                  </Label>
+                  <Input
+                    id="coupon_value"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.discount_value}
+                    onChange={(e) => updateDraft({ discount_value: e.target.value })}
+                  />
+                </div>
+              )}
+              {draft.discount_type === 'percentage' && (
+                <div>
+                  <Label htmlFor="coupon_max">সর্বোচ্চ ছাড় (৳)</Label>
+                  <Input
+                    id="coupon_max"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.max_discount}
+                    onChange={(e) => updateDraft({ max_discount: e.target.value })}
+                    placeholder="সীমাহীন"
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="coupon_min">সর্বনিম্ন অর্ডার (৳)</Label>
+                <Input
+                  id="coupon_min"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.min_order_amount}
+                  onChange={(e) => updateDraft({ min_order_amount: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="coupon_starts">শুরু</Label>
+                <Input
+                  id="coupon_starts"
+                  type="datetime-local"
+                  value={draft.starts_at}
+                  onChange={(e) => updateDraft({ starts_at: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="coupon_expires">মেয়াদ শেষ</Label>
+                <Input
+                  id="coupon_expires"
+                  type="datetime-local"
+                  value={draft.expires_at}
+                  onChange={(e) => updateDraft({ expires_at: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="coupon_limit">ব্যবহারের সীমা</Label>
+                <Input
+                  id="coupon_limit"
+                  type="number"
+                  min="1"
+                  value={draft.usage_limit}
+                  onChange={(e) => updateDraft({ usage_limit: e.target.value })}
+                  placeholder="সীমাহীন"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>নির্দিষ্ট পণ্য ({draft.product_ids.length} টি নির্বাচিত)</Label>
+              <ScrollArea className="h-32 rounded-md border mt-2 p-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {products.map((product) => (
+                    <label key={product.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={draft.product_ids.includes(product.id)}
+                        onCheckedChange={(checked) => toggleId('product_ids', product.id, checked === true)}
+                      />
+                      <span className="truncate">{product.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+
+            <div>
+              <Label>নির্দিষ্ট ক্যাটাগরি ({draft.category_ids.length} টি নির্বাচিত)</Label>
+              {categories.length === 0 ? (
+                <p className="text-xs text-muted-foreground mt-1">কোন ক্যাটাগরি নেই</p>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 rounded-md border mt-2 p-3">
+                  {categories.map((category) => (
+                    <label key={category.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={draft.category_ids.includes(category.id)}
+                        onCheckedChange={(checked) => toggleId('category_ids', category.id, checked === true)}
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={draft.is_active}
+                onCheckedChange={(checked) => updateDraft({ is_active: checked })}
+              />
+              সক্রিয়
+            </label>
+
+            <Button type="submit" className="w-full" disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {draft.id ? 'আপডেট করুন' : 'কুপন তৈরি করুন'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
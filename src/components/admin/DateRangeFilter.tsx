@@ -0,0 +1,47 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DateRange, REPORT_RANGE_PRESETS, lastDays } from '@/lib/reports';
+
+interface DateRangeFilterProps {
+  id: string;
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+// Preset buttons for the last 7 / 30 / 90 days plus start and end dates
+export const DateRangeFilter = ({ id, value, onChange }: DateRangeFilterProps) => (
+  <div className="flex flex-wrap items-end gap-2">
+    {REPORT_RANGE_PRESETS.map((days) => {
+      const preset = lastDays(days);
+      const active = preset.from === value.from && preset.to === value.to;
+      return (
+        <Button key={days} variant={active ? 'default' : 'outline'} size="sm" onClick={() => onChange(preset)}>
+          {days} দিন
+        </Button>
+      );
+    })}
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-from`} className="text-xs">শুরু</Label>
+      <Input
+        id={`${id}-from`}
+        type="date"
+        value={value.from}
+        max={value.to}
+        onChange={(e) => onChange({ ...value, from: e.target.value })}
+        className="h-9"
+      />
+    </div>
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-to`} className="text-xs">শেষ</Label>
+      <Input
+        id={`${id}-to`}
+        type="date"
+        value={value.to}
+        min={value.from}
+        onChange={(e) => onChange({ ...value, to: e.target.value })}
+        className="h-9"
+      />
+    </div>
+  </div>
+);
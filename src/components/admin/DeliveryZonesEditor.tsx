@@ -0,0 +1,414 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2, Plus, Save, Settings, Trash2 } from 'lucide-react';
+import { DISTRICTS } from '@/lib/districts';
+import { DeliveryZone } from '@/lib/delivery';
+
+// Zone being edited; numeric fields are kept as strings while typing
+interface ZoneDraft {
+  id?: string;
+  code: string;
+  name: string;
+  districts: string[];
+  subAreas: string;
+  base_charge: string;
+  per_extra_item_charge: string;
+  included_weight_kg: string;
+  weight_surcharge_per_kg: string;
+  free_delivery_threshold: string;
+  delivery_cost: string;
+  is_default: boolean;
+  is_active: boolean;
+  sort_order: string;
+}
+
+const districtNames = new Set(DISTRICTS.map((d) => d.name));
+
+const toDraft = (zone: DeliveryZone): ZoneDraft => ({
+  id: zone.id,
+  code: zone.code,
+  name: zone.name,
+  districts: (zone.areas || []).filter((area) => districtNames.has(area)),
+  subAreas: (zone.areas || []).filter((area) => !districtNames.has(area)).join(', '),
+  base_charge: String(zone.base_charge ?? 0),
+  per_extra_item_charge: String(zone.per_extra_item_charge ?? 0),
+  included_weight_kg: String(zone.included_weight_kg ?? 1),
+  weight_surcharge_per_kg: String(zone.weight_surcharge_per_kg ?? 0),
+  free_delivery_threshold: zone.free_delivery_threshold != null ? String(zone.free_delivery_threshold) : '',
+  delivery_cost: String(zone.delivery_cost ?? 0),
+  is_default: zone.is_default,
+  is_active: zone.is_active,
+  sort_order: String(zone.sort_order ?? 0),
+});
+
+const emptyDraft = (sortOrder: number): ZoneDraft => ({
+  code: '',
+  name: '',
+  districts: [],
+  subAreas: '',
+  base_charge: '0',
+  per_extra_item_charge: '0',
+  included_weight_kg: '1',
+  weight_surcharge_per_kg: '0',
+  free_delivery_threshold: '',
+  delivery_cost: '0',
+  is_default: false,
+  is_active: true,
+  sort_order: String(sortOrder),
+});
+
+export const DeliveryZonesEditor = () => {
+  const [zones, setZones] = useState<ZoneDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+
+  const fetchZones = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('delivery_zones')
+        .select('*')
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setZones(((data || []) as DeliveryZone[]).map(toDraft));
+    } catch (error) {
+      console.error('Error fetching delivery zones:', error);
+      toast.error('ডেলিভারি জোন লোড করতে সমস্যা হয়েছে');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchZones();
+  }, []);
+
+  const updateDraft = (index: number, changes: Partial<ZoneDraft>) => {
+    setZones((prev) => prev.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)));
+  };
+
+  const toggleDistrict = (index: number, district: string, checked: boolean) => {
+    const zone = zones[index];
+    const districts = checked
+      ? [...zone.districts, district]
+      : zone.districts.filter((d) => d !== district);
+    updateDraft(index, { districts });
+  };
+
+  const handleSave = async (index: number) => {
+    const zone = zones[index];
+
+    if (!zone.name.trim() || !zone.code.trim()) {
+      toast.error('জোনের নাম ও কোড প্রয়োজন');
+      return;
+    }
+
+    const subAreas = zone.subAreas
+      .split(',')
+      .map((area) => area.trim())
+      .filter(Boolean);
+
+    const zoneData = {
+      code: zone.code.trim(),
+      name: zone.name.trim(),
+      areas: [...zone.districts, ...subAreas],
+      base_charge: parseFloat(zone.base_charge) || 0,
+      per_extra_item_charge: parseFloat(zone.per_extra_item_charge) || 0,
+      included_weight_kg: parseFloat(zone.included_weight_kg) || 0,
+      weight_surcharge_per_kg: parseFloat(zone.weight_surcharge_per_kg) || 0,
+      free_delivery_threshold: zone.free_delivery_threshold.trim() ? parseFloat(zone.free_delivery_threshold) : null,
+      delivery_cost: parseFloat(zone.delivery_cost) || 0,
+      is_default: zone.is_default,
+      is_active: zone.is_active,
+      sort_order: parseInt(zone.sort_order) || 0,
+    };
+
+    setSavingIndex(index);
+    try {
+      // Only one default zone is allowed, so clear the old one first
+      if (zoneData.is_default) {
+        const { error: defaultError } = await supabase
+          .from('delivery_zones')
+          .update({ is_default: false })
+          .eq('is_default', true)
+          .neq('id', zone.id ?? '00000000-0000-0000-0000-000000000000');
+        if (defaultError) throw defaultError;
+      }
+
+      if (zone.id) {
+        const { error } = await supabase
+          .from('delivery_zones')
+          .update(zoneData)
+          .eq('id', zone.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('delivery_zones')
+          .insert(zoneData);
+        if (error) throw error;
+      }
+
+      toast.success('ডেলিভারি জোন সংরক্ষণ হয়েছে!');
+      fetchZones();
+    } catch (error) {
+      console.error('Error saving delivery zone:', error);
+      toast.error((error as { message?: string }).message || 'ডেলিভারি জোন সংরক্ষণ করতে সমস্যা হয়েছে');
+    } finally {
+      setSavingIndex(null);
+    }
+  };
+
+  const handleDelete = async (index: number) => {
+    const zone = zones[index];
+
+    if (!zone.id) {
+      setZones((prev) => prev.filter((_, i) => i !== index));
+      return;
+    }
+
+    if (!confirm(`আপনি কি নিশ্চিত "${zone.name}" জোনটি মুছে ফেলতে চান?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('delivery_zones')
+        .delete()
+        .eq('id', zone.id);
+
+      if (error) throw error;
+      toast.success('ডেলিভারি জোন মুছে ফেলা হয়েছে!');
+      fetchZones();
+    } catch (error) {
+      console.error('Error deleting delivery zone:', error);
+      toast.error('ডেলিভারি জোন মুছতে সমস্যা হয়েছে');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Settings className="h-5 w-5" />
+              ডেলিভারি জোন
+            </CardTitle>
+            <CardDescription>
+              জেলা বা এলাকা অনুযায়ী জোন তৈরি করুন এবং প্রতিটি জোনের ডেলিভারি চার্জ নির্ধারণ করুন
+            </CardDescription>
+          </div>
+          <Button onClick={() => setZones((prev) => [...prev, emptyDraft(prev.length + 1)])}>
+            <Plus className="h-4 w-4 mr-2" />
+            নতুন জোন
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : zones.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">কোন ডেলিভারি জোন নেই</p>
+        ) : (
+          zones.map((zone, index) => (
+            <Card key={zone.id ?? `new-${index}`} className="border-2 border-border">
+              <CardHeader className="pb-4">
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="text-lg">{zone.name || 'নতুন জোন'}</CardTitle>
+                  <div className="flex gap-2">
+                    {zone.is_default && <Badge variant="secondary">ডিফল্ট</Badge>}
+                    {!zone.is_active && <Badge variant="outline">নিষ্ক্রিয়</Badge>}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor={`zone_name_${index}`}>নাম</Label>
+                    <Input
+                      id={`zone_name_${index}`}
+                      value={zone.name}
+                      onChange={(e) => updateDraft(index, { name: e.target.value })}
+                      placeholder="যেমন: ঢাকা সিটি"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`zone_code_${index}`}>কোড</Label>
+                    <Input
+                      id={`zone_code_${index}`}
+                      value={zone.code}
+                      onChange={(e) => updateDraft(index, { code: e.target.value })}
+                      placeholder="dhaka_city"
+                      className="font-mono"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`zone_sort_${index}`}>ক্রম</Label>
+                    <Input
+                      id={`zone_sort_${index}`}
+                      type="number"
+                      value={zone.sort_order}
+                      onChange={(e) => updateDraft(index, { sort_order: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4">
+                  <div>
+                    <Label htmlFor={`zone_base_${index}`}>মূল চার্জ (৳)</Label>
+                    <Input
+                      id={`zone_base_${index}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={zone.base_charge}
+                      onChange={(e) => updateDraft(index, { base_charge: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`zone_extra_${index}`}>প্রতি অতিরিক্ত পণ্য (৳)</Label>
+                    <Input
+                      id={`zone_extra_${index}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={zone.per_extra_item_charge}
+                      onChange={(e) => updateDraft(index, { per_extra_item_charge: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`zone_weight_${index}`}>ফ্রি ওজন (কেজি)</Label>
+                    <Input
+                      id={`zone_weight_${index}`}
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={zone.included_weight_kg}
+                      onChange={(e) => updateDraft(index, { included_weight_kg: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`zone_surcharge_${index}`}>প্রতি অতিরিক্ত কেজি (৳)</Label>
+                    <Input
+                      id={`zone_surcharge_${index}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={zone.weight_surcharge_per_kg}
+                      onChange={(e) => updateDraft(index, { weight_surcharge_per_kg: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`zone_free_${index}`}>ফ্রি ডেলিভারি (৳ থেকে)</Label>
+                    <Input
+                      id={`zone_free_${index}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={zone.free_delivery_threshold}
+                      onChange={(e) => updateDraft(index, { free_delivery_threshold: e.target.value })}
+                      placeholder="বন্ধ"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`zone_cost_${index}`}>কুরিয়ার খরচ (৳)</Label>
+                    <Input
+                      id={`zone_cost_${index}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={zone.delivery_cost}
+                      onChange={(e) => updateDraft(index, { delivery_cost: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label>জেলা ({zone.districts.length} টি নির্বাচিত)</Label>
+                  <ScrollArea className="h-40 rounded-md border mt-2 p-3">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+                      {DISTRICTS.map((district) => (
+                        <label key={district.name} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={zone.districts.includes(district.name)}
+                            onCheckedChange={(checked) => toggleDistrict(index, district.name, checked === true)}
+                          />
+                          {district.bn}
+                        </label>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+
+                <div>
+                  <Label htmlFor={`zone_areas_${index}`}>অন্যান্য এলাকা (কমা দিয়ে আলাদা করুন)</Label>
+                  <Input
+                    id={`zone_areas_${index}`}
+                    value={zone.subAreas}
+                    onChange={(e) => updateDraft(index, { subAreas: e.target.value })}
+                    placeholder="Savar, Keraniganj"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    এখানে দেওয়া এলাকাগুলো চেকআউটের তালিকায় আলাদাভাবে দেখাবে
+                  </p>
+                </div>
+
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-2 border-t">
+                  <div className="flex flex-wrap items-center gap-6">
+                    <label className="flex items-center gap-2 text-sm">
+                      <Switch
+                        checked={zone.is_active}
+                        onCheckedChange={(checked) => updateDraft(index, { is_active: checked })}
+                      />
+                      সক্রিয়
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Switch
+                        checked={zone.is_default}
+                        onCheckedChange={(checked) => updateDraft(index, { is_default: checked })}
+                      />
+                      অন্য সব এলাকার জন্য ডিফল্ট
+                    </label>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="destructive" onClick={() => handleDelete(index)}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      মুছুন
+                    </Button>
+                    <Button onClick={() => handleSave(index)} disabled={savingIndex === index}>
+                      {savingIndex === index ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Save className="h-4 w-4 mr-2" />
+                      )}
+                      সংরক্ষণ করুন
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+
+        <div className="bg-muted/50 p-4 rounded-lg">
+          <p className="text-sm text-muted-foreground">
+            <strong>নোট:</strong> ডেলিভারি চার্জ = মূল চার্জ + প্রথমটির পরে প্রতি পণ্যের চার্জ + ফ্রি ওজনের পরে প্রতি কেজির চার্জ।
+            অর্ডারের মূল্য ফ্রি ডেলিভারির সীমা ছুঁলে চার্জ শূন্য। কোন জোনে না থাকা জেলা ডিফল্ট জোনে পড়বে।
+            পরিবর্তন শুধু নতুন অর্ডারে প্রযোজ্য হবে।
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
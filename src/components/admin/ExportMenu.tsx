@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { CalendarRange, Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { DateRangeFilter } from '@/components/admin/DateRangeFilter';
+import type { CsvValue } from '@/lib/csv';
+import { ExportFormat, exportRows } from '@/lib/export';
+import { DateRange, lastDays, toDateInput } from '@/lib/reports';
+
+interface ExportMenuProps {
+  // File name without extension, e.g. "orders"
+  basename: string;
+  // Rows (header first) of what the table currently shows
+  getRows: () => CsvValue[][];
+  // Rows for a date range; without it only the current view can be exported
+  getRangeRows?: (range: DateRange) => Promise<CsvValue[][]>;
+}
+
+export const ExportMenu = ({ basename, getRows, getRangeRows }: ExportMenuProps) => {
+  const [rangeOpen, setRangeOpen] = useState(false);
+  const [range, setRange] = useState<DateRange>(() => lastDays(30));
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [exporting, setExporting] = useState(false);
+
+  const exportCurrent = async (fileFormat: ExportFormat) => {
+    const rows = getRows();
+    if (rows.length <= 1) {
+      toast.error('এক্সপোর্ট করার মতো কিছু নেই');
+      return;
+    }
+    try {
+      await exportRows(`${basename}-${toDateInput(new Date())}`, rows, fileFormat);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error('এক্সপোর্ট করতে সমস্যা হয়েছে');
+    }
+  };
+
+  const exportRange = async () => {
+    if (!getRangeRows) return;
+
+    setExporting(true);
+    try {
+      const rows = await getRangeRows(range);
+      if (rows.length <= 1) {
+        toast.error('এই সময়ে কোন তথ্য নেই');
+        return;
+      }
+      await exportRows(`${basename}-${range.from}-${range.to}`, rows, format);
+      setRangeOpen(false);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error('এক্সপোর্ট করতে সমস্যা হয়েছে');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-full sm:w-auto">
+            <Download className="h-4 w-4 mr-2" />
+            এক্সপোর্ট
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>বর্তমান তালিকা</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => exportCurrent('xlsx')}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Excel (.xlsx)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => exportCurrent('csv')}>
+            <FileText className="h-4 w-4 mr-2" />
+            CSV
+          </DropdownMenuItem>
+          {getRangeRows && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setRangeOpen(true)}>
+                <CalendarRange className="h-4 w-4 mr-2" />
+                তারিখ অনুযায়ী...
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {getRangeRows && (
+        <Dialog open={rangeOpen} onOpenChange={setRangeOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>তারিখ অনুযায়ী এক্সপোর্ট</DialogTitle>
+              <DialogDescription>নির্বাচিত সময়ের সব তথ্য ডাউনলোড করুন</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <DateRangeFilter id={`${basename}-export`} value={range} onChange={setRange} />
+              <RadioGroup
+                value={format}
+                onValueChange={(value) => setFormat(value as ExportFormat)}
+                className="flex gap-6"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="xlsx" id={`${basename}-export-xlsx`} />
+                  <Label htmlFor={`${basename}-export-xlsx`}>Excel (.xlsx)</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="csv" id={`${basename}-export-csv`} />
+                  <Label htmlFor={`${basename}-export-csv`}>CSV</Label>
+                </div>
+              </RadioGroup>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRangeOpen(false)} disabled={exporting}>
+                বাতিল
+              </Button>
+              <Button onClick={exportRange} disabled={exporting || !range.from || !range.to}>
+                {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                ডাউনলোড
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+};
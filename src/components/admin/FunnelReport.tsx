@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Filter as FunnelIcon, Loader2 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { DateRangeFilter } from '@/components/admin/DateRangeFilter';
+import { DateRange, formatRate, lastDays, toReportArgs } from '@/lib/reports';
+
+// Shape returned by the activity_funnel() function
+interface FunnelProductRow {
+  product_id: string;
+  name: string | null;
+  viewed: number;
+  carted: number;
+  ordered: number;
+  cart_rate: number | null;
+  order_rate: number | null;
+}
+
+interface FunnelReferrerRow {
+  source: string;
+  sessions: number;
+  viewed: number;
+  carted: number;
+  ordered: number;
+  conversion_rate: number | null;
+}
+
+interface FunnelData {
+  sessions: number;
+  viewed: number;
+  carted: number;
+  ordered: number;
+  cart_abandonment_rate: number | null;
+  avg_seconds_to_purchase: number | null;
+  products: FunnelProductRow[];
+  referrers: FunnelReferrerRow[];
+}
+
+const stepRate = (count: number, previous: number) =>
+  previous > 0 ? Math.round((count / previous) * 1000) / 10 : null;
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds == null) return '—';
+  if (seconds < 60) return `${seconds} সেকেন্ড`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} মিনিট`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)} ঘণ্টা`;
+  return `${(seconds / 86400).toFixed(1)} দিন`;
+};
+
+export const FunnelReport = () => {
+  const [range, setRange] = useState<DateRange>(() => lastDays(30));
+  const [funnel, setFunnel] = useState<FunnelData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!range.from || !range.to) return;
+
+    let cancelled = false;
+    const fetchFunnel = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase.rpc('activity_funnel', toReportArgs(range));
+
+        if (error) throw error;
+        if (!cancelled) setFunnel(data as unknown as FunnelData);
+      } catch (error) {
+        console.error('Error fetching funnel:', error);
+        toast.error('ফানেল রিপোর্ট লোড করতে সমস্যা হয়েছে');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchFunnel();
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
+  const steps = funnel
+    ? [
+        { step: 'পণ্য দেখা', sessions: funnel.viewed, rate: null },
+        { step: 'কার্টে যোগ', sessions: funnel.carted, rate: stepRate(funnel.carted, funnel.viewed) },
+        { step: 'অর্ডার', sessions: funnel.ordered, rate: stepRate(funnel.ordered, funnel.carted) },
+      ]
+    : [];
+
+  return (
+    <Card className="transition-all duration-300 hover:shadow-lg">
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row justify-between items-start lg:items-end gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+              <FunnelIcon className="h-5 w-5" />
+              কনভার্শন ফানেল
+            </CardTitle>
+            <CardDescription className="text-sm">
+              সেশন অনুযায়ী পণ্য দেখা → কার্টে যোগ → অর্ডার
+            </CardDescription>
+          </div>
+          <DateRangeFilter id="funnel" value={range} onChange={setRange} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && !funnel ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : funnel ? (
+          <div className={`space-y-6 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+              {steps.map((item) => (
+                <div key={item.step} className="rounded-lg border p-3">
+                  <p className="text-xs text-muted-foreground">{item.step}</p>
+                  <p className="text-2xl font-bold">{item.sessions}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {item.rate == null ? `${funnel.sessions} সেশনের মধ্যে` : `আগের ধাপ থেকে ${formatRate(item.rate)}`}
+                  </p>
+                </div>
+              ))}
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">কার্ট পরিত্যাগ</p>
+                <p className="text-2xl font-bold text-destructive">{formatRate(funnel.cart_abandonment_rate)}</p>
+                <p className="text-xs text-muted-foreground">অর্ডার ছাড়া কার্ট</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">কেনা পর্যন্ত গড় সময়</p>
+                <p className="text-2xl font-bold">{formatDuration(funnel.avg_seconds_to_purchase)}</p>
+                <p className="text-xs text-muted-foreground">প্রথম পণ্য দেখা থেকে</p>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={steps} layout="vertical" margin={{ left: 16 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="step" width={90} />
+                <Tooltip formatter={(value: number) => [value, 'সেশন']} />
+                <Bar dataKey="sessions" fill="#8b5cf6" name="সেশন" />
+              </BarChart>
+            </ResponsiveContainer>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <h3 className="font-semibold">পণ্য অনুযায়ী</h3>
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>পণ্য</TableHead>
+                        <TableHead className="text-right">দেখা</TableHead>
+                        <TableHead className="text-right">কার্ট</TableHead>
+                        <TableHead className="text-right">অর্ডার</TableHead>
+                        <TableHead className="text-right">কার্ট রেট</TableHead>
+                        <TableHead className="text-right">অর্ডার রেট</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {funnel.products.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center text-muted-foreground">
+                            কোন ডেটা নেই
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        funnel.products.map((row) => (
+                          <TableRow key={row.product_id}>
+                            <TableCell className="max-w-[200px] truncate font-medium">{row.name || '—'}</TableCell>
+                            <TableCell className="text-right">{row.viewed}</TableCell>
+                            <TableCell className="text-right">{row.carted}</TableCell>
+                            <TableCell className="text-right">{row.ordered}</TableCell>
+                            <TableCell className="text-right">{formatRate(row.cart_rate)}</TableCell>
+                            <TableCell className="text-right">{formatRate(row.order_rate)}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-semibold">রেফারার অনুযায়ী</h3>
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>উৎস</TableHead>
+                        <TableHead className="text-right">সেশন</TableHead>
+                        <TableHead className="text-right">দেখা</TableHead>
+                        <TableHead className="text-right">কার্ট</TableHead>
+                        <TableHead className="text-right">অর্ডার</TableHead>
+                        <TableHead className="text-right">কনভার্শন</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {funnel.referrers.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center text-muted-foreground">
+                            কোন ডেটা নেই
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        funnel.referrers.map((row) => (
+                          <TableRow key={row.source}>
+                            <TableCell className="font-medium">{row.source === 'direct' ? 'সরাসরি' : row.source}</TableCell>
+                            <TableCell className="text-right">{row.sessions}</TableCell>
+                            <TableCell className="text-right">{row.viewed}</TableCell>
+                            <TableCell className="text-right">{row.carted}</TableCell>
+                            <TableCell className="text-right">{row.ordered}</TableCell>
+                            <TableCell className="text-right">{formatRate(row.conversion_rate)}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </div>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+};
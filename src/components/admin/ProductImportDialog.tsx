@@ -0,0 +1,443 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { CheckCircle2, Download, Loader2, Upload, XCircle } from 'lucide-react';
+import { exportRows } from '@/lib/export';
+import {
+  IMPORT_TEMPLATE,
+  ImportMatchBy,
+  ImportRow,
+  ImportTarget,
+  PlannedImportRow,
+  parseProductCsv,
+  planImport,
+} from '@/lib/productImport';
+
+interface ProductImportDialogProps {
+  // Called after an import so the product list can be refreshed
+  onImported: () => void;
+}
+
+interface ImportResult {
+  line: number;
+  name: string;
+  status: 'created' | 'updated' | 'failed' | 'skipped';
+  messages: string[];
+}
+
+// The edge function copies at most this many images per call
+const IMAGE_BATCH_SIZE = 10;
+
+const IMAGE_ERRORS: Record<string, string> = {
+  invalid_url: 'লিংক সঠিক নয়',
+  blocked_host: 'এই ঠিকানা থেকে ডাউনলোড করা যায় না',
+  download_failed: 'ডাউনলোড করা যায়নি',
+  not_an_image: 'ছবি নয়',
+  too_large: '১০MB এর বেশি',
+  upload_failed: 'আপলোড করা যায়নি',
+};
+
+const imageErrorText = (code: string) =>
+  IMAGE_ERRORS[code] || (code.startsWith('http_') ? `সার্ভার ${code.slice(5)} ফেরত দিয়েছে` : code);
+
+const ACTION_BADGES: Record<PlannedImportRow['action'], { label: string; className: string }> = {
+  create: { label: 'নতুন', className: 'bg-green-500' },
+  update: { label: 'আপডেট', className: 'bg-blue-500' },
+  invalid: { label: 'ভুল', className: 'bg-red-500' },
+};
+
+export const ProductImportDialog = ({ onImported }: ProductImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ReturnType<typeof parseProductCsv> | null>(null);
+  const [matchBy, setMatchBy] = useState<ImportMatchBy>('sku');
+  const [existing, setExisting] = useState<ImportTarget[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  // Bumped on reset so the next file is matched against the products the last import created
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const reset = () => {
+    setFileName('');
+    setParsed(null);
+    setResults(null);
+    setProgress(0);
+    setReloadKey((key) => key + 1);
+  };
+
+  // Fresh list of products to match against every time the dialog opens or is reset
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchExisting = async () => {
+      try {
+        const { data, error } = await supabase.from('products').select('id, name, sku, has_variants');
+        if (error) throw error;
+        setExisting(data || []);
+      } catch (error) {
+        console.error('Error fetching products for import:', error);
+        toast.error('পণ্য লোড করতে সমস্যা হয়েছে');
+      }
+    };
+
+    fetchExisting();
+  }, [open, reloadKey]);
+
+  const planned = useMemo(
+    () => (parsed ? planImport(parsed.rows, matchBy, existing) : []),
+    [parsed, matchBy, existing]
+  );
+  const counts = useMemo(
+    () => ({
+      create: planned.filter((row) => row.action === 'create').length,
+      update: planned.filter((row) => row.action === 'update').length,
+      invalid: planned.filter((row) => row.action === 'invalid').length,
+    }),
+    [planned]
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const result = parseProductCsv(await file.text());
+      if (result.rows.length === 0) {
+        toast.error('ফাইলে কোন পণ্য নেই');
+        return;
+      }
+      setFileName(file.name);
+      setParsed(result);
+      setResults(null);
+      // Without a SKU column the only way to match is by name
+      if (!result.rows.some((row) => row.sku)) setMatchBy('name');
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      toast.error('ফাইল পড়তে সমস্যা হয়েছে');
+    }
+  };
+
+  // Copies the row's remote images into the bucket; the same URL is only copied once per import
+  const copyImages = async (urls: string[], cache: Map<string, string>) => {
+    const copied: string[] = [];
+    const errors: string[] = [];
+    const pending = urls.filter((url) => !cache.has(url));
+
+    for (let i = 0; i < pending.length; i += IMAGE_BATCH_SIZE) {
+      const batch = pending.slice(i, i + IMAGE_BATCH_SIZE);
+      const { data, error } = await supabase.functions.invoke('import-product-images', { body: { urls: batch } });
+
+      if (error) {
+        console.error('Error copying images:', error);
+        batch.forEach((url) => errors.push(`${url}: ${imageErrorText('upload_failed')}`));
+        continue;
+      }
+
+      for (const result of (data?.results || []) as { source: string; url?: string; error?: string }[]) {
+        if (result.url) cache.set(result.source, result.url);
+        else errors.push(`${result.source}: ${imageErrorText(result.error || 'upload_failed')}`);
+      }
+    }
+
+    for (const url of urls) {
+      const stored = cache.get(url);
+      if (stored) copied.push(stored);
+    }
+    return { copied, errors };
+  };
+
+  const importRow = async (row: PlannedImportRow, imageCache: Map<string, string>): Promise<ImportResult> => {
+    const result: ImportResult = {
+      line: row.line,
+      name: row.name || row.target?.name || row.sku || '',
+      status: row.target ? 'updated' : 'created',
+      messages: [],
+    };
+
+    const data: TablesUpdate<'products'> = {};
+    if (row.sku) data.sku = row.sku;
+    if (row.name) data.name = row.name;
+    if (row.description != null) data.description = row.description;
+    if (row.price != null) data.price = row.price;
+    if (row.cost_price != null) data.cost_price = row.cost_price;
+    if (row.priority != null) data.priority = row.priority;
+    if (row.stock != null) {
+      // Stock of a product with variants is the sum of its variants, kept by the database
+      if (row.target?.has_variants) result.messages.push('ভ্যারিয়েন্ট পণ্যের স্টক বদলানো হয়নি');
+      else data.stock = row.stock;
+    }
+
+    if (row.image_urls.length > 0) {
+      const { copied, errors } = await copyImages(row.image_urls, imageCache);
+      result.messages.push(...errors);
+      if (copied.length > 0) {
+        data.images = copied;
+        data.image_url = copied[0];
+      }
+    }
+
+    const { error } = row.target
+      ? await supabase.from('products').update(data).eq('id', row.target.id)
+      : await supabase.from('products').insert({ ...data, name: row.name!, price: row.price!, stock: row.stock ?? 0 });
+
+    if (error) {
+      console.error(`Error importing line ${row.line}:`, error);
+      result.status = 'failed';
+      result.messages.unshift(error.code === '23505' ? 'এই SKU অন্য পণ্যে আছে' : error.message);
+    }
+    return result;
+  };
+
+  const handleImport = async () => {
+    const valid = planned.filter((row) => row.action !== 'invalid');
+    if (valid.length === 0) return;
+
+    setImporting(true);
+    setProgress(0);
+    const imageCache = new Map<string, string>();
+    const done: ImportResult[] = planned
+      .filter((row) => row.action === 'invalid')
+      .map((row) => ({ line: row.line, name: row.name || row.sku || '', status: 'skipped', messages: row.errors }));
+
+    try {
+      for (let i = 0; i < valid.length; i++) {
+        done.push(await importRow(valid[i], imageCache));
+        setProgress(Math.round(((i + 1) / valid.length) * 100));
+      }
+    } finally {
+      setImporting(false);
+      setResults(done.sort((a, b) => a.line - b.line));
+      onImported();
+    }
+  };
+
+  const summary = results && {
+    created: results.filter((r) => r.status === 'created').length,
+    updated: results.filter((r) => r.status === 'updated').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    skipped: results.filter((r) => r.status === 'skipped').length,
+  };
+
+  const formatRow = (row: ImportRow) =>
+    [row.price != null && `৳${row.price}`, row.stock != null && `স্টক ${row.stock}`].filter(Boolean).join(' · ');
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (importing) return;
+        if (!next) reset();
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-auto">
+          <Upload className="h-4 w-4 mr-2" />
+          ইমপোর্ট
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>CSV থেকে পণ্য ইমপোর্ট</DialogTitle>
+          <DialogDescription>
+            কলাম: sku, name, description, price, cost_price, stock, priority, image_urls (একাধিক লিংক | দিয়ে আলাদা করুন)
+          </DialogDescription>
+        </DialogHeader>
+
+        {results && summary ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">নতুন যোগ</p>
+                <p className="text-2xl font-bold text-green-600">{summary.created}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">আপডেট</p>
+                <p className="text-2xl font-bold text-blue-600">{summary.updated}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">ব্যর্থ</p>
+                <p className="text-2xl font-bold text-destructive">{summary.failed}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">বাদ (ভুল সারি)</p>
+                <p className="text-2xl font-bold text-muted-foreground">{summary.skipped}</p>
+              </div>
+            </div>
+
+            <ScrollArea className="h-72 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">সারি</TableHead>
+                    <TableHead>পণ্য</TableHead>
+                    <TableHead>ফলাফল</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => (
+                    <TableRow key={result.line}>
+                      <TableCell>{result.line}</TableCell>
+                      <TableCell className="font-medium">{result.name || '—'}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {result.status === 'created' || result.status === 'updated' ? (
+                            <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+                          ) : (
+                            <XCircle className="h-4 w-4 text-destructive shrink-0" />
+                          )}
+                          <span className="text-sm">
+                            {{ created: 'যোগ হয়েছে', updated: 'আপডেট হয়েছে', failed: 'ব্যর্থ', skipped: 'বাদ দেওয়া হয়েছে' }[result.status]}
+                          </span>
+                        </div>
+                        {result.messages.map((message) => (
+                          <p key={message} className="text-xs text-muted-foreground break-all">{message}</p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+              <div className="flex-1">
+                <Label htmlFor="product-import-file">CSV ফাইল</Label>
+                <Input
+                  id="product-import-file"
+                  type="file"
+                  accept=".csv,text/csv"
+                  disabled={importing}
+                  onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+              <Button variant="outline" onClick={() => exportRows('product-import-template', IMPORT_TEMPLATE, 'csv')}>
+                <Download className="h-4 w-4 mr-2" />
+                নমুনা ফাইল
+              </Button>
+            </div>
+
+            {parsed && (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <RadioGroup
+                    value={matchBy}
+                    onValueChange={(value) => setMatchBy(value as ImportMatchBy)}
+                    className="flex gap-6"
+                    disabled={importing}
+                  >
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="sku" id="import-match-sku" />
+                      <Label htmlFor="import-match-sku">SKU দিয়ে মেলান</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="name" id="import-match-name" />
+                      <Label htmlFor="import-match-name">নাম দিয়ে মেলান</Label>
+                    </div>
+                  </RadioGroup>
+                  <p className="text-sm text-muted-foreground">
+                    {fileName}: {counts.create} নতুন, {counts.update} আপডেট, {counts.invalid} ভুল
+                  </p>
+                </div>
+
+                {parsed.missingColumns.length > 0 && (
+                  <p className="text-sm text-destructive">
+                    কলাম নেই: {parsed.missingColumns.join(', ')} (নতুন পণ্যের জন্য প্রয়োজন)
+                  </p>
+                )}
+                {parsed.unknownColumns.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    অজানা কলাম বাদ দেওয়া হবে: {parsed.unknownColumns.join(', ')}
+                  </p>
+                )}
+
+                <ScrollArea className="h-72 rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">সারি</TableHead>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>নাম</TableHead>
+                        <TableHead>বিবরণ</TableHead>
+                        <TableHead>ছবি</TableHead>
+                        <TableHead>অবস্থা</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {planned.map((row) => (
+                        <TableRow key={row.line} className={row.action === 'invalid' ? 'bg-destructive/5' : undefined}>
+                          <TableCell>{row.line}</TableCell>
+                          <TableCell className="font-mono text-xs">{row.sku || '—'}</TableCell>
+                          <TableCell className="font-medium">{row.name || row.target?.name || '—'}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{formatRow(row)}</TableCell>
+                          <TableCell>{row.image_urls.length}</TableCell>
+                          <TableCell>
+                            <Badge className={ACTION_BADGES[row.action].className}>{ACTION_BADGES[row.action].label}</Badge>
+                            {row.errors.map((error) => (
+                              <p key={error} className="text-xs text-destructive mt-1">{error}</p>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+
+                {importing && (
+                  <div className="space-y-1">
+                    <Progress value={progress} />
+                    <p className="text-xs text-muted-foreground">ইমপোর্ট হচ্ছে... {progress}%</p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {results ? (
+            <>
+              <Button variant="outline" onClick={reset}>আরেকটি ফাইল</Button>
+              <Button
+                onClick={() => {
+                  reset();
+                  setOpen(false);
+                }}
+              >
+                বন্ধ করুন
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handleImport} disabled={importing || counts.create + counts.update === 0}>
+              {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              {counts.create + counts.update} টি পণ্য ইমপোর্ট করুন
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,315 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Download, Loader2, TrendingUp } from 'lucide-react';
+import { DateRangeFilter } from '@/components/admin/DateRangeFilter';
+import type { CsvValue } from '@/lib/csv';
+import { exportRows } from '@/lib/export';
+import { DateRange, formatRate, lastDays, toReportArgs } from '@/lib/reports';
+
+// Shape returned by the profit_report() function
+interface ProfitTotals {
+  orders: number;
+  revenue: number;
+  cost: number;
+  gross_profit: number;
+  gross_margin: number | null;
+  delivery_charge: number;
+  delivery_cost: number;
+  discount: number;
+  net_profit: number;
+}
+
+interface ProfitSummary extends ProfitTotals {
+  cancelled_orders: number;
+  cancelled_value: number;
+  cancelled_loss: number;
+}
+
+interface ProfitMonthRow extends ProfitTotals {
+  month: string;
+}
+
+interface ProfitZoneRow extends ProfitTotals {
+  zone_id: string | null;
+  zone: string;
+}
+
+interface ProfitProductRow {
+  product_id: string | null;
+  name: string | null;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  gross_profit: number;
+  gross_margin: number | null;
+}
+
+interface ProfitData {
+  summary: ProfitSummary;
+  by_month: ProfitMonthRow[];
+  by_zone: ProfitZoneRow[];
+  by_product: ProfitProductRow[];
+}
+
+type Breakdown = 'month' | 'product' | 'zone';
+
+const money = (value: number) => `৳${Number(value).toFixed(2)}`;
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('bn-BD', { month: 'short', year: 'numeric' });
+
+// Columns shared by the month and zone breakdowns
+const TOTAL_COLUMNS: { key: keyof ProfitTotals; label: string }[] = [
+  { key: 'orders', label: 'অর্ডার' },
+  { key: 'revenue', label: 'বিক্রয়' },
+  { key: 'cost', label: 'ক্রয় মূল্য' },
+  { key: 'gross_profit', label: 'মোট লাভ' },
+  { key: 'gross_margin', label: 'মার্জিন' },
+  { key: 'delivery_charge', label: 'ডেলিভারি চার্জ' },
+  { key: 'delivery_cost', label: 'ডেলিভারি খরচ' },
+  { key: 'discount', label: 'ছাড়' },
+  { key: 'net_profit', label: 'নিট লাভ' },
+];
+
+const PRODUCT_COLUMNS: { key: keyof ProfitProductRow; label: string }[] = [
+  { key: 'name', label: 'পণ্য' },
+  { key: 'quantity', label: 'পরিমাণ' },
+  { key: 'revenue', label: 'বিক্রয়' },
+  { key: 'cost', label: 'ক্রয় মূল্য' },
+  { key: 'gross_profit', label: 'মোট লাভ' },
+  { key: 'gross_margin', label: 'মার্জিন' },
+];
+
+const formatTotal = (key: string, value: number | null) => {
+  if (key === 'orders' || key === 'quantity') return String(value ?? 0);
+  if (key === 'gross_margin') return formatRate(value);
+  return money(value ?? 0);
+};
+
+export const ProfitReport = () => {
+  const [range, setRange] = useState<DateRange>(() => lastDays(30));
+  const [breakdown, setBreakdown] = useState<Breakdown>('month');
+  const [report, setReport] = useState<ProfitData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!range.from || !range.to) return;
+
+    let cancelled = false;
+    const fetchReport = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase.rpc('profit_report', toReportArgs(range));
+
+        if (error) throw error;
+        if (!cancelled) setReport(data as unknown as ProfitData);
+      } catch (error) {
+        console.error('Error fetching profit report:', error);
+        toast.error('লাভের রিপোর্ট লোড করতে সমস্যা হয়েছে');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
+  const handleExport = () => {
+    if (!report) return;
+
+    let rows: CsvValue[][];
+    if (breakdown === 'product') {
+      rows = [
+        PRODUCT_COLUMNS.map((column) => column.label),
+        ...report.by_product.map((row) => PRODUCT_COLUMNS.map((column) => row[column.key])),
+      ];
+    } else {
+      const labelled =
+        breakdown === 'month'
+          ? report.by_month.map((row) => ({ label: row.month, row }))
+          : report.by_zone.map((row) => ({ label: row.zone, row }));
+      rows = [
+        [breakdown === 'month' ? 'মাস' : 'জোন', ...TOTAL_COLUMNS.map((column) => column.label)],
+        ...labelled.map(({ label, row }) => [label, ...TOTAL_COLUMNS.map((column) => row[column.key])]),
+      ];
+    }
+
+    exportRows(`profit-${breakdown}-${range.from}-${range.to}`, rows, 'csv');
+  };
+
+  const summary = report?.summary;
+
+  const renderTotalsTable = (label: string, rows: (ProfitTotals & { key: string; label: string })[]) => (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{label}</TableHead>
+            {TOTAL_COLUMNS.map((column) => (
+              <TableHead key={column.key} className="text-right whitespace-nowrap">{column.label}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={TOTAL_COLUMNS.length + 1} className="text-center text-muted-foreground">
+                কোন বিক্রয় নেই
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium whitespace-nowrap">{row.label}</TableCell>
+                {TOTAL_COLUMNS.map((column) => (
+                  <TableCell key={column.key} className="text-right whitespace-nowrap">
+                    {formatTotal(column.key, row[column.key])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <Card className="transition-all duration-300 hover:shadow-lg">
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row justify-between items-start lg:items-end gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+              <TrendingUp className="h-5 w-5" />
+              লাভের রিপোর্ট
+            </CardTitle>
+            <CardDescription className="text-sm">
+              অর্ডারের সময়ের ক্রয় মূল্য অনুযায়ী (নিশ্চিত ও ডেলিভারি হওয়া অর্ডার)
+            </CardDescription>
+          </div>
+          <DateRangeFilter id="profit" value={range} onChange={setRange} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && !report ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : report && summary ? (
+          <div className={`space-y-6 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">বিক্রয় ({summary.orders} অর্ডার)</p>
+                <p className="text-2xl font-bold">{money(summary.revenue)}</p>
+                <p className="text-xs text-muted-foreground">ক্রয় মূল্য: {money(summary.cost)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">মোট লাভ</p>
+                <p className="text-2xl font-bold text-green-600 dark:text-green-400">{money(summary.gross_profit)}</p>
+                <p className="text-xs text-muted-foreground">মার্জিন: {formatRate(summary.gross_margin)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">ডেলিভারি</p>
+                <p className="text-2xl font-bold">{money(summary.delivery_charge - summary.delivery_cost)}</p>
+                <p className="text-xs text-muted-foreground">
+                  চার্জ {money(summary.delivery_charge)} − খরচ {money(summary.delivery_cost)}
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">বাতিল অর্ডারের ক্ষতি</p>
+                <p className="text-2xl font-bold text-destructive">{money(summary.cancelled_loss)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {summary.cancelled_orders} টি বাতিল ({money(summary.cancelled_value)})
+                </p>
+              </div>
+            </div>
+
+            <div className="rounded-lg border bg-muted/40 p-4 flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="text-sm text-muted-foreground">নিট লাভ</p>
+                <p className="text-xs text-muted-foreground">
+                  মোট লাভ + ডেলিভারি চার্জ − ডেলিভারি খরচ − ছাড় ({money(summary.discount)}) − বাতিলের ক্ষতি
+                </p>
+              </div>
+              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">{money(summary.net_profit)}</p>
+            </div>
+
+            <Tabs value={breakdown} onValueChange={(value) => setBreakdown(value as Breakdown)}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <TabsList>
+                  <TabsTrigger value="month">মাস অনুযায়ী</TabsTrigger>
+                  <TabsTrigger value="product">পণ্য অনুযায়ী</TabsTrigger>
+                  <TabsTrigger value="zone">জোন অনুযায়ী</TabsTrigger>
+                </TabsList>
+                <Button variant="outline" size="sm" onClick={handleExport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </Button>
+              </div>
+
+              <TabsContent value="month">
+                {renderTotalsTable(
+                  'মাস',
+                  report.by_month.map((row) => ({ ...row, key: row.month, label: formatMonth(row.month) }))
+                )}
+              </TabsContent>
+
+              <TabsContent value="zone">
+                {renderTotalsTable(
+                  'জোন',
+                  report.by_zone.map((row) => ({ ...row, key: row.zone_id || row.zone, label: row.zone }))
+                )}
+              </TabsContent>
+
+              <TabsContent value="product">
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {PRODUCT_COLUMNS.map((column) => (
+                          <TableHead key={column.key} className={column.key === 'name' ? '' : 'text-right whitespace-nowrap'}>
+                            {column.label}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.by_product.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={PRODUCT_COLUMNS.length} className="text-center text-muted-foreground">
+                            কোন বিক্রয় নেই
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        report.by_product.map((row) => (
+                          <TableRow key={row.product_id || row.name || 'deleted'}>
+                            <TableCell className="max-w-[240px] truncate font-medium">
+                              {row.name || 'মুছে ফেলা পণ্য'}
+                            </TableCell>
+                            {PRODUCT_COLUMNS.slice(1).map((column) => (
+                              <TableCell key={column.key} className="text-right whitespace-nowrap">
+                                {formatTotal(column.key, row[column.key] as number | null)}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </TabsContent>
+            </Tabs>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { qrMatrix } from '@/lib/qrcode';
+
+interface QrCodeProps {
+  value: string;
+  // Rendered width and height, any CSS length
+  size?: string;
+  className?: string;
+}
+
+// Quiet zone around the code, in modules, as scanners expect
+const QUIET_ZONE = 4;
+
+export const QrCode = ({ value, size = '25mm', className }: QrCodeProps) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = qrMatrix(value);
+    let d = '';
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+      });
+    });
+    return { path: d, dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label={value}
+    >
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { History, Loader2, Mail, UserMinus, Users } from 'lucide-react';
+import { useStaff } from '@/contexts/StaffContext';
+import { AppRole, getRoleText } from '@/lib/permissions';
+import {
+  ASSIGNABLE_ROLES,
+  RoleAuditEntry,
+  TeamMember,
+  fetchPublicSignupEnabled,
+  fetchRoleAudit,
+  fetchTeam,
+  inviteStaff,
+  revokeStaff,
+  setPublicSignup,
+  setStaffRole,
+} from '@/lib/team';
+
+// 'admin' accounts from before staff roles are shown and edited as owners
+const currentRole = (member: TeamMember): AppRole =>
+  member.roles.find((role) => ASSIGNABLE_ROLES.includes(role)) ?? 'owner';
+
+export const TeamManager = () => {
+  const { user } = useStaff();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [auditEntries, setAuditEntries] = useState<RoleAuditEntry[]>([]);
+  const [signupEnabled, setSignupEnabled] = useState<boolean | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AppRole>('order_staff');
+  const [inviting, setInviting] = useState(false);
+
+  const loadTeam = async () => {
+    setLoading(true);
+    try {
+      const [team, audit] = await Promise.all([fetchTeam(), fetchRoleAudit()]);
+      setMembers(team);
+      setAuditEntries(audit);
+    } catch (error) {
+      console.error('Error fetching team:', error);
+      toast.error('টিমের তথ্য লোড করতে সমস্যা হয়েছে');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTeam();
+    fetchPublicSignupEnabled()
+      .then(setSignupEnabled)
+      .catch((error) => console.error('Error fetching signup setting:', error));
+  }, []);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) {
+      toast.error('ইমেইল দিন');
+      return;
+    }
+
+    setInviting(true);
+    try {
+      const invited = await inviteStaff(inviteEmail, inviteRole);
+      toast.success(invited ? 'আমন্ত্রণ ইমেইল পাঠানো হয়েছে!' : 'এই অ্যাকাউন্টকে রোল দেওয়া হয়েছে!');
+      setInviteEmail('');
+      loadTeam();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: AppRole) => {
+    setBusyUserId(member.user_id);
+    try {
+      await setStaffRole(member.user_id, role);
+      toast.success('রোল পরিবর্তন হয়েছে!');
+      loadTeam();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRevoke = async (member: TeamMember) => {
+    if (!confirm(`আপনি কি নিশ্চিত ${member.email} এর অ্যাডমিন অ্যাক্সেস বাতিল করতে চান?`)) return;
+
+    setBusyUserId(member.user_id);
+    try {
+      await revokeStaff(member.user_id);
+      toast.success('অ্যাক্সেস বাতিল হয়েছে!');
+      loadTeam();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleSignupToggle = async (enabled: boolean) => {
+    setSignupEnabled(enabled);
+    try {
+      await setPublicSignup(enabled);
+      toast.success(enabled ? 'নতুন অ্যাকাউন্ট খোলা চালু হয়েছে' : 'নতুন অ্যাকাউন্ট খোলা বন্ধ হয়েছে');
+    } catch (error) {
+      console.error('Error updating signup setting:', error);
+      toast.error('সেটিং সংরক্ষণ করতে সমস্যা হয়েছে');
+      setSignupEnabled(!enabled);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            স্টাফ আমন্ত্রণ
+          </CardTitle>
+          <CardDescription>
+            ইমেইলে আমন্ত্রণ পাঠান; আগে থেকে অ্যাকাউন্ট থাকলে সাথে সাথে রোল দেওয়া হবে
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-3 sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="invite_email">ইমেইল</Label>
+              <Input
+                id="invite_email"
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="staff@example.com"
+              />
+            </div>
+            <div className="space-y-2 sm:w-48">
+              <Label htmlFor="invite_role">রোল</Label>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as AppRole)}>
+                <SelectTrigger id="invite_role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSIGNABLE_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>{getRoleText(role)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={inviting}>
+              {inviting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              আমন্ত্রণ পাঠান
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            টিম সদস্য
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading && members.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : members.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">কোন স্টাফ নেই</p>
+          ) : (
+            <div className="space-y-3">
+              {members.map((member) => (
+                <div
+                  key={member.user_id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 border rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {member.email}
+                      {member.user_id === user.id && <span className="text-muted-foreground"> (আপনি)</span>}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                      {!member.confirmed_at && member.invited_at && <Badge variant="secondary">আমন্ত্রিত</Badge>}
+                      <span>
+                        শেষ লগইন:{' '}
+                        {member.last_sign_in_at ? new Date(member.last_sign_in_at).toLocaleDateString('bn-BD') : 'কখনো না'}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={currentRole(member)}
+                      onValueChange={(value) => handleRoleChange(member, value as AppRole)}
+                      disabled={busyUserId === member.user_id}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ASSIGNABLE_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>{getRoleText(role)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleRevoke(member)}
+                      disabled={busyUserId === member.user_id}
+                      title="অ্যাক্সেস বাতিল"
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-6 flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="public_signup" className="font-semibold">নতুন অ্যাকাউন্ট খোলা</Label>
+            <p className="text-sm text-muted-foreground mt-1">
+              বন্ধ থাকলে লগইন পেজে পাসওয়ার্ড দিয়ে নিবন্ধন করা যাবে না, স্টাফ শুধু আমন্ত্রণে আসবেন। গ্রাহকরা কোড দিয়ে অ্যাকাউন্ট খুলতে পারবেন।
+            </p>
+          </div>
+          <Switch
+            id="public_signup"
+            checked={signupEnabled ?? true}
+            onCheckedChange={handleSignupToggle}
+            disabled={signupEnabled === null}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            রোল পরিবর্তনের ইতিহাস
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {auditEntries.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">কোন পরিবর্তন নেই</p>
+          ) : (
+            <div className="space-y-2">
+              {auditEntries.map((entry) => (
+                <div key={entry.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-1 text-sm border-b pb-2">
+                  <p>
+                    <span className="font-medium">{entry.user_email ?? 'মুছে ফেলা অ্যাকাউন্ট'}</span>
+                    {entry.action === 'granted' ? ' পেয়েছেন ' : ' থেকে বাদ পড়েছেন '}
+                    <Badge variant={entry.action === 'granted' ? 'default' : 'outline'}>{getRoleText(entry.role)}</Badge>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.changed_by ?? 'সিস্টেম'} · {new Date(entry.created_at).toLocaleString('bn-BD')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
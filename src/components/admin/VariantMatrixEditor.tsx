@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Layers, Plus, Trash2, X } from 'lucide-react';
+import {
+  VariantOptions,
+  buildVariantCombinations,
+  findVariant,
+  getVariantAttributes,
+  getVariantLabel,
+} from '@/lib/variants';
+
+// Variant being edited; numeric fields are kept as strings while typing
+export interface VariantDraft {
+  id?: string;
+  options: VariantOptions;
+  sku: string;
+  price: string;
+  stock: string;
+  images: string[];
+  is_active: boolean;
+}
+
+interface AttributeDraft {
+  name: string;
+  values: string;
+}
+
+interface VariantMatrixEditorProps {
+  value: VariantDraft[];
+  onChange: (variants: VariantDraft[]) => void;
+  basePrice: string;
+  productImages: string[];
+}
+
+const toAttributeDrafts = (variants: VariantDraft[]): AttributeDraft[] =>
+  getVariantAttributes(variants).map((attribute) => ({
+    name: attribute.name,
+    values: attribute.values.join(', '),
+  }));
+
+export const VariantMatrixEditor = ({ value, onChange, basePrice, productImages }: VariantMatrixEditorProps) => {
+  const [attributes, setAttributes] = useState<AttributeDraft[]>(() => toAttributeDrafts(value));
+
+  // Existing variants arrive after the dialog opens
+  useEffect(() => {
+    if (attributes.length === 0 && value.length > 0) {
+      setAttributes(toAttributeDrafts(value));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value]);
+
+  const updateAttribute = (index: number, changes: Partial<AttributeDraft>) => {
+    setAttributes((prev) => prev.map((attribute, i) => (i === index ? { ...attribute, ...changes } : attribute)));
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    onChange(value.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const toggleImage = (index: number, url: string) => {
+    const images = value[index].images;
+    updateVariant(index, {
+      images: images.includes(url) ? images.filter((image) => image !== url) : [...images, url],
+    });
+  };
+
+  // Rebuild the rows from the attributes, keeping what was already entered for matching rows
+  const handleGenerate = () => {
+    const combinations = buildVariantCombinations(
+      attributes.map((attribute) => ({
+        name: attribute.name.trim(),
+        values: attribute.values
+          .split(',')
+          .map((v) => v.trim())
+          .filter(Boolean),
+      }))
+    );
+
+    onChange(
+      combinations.map(
+        (options) =>
+          findVariant(value, options) || {
+            options,
+            sku: '',
+            price: '',
+            stock: '0',
+            images: [],
+            is_active: true,
+          }
+      )
+    );
+  };
+
+  const totalStock = value
+    .filter((variant) => variant.is_active)
+    .reduce((sum, variant) => sum + (parseInt(variant.stock) || 0), 0);
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center gap-2">
+          <Layers className="h-4 w-4" />
+          ভ্যারিয়েন্ট (রং, স্টোরেজ, সাইজ)
+        </Label>
+        {value.length > 0 && (
+          <span className="text-xs text-muted-foreground">মোট স্টক: {totalStock}</span>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {attributes.map((attribute, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              value={attribute.name}
+              onChange={(e) => updateAttribute(index, { name: e.target.value })}
+              placeholder="অপশন (যেমন: color)"
+              className="w-1/3"
+            />
+            <Input
+              value={attribute.values}
+              onChange={(e) => updateAttribute(index, { values: e.target.value })}
+              placeholder="মান, কমা দিয়ে (Black, White)"
+              className="flex-1"
+            />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              onClick={() => setAttributes((prev) => prev.filter((_, i) => i !== index))}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setAttributes((prev) => [...prev, { name: '', values: '' }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            অপশন যোগ করুন
+          </Button>
+          {attributes.length > 0 && (
+            <Button type="button" variant="secondary" size="sm" onClick={handleGenerate}>
+              ভ্যারিয়েন্ট তৈরি করুন
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          ভ্যারিয়েন্ট থাকলে পণ্যের স্টক সব সক্রিয় ভ্যারিয়েন্টের স্টকের যোগফল হবে। দাম খালি রাখলে পণ্যের দাম প্রযোজ্য।
+        </p>
+      </div>
+
+      {value.length > 0 && (
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ভ্যারিয়েন্ট</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>দাম (৳)</TableHead>
+                <TableHead>স্টক</TableHead>
+                <TableHead>ছবি</TableHead>
+                <TableHead>সক্রিয়</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {value.map((variant, index) => (
+                <TableRow key={variant.id ?? getVariantLabel(variant.options)}>
+                  <TableCell className="font-medium whitespace-nowrap">{getVariantLabel(variant.options)}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={variant.sku}
+                      onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                      className="w-28 font-mono text-xs"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={variant.price}
+                      onChange={(e) => updateVariant(index, { price: e.target.value })}
+                      placeholder={basePrice}
+                      className="w-24"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={variant.stock}
+                      onChange={(e) => updateVariant(index, { stock: e.target.value })}
+                      className="w-20"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {productImages.length === 0 ? (
+                      <span className="text-xs text-muted-foreground">—</span>
+                    ) : (
+                      <div className="flex gap-1">
+                        {productImages.map((url) => (
+                          <button
+                            key={url}
+                            type="button"
+                            onClick={() => toggleImage(index, url)}
+                            className={`h-8 w-8 overflow-hidden rounded border-2 ${
+                              variant.images.includes(url) ? 'border-primary' : 'border-transparent opacity-50'
+                            }`}
+                          >
+                            <img src={url} alt="" className="h-full w-full object-cover" />
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={variant.is_active}
+                      onCheckedChange={(checked) => updateVariant(index, { is_active: checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => onChange(value.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,58 +1,210 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-
-export interface CartItem {
-  id: string;
-  name: string;
-  price: number;
-  quantity: number;
-  image_url?: string;
-}
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CartItem,
+  CartLineCheck,
+  CartLineDetails,
+  fetchCartDetails,
+  getCartItemKey,
+  mergeServerCart,
+  saveServerCart,
+  toStoredCartLines,
+} from '@/lib/cart';
 
 interface CartContextType {
   items: CartItem[];
   addItem: (item: CartItem) => void;
-  removeItem: (id: string) => void;
-  updateQuantity: (id: string, quantity: number) => void;
+  removeItem: (key: string) => void;
+  updateQuantity: (key: string, quantity: number) => void;
   clearCart: () => void;
   totalItems: number;
   totalPrice: number;
+  checks: Record<string, CartLineCheck>;
+  refreshCart: () => Promise<void>;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+const SAVE_DELAY_MS = 800;
+
+// Brings a line up to today's name, price and image. Lines that can no longer be ordered
+// are kept as they were so the customer sees what to remove.
+const checkLine = (line: CartItem, detail: CartLineDetails): [CartItem, CartLineCheck] => {
+  if (detail.status !== 'ok' || detail.price === null) {
+    return [line, { available: false, stock: null }];
+  }
+
+  const price = Number(detail.price);
+  return [
+    {
+      ...line,
+      name: detail.name ?? line.name,
+      price,
+      image_url: detail.image_url ?? line.image_url,
+      variant_label: detail.variant_label ?? line.variant_label,
+    },
+    {
+      available: true,
+      stock: detail.stock,
+      previousPrice: Math.abs(price - line.price) >= 0.01 ? line.price : undefined,
+    },
+  ];
+};
+
 export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [items, setItems] = useState<CartItem[]>(() => {
     const saved = localStorage.getItem('cart');
     return saved ? JSON.parse(saved) : [];
   });
 
+  const [checks, setChecks] = useState<Record<string, CartLineCheck>>({});
+  // The signed-in customer whose stored cart this is, once the local cart was merged into it
+  const [cartOwner, setCartOwner] = useState<string | null>(null);
+  const itemsRef = useRef(items);
+  const syncingUserRef = useRef<string | null>(null);
+
   useEffect(() => {
+    itemsRef.current = items;
     localStorage.setItem('cart', JSON.stringify(items));
   }, [items]);
 
+  const applyChecks = useCallback((checked: [CartItem, CartLineCheck | undefined][]) => {
+    setItems(checked.map(([line]) => line));
+    setChecks((prev) =>
+      Object.fromEntries(
+        checked.map(([line, check]) => {
+          const key = getCartItemKey(line);
+          if (!check) return [key, prev[key]];
+          // A change stays flagged until the price is back to what the customer first saw
+          const previousPrice = prev[key]?.previousPrice ?? check.previousPrice;
+          return [key, { ...check, previousPrice: previousPrice !== line.price ? previousPrice : undefined }];
+        })
+      )
+    );
+  }, []);
+
+  const refreshCart = useCallback(async () => {
+    const snapshot = itemsRef.current;
+    if (snapshot.length === 0) return;
+
+    try {
+      const details = await fetchCartDetails(toStoredCartLines(snapshot));
+      const byKey = new Map(details.map((detail, index) => [getCartItemKey(snapshot[index]), detail]));
+      // Lines added while the check was running are left for the next one
+      applyChecks(
+        itemsRef.current.map((line) => {
+          const detail = byKey.get(getCartItemKey(line));
+          return detail ? checkLine(line, detail) : [line, undefined];
+        })
+      );
+    } catch (error) {
+      console.error('Error checking cart:', error);
+    }
+  }, [applyChecks]);
+
+  // On sign-in the local cart is merged into the stored one, which then replaces it. Lines
+  // only in the stored cart are compared with the price saved with them.
+  useEffect(() => {
+    const syncCart = async (userId: string) => {
+      try {
+        const local = new Map(itemsRef.current.map((item) => [getCartItemKey(item), item]));
+        const stored = await mergeServerCart(itemsRef.current);
+        const details = await fetchCartDetails(stored);
+        if (syncingUserRef.current !== userId) return;
+
+        const checked: [CartItem, CartLineCheck | undefined][] = [];
+        stored.forEach((line, index) => {
+          const detail = details[index];
+          const seen = local.get(getCartItemKey({ id: line.product_id, variant_id: line.variant_id ?? undefined }));
+          const name = seen?.name ?? detail?.name;
+          const price = seen?.price ?? line.price ?? detail?.price;
+          if (!detail || !name || price === null || price === undefined) return;
+
+          checked.push(
+            checkLine(
+              {
+                id: line.product_id,
+                name,
+                price: Number(price),
+                quantity: line.quantity,
+                image_url: seen?.image_url,
+                variant_id: line.variant_id ?? undefined,
+                variant_label: seen?.variant_label,
+              },
+              detail
+            )
+          );
+        });
+
+        // Lines added while the merge was running
+        const mergedKeys = new Set(checked.map(([line]) => getCartItemKey(line)));
+        itemsRef.current.forEach((item) => {
+          const key = getCartItemKey(item);
+          if (!local.has(key) && !mergedKeys.has(key)) checked.push([item, undefined]);
+        });
+
+        applyChecks(checked);
+        setCartOwner(userId);
+      } catch (error) {
+        // The cart stays local for this visit rather than overwrite the stored one
+        console.error('Error syncing cart:', error);
+        refreshCart();
+      }
+    };
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT') {
+        syncingUserRef.current = null;
+        setCartOwner(null);
+        setItems([]);
+        setChecks({});
+        return;
+      }
+
+      const userId = session?.user?.id;
+      if (userId && userId !== syncingUserRef.current) {
+        syncingUserRef.current = userId;
+        // Supabase calls inside this callback wait on the auth lock it holds
+        setTimeout(() => syncCart(userId), 0);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [applyChecks, refreshCart]);
+
+  useEffect(() => {
+    if (!cartOwner) return;
+
+    const timer = setTimeout(() => {
+      saveServerCart(items).catch((error) => console.error('Error saving cart:', error));
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [items, cartOwner]);
+
   const addItem = (item: CartItem) => {
     setItems((prev) => {
-      const existing = prev.find((i) => i.id === item.id);
+      const key = getCartItemKey(item);
+      const existing = prev.find((i) => getCartItemKey(i) === key);
       if (existing) {
         return prev.map((i) =>
-          i.id === item.id ? { ...i, quantity: i.quantity + item.quantity } : i
+          getCartItemKey(i) === key ? { ...i, quantity: i.quantity + item.quantity } : i
         );
       }
       return [...prev, item];
     });
   };
 
-  const removeItem = (id: string) => {
-    setItems((prev) => prev.filter((i) => i.id !== id));
+  const removeItem = (key: string) => {
+    setItems((prev) => prev.filter((i) => getCartItemKey(i) !== key));
   };
 
-  const updateQuantity = (id: string, quantity: number) => {
+  const updateQuantity = (key: string, quantity: number) => {
     if (quantity <= 0) {
-      removeItem(id);
+      removeItem(key);
       return;
     }
     setItems((prev) =>
-      prev.map((i) => (i.id === id ? { ...i, quantity } : i))
+      prev.map((i) => (getCartItemKey(i) === key ? { ...i, quantity } : i))
     );
   };
 
@@ -65,7 +217,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   return (
     <CartContext.Provider
-      value={{ items, addItem, removeItem, updateQuantity, clearCart, totalItems, totalPrice }}
+      value={{ items, addItem, removeItem, updateQuantity, clearCart, totalItems, totalPrice, checks, refreshCart }}
     >
       {children}
     </CartContext.Provider>
@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { User } from '@supabase/supabase-js';
+import { AppRole, Permission } from '@/lib/permissions';
+
+// The signed-in staff member inside the Admin area, provided by RequireRole
+interface StaffContextType {
+  user: User;
+  roles: AppRole[];
+  can: (permission: Permission) => boolean;
+}
+
+export const StaffContext = createContext<StaffContextType | undefined>(undefined);
+
+export const useStaff = () => {
+  const context = useContext(StaffContext);
+  if (!context) {
+    throw new Error('useStaff must be used within RequireRole');
+  }
+  return context;
+};
@@ -0,0 +1,163 @@
+import { useEffect } from 'react';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ProductFilters } from '@/lib/catalog';
+
+export const PRODUCTS_PER_PAGE = 12;
+
+export type ProductSort =
+  | 'relevance'
+  | 'priority'
+  | 'price-low'
+  | 'price-high'
+  | 'name-asc'
+  | 'name-desc'
+  | 'newest'
+  | 'oldest';
+
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  image_url: string | null;
+  images: string[] | null;
+  stock: number;
+  priority: number | null;
+  has_variants: boolean;
+  brand_id: string | null;
+  created_at: string;
+}
+
+// Sort keys of the last row on a page, see search_products()
+interface ProductSearchCursor {
+  k1: number;
+  k2: number;
+  k3: string;
+  id: string;
+}
+
+export interface ProductSearchPage {
+  items: CatalogProduct[];
+  next_cursor: ProductSearchCursor | null;
+  total_count: number;
+}
+
+export interface ProductFacets {
+  categories: Record<string, number>;
+  brands: Record<string, number>;
+  min_price: number | null;
+  max_price: number | null;
+}
+
+export interface ProductSearchParams {
+  query: string;
+  filters: ProductFilters;
+  sort: ProductSort;
+}
+
+const SEARCH_STALE_TIME = 60 * 1000;
+
+const searchKey = (params: ProductSearchParams, page: number) => ['products', 'search', params, page] as const;
+
+const fetchProductPage = async (
+  params: ProductSearchParams,
+  page: number,
+  cursor: ProductSearchCursor | null
+): Promise<ProductSearchPage> => {
+  const { filters } = params;
+  const { data, error } = await supabase.rpc('search_products', {
+    _query: params.query || undefined,
+    _category_slugs: filters.categories.length > 0 ? filters.categories : undefined,
+    _brand_slugs: filters.brands.length > 0 ? filters.brands : undefined,
+    _min_price: filters.minPrice ?? undefined,
+    _max_price: filters.maxPrice ?? undefined,
+    _in_stock: filters.inStock,
+    _sort: params.sort,
+    _cursor: cursor ? { ...cursor } : undefined,
+    // Only used when the previous page is not cached, e.g. jumping to the last page
+    _offset: cursor ? 0 : (page - 1) * PRODUCTS_PER_PAGE,
+    _limit: PRODUCTS_PER_PAGE,
+  });
+
+  if (error) throw error;
+  return data as unknown as ProductSearchPage;
+};
+
+// One page of the catalog. Pages are cached per search, and the next page is
+// fetched ahead with the keyset cursor so paging forward is instant.
+export const useProductSearch = (params: ProductSearchParams, page: number) => {
+  const queryClient = useQueryClient();
+
+  const result = useQuery({
+    queryKey: searchKey(params, page),
+    queryFn: () => {
+      const previous = page > 1 ? queryClient.getQueryData<ProductSearchPage>(searchKey(params, page - 1)) : undefined;
+      return fetchProductPage(params, page, previous?.next_cursor ?? null);
+    },
+    placeholderData: keepPreviousData,
+    staleTime: SEARCH_STALE_TIME,
+  });
+
+  const nextCursor = result.isPlaceholderData ? null : result.data?.next_cursor ?? null;
+
+  useEffect(() => {
+    if (!nextCursor) return;
+    queryClient.prefetchQuery({
+      queryKey: searchKey(params, page + 1),
+      queryFn: () => fetchProductPage(params, page + 1, nextCursor),
+      staleTime: SEARCH_STALE_TIME,
+    });
+  }, [queryClient, params, page, nextCursor]);
+
+  return result;
+};
+
+// Option counts and price range for the filter panel
+export const useProductFacets = (query: string) =>
+  useQuery({
+    queryKey: ['products', 'facets', query],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('product_search_facets', {
+        _query: query || undefined,
+      });
+
+      if (error) throw error;
+      return data as unknown as ProductFacets;
+    },
+    placeholderData: keepPreviousData,
+    staleTime: SEARCH_STALE_TIME,
+  });
+
+const SUGGESTIONS_LIMIT = 6;
+
+// Top matches for the Header search dropdown
+export const useSearchSuggestions = (query: string, enabled: boolean) =>
+  useQuery({
+    queryKey: ['products', 'suggestions', query],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_products', {
+        _query: query,
+        _sort: 'relevance',
+        _limit: SUGGESTIONS_LIMIT,
+      });
+
+      if (error) throw error;
+      return data as unknown as ProductSearchPage;
+    },
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: SEARCH_STALE_TIME,
+  });
+
+export const usePopularSearches = () =>
+  useQuery({
+    queryKey: ['popular-searches'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('popular_searches', { _limit: 5 });
+
+      if (error) throw error;
+      return (data || []).map((row) => row.query);
+    },
+    staleTime: 10 * 60 * 1000,
+  });
@@ -14,147 +14,1435 @@ export type Database = {
   }
   public: {
     Tables: {
-      order_items: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor: string | null
+          changes: Json
+          created_at: string
+          entity: string
+          entity_id: string | null
+          id: number
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor?: string | null
+          changes?: Json
+          created_at?: string
+          entity: string
+          entity_id?: string | null
+          id?: never
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor?: string | null
+          changes?: Json
+          created_at?: string
+          entity?: string
+          entity_id?: string | null
+          id?: never
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      brands: {
         Row: {
           created_at: string
           id: string
-          order_id: string
-          price: number
+          logo_url: string | null
+          name: string
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          logo_url?: string | null
+          name: string
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          logo_url?: string | null
+          name?: string
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      cart_items: {
+        Row: {
+          cart_id: string
+          created_at: string
+          id: string
+          price: number | null
           product_id: string
           quantity: number
+          updated_at: string
+          variant_id: string | null
         }
         Insert: {
+          cart_id: string
           created_at?: string
           id?: string
-          order_id: string
-          price: number
+          price?: number | null
           product_id: string
           quantity: number
+          updated_at?: string
+          variant_id?: string | null
         }
         Update: {
+          cart_id?: string
           created_at?: string
           id?: string
-          order_id?: string
-          price?: number
+          price?: number | null
           product_id?: string
           quantity?: number
+          updated_at?: string
+          variant_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "order_items_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "cart_items_cart_id_fkey"
+            columns: ["cart_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "carts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_items_product_id_fkey"
+            foreignKeyName: "cart_items_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      orders: {
+      carts: {
+        Row: {
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coupons: {
+        Row: {
+          category_ids: string[]
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_discount: number | null
+          min_order_amount: number
+          product_ids: string[]
+          starts_at: string | null
+          updated_at: string
+          usage_limit: number | null
+        }
+        Insert: {
+          category_ids?: string[]
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value?: number
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_order_amount?: number
+          product_ids?: string[]
+          starts_at?: string | null
+          updated_at?: string
+          usage_limit?: number | null
+        }
+        Update: {
+          category_ids?: string[]
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_order_amount?: number
+          product_ids?: string[]
+          starts_at?: string | null
+          updated_at?: string
+          usage_limit?: number | null
+        }
+        Relationships: []
+      }
+      courier_events: {
+        Row: {
+          created_at: string
+          id: string
+          order_id: string
+          payload: Json
+          provider: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          order_id: string
+          payload?: Json
+          provider: string
+          status: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          order_id?: string
+          payload?: Json
+          provider?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "courier_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_addresses: {
         Row: {
           address: string
           created_at: string
           customer_name: string
+          district: string
           id: string
-          location_type: string
+          is_default: boolean
+          label: string | null
           phone: string
-          status: string
-          total_amount: number
+          updated_at: string
+          user_id: string
         }
         Insert: {
           address: string
           created_at?: string
           customer_name: string
+          district: string
           id?: string
-          location_type: string
+          is_default?: boolean
+          label?: string | null
           phone: string
-          status?: string
-          total_amount: number
+          updated_at?: string
+          user_id?: string
         }
         Update: {
           address?: string
           created_at?: string
           customer_name?: string
+          district?: string
           id?: string
-          location_type?: string
+          is_default?: boolean
+          label?: string | null
           phone?: string
-          status?: string
-          total_amount?: number
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
-      products: {
+      delivery_charges: {
         Row: {
+          charge: number
           created_at: string
-          description: string | null
           id: string
-          image_url: string | null
+          location_type: string
+          updated_at: string
+        }
+        Insert: {
+          charge?: number
+          created_at?: string
+          id?: string
+          location_type: string
+          updated_at?: string
+        }
+        Update: {
+          charge?: number
+          created_at?: string
+          id?: string
+          location_type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      delivery_zones: {
+        Row: {
+          areas: string[]
+          base_charge: number
+          code: string
+          created_at: string
+          delivery_cost: number
+          free_delivery_threshold: number | null
+          id: string
+          included_weight_kg: number
+          is_active: boolean
+          is_default: boolean
           name: string
-          price: number
-          stock: number
+          per_extra_item_charge: number
+          sort_order: number
           updated_at: string
+          weight_surcharge_per_kg: number
         }
         Insert: {
+          areas?: string[]
+          base_charge?: number
+          code: string
           created_at?: string
-          description?: string | null
+          delivery_cost?: number
+          free_delivery_threshold?: number | null
           id?: string
-          image_url?: string | null
+          included_weight_kg?: number
+          is_active?: boolean
+          is_default?: boolean
           name: string
-          price: number
-          stock?: number
+          per_extra_item_charge?: number
+          sort_order?: number
           updated_at?: string
+          weight_surcharge_per_kg?: number
         }
         Update: {
+          areas?: string[]
+          base_charge?: number
+          code?: string
           created_at?: string
-          description?: string | null
+          delivery_cost?: number
+          free_delivery_threshold?: number | null
           id?: string
-          image_url?: string | null
+          included_weight_kg?: number
+          is_active?: boolean
+          is_default?: boolean
           name?: string
-          price?: number
-          stock?: number
+          per_extra_item_charge?: number
+          sort_order?: number
           updated_at?: string
+          weight_surcharge_per_kg?: number
         }
         Relationships: []
       }
-      user_roles: {
+      order_audit_log: {
         Row: {
+          action: string
+          changed_by: string | null
+          changes: Json
+          created_at: string
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          note: string | null
+          order_id: string
         }
         Insert: {
+          action: string
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
           id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          note?: string | null
+          order_id: string
         }
         Update: {
+          action?: string
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
+          note?: string | null
+          order_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "order_audit_log_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      has_role: {
-        Args: {
-          _role: Database["public"]["Enums"]["app_role"]
-          _user_id: string
+      order_items: {
+        Row: {
+          cost_price: number
+          created_at: string
+          id: string
+          order_id: string
+          price: number
+          product_id: string | null
+          product_name: string | null
+          quantity: number
+          variant_id: string | null
+          variant_label: string | null
         }
-        Returns: boolean
+        Insert: {
+          cost_price?: number
+          created_at?: string
+          id?: string
+          order_id: string
+          price: number
+          product_id?: string | null
+          product_name?: string | null
+          quantity: number
+          variant_id?: string | null
+          variant_label?: string | null
+        }
+        Update: {
+          cost_price?: number
+          created_at?: string
+          id?: string
+          order_id?: string
+          price?: number
+          product_id?: string | null
+          product_name?: string | null
+          quantity?: number
+          variant_id?: string | null
+          variant_label?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          note: string | null
+          order_id: string
+          status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          order_id: string
+          status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          order_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          address: string
+          amount_paid: number
+          coupon_code: string | null
+          coupon_id: string | null
+          courier_consignment_id: string | null
+          courier_provider: string | null
+          courier_status: string | null
+          courier_tracking_code: string | null
+          courier_updated_at: string | null
+          created_at: string
+          customer_name: string
+          customer_note: string | null
+          delivery_charge: number
+          delivery_cost: number
+          delivery_zone_id: string | null
+          discount_amount: number
+          district: string | null
+          id: string
+          internal_note: string | null
+          location_type: string
+          manual_discount: number
+          payment_method: string
+          payment_status: string
+          phone: string
+          prepay_amount: number
+          status: string
+          total_amount: number
+          user_id: string | null
+        }
+        Insert: {
+          address: string
+          amount_paid?: number
+          coupon_code?: string | null
+          coupon_id?: string | null
+          courier_consignment_id?: string | null
+          courier_provider?: string | null
+          courier_status?: string | null
+          courier_tracking_code?: string | null
+          courier_updated_at?: string | null
+          created_at?: string
+          customer_name: string
+          customer_note?: string | null
+          delivery_charge?: number
+          delivery_cost?: number
+          delivery_zone_id?: string | null
+          discount_amount?: number
+          district?: string | null
+          id?: string
+          internal_note?: string | null
+          location_type: string
+          manual_discount?: number
+          payment_method?: string
+          payment_status?: string
+          phone: string
+          prepay_amount?: number
+          status?: string
+          total_amount: number
+          user_id?: string | null
+        }
+        Update: {
+          address?: string
+          amount_paid?: number
+          coupon_code?: string | null
+          coupon_id?: string | null
+          courier_consignment_id?: string | null
+          courier_provider?: string | null
+          courier_status?: string | null
+          courier_tracking_code?: string | null
+          courier_updated_at?: string | null
+          created_at?: string
+          customer_name?: string
+          customer_note?: string | null
+          delivery_charge?: number
+          delivery_cost?: number
+          delivery_zone_id?: string | null
+          discount_amount?: number
+          district?: string | null
+          id?: string
+          internal_note?: string | null
+          location_type?: string
+          manual_discount?: number
+          payment_method?: string
+          payment_status?: string
+          phone?: string
+          prepay_amount?: number
+          status?: string
+          total_amount?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_delivery_zone_id_fkey"
+            columns: ["delivery_zone_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_events: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          payload: Json
+          payment_id: string
+          provider: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          payload?: Json
+          payment_id: string
+          provider: string
+          status: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          payload?: Json
+          payment_id?: string
+          provider?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_events_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          order_id: string
+          paid_at: string | null
+          provider: string
+          provider_ref: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          id?: string
+          order_id: string
+          paid_at?: string | null
+          provider: string
+          provider_ref?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          order_id?: string
+          paid_at?: string | null
+          provider?: string
+          provider_ref?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_categories: {
+        Row: {
+          category_id: string
+          product_id: string
+        }
+        Insert: {
+          category_id: string
+          product_id: string
+        }
+        Update: {
+          category_id?: string
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_categories_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_categories_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          created_at: string
+          id: string
+          images: Json
+          is_active: boolean
+          options: Json
+          price: number | null
+          product_id: string
+          sku: string | null
+          sort_order: number
+          stock: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          images?: Json
+          is_active?: boolean
+          options?: Json
+          price?: number | null
+          product_id: string
+          sku?: string | null
+          sort_order?: number
+          stock?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          images?: Json
+          is_active?: boolean
+          options?: Json
+          price?: number | null
+          product_id?: string
+          sku?: string | null
+          sort_order?: number
+          stock?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          brand_id: string | null
+          cost_price: number | null
+          created_at: string
+          description: string | null
+          has_variants: boolean
+          id: string
+          image_url: string | null
+          images: Json | null
+          name: string
+          price: number
+          priority: number
+          search_vector: unknown | null
+          sku: string | null
+          stock: number
+          updated_at: string
+          weight_kg: number
+        }
+        Insert: {
+          brand_id?: string | null
+          cost_price?: number | null
+          created_at?: string
+          description?: string | null
+          has_variants?: boolean
+          id?: string
+          image_url?: string | null
+          images?: Json | null
+          name: string
+          price: number
+          priority?: number
+          search_vector?: never
+          sku?: string | null
+          stock?: number
+          updated_at?: string
+          weight_kg?: number
+        }
+        Update: {
+          brand_id?: string | null
+          cost_price?: number | null
+          created_at?: string
+          description?: string | null
+          has_variants?: boolean
+          id?: string
+          image_url?: string | null
+          images?: Json | null
+          name?: string
+          price?: number
+          priority?: number
+          search_vector?: never
+          sku?: string | null
+          stock?: number
+          updated_at?: string
+          weight_kg?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_audit_log: {
+        Row: {
+          action: string
+          changed_by: string | null
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      staff_invites: {
+        Row: {
+          created_at: string
+          email: string
+          invited_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          invited_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          invited_by?: string | null
+        }
+        Relationships: []
+      }
+      stock_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          order_id: string | null
+          product_id: string | null
+          quantity_change: number
+          reason: string
+          stock_after: number
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          order_id?: string | null
+          product_id?: string | null
+          quantity_change: number
+          reason: string
+          stock_after: number
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          order_id?: string | null
+          product_id?: string | null
+          quantity_change?: number
+          reason?: string
+          stock_after?: number
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_activity: {
+        Row: {
+          activity_type: string
+          created_at: string
+          event_id: string | null
+          id: string
+          ip_address: string | null
+          metadata: Json | null
+          page_path: string | null
+          product_id: string | null
+          product_name: string | null
+          session_id: string
+          user_agent: string | null
+        }
+        Insert: {
+          activity_type: string
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          ip_address?: string | null
+          metadata?: Json | null
+          page_path?: string | null
+          product_id?: string | null
+          product_name?: string | null
+          session_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          activity_type?: string
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          ip_address?: string | null
+          metadata?: Json | null
+          page_path?: string | null
+          product_id?: string | null
+          product_name?: string | null
+          session_id?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_activity_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      activity_summary: {
+        Row: {
+          activity_type: string | null
+          count: number | null
+          date: string | null
+          unique_sessions: number | null
+        }
+        Relationships: []
+      }
+      coupon_usage: {
+        Row: {
+          coupon_id: string | null
+          discount_total: number | null
+          last_used_at: string | null
+          orders_count: number | null
+          revenue_total: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      activity_funnel: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: Json
+      }
+      audit_entries: {
+        Args: {
+          _actor?: string
+          _before_id?: number
+          _entity?: string
+          _entity_id?: string
+          _from?: string
+          _limit?: number
+          _to?: string
+        }
+        Returns: Json
+      }
+      auth_user_id_by_email: {
+        Args: {
+          _email: string
+        }
+        Returns: string
+      }
+      cart_details: {
+        Args: {
+          _items: Json
+        }
+        Returns: Json
+      }
+      cart_lines: {
+        Args: {
+          _items: Json
+        }
+        Returns: {
+          product_id: string
+          quantity: number
+          unit_price: number
+          variant_id: string
+          weight_kg: number
+        }[]
+      }
+      courier_status_order_status: {
+        Args: {
+          _courier_status: string
+        }
+        Returns: string
+      }
+      courier_status_rank: {
+        Args: {
+          _courier_status: string
+        }
+        Returns: number
+      }
+      customer_cart_id: {
+        Args: never
+        Returns: string
+      }
+      edit_order: {
+        Args: {
+          _address: string
+          _customer_name: string
+          _customer_note?: string
+          _district: string
+          _internal_note?: string
+          _items: Json
+          _manual_discount?: number
+          _order_id: string
+          _phone: string
+          _reason?: string
+        }
+        Returns: Json
+      }
+      evaluate_coupon: {
+        Args: {
+          _code: string
+          _delivery_charge: number
+          _items: Json
+          _lock?: boolean
+        }
+        Returns: Json
+      }
+      has_permission: {
+        Args: {
+          _permission: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      match_products: {
+        Args: {
+          _brand_slugs?: string[]
+          _category_slugs?: string[]
+          _in_stock?: boolean
+          _max_price?: number
+          _min_price?: number
+          _query?: string
+        }
+        Returns: {
+          product_id: string
+          rank: number
+        }[]
+      }
+      merge_cart: {
+        Args: {
+          _items: Json
+        }
+        Returns: Json
+      }
+      my_orders: {
+        Args: never
+        Returns: Json
+      }
+      order_audit_entries: {
+        Args: {
+          _order_id: string
+        }
+        Returns: Json
+      }
+      order_history: {
+        Args: {
+          _order_id: string
+        }
+        Returns: Json
+      }
+      order_status_holds_stock: {
+        Args: {
+          _status: string
+        }
+        Returns: boolean
+      }
+      order_status_transition_allowed: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: boolean
+      }
+      phone_matches: {
+        Args: {
+          _a: string
+          _b: string
+        }
+        Returns: boolean
+      }
+      place_order: {
+        Args: {
+          _address: string
+          _coupon_code?: string
+          _customer_name: string
+          _district: string
+          _items: Json
+          _payment_method?: string
+          _phone: string
+        }
+        Returns: string
+      }
+      popular_searches: {
+        Args: {
+          _days?: number
+          _limit?: number
+        }
+        Returns: {
+          query: string
+          searches: number
+        }[]
+      }
+      product_search_facets: {
+        Args: {
+          _query?: string
+        }
+        Returns: Json
+      }
+      product_search_query: {
+        Args: {
+          _query: string
+        }
+        Returns: unknown
+      }
+      profit_report: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: Json
+      }
+      public_signup_enabled: {
+        Args: never
+        Returns: boolean
+      }
+      quote_coupon: {
+        Args: {
+          _code: string
+          _district: string
+          _items: Json
+        }
+        Returns: Json
+      }
+      quote_delivery: {
+        Args: {
+          _district: string
+          _items: Json
+        }
+        Returns: Json
+      }
+      record_courier_status: {
+        Args: {
+          _consignment_id: string
+          _payload?: Json
+          _provider: string
+          _status: string
+        }
+        Returns: Json
+      }
+      record_payment_result: {
+        Args: {
+          _amount?: number
+          _event_id: string
+          _payload?: Json
+          _provider: string
+          _provider_ref: string
+          _status: string
+        }
+        Returns: Json
+      }
+      record_staff_invite: {
+        Args: {
+          _email: string
+        }
+        Returns: undefined
+      }
+      revoke_staff: {
+        Args: {
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      role_audit_entries: {
+        Args: {
+          _limit?: number
+        }
+        Returns: Json
+      }
+      role_permissions: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: string[]
+      }
+      save_cart: {
+        Args: {
+          _items: Json
+        }
+        Returns: undefined
+      }
+      search_products: {
+        Args: {
+          _brand_slugs?: string[]
+          _category_slugs?: string[]
+          _cursor?: Json
+          _in_stock?: boolean
+          _limit?: number
+          _max_price?: number
+          _min_price?: number
+          _offset?: number
+          _query?: string
+          _sort?: string
+        }
+        Returns: Json
+      }
+      set_default_address: {
+        Args: {
+          _id: string
+        }
+        Returns: undefined
+      }
+      set_order_status: {
+        Args: {
+          _note?: string
+          _order_id: string
+          _status: string
+        }
+        Returns: undefined
+      }
+      set_public_signup: {
+        Args: {
+          _enabled: boolean
+        }
+        Returns: undefined
+      }
+      set_staff_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      start_payment: {
+        Args: {
+          _order_id: string
+          _phone: string
+          _provider: string
+        }
+        Returns: Json
+      }
+      stored_cart_lines: {
+        Args: {
+          _cart_id: string
+        }
+        Returns: Json
+      }
+      team_members: {
+        Args: never
+        Returns: Json
+      }
+      track_events: {
+        Args: {
+          _events: Json
+        }
+        Returns: number
+      }
+      track_events_beacon: {
+        Args: {
+          "": string
+        }
+        Returns: number
+      }
+      track_order: {
+        Args: {
+          _order_id: string
+          _phone: string
+        }
+        Returns: Json
+      }
+      variant_label: {
+        Args: {
+          _options: Json
+        }
+        Returns: string
       }
     }
     Enums: {
-      app_role: "admin" | "user"
+      app_role: "admin" | "user" | "owner" | "manager" | "order_staff" | "analyst"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -282,7 +1570,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "user"],
+      app_role: ["admin", "user", "owner", "manager", "order_staff", "analyst"],
     },
   },
 } as const
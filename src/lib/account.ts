@@ -0,0 +1,168 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CartItem } from '@/lib/cart';
+import { VariantOptions, getVariantLabel, getVariantPrice } from '@/lib/variants';
+
+// Customer accounts sign in with a one-time code. Email codes work out of the box; phone
+// codes need an SMS provider in the Supabase Auth settings, so they are opt-in.
+export const phoneLoginEnabled = import.meta.env.VITE_PHONE_LOGIN === 'true';
+
+export type OtpChannel = 'phone' | 'email';
+
+export interface SavedAddress {
+  id: string;
+  label: string | null;
+  customer_name: string;
+  phone: string;
+  address: string;
+  district: string;
+  is_default: boolean;
+}
+
+export type AddressDraft = Omit<SavedAddress, 'id'>;
+
+export interface CustomerOrderItem {
+  product_id: string | null;
+  variant_id: string | null;
+  name: string | null;
+  variant_label: string | null;
+  quantity: number;
+  price: number;
+}
+
+export interface CustomerOrder {
+  id: string;
+  status: string;
+  customer_name: string;
+  phone: string;
+  address: string;
+  district: string | null;
+  delivery_zone: string | null;
+  total_amount: number;
+  payment_method: string;
+  payment_status: string;
+  created_at: string;
+  items: CustomerOrderItem[];
+}
+
+// 01XXXXXXXXX (or 8801XXXXXXXXX) as the +880 number Supabase expects
+export const toInternationalPhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  if (/^01\d{9}$/.test(digits)) return `+88${digits}`;
+  if (/^8801\d{9}$/.test(digits)) return `+${digits}`;
+  return null;
+};
+
+export const sendLoginCode = async (channel: OtpChannel, target: string) => {
+  const { error } = channel === 'phone'
+    ? await supabase.auth.signInWithOtp({ phone: target })
+    : await supabase.auth.signInWithOtp({ email: target, options: { shouldCreateUser: true } });
+  if (error) throw error;
+};
+
+export const verifyLoginCode = async (channel: OtpChannel, target: string, token: string) => {
+  const { error } = channel === 'phone'
+    ? await supabase.auth.verifyOtp({ phone: target, token, type: 'sms' })
+    : await supabase.auth.verifyOtp({ email: target, token, type: 'email' });
+  if (error) throw error;
+};
+
+export const fetchMyOrders = async (): Promise<CustomerOrder[]> => {
+  const { data, error } = await supabase.rpc('my_orders');
+  if (error) throw error;
+  return (data as unknown as CustomerOrder[]) || [];
+};
+
+const ADDRESS_COLUMNS = 'id, label, customer_name, phone, address, district, is_default';
+
+export const fetchAddresses = async (): Promise<SavedAddress[]> => {
+  const { data, error } = await supabase
+    .from('customer_addresses')
+    .select(ADDRESS_COLUMNS)
+    .order('is_default', { ascending: false })
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+// The row is written first and made the default afterwards, so a failed save never clears
+// the customer's current default
+export const saveAddress = async (draft: AddressDraft, id?: string) => {
+  const address = {
+    label: draft.label?.trim() || null,
+    customer_name: draft.customer_name.trim(),
+    phone: draft.phone.trim(),
+    address: draft.address.trim(),
+    district: draft.district,
+    ...(draft.is_default ? {} : { is_default: false }),
+  };
+
+  const { data, error } = id
+    ? await supabase.from('customer_addresses').update(address).eq('id', id).select('id').single()
+    : await supabase.from('customer_addresses').insert(address).select('id').single();
+  if (error) throw error;
+
+  if (draft.is_default) await setDefaultAddress(data.id);
+};
+
+export const setDefaultAddress = async (id: string) => {
+  const { error } = await supabase.rpc('set_default_address', { _id: id });
+  if (error) throw error;
+};
+
+export const deleteAddress = async (id: string) => {
+  const { error } = await supabase.from('customer_addresses').delete().eq('id', id);
+  if (error) throw error;
+};
+
+const firstImage = (images: unknown) => (Array.isArray(images) && typeof images[0] === 'string' ? images[0] : undefined);
+
+// Cart lines for ordering the same items again, at today's prices. Lines whose product or
+// variant is gone or out of stock are returned by name in `unavailable`.
+export const buildReorderItems = async (order: CustomerOrder) => {
+  const productIds = [...new Set(order.items.map((item) => item.product_id).filter((id): id is string => !!id))];
+  const variantIds = [...new Set(order.items.map((item) => item.variant_id).filter((id): id is string => !!id))];
+
+  const [productsResult, variantsResult] = await Promise.all([
+    supabase.from('products').select('id, name, price, stock, image_url, images, has_variants').in('id', productIds),
+    variantIds.length > 0
+      ? supabase.from('product_variants').select('id, product_id, options, price, stock, images, is_active').in('id', variantIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (productsResult.error) throw productsResult.error;
+  if (variantsResult.error) throw variantsResult.error;
+
+  const products = new Map((productsResult.data || []).map((product) => [product.id, product]));
+  const variants = new Map((variantsResult.data || []).map((variant) => [variant.id, variant]));
+
+  const items: CartItem[] = [];
+  const unavailable: string[] = [];
+
+  order.items.forEach((line) => {
+    const product = line.product_id ? products.get(line.product_id) : undefined;
+    const variant = line.variant_id ? variants.get(line.variant_id) : undefined;
+    const lineName = `${line.name || 'N/A'}${line.variant_label ? ` (${line.variant_label})` : ''}`;
+
+    if (!product || (line.variant_id && (!variant || !variant.is_active)) || (!line.variant_id && product.has_variants)) {
+      unavailable.push(lineName);
+      return;
+    }
+
+    const stock = variant ? variant.stock : product.stock;
+    if (stock <= 0) {
+      unavailable.push(lineName);
+      return;
+    }
+
+    items.push({
+      id: product.id,
+      name: product.name,
+      price: getVariantPrice(variant, Number(product.price)),
+      quantity: Math.min(line.quantity, stock),
+      image_url: firstImage(variant?.images) || firstImage(product.images) || product.image_url || undefined,
+      variant_id: variant?.id,
+      variant_label: variant ? getVariantLabel(variant.options as VariantOptions) : undefined,
+    });
+  });
+
+  return { items, unavailable };
+};
@@ -0,0 +1,184 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+// What each activity type carries. product_id/product_name go to their own
+// user_activity columns, everything else is stored in metadata.
+export interface AnalyticsEvents {
+  page_view: { referrer: string | null };
+  product_view: { product_id: string; product_name: string };
+  product_click: { product_id: string; product_name: string };
+  add_to_cart: { product_id: string; product_name: string; price: number; quantity: number; variant_id?: string };
+  remove_from_cart: { product_id: string; product_name: string; quantity: number; variant_id?: string };
+  order_placed: { order_id: string; total: number; items: number };
+  search: { search_query: string };
+  button_click: { label: string };
+}
+
+export type ActivityType = keyof AnalyticsEvents;
+
+// Row shape expected by the track_events() function
+interface QueuedEvent {
+  event_id: string;
+  session_id: string;
+  activity_type: ActivityType;
+  page_path: string;
+  product_id: string | null;
+  product_name: string | null;
+  metadata: Record<string, unknown>;
+  occurred_at: string;
+}
+
+const BATCH_SIZE = 20;
+const FLUSH_INTERVAL_MS = 5000;
+const PAGE_VIEW_DEDUPE_MS = 1000;
+const DB_NAME = 'analytics';
+const STORE_NAME = 'events';
+
+const beaconUrl = `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/rpc/track_events_beacon?apikey=${
+  import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY
+}`;
+
+const getSessionId = (): string => {
+  let sessionId = sessionStorage.getItem('tracking_session_id');
+  if (!sessionId) {
+    sessionId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    sessionStorage.setItem('tracking_session_id', sessionId);
+  }
+  return sessionId;
+};
+
+// Offline copy of the queue, so events survive a reload or a lost connection.
+// Everything here fails soft: without IndexedDB the queue is memory-only.
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openQueueDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'event_id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async (mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest | void) => {
+  const db = await openQueueDb();
+  if (!db) return undefined;
+
+  return new Promise<unknown>((resolve) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = run(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => resolve(undefined);
+  });
+};
+
+const storeEvents = (events: QueuedEvent[]) =>
+  withStore('readwrite', (store) => events.forEach((event) => store.put(event)));
+
+const deleteEvents = (ids: string[]) =>
+  withStore('readwrite', (store) => ids.forEach((id) => store.delete(id)));
+
+const loadStoredEvents = async () => ((await withStore('readonly', (store) => store.getAll())) as QueuedEvent[]) || [];
+
+let queue: QueuedEvent[] = [];
+let flushing = false;
+let started = false;
+let lastPageView: { path: string; at: number } | null = null;
+
+const removeFromQueue = (ids: string[]) => {
+  const sent = new Set(ids);
+  queue = queue.filter((event) => !sent.has(event.event_id));
+};
+
+const flush = async () => {
+  if (flushing || queue.length === 0 || !navigator.onLine) return;
+
+  flushing = true;
+  const batch = queue.slice(0, BATCH_SIZE);
+  try {
+    const { error } = await supabase.rpc('track_events', { _events: batch as unknown as Json });
+    if (error) throw error;
+
+    const ids = batch.map((event) => event.event_id);
+    removeFromQueue(ids);
+    await deleteEvents(ids);
+  } catch (error) {
+    // Kept in the queue and retried on the next tick
+    console.error('Error sending analytics events:', error);
+  } finally {
+    flushing = false;
+  }
+
+  if (queue.length >= BATCH_SIZE) flush();
+};
+
+// The page may be gone before a fetch completes, so hand what is left to the browser
+const flushWithBeacon = () => {
+  if (queue.length === 0 || !navigator.onLine || typeof navigator.sendBeacon !== 'function') return;
+
+  while (queue.length > 0) {
+    const batch = queue.slice(0, BATCH_SIZE);
+    const sent = navigator.sendBeacon(beaconUrl, new Blob([JSON.stringify(batch)], { type: 'text/plain' }));
+    if (!sent) break;
+
+    const ids = batch.map((event) => event.event_id);
+    removeFromQueue(ids);
+    deleteEvents(ids);
+  }
+};
+
+const start = () => {
+  if (started || typeof window === 'undefined') return;
+  started = true;
+
+  // Events left over from an earlier visit
+  loadStoredEvents().then((stored) => {
+    const queued = new Set(queue.map((event) => event.event_id));
+    queue = [...stored.filter((event) => !queued.has(event.event_id)), ...queue];
+    flush();
+  });
+
+  window.setInterval(flush, FLUSH_INTERVAL_MS);
+  window.addEventListener('online', () => flush());
+  window.addEventListener('pagehide', flushWithBeacon);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushWithBeacon();
+  });
+};
+
+export const track = <T extends ActivityType>(type: T, data: AnalyticsEvents[T], pagePath = window.location.pathname) => {
+  start();
+
+  const { product_id, product_name, ...metadata } = data as AnalyticsEvents[T] & {
+    product_id?: string;
+    product_name?: string;
+  };
+
+  const event: QueuedEvent = {
+    event_id: crypto.randomUUID(),
+    session_id: getSessionId(),
+    activity_type: type,
+    page_path: pagePath,
+    product_id: product_id ?? null,
+    product_name: product_name ?? null,
+    metadata,
+    occurred_at: new Date().toISOString(),
+  };
+
+  queue.push(event);
+  storeEvents([event]);
+  if (queue.length >= BATCH_SIZE) flush();
+};
+
+// Only one page_view per navigation, even if the effect runs twice
+export const trackPageView = (path: string) => {
+  const now = Date.now();
+  if (lastPageView && lastPageView.path === path && now - lastPageView.at < PAGE_VIEW_DEDUPE_MS) return;
+
+  lastPageView = { path, at: now };
+  track('page_view', { referrer: document.referrer || null }, path);
+};
@@ -0,0 +1,108 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ORDER_AUDIT_FIELD_LABELS } from '@/lib/orderEditing';
+import { getOrderStatusText } from '@/lib/orderStatus';
+import { getRoleText } from '@/lib/permissions';
+
+// The audit_log table is written by triggers (see 20251203000000_audit_log.sql), so every
+// change shows up here whether it came from the Admin, a database function or a webhook.
+
+export type AuditEntity = 'product' | 'order' | 'delivery_zone' | 'delivery_charge' | 'role';
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEntry {
+  id: number;
+  entity: AuditEntity;
+  entity_id: string | null;
+  table_name: string;
+  record_id: string | null;
+  action: 'insert' | 'update' | 'delete';
+  changes: AuditChanges;
+  created_at: string;
+  actor_email: string | null;
+  entity_label: string | null;
+}
+
+export interface AuditFilters {
+  entity: AuditEntity | null;
+  entityId: string | null;
+  actor: string;
+  // [_from, _to) timestamps, or null for all time
+  from: string | null;
+  to: string | null;
+}
+
+// A single product or order whose full history is shown
+export interface AuditFocus {
+  entity: AuditEntity;
+  entityId: string;
+  label: string | null;
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  product: 'পণ্য',
+  order: 'অর্ডার',
+  delivery_zone: 'ডেলিভারি জোন',
+  delivery_charge: 'ডেলিভারি চার্জ (পুরনো)',
+  role: 'স্টাফ রোল',
+};
+
+// Rows that belong to a product or order but live in their own table
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  product_variants: 'ভ্যারিয়েন্ট',
+  order_items: 'অর্ডারের পণ্য',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  insert: 'তৈরি',
+  update: 'পরিবর্তন',
+  delete: 'মুছে ফেলা',
+};
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  ...ORDER_AUDIT_FIELD_LABELS,
+  name: 'নাম',
+  price: 'মূল্য',
+  cost_price: 'ক্রয় মূল্য',
+  stock: 'স্টক',
+  description: 'বিবরণ',
+  image_url: 'ছবি',
+  images: 'ছবিসমূহ',
+  priority: 'অগ্রাধিকার',
+  sku: 'SKU',
+  weight_kg: 'ওজন (কেজি)',
+  status: 'স্ট্যাটাস',
+  payment_status: 'পেমেন্ট স্ট্যাটাস',
+  quantity: 'পরিমাণ',
+  base_charge: 'মূল চার্জ',
+  charge: 'চার্জ',
+  role: 'রোল',
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+export const formatAuditValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'status' && typeof value === 'string') return getOrderStatusText(value);
+  if (field === 'role' && typeof value === 'string') return getRoleText(value);
+  if (typeof value === 'boolean') return value ? 'হ্যাঁ' : 'না';
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+export const fetchAuditEntries = async (filters: AuditFilters, beforeId?: number): Promise<AuditEntry[]> => {
+  const { data, error } = await supabase.rpc('audit_entries', {
+    _entity: filters.entity ?? undefined,
+    _entity_id: filters.entityId ?? undefined,
+    _actor: filters.actor.trim() || undefined,
+    _from: filters.from ?? undefined,
+    _to: filters.to ?? undefined,
+    _before_id: beforeId,
+    _limit: AUDIT_PAGE_SIZE,
+  });
+  if (error) throw error;
+  return (data as unknown as AuditEntry[]) || [];
+};
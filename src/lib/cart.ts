@@ -0,0 +1,76 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface CartItem {
+  id: string;
+  name: string;
+  price: number;
+  quantity: number;
+  image_url?: string;
+  variant_id?: string;
+  variant_label?: string;
+}
+
+// A cart line is one product, or one variant of a product
+export const getCartItemKey = (item: Pick<CartItem, 'id' | 'variant_id'>) =>
+  item.variant_id ? `${item.id}:${item.variant_id}` : item.id;
+
+// What the store says about a line today, set when the cart is revalidated
+export interface CartLineCheck {
+  available: boolean;
+  stock: number | null;
+  // The price the customer saw before it changed
+  previousPrice?: number;
+}
+
+// 'variant_required' lines were added before the product got variants
+export type CartLineStatus = 'ok' | 'unavailable' | 'variant_required';
+
+// A cart line as the store has it today, from cart_details()
+export interface CartLineDetails {
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  status: CartLineStatus;
+  name: string | null;
+  variant_label: string | null;
+  price: number | null;
+  image_url: string | null;
+  stock: number | null;
+}
+
+// A line of a signed-in customer's stored cart, with the price they last saw
+export interface StoredCartLine {
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  price: number | null;
+}
+
+export const toStoredCartLines = (items: CartItem[]): StoredCartLine[] =>
+  items.map((item) => ({
+    product_id: item.id,
+    variant_id: item.variant_id ?? null,
+    quantity: item.quantity,
+    price: item.price,
+  }));
+
+// One entry per line, in the same order
+export const fetchCartDetails = async (lines: StoredCartLine[]): Promise<CartLineDetails[]> => {
+  if (lines.length === 0) return [];
+  const { data, error } = await supabase.rpc('cart_details', { _items: lines as unknown as Json });
+  if (error) throw error;
+  return (data as unknown as CartLineDetails[]) || [];
+};
+
+// Adds the cart built before signing in to the stored one and returns the combined cart
+export const mergeServerCart = async (items: CartItem[]): Promise<StoredCartLine[]> => {
+  const { data, error } = await supabase.rpc('merge_cart', { _items: toStoredCartLines(items) as unknown as Json });
+  if (error) throw error;
+  return (data as unknown as StoredCartLine[]) || [];
+};
+
+export const saveServerCart = async (items: CartItem[]) => {
+  const { error } = await supabase.rpc('save_cart', { _items: toStoredCartLines(items) as unknown as Json });
+  if (error) throw error;
+};
@@ -0,0 +1,123 @@
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  parent_id: string | null;
+  sort_order: number;
+}
+
+export interface Brand {
+  id: string;
+  name: string;
+  slug: string;
+  logo_url: string | null;
+  sort_order: number;
+}
+
+export interface ProductFilters {
+  categories: string[];
+  brands: string[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  inStock: boolean;
+}
+
+export const EMPTY_PRODUCT_FILTERS: ProductFilters = {
+  categories: [],
+  brands: [],
+  minPrice: null,
+  maxPrice: null,
+  inStock: false,
+};
+
+// "Wireless Earbuds" -> "wireless-earbuds"; non-Latin names fall back to a random suffix
+export const slugify = (name: string) => {
+  const slug = name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || `item-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// Categories in tree order with their depth, for indented lists
+export const flattenCategoryTree = (categories: Category[]) => {
+  const byParent = new Map<string | null, Category[]>();
+  categories.forEach((category) => {
+    const siblings = byParent.get(category.parent_id) || [];
+    siblings.push(category);
+    byParent.set(category.parent_id, siblings);
+  });
+
+  const result: { category: Category; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (byParent.get(parentId) || [])
+      .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name))
+      .forEach((category) => {
+        result.push({ category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+
+  // Categories whose parent was deleted still show up at the top level
+  const seen = new Set(result.map((r) => r.category.id));
+  categories.filter((c) => !seen.has(c.id)).forEach((category) => result.push({ category, depth: 0 }));
+
+  return result;
+};
+
+// The category and everything nested under it
+export const getCategoryDescendantIds = (categories: Category[], categoryId: string) => {
+  const ids = new Set([categoryId]);
+  let added = true;
+  while (added) {
+    added = false;
+    categories.forEach((category) => {
+      if (category.parent_id && ids.has(category.parent_id) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+// Filters live in the URL (?category=earbuds,chargers&brand=anker&min=500&max=3000&in_stock=1)
+// so a filtered view can be shared
+export const parseProductFilters = (params: URLSearchParams): ProductFilters => {
+  const list = (key: string) => (params.get(key) || '').split(',').filter(Boolean);
+  const number = (key: string) => {
+    const value = parseFloat(params.get(key) || '');
+    return Number.isFinite(value) ? value : null;
+  };
+
+  return {
+    categories: list('category'),
+    brands: list('brand'),
+    minPrice: number('min'),
+    maxPrice: number('max'),
+    inStock: params.get('in_stock') === '1',
+  };
+};
+
+export const applyProductFilters = (params: URLSearchParams, filters: ProductFilters) => {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string | null) => {
+    if (value) next.set(key, value);
+    else next.delete(key);
+  };
+
+  set('category', filters.categories.join(','));
+  set('brand', filters.brands.join(','));
+  set('min', filters.minPrice != null ? String(filters.minPrice) : null);
+  set('max', filters.maxPrice != null ? String(filters.maxPrice) : null);
+  set('in_stock', filters.inStock ? '1' : null);
+  return next;
+};
+
+export const countActiveFilters = (filters: ProductFilters) =>
+  filters.categories.length +
+  filters.brands.length +
+  (filters.minPrice != null || filters.maxPrice != null ? 1 : 0) +
+  (filters.inStock ? 1 : 0);
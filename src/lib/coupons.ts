@@ -0,0 +1,63 @@
+export type DiscountType = 'percentage' | 'fixed' | 'free_delivery';
+
+export const DISCOUNT_TYPES: DiscountType[] = ['percentage', 'fixed', 'free_delivery'];
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: DiscountType;
+  discount_value: number;
+  max_discount: number | null;
+  min_order_amount: number;
+  starts_at: string | null;
+  expires_at: string | null;
+  usage_limit: number | null;
+  product_ids: string[];
+  category_ids: string[];
+  is_active: boolean;
+  created_at: string;
+}
+
+// Result of the quote_coupon RPC
+export interface CouponQuote {
+  coupon_id: string;
+  code: string;
+  discount_type: DiscountType;
+  item_discount: number;
+  delivery_discount: number;
+  discount: number;
+}
+
+export const getDiscountTypeText = (type: string) => {
+  switch (type) {
+    case 'percentage':
+      return 'শতাংশ ছাড়';
+    case 'fixed':
+      return 'নির্দিষ্ট টাকা ছাড়';
+    case 'free_delivery':
+      return 'ফ্রি ডেলিভারি';
+    default:
+      return type;
+  }
+};
+
+// Coupon errors raised by quote_coupon and place_order, or null for any other error
+export const getCouponErrorText = (message: string, details?: string) => {
+  switch (message) {
+    case 'coupon_not_found':
+      return 'কুপন কোডটি সঠিক নয়';
+    case 'coupon_not_started':
+      return 'এই কুপন এখনো চালু হয়নি';
+    case 'coupon_expired':
+      return 'এই কুপনের মেয়াদ শেষ';
+    case 'coupon_usage_limit':
+      return 'এই কুপনের ব্যবহারের সীমা শেষ';
+    case 'coupon_min_order':
+      return `এই কুপনের জন্য কমপক্ষে ৳${Number(details || 0).toFixed(2)} এর অর্ডার প্রয়োজন`;
+    case 'coupon_not_applicable':
+      return 'কার্টের কোন পণ্যে এই কুপন প্রযোজ্য নয়';
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,65 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Courier bookings go through the courier-create-shipment edge function; status updates
+// arrive from the courier at courier-webhook and are stored on the order.
+
+export type CourierStatus = 'booked' | 'picked_up' | 'in_transit' | 'delivered' | 'returned' | 'cancelled';
+
+export interface Shipment {
+  provider: string;
+  consignment_id: string;
+  tracking_code: string;
+  status: CourierStatus;
+}
+
+export const getCourierStatusText = (status: string) => {
+  switch (status) {
+    case 'booking':
+      return 'বুক হচ্ছে';
+    case 'booked':
+      return 'বুক হয়েছে';
+    case 'picked_up':
+      return 'পিকআপ হয়েছে';
+    case 'in_transit':
+      return 'পথে আছে';
+    case 'delivered':
+      return 'পৌঁছে গেছে';
+    case 'returned':
+      return 'ফেরত এসেছে';
+    case 'cancelled':
+      return 'বাতিল';
+    default:
+      return status;
+  }
+};
+
+const BOOKING_ERRORS: Record<string, string> = {
+  order_not_found: 'অর্ডার পাওয়া যায়নি',
+  order_not_confirmed: 'শুধু নিশ্চিত অর্ডার কুরিয়ারে পাঠানো যায়',
+  already_booked: 'এই অর্ডার আগেই কুরিয়ারে বুক হয়েছে',
+  booking_in_progress: 'এই অর্ডার এখন কুরিয়ারে বুক করা হচ্ছে',
+  courier_failed: 'কুরিয়ার বুকিং নেয়নি, পরে আবার চেষ্টা করুন',
+  courier_not_configured: 'কুরিয়ার সেট করা নেই',
+};
+
+// A cancelled consignment can be booked again; 'booking' means a booking is under way
+export const canBookCourier = (order: { status: string; courier_consignment_id?: string | null; courier_status?: string | null }) =>
+  (order.status === 'confirmed' || order.status === 'processing') &&
+  ((!order.courier_consignment_id && order.courier_status !== 'booking') || order.courier_status === 'cancelled');
+
+export const bookCourier = async (orderId: string): Promise<Shipment> => {
+  const { data, error } = await supabase.functions.invoke('courier-create-shipment', {
+    body: { order_id: orderId },
+  });
+
+  if (error) {
+    let code = '';
+    if (error instanceof FunctionsHttpError) {
+      code = (await error.context.json().catch(() => null))?.error ?? '';
+    }
+    throw new Error(BOOKING_ERRORS[code] || 'কুরিয়ার বুক করতে সমস্যা হয়েছে');
+  }
+
+  return data.shipment;
+};
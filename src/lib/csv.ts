@@ -0,0 +1,57 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Text that a spreadsheet would run as a formula, such as a customer name of =HYPERLINK(...)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: CsvValue) => {
+  if (value == null) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]) => rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
+
+// The byte order mark makes Excel read the file as UTF-8, so Bengali text shows correctly
+export const toCsvBlob = (rows: CsvValue[][]) => new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+
+// RFC 4180 parsing: quoted cells may hold commas, quotes ("") and line breaks.
+// A leading byte order mark is dropped and fully empty lines are skipped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some((value) => value.trim() !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  if (row.some((value) => value.trim() !== '')) rows.push(row);
+  return rows;
+};
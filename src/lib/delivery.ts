@@ -0,0 +1,51 @@
+import { DISTRICTS, getDistrictLabel } from '@/lib/districts';
+
+export interface DeliveryZone {
+  id: string;
+  code: string;
+  name: string;
+  areas: string[];
+  base_charge: number;
+  per_extra_item_charge: number;
+  included_weight_kg: number;
+  weight_surcharge_per_kg: number;
+  free_delivery_threshold: number | null;
+  delivery_cost: number;
+  is_default: boolean;
+  is_active: boolean;
+  sort_order: number;
+}
+
+// Result of the quote_delivery RPC
+export interface DeliveryQuote {
+  zone_id: string;
+  zone_code: string;
+  zone_name: string;
+  charge: number;
+  free_delivery_threshold: number | null;
+}
+
+export interface DeliveryArea {
+  value: string;
+  label: string;
+}
+
+// Every district, plus any sub-areas (e.g. "Savar") that zones list by name
+export const getDeliveryAreas = (zones: Pick<DeliveryZone, 'areas'>[]): DeliveryArea[] => {
+  const known = new Set(DISTRICTS.map((d) => d.name.toLowerCase()));
+  const extraAreas = new Set<string>();
+
+  zones.forEach((zone) => {
+    (zone.areas || []).forEach((area) => {
+      const trimmed = area.trim();
+      if (trimmed && !known.has(trimmed.toLowerCase())) {
+        extraAreas.add(trimmed);
+      }
+    });
+  });
+
+  return [
+    ...Array.from(extraAreas).sort().map((area) => ({ value: area, label: area })),
+    ...DISTRICTS.map((d) => ({ value: d.name, label: getDistrictLabel(d.name) })),
+  ];
+};
@@ -0,0 +1,21 @@
+import { CsvValue, toCsvBlob } from '@/lib/csv';
+import { toXlsx } from '@/lib/xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Downloads rows (the first one being the header) as <basename>.csv or <basename>.xlsx
+export const exportRows = async (basename: string, rows: CsvValue[][], format: ExportFormat) => {
+  const blob = format === 'xlsx' ? await toXlsx(rows, basename) : toCsvBlob(rows);
+  downloadBlob(`${basename}.${format}`, blob);
+};
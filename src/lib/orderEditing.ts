@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Admin edits of an order go through edit_order(), which moves stock, recomputes the
+// delivery charge and total, and records what changed in order_audit_log.
+
+export const orderDetailsUrl = (orderId: string) => `/admin/orders/${orderId}`;
+
+// An existing line is sent with its id; a new line with its product (and variant)
+export type OrderEditItem =
+  | { id: string; quantity: number }
+  | { product_id: string; variant_id: string | null; quantity: number };
+
+export interface OrderEdit {
+  customer_name: string;
+  phone: string;
+  address: string;
+  district: string;
+  items: OrderEditItem[];
+  manual_discount: number;
+  internal_note: string;
+  customer_note: string;
+  reason: string;
+}
+
+interface AuditItemLine {
+  name: string | null;
+  variant_label: string | null;
+  quantity?: number;
+  price?: number;
+  from?: number;
+  to?: number;
+}
+
+export interface OrderAuditChanges {
+  items?: {
+    added?: AuditItemLine[];
+    removed?: AuditItemLine[];
+    changed?: AuditItemLine[];
+  };
+  [field: string]: unknown;
+}
+
+export interface OrderAuditEntry {
+  id: string;
+  action: string;
+  changes: OrderAuditChanges;
+  note: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export const ORDER_AUDIT_FIELD_LABELS: Record<string, string> = {
+  customer_name: 'নাম',
+  phone: 'ফোন',
+  address: 'ঠিকানা',
+  district: 'এলাকা',
+  delivery_charge: 'ডেলিভারি চার্জ',
+  manual_discount: 'অতিরিক্ত ছাড়',
+  total_amount: 'সর্বমোট',
+  internal_note: 'অভ্যন্তরীণ নোট',
+  customer_note: 'গ্রাহকের জন্য নোট',
+};
+
+// Must match the check at the start of edit_order()
+export const canEditOrder = (order: { status: string; courier_consignment_id?: string | null; courier_status?: string | null }) =>
+  ['pending', 'confirmed', 'processing'].includes(order.status) &&
+  (!order.courier_consignment_id || order.courier_status === 'cancelled');
+
+const EDIT_ERRORS: Record<string, string> = {
+  forbidden: 'অর্ডার এডিট করার অনুমতি নেই',
+  order_not_found: 'অর্ডার পাওয়া যায়নি',
+  order_not_editable: 'পাঠানো বা কুরিয়ারে বুক হওয়া অর্ডার এডিট করা যায় না',
+  invalid_customer: 'নাম, ফোন, ঠিকানা ও এলাকা প্রয়োজন',
+  empty_cart: 'অর্ডারে অন্তত একটি পণ্য থাকতে হবে',
+  invalid_quantity: 'পরিমাণ অন্তত ১ হতে হবে',
+  order_item_not_found: 'অর্ডারের একটি পণ্য আর নেই, পেজটি রিফ্রেশ করুন',
+  duplicate_order_item: 'অর্ডারের একটি পণ্য দুইবার দেওয়া হয়েছে, পেজটি রিফ্রেশ করুন',
+  product_not_found: 'নির্বাচিত পণ্য বা ভ্যারিয়েন্ট পাওয়া যায়নি',
+  variant_required: 'পণ্যের ভ্যারিয়েন্ট নির্বাচন করুন',
+  invalid_location: 'এই এলাকায় ডেলিভারি দেওয়া যায় না',
+  invalid_discount: 'ছাড় অর্ডারের মোট মূল্যের বেশি হতে পারে না',
+};
+
+// Returns the changes that were recorded (empty when nothing changed)
+export const editOrder = async (orderId: string, edit: OrderEdit): Promise<OrderAuditChanges> => {
+  const { data, error } = await supabase.rpc('edit_order', {
+    _order_id: orderId,
+    _customer_name: edit.customer_name,
+    _phone: edit.phone,
+    _address: edit.address,
+    _district: edit.district,
+    _items: edit.items,
+    _manual_discount: edit.manual_discount,
+    _internal_note: edit.internal_note,
+    _customer_note: edit.customer_note,
+    _reason: edit.reason.trim() || undefined,
+  });
+
+  if (!error) return (data as unknown as OrderAuditChanges) || {};
+
+  if (error.message === 'insufficient_stock') {
+    let shortItems: { name: string; stock: number }[] = [];
+    try {
+      shortItems = JSON.parse(error.details || '[]');
+    } catch {
+      shortItems = [];
+    }
+    throw new Error(`পর্যাপ্ত স্টক নেই: ${shortItems.map(p => `${p.name} (স্টক: ${p.stock})`).join(', ')}`);
+  }
+
+  if (!EDIT_ERRORS[error.message]) {
+    console.error('Error editing order:', error);
+  }
+  throw new Error(EDIT_ERRORS[error.message] || 'অর্ডার সংরক্ষণ করতে সমস্যা হয়েছে');
+};
+
+export const fetchOrderAudit = async (orderId: string): Promise<OrderAuditEntry[]> => {
+  const { data, error } = await supabase.rpc('order_audit_entries', { _order_id: orderId });
+  if (error) throw error;
+  return (data as unknown as OrderAuditEntry[]) || [];
+};
@@ -0,0 +1,13 @@
+// Printable invoices and courier labels for orders, see pages/PrintOrders.tsx
+
+export type OrderPrintType = 'invoice' | 'label';
+
+export const ORDER_PRINT_PATH = '/admin/print';
+
+export const orderPrintUrl = (type: OrderPrintType, orderIds: string[]) =>
+  `${ORDER_PRINT_PATH}?type=${type}&ids=${orderIds.join(',')}`;
+
+// Opens the print view in a new tab so the Admin page keeps its filters and selection
+export const openOrderPrint = (type: OrderPrintType, orderIds: string[]) => {
+  window.open(orderPrintUrl(type, orderIds), '_blank', 'noopener');
+};
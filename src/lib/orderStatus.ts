@@ -0,0 +1,150 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type OrderStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'processing'
+  | 'shipped'
+  | 'delivered'
+  | 'failed_delivery'
+  | 'returned'
+  | 'refunded'
+  | 'cancelled';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'confirmed',
+  'processing',
+  'shipped',
+  'delivered',
+  'failed_delivery',
+  'returned',
+  'refunded',
+  'cancelled',
+];
+
+// Allowed status changes; must match order_status_transition_allowed() in the database
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['pending', 'processing', 'shipped', 'delivered', 'cancelled'],
+  processing: ['confirmed', 'shipped', 'delivered', 'cancelled'],
+  shipped: ['delivered', 'failed_delivery', 'returned'],
+  failed_delivery: ['shipped', 'delivered', 'returned'],
+  delivered: ['returned'],
+  returned: ['refunded'],
+  cancelled: ['pending', 'refunded'],
+  refunded: [],
+};
+
+export const getNextOrderStatuses = (status: string): OrderStatus[] =>
+  ORDER_STATUS_TRANSITIONS[status as OrderStatus] ?? [];
+
+// Orders in these statuses have their items taken out of stock and count as sales
+export const orderStatusHoldsStock = (status: string) =>
+  ['confirmed', 'processing', 'shipped', 'delivered', 'failed_delivery'].includes(status);
+
+export const getOrderStatusColor = (status: string) => {
+  switch (status) {
+    case 'confirmed':
+      return 'bg-green-500';
+    case 'pending':
+      return 'bg-yellow-500';
+    case 'processing':
+      return 'bg-teal-500';
+    case 'shipped':
+      return 'bg-indigo-500';
+    case 'delivered':
+      return 'bg-blue-500';
+    case 'failed_delivery':
+      return 'bg-orange-500';
+    case 'returned':
+      return 'bg-purple-500';
+    case 'refunded':
+      return 'bg-slate-500';
+    case 'cancelled':
+      return 'bg-red-500';
+    default:
+      return 'bg-gray-500';
+  }
+};
+
+export const getOrderStatusText = (status: string) => {
+  switch (status) {
+    case 'confirmed':
+      return 'নিশ্চিত';
+    case 'pending':
+      return 'অপেক্ষমান';
+    case 'processing':
+      return 'প্রস্তুত হচ্ছে';
+    case 'shipped':
+      return 'পাঠানো হয়েছে';
+    case 'delivered':
+      return 'ডেলিভারি হয়েছে';
+    case 'failed_delivery':
+      return 'ডেলিভারি ব্যর্থ';
+    case 'returned':
+      return 'ফেরত এসেছে';
+    case 'refunded':
+      return 'টাকা ফেরত';
+    case 'cancelled':
+      return 'বাতিল';
+    default:
+      return status;
+  }
+};
+
+export const getLocationText = (locationType: string) => {
+  switch (locationType) {
+    case 'inside_dhaka':
+      return 'ঢাকার ভিতরে';
+    case 'outside_dhaka':
+      return 'ঢাকার বাইরে';
+    default:
+      return locationType;
+  }
+};
+
+export interface OrderHistoryEntry {
+  status: string;
+  note: string | null;
+  // Email of the admin who made the change; null for system changes such as courier updates
+  changed_by: string | null;
+  created_at: string;
+}
+
+export const fetchOrderHistory = async (orderId: string): Promise<OrderHistoryEntry[]> => {
+  const { data, error } = await supabase.rpc('order_history', { _order_id: orderId });
+  if (error) throw error;
+  return (data as unknown as OrderHistoryEntry[]) || [];
+};
+
+// Changes the status through set_order_status(), which checks the transition, records the
+// change with its note and moves the stock. Errors are thrown with a message for the admin.
+export const setOrderStatus = async (orderId: string, status: string, note?: string) => {
+  const { error } = await supabase.rpc('set_order_status', {
+    _order_id: orderId,
+    _status: status,
+    _note: note?.trim() || undefined,
+  });
+
+  if (!error) return;
+
+  switch (error.message) {
+    case 'insufficient_stock': {
+      let shortItems: { name: string; stock: number }[] = [];
+      try {
+        shortItems = JSON.parse(error.details || '[]');
+      } catch {
+        shortItems = [];
+      }
+      throw new Error(`পর্যাপ্ত স্টক নেই: ${shortItems.map(p => `${p.name} (স্টক: ${p.stock})`).join(', ')}`);
+    }
+    case 'invalid_status_transition':
+      throw new Error('এই স্ট্যাটাসে সরাসরি পরিবর্তন করা যায় না');
+    case 'order_not_found':
+      throw new Error('অর্ডার পাওয়া যায়নি');
+    default:
+      console.error('Error setting order status:', error);
+      throw new Error('অর্ডার স্ট্যাটাস আপডেট করতে সমস্যা হয়েছে');
+  }
+};
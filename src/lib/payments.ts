@@ -0,0 +1,83 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Online payments go through the payment-create edge function, which sends the customer to
+// the gateway; the gateway reports back to payment-callback, which updates the order and
+// returns the customer to /payment/result.
+
+export type PaymentMethod = 'cod' | 'advance' | 'online';
+
+// Online payment is offered at checkout only when a gateway has been set up
+// (PAYMENT_PROVIDER on the edge functions)
+export const onlinePaymentsEnabled = import.meta.env.VITE_ONLINE_PAYMENTS === 'true';
+
+export const getPaymentMethodText = (method: string) => {
+  switch (method) {
+    case 'cod':
+      return 'ক্যাশ অন ডেলিভারি';
+    case 'advance':
+      return 'ডেলিভারি চার্জ অগ্রিম';
+    case 'online':
+      return 'অনলাইন পেমেন্ট';
+    default:
+      return method;
+  }
+};
+
+export const getPaymentStatusText = (status: string) => {
+  switch (status) {
+    case 'unpaid':
+      return 'পরিশোধ হয়নি';
+    case 'partially_paid':
+      return 'আংশিক পরিশোধিত';
+    case 'paid':
+      return 'পরিশোধিত';
+    default:
+      return status;
+  }
+};
+
+export const getPaymentStatusColor = (status: string) => {
+  switch (status) {
+    case 'paid':
+      return 'bg-green-500';
+    case 'partially_paid':
+      return 'bg-blue-500';
+    default:
+      return 'bg-gray-400';
+  }
+};
+
+// What the customer still has to pay online before the order ships
+export const outstandingPrepay = (order: { prepay_amount: number; amount_paid: number }) =>
+  Math.max(Number(order.prepay_amount) - Number(order.amount_paid), 0);
+
+// What the courier collects on delivery
+export const amountDue = (order: { total_amount: number; amount_paid?: number | null }) =>
+  Math.max(Number(order.total_amount) - Number(order.amount_paid || 0), 0);
+
+const PAYMENT_ERRORS: Record<string, string> = {
+  order_not_found: 'অর্ডার পাওয়া যায়নি',
+  order_cancelled: 'বাতিল অর্ডারের পেমেন্ট করা যায় না',
+  nothing_to_pay: 'এই অর্ডারের পেমেন্ট আগেই হয়ে গেছে',
+  payment_in_progress: 'এই অর্ডারের একটি পেমেন্ট চলছে, কিছুক্ষণ পরে আবার চেষ্টা করুন',
+  gateway_failed: 'পেমেন্ট গেটওয়েতে সমস্যা হয়েছে, পরে আবার চেষ্টা করুন',
+  payments_not_configured: 'অনলাইন পেমেন্ট এখন চালু নেই',
+};
+
+// Starts a payment and sends the browser to the gateway
+export const startPayment = async (orderId: string, phone: string) => {
+  const { data, error } = await supabase.functions.invoke('payment-create', {
+    body: { order_id: orderId, phone },
+  });
+
+  if (error) {
+    let code = '';
+    if (error instanceof FunctionsHttpError) {
+      code = (await error.context.json().catch(() => null))?.error ?? '';
+    }
+    throw new Error(PAYMENT_ERRORS[code] || 'পেমেন্ট শুরু করতে সমস্যা হয়েছে');
+  }
+
+  window.location.assign(data.redirect_url);
+};
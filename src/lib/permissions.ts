@@ -0,0 +1,74 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
+
+export type Permission =
+  | 'orders.view'
+  | 'orders.manage'
+  | 'products.manage'
+  | 'coupons.manage'
+  | 'settings.manage'
+  | 'reports.view'
+  | 'team.manage'
+  | 'audit.view';
+
+// Roles that can sign in to the Admin area; 'admin' is the owner role from before staff roles
+export const STAFF_ROLES: AppRole[] = ['owner', 'admin', 'manager', 'order_staff', 'analyst'];
+
+const ALL_PERMISSIONS: Permission[] = [
+  'orders.view',
+  'orders.manage',
+  'products.manage',
+  'coupons.manage',
+  'settings.manage',
+  'reports.view',
+  'team.manage',
+  'audit.view',
+];
+
+// Must match role_permissions() in the database
+export const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  manager: ALL_PERMISSIONS.filter((permission) => permission !== 'team.manage'),
+  order_staff: ['orders.view', 'orders.manage'],
+  analyst: ['orders.view', 'reports.view'],
+  user: [],
+};
+
+export const getRoleText = (role: string) => {
+  switch (role) {
+    case 'owner':
+    case 'admin':
+      return 'মালিক';
+    case 'manager':
+      return 'ম্যানেজার';
+    case 'order_staff':
+      return 'অর্ডার স্টাফ';
+    case 'analyst':
+      return 'অ্যানালিস্ট';
+    default:
+      return role;
+  }
+};
+
+export const rolesHavePermission = (roles: AppRole[], permission: Permission) =>
+  roles.some((role) => ROLE_PERMISSIONS[role]?.includes(permission));
+
+export const rolesWithPermission = (permission: Permission): AppRole[] =>
+  STAFF_ROLES.filter((role) => ROLE_PERMISSIONS[role].includes(permission));
+
+export type AdminTab = 'dashboard' | 'products' | 'orders' | 'sales' | 'coupons' | 'analytics' | 'settings' | 'team' | 'audit';
+
+// An Admin tab is shown to roles with any of its permissions
+export const ADMIN_TAB_PERMISSIONS: Record<AdminTab, Permission[]> = {
+  dashboard: ['reports.view'],
+  products: ['products.manage'],
+  orders: ['orders.view'],
+  sales: ['reports.view'],
+  coupons: ['coupons.manage'],
+  analytics: ['reports.view'],
+  settings: ['settings.manage', 'products.manage'],
+  team: ['team.manage'],
+  audit: ['audit.view'],
+};
@@ -0,0 +1,186 @@
+import { CsvValue, parseCsv } from '@/lib/csv';
+
+// Bulk product import from CSV: parsing, validation and matching against existing products
+
+export type ImportMatchBy = 'sku' | 'name';
+
+export interface ImportRow {
+  line: number; // line in the file, header = 1
+  sku: string | null;
+  name: string | null;
+  description: string | null;
+  price: number | null;
+  cost_price: number | null;
+  stock: number | null;
+  priority: number | null;
+  image_urls: string[];
+  errors: string[];
+}
+
+// Product the import can match rows against
+export interface ImportTarget {
+  id: string;
+  name: string;
+  sku: string | null;
+  has_variants?: boolean;
+}
+
+export interface PlannedImportRow extends ImportRow {
+  action: 'create' | 'update' | 'invalid';
+  target: ImportTarget | null;
+}
+
+export const IMPORT_COLUMNS = ['sku', 'name', 'description', 'price', 'cost_price', 'stock', 'priority', 'image_urls'] as const;
+
+type ImportColumn = (typeof IMPORT_COLUMNS)[number];
+
+// Other header spellings people use for the same column
+const COLUMN_ALIASES: Record<string, ImportColumn> = {
+  image_url: 'image_urls',
+  images: 'image_urls',
+  image: 'image_urls',
+  cost: 'cost_price',
+  quantity: 'stock',
+};
+
+export const IMPORT_TEMPLATE: CsvValue[][] = [
+  [...IMPORT_COLUMNS],
+  [
+    'EB-001',
+    'Wireless Earbuds',
+    'Bluetooth 5.3, 20 ঘণ্টা ব্যাটারি',
+    1490,
+    1050,
+    25,
+    10,
+    'https://example.com/earbuds-1.jpg | https://example.com/earbuds-2.jpg',
+  ],
+];
+
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const parseNumber = (value: string, label: string, errors: string[], integer = false) => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const number = Number(trimmed);
+  if (!Number.isFinite(number) || number < 0 || (integer && !Number.isInteger(number))) {
+    errors.push(`${label} সঠিক নয়: "${trimmed}"`);
+    return null;
+  }
+  return number;
+};
+
+// Links are separated by | only, since commas and semicolons are valid inside a URL
+const parseImageUrls = (value: string, errors: string[]) => {
+  const urls = value
+    .split('|')
+    .map((url) => url.trim())
+    .filter(Boolean);
+  for (const url of urls) {
+    if (!/^https?:\/\/\S+$/i.test(url)) errors.push(`ছবির লিংক সঠিক নয়: "${url}"`);
+  }
+  return urls;
+};
+
+export const parseProductCsv = (text: string) => {
+  const [header = [], ...records] = parseCsv(text);
+
+  const columns = header.map((title) => {
+    const key = title.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    return (IMPORT_COLUMNS as readonly string[]).includes(key) ? (key as ImportColumn) : COLUMN_ALIASES[key] ?? null;
+  });
+  const unknownColumns = header.filter((_, index) => columns[index] === null).map((title) => title.trim());
+  const missingColumns = (['name', 'price'] as ImportColumn[]).filter((column) => !columns.includes(column));
+
+  const rows: ImportRow[] = records.map((record, recordIndex) => {
+    const cell = (column: ImportColumn) => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? (record[index] ?? '').trim() : '';
+    };
+    const errors: string[] = [];
+
+    return {
+      line: recordIndex + 2,
+      sku: cell('sku') || null,
+      name: cell('name') || null,
+      description: cell('description') || null,
+      price: parseNumber(cell('price'), 'দাম', errors),
+      cost_price: parseNumber(cell('cost_price'), 'ক্রয় মূল্য', errors),
+      stock: parseNumber(cell('stock'), 'স্টক', errors, true),
+      priority: parseNumber(cell('priority'), 'প্রাধান্য', errors, true),
+      image_urls: parseImageUrls(cell('image_urls'), errors),
+      errors,
+    };
+  });
+
+  return { rows, unknownColumns, missingColumns };
+};
+
+// Decides per row whether it creates or updates a product. Blank cells of an updated
+// product keep their current value; a new product needs at least a name and a price.
+export const planImport = (rows: ImportRow[], matchBy: ImportMatchBy, existing: ImportTarget[]): PlannedImportRow[] => {
+  const keyOf = (row: { sku: string | null; name: string | null }) =>
+    matchBy === 'sku' ? row.sku?.toLowerCase() ?? null : row.name ? normalizeName(row.name) : null;
+
+  const existingByKey = new Map<string, ImportTarget[]>();
+  for (const product of existing) {
+    const key = keyOf(product);
+    if (key) existingByKey.set(key, [...(existingByKey.get(key) ?? []), product]);
+  }
+
+  const existingSkus = new Map(
+    existing.filter((product) => product.sku).map((product) => [product.sku!.toLowerCase(), product.id])
+  );
+
+  const keyCounts = new Map<string, number>();
+  const skuCounts = new Map<string, number>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (key) keyCounts.set(key, (keyCounts.get(key) ?? 0) + 1);
+    if (row.sku) skuCounts.set(row.sku.toLowerCase(), (skuCounts.get(row.sku.toLowerCase()) ?? 0) + 1);
+  }
+
+  return rows.map((row) => {
+    const errors = [...row.errors];
+    const key = keyOf(row);
+    let target: ImportTarget | null = null;
+
+    if (!key) {
+      errors.push(matchBy === 'sku' ? 'SKU নেই' : 'নাম নেই');
+    } else {
+      if ((keyCounts.get(key) ?? 0) > 1) {
+        errors.push(matchBy === 'sku' ? 'ফাইলে একই SKU একাধিকবার আছে' : 'ফাইলে একই নাম একাধিকবার আছে');
+      }
+
+      const matches = existingByKey.get(key) ?? [];
+      if (matches.length > 1) {
+        errors.push(matchBy === 'sku' ? 'এই SKU-তে একাধিক পণ্য আছে' : 'এই নামে একাধিক পণ্য আছে, SKU দিয়ে মেলান');
+      } else {
+        target = matches[0] ?? null;
+      }
+    }
+
+    if (matchBy === 'name' && row.sku) {
+      if ((skuCounts.get(row.sku.toLowerCase()) ?? 0) > 1) {
+        errors.push('ফাইলে একই SKU একাধিকবার আছে');
+      }
+      const skuOwner = existingSkus.get(row.sku.toLowerCase());
+      if (skuOwner && skuOwner !== target?.id) {
+        errors.push('এই SKU অন্য পণ্যে আছে');
+      }
+    }
+
+    if (!target) {
+      if (!row.name) errors.push('নতুন পণ্যের নাম প্রয়োজন');
+      if (row.price == null) errors.push('নতুন পণ্যের দাম প্রয়োজন');
+    }
+
+    return {
+      ...row,
+      errors,
+      target,
+      action: errors.length > 0 ? 'invalid' : target ? 'update' : 'create',
+    };
+  });
+};
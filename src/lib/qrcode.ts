@@ -0,0 +1,12 @@
+import { create } from 'qrcode';
+
+// QR codes for short texts such as order IDs, so invoices and labels can carry a
+// scannable code. Error correction level M; the library picks the smallest version.
+
+// Dark modules of the QR code for `text`, without the quiet zone
+export const qrMatrix = (text: string): boolean[][] => {
+  const { modules } = create(text, { errorCorrectionLevel: 'M' });
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, col) => Boolean(modules.get(row, col)))
+  );
+};
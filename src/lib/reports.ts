@@ -0,0 +1,31 @@
+// Date ranges for the admin reports. Ranges are whole local days, kept as
+// yyyy-mm-dd strings (the format of <input type="date">).
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export const REPORT_RANGE_PRESETS = [7, 30, 90];
+
+export const toDateInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+};
+
+export const lastDays = (days: number): DateRange => {
+  const from = new Date();
+  from.setDate(from.getDate() - days);
+  return { from: toDateInput(from), to: toDateInput(new Date()) };
+};
+
+// Arguments for report functions that take [_from, _to) timestamps
+export const toReportArgs = ({ from, to }: DateRange) => {
+  const end = new Date(`${to}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+  return {
+    _from: new Date(`${from}T00:00:00`).toISOString(),
+    _to: end.toISOString(),
+  };
+};
+
+export const formatRate = (rate: number | null | undefined) => (rate == null ? '—' : `${rate}%`);
@@ -0,0 +1,28 @@
+const RECENT_SEARCHES_KEY = 'recent_searches';
+const MAX_RECENT_SEARCHES = 5;
+
+export const MIN_SUGGESTION_LENGTH = 2;
+
+export const getSearchUrl = (query: string) => `/search?q=${encodeURIComponent(query.trim())}`;
+
+// Last few searches on this device, newest first
+export const getRecentSearches = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((q): q is string => typeof q === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const addRecentSearch = (query: string) => {
+  const trimmed = query.trim();
+  if (!trimmed) return;
+
+  const recent = getRecentSearches().filter((q) => q.toLowerCase() !== trimmed.toLowerCase());
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify([trimmed, ...recent].slice(0, MAX_RECENT_SEARCHES)));
+};
+
+export const removeRecentSearch = (query: string) => {
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(getRecentSearches().filter((q) => q !== query)));
+};
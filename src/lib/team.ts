@@ -0,0 +1,92 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { AppRole } from '@/lib/permissions';
+
+export interface TeamMember {
+  user_id: string;
+  email: string;
+  roles: AppRole[];
+  invited_at: string | null;
+  confirmed_at: string | null;
+  last_sign_in_at: string | null;
+}
+
+export interface RoleAuditEntry {
+  id: string;
+  role: AppRole;
+  action: 'granted' | 'revoked';
+  user_email: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+// Roles the owner can hand out; 'admin' is only kept for accounts from before staff roles
+export const ASSIGNABLE_ROLES: AppRole[] = ['owner', 'manager', 'order_staff', 'analyst'];
+
+const TEAM_ERRORS: Record<string, string> = {
+  forbidden: 'টিম পরিচালনার অনুমতি নেই',
+  invalid_body: 'সঠিক ইমেইল ও রোল দিন',
+  invalid_email: 'সঠিক ইমেইল দিন',
+  invalid_role: 'রোলটি সঠিক নয়',
+  user_not_found: 'ব্যবহারকারী পাওয়া যায়নি',
+  last_owner: 'অন্তত একজন মালিক থাকতে হবে',
+  invite_failed: 'আমন্ত্রণ পাঠানো যায়নি, পরে আবার চেষ্টা করুন',
+};
+
+const teamError = (code: string, fallback: string) => new Error(TEAM_ERRORS[code] || fallback);
+
+export const fetchTeam = async (): Promise<TeamMember[]> => {
+  const { data, error } = await supabase.rpc('team_members');
+  if (error) throw error;
+  return (data as unknown as TeamMember[]) || [];
+};
+
+// Returns true when an invite email was sent, false when the account already existed
+export const inviteStaff = async (email: string, role: AppRole): Promise<boolean> => {
+  const { data, error } = await supabase.functions.invoke('team-invite', {
+    body: { email: email.trim(), role },
+  });
+
+  if (error) {
+    let code = '';
+    if (error instanceof FunctionsHttpError) {
+      code = (await error.context.json().catch(() => null))?.error ?? '';
+    }
+    throw teamError(code, 'আমন্ত্রণ পাঠাতে সমস্যা হয়েছে');
+  }
+
+  return data.invited;
+};
+
+export const setStaffRole = async (userId: string, role: AppRole) => {
+  const { error } = await supabase.rpc('set_staff_role', { _user_id: userId, _role: role });
+  if (error) {
+    if (!TEAM_ERRORS[error.message]) console.error('Error setting role:', error);
+    throw teamError(error.message, 'রোল পরিবর্তন করতে সমস্যা হয়েছে');
+  }
+};
+
+export const revokeStaff = async (userId: string) => {
+  const { error } = await supabase.rpc('revoke_staff', { _user_id: userId });
+  if (error) {
+    if (!TEAM_ERRORS[error.message]) console.error('Error revoking staff:', error);
+    throw teamError(error.message, 'অ্যাক্সেস বাতিল করতে সমস্যা হয়েছে');
+  }
+};
+
+export const fetchRoleAudit = async (): Promise<RoleAuditEntry[]> => {
+  const { data, error } = await supabase.rpc('role_audit_entries', { _limit: 50 });
+  if (error) throw error;
+  return (data as unknown as RoleAuditEntry[]) || [];
+};
+
+export const fetchPublicSignupEnabled = async (): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('public_signup_enabled');
+  if (error) throw error;
+  return data !== false;
+};
+
+export const setPublicSignup = async (enabled: boolean) => {
+  const { error } = await supabase.rpc('set_public_signup', { _enabled: enabled });
+  if (error) throw error;
+};
@@ -0,0 +1,61 @@
+export type VariantOptions = Record<string, string>;
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  options: VariantOptions;
+  sku: string | null;
+  price: number | null;
+  stock: number;
+  images: string[];
+  is_active: boolean;
+  sort_order: number;
+}
+
+export interface VariantAttribute {
+  name: string;
+  values: string[];
+}
+
+// Same text as the variant_label() database function, e.g. "Black / 128GB"
+export const getVariantLabel = (options: VariantOptions | null | undefined) =>
+  Object.values(options || {}).join(' / ');
+
+export const getVariantPrice = (variant: Pick<ProductVariant, 'price'> | null | undefined, basePrice: number) =>
+  variant?.price != null ? Number(variant.price) : basePrice;
+
+// Attribute names and their values in the order they first appear
+export const getVariantAttributes = (variants: Pick<ProductVariant, 'options'>[]): VariantAttribute[] => {
+  const attributes = new Map<string, string[]>();
+
+  variants.forEach((variant) => {
+    Object.entries(variant.options || {}).forEach(([name, value]) => {
+      const values = attributes.get(name) || [];
+      if (!values.includes(value)) values.push(value);
+      attributes.set(name, values);
+    });
+  });
+
+  return Array.from(attributes, ([name, values]) => ({ name, values }));
+};
+
+export const optionsMatch = (a: VariantOptions, b: VariantOptions) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+};
+
+export const findVariant = <T extends Pick<ProductVariant, 'options'>>(variants: T[], selection: VariantOptions) =>
+  variants.find((variant) => optionsMatch(variant.options, selection)) || null;
+
+// Every combination of the attribute values, e.g. 2 colors x 2 storage sizes = 4 option sets
+export const buildVariantCombinations = (attributes: VariantAttribute[]): VariantOptions[] =>
+  attributes
+    .filter((attribute) => attribute.name.trim() && attribute.values.length > 0)
+    .reduce<VariantOptions[]>(
+      (combinations, attribute) =>
+        combinations.flatMap((options) =>
+          attribute.values.map((value) => ({ ...options, [attribute.name.trim()]: value }))
+        ),
+      [{}]
+    )
+    .filter((options) => Object.keys(options).length > 0);
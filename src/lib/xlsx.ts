@@ -0,0 +1,27 @@
+import writeXlsxFile, { type Row } from 'write-excel-file/browser';
+import type { CsvValue } from '@/lib/csv';
+
+// Single-sheet .xlsx export with a bold header row that stays visible while scrolling
+
+const toRow = (row: CsvValue[], header: boolean): Row =>
+  row.map((value) => {
+    if (value == null || value === '') return null;
+    // Text is always written as text, so a value such as "=1+1" is never run as a formula
+    const cell =
+      typeof value === 'number' && Number.isFinite(value)
+        ? { value, type: Number }
+        : typeof value === 'boolean'
+          ? { value, type: Boolean }
+          : { value: String(value), type: String };
+    return header ? { ...cell, fontWeight: 'bold' as const } : cell;
+  });
+
+export const toXlsx = (rows: CsvValue[][], sheetName = 'Sheet1'): Promise<Blob> =>
+  writeXlsxFile(
+    rows.map((row, index) => toRow(row, index === 0)),
+    {
+      // Excel does not allow these characters in sheet names, nor more than 31 of them
+      sheet: sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31),
+      stickyRowsCount: rows.length > 1 ? 1 : undefined,
+    }
+  ).toBlob();
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { User } from '@supabase/supabase-js';
+import { Header } from '@/components/Header';
+import { Footer } from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { OtpLogin } from '@/components/account/OtpLogin';
+import { AddressBook } from '@/components/account/AddressBook';
+import { supabase } from '@/integrations/supabase/client';
+import { useCart } from '@/contexts/CartContext';
+import { toast } from 'sonner';
+import { Loader2, LogOut, Package, RotateCcw } from 'lucide-react';
+import { getDeliveryAreas } from '@/lib/delivery';
+import { getOrderStatusColor, getOrderStatusText } from '@/lib/orderStatus';
+import { getPaymentStatusText } from '@/lib/payments';
+import { CustomerOrder, buildReorderItems, fetchMyOrders } from '@/lib/account';
+
+const Account = () => {
+  const navigate = useNavigate();
+  const { addItem } = useCart();
+  const [user, setUser] = useState<User | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [orders, setOrders] = useState<CustomerOrder[]>([]);
+  const [ordersLoading, setOrdersLoading] = useState(false);
+  const [reorderingId, setReorderingId] = useState<string | null>(null);
+  const [deliveryAreas, setDeliveryAreas] = useState(() => getDeliveryAreas([]));
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser((current) => (current?.id === session?.user?.id ? current : session?.user ?? null));
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      setSessionChecked(true);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setOrders([]);
+      return;
+    }
+
+    const loadOrders = async () => {
+      setOrdersLoading(true);
+      try {
+        setOrders(await fetchMyOrders());
+      } catch (error) {
+        console.error('Error fetching orders:', error);
+        toast.error('অর্ডার লোড করতে সমস্যা হয়েছে');
+      } finally {
+        setOrdersLoading(false);
+      }
+    };
+
+    const fetchDeliveryZones = async () => {
+      const { data, error } = await supabase.from('delivery_zones').select('areas').eq('is_active', true);
+      if (error) {
+        console.error('Error fetching delivery zones:', error);
+        return;
+      }
+      setDeliveryAreas(getDeliveryAreas(data || []));
+    };
+
+    loadOrders();
+    fetchDeliveryZones();
+  }, [user]);
+
+  const handleReorder = async (order: CustomerOrder) => {
+    setReorderingId(order.id);
+    try {
+      const { items, unavailable } = await buildReorderItems(order);
+      if (unavailable.length > 0) {
+        toast.error(`কিছু পণ্য এখন পাওয়া যাচ্ছে না: ${unavailable.join(', ')}`);
+      }
+      if (items.length === 0) return;
+
+      items.forEach(addItem);
+      toast.success('পণ্যগুলো কার্টে যোগ করা হয়েছে!');
+      navigate('/cart');
+    } catch (error) {
+      console.error('Error reordering:', error);
+      toast.error('আবার অর্ডার করতে সমস্যা হয়েছে');
+    } finally {
+      setReorderingId(null);
+    }
+  };
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    toast.success('লগআউট হয়েছে');
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col page-transition">
+      <Header />
+      <main className="flex-1 container mx-auto px-4 py-4 sm:py-8 animate-fade-in">
+        {!sessionChecked ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-10 w-10 animate-spin text-primary" />
+          </div>
+        ) : !user ? (
+          <OtpLogin />
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6 sm:mb-8">
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold">আমার অ্যাকাউন্ট</h1>
+                <p className="text-sm text-muted-foreground">{user.phone ? `+${user.phone}` : user.email}</p>
+              </div>
+              <Button variant="outline" onClick={handleLogout}>
+                <LogOut className="h-4 w-4 mr-2" />
+                লগআউট
+              </Button>
+            </div>
+
+            <div className="grid lg:grid-cols-3 gap-4 sm:gap-8">
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Package className="h-5 w-5" />
+                    আমার অর্ডার
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {ordersLoading ? (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                  ) : orders.length === 0 ? (
+                    <div className="text-center py-8 space-y-3">
+                      <p className="text-muted-foreground">এখনো কোন অর্ডার নেই</p>
+                      <Button onClick={() => navigate('/')}>কেনাকাটা শুরু করুন</Button>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {orders.map((order) => (
+                        <div key={order.id} className="border rounded-lg p-3 sm:p-4 space-y-2">
+                          <div className="flex flex-wrap items-center justify-between gap-2">
+                            <div>
+                              <p className="font-mono text-xs text-muted-foreground">#{order.id.slice(0, 8)}</p>
+                              <p className="text-sm">{new Date(order.created_at).toLocaleDateString('bn-BD')}</p>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Badge className={getOrderStatusColor(order.status)}>{getOrderStatusText(order.status)}</Badge>
+                              {order.payment_method !== 'cod' && (
+                                <Badge variant="outline">{getPaymentStatusText(order.payment_status)}</Badge>
+                              )}
+                            </div>
+                          </div>
+                          <ul className="text-sm space-y-0.5">
+                            {order.items.map((item, index) => (
+                              <li key={index} className="flex justify-between gap-2">
+                                <span>
+                                  {item.name || 'N/A'}
+                                  {item.variant_label && <span className="text-muted-foreground"> ({item.variant_label})</span>}
+                                  {' '}x{item.quantity}
+                                </span>
+                                <span>৳{(item.price * item.quantity).toFixed(2)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                          <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-2">
+                            <span className="font-semibold">সর্বমোট: ৳{Number(order.total_amount).toFixed(2)}</span>
+                            <div className="flex gap-2">
+                              <Button variant="ghost" size="sm" asChild>
+                                <Link to={`/track?id=${order.id}`}>ট্র্যাক করুন</Link>
+                              </Button>
+                              <Button size="sm" onClick={() => handleReorder(order)} disabled={reorderingId === order.id}>
+                                {reorderingId === order.id ? (
+                                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                ) : (
+                                  <RotateCcw className="h-4 w-4 mr-1" />
+                                )}
+                                আবার অর্ডার করুন
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="lg:h-fit">
+                <AddressBook areas={deliveryAreas} />
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default Account;
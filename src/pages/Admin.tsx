@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,19 +11,50 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { toast } from 'sonner';
 import { 
   Plus, Edit, Trash2, LogOut, Loader2, Upload, Package, ShoppingCart, 
   TrendingUp, DollarSign, FileText, Image as ImageIcon, Video, X, BarChart3, 
-  Activity, Eye, MousePointerClick, Search as SearchIcon, Filter, Settings
+  Activity, Eye, MousePointerClick, Search as SearchIcon, Filter, Printer, Tag, Truck, History
 } from 'lucide-react';
 import { Pagination } from '@/components/Pagination';
-import { User } from '@supabase/supabase-js';
+import { DeliveryZonesEditor } from '@/components/admin/DeliveryZonesEditor';
+import { CouponsEditor } from '@/components/admin/CouponsEditor';
+import { CatalogEditor } from '@/components/admin/CatalogEditor';
+import { FunnelReport } from '@/components/admin/FunnelReport';
+import { ProfitReport } from '@/components/admin/ProfitReport';
+import { ExportMenu } from '@/components/admin/ExportMenu';
+import { ProductImportDialog } from '@/components/admin/ProductImportDialog';
+import { TeamManager } from '@/components/admin/TeamManager';
+import { AuditLogViewer } from '@/components/admin/AuditLogViewer';
+import { useStaff } from '@/contexts/StaffContext';
+import { openOrderPrint } from '@/lib/orderPrint';
+import { orderDetailsUrl } from '@/lib/orderEditing';
+import { bookCourier, canBookCourier, getCourierStatusText } from '@/lib/courier';
+import { getPaymentMethodText, getPaymentStatusText } from '@/lib/payments';
+import type { CsvValue } from '@/lib/csv';
+import { DateRange, toReportArgs } from '@/lib/reports';
+import { VariantDraft, VariantMatrixEditor } from '@/components/admin/VariantMatrixEditor';
+import { ProductVariant } from '@/lib/variants';
+import { Brand, Category, flattenCategoryTree } from '@/lib/catalog';
+import {
+  getLocationText,
+  getNextOrderStatuses,
+  getOrderStatusColor,
+  getOrderStatusText,
+  orderStatusHoldsStock,
+  setOrderStatus,
+} from '@/lib/orderStatus';
+import { ADMIN_TAB_PERMISSIONS, AdminTab } from '@/lib/permissions';
+import type { AuditFocus } from '@/lib/audit';
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 interface Product {
   id: string;
   name: string;
+  sku?: string | null;
   description: string | null;
   price: number;
   cost_price?: number;
@@ -31,6 +62,9 @@ interface Product {
   images?: string[] | null; // JSON array of image/video URLs
   stock: number;
   priority?: number; // Lower number = higher priority (1 appears first)
+  weight_kg?: number;
+  has_variants?: boolean;
+  brand_id?: string | null;
   created_at: string;
 }
 
@@ -40,41 +74,98 @@ interface Order {
   phone: string;
   address: string;
   location_type: string;
+  district?: string | null;
+  coupon_code?: string | null;
+  delivery_charge?: number;
+  discount_amount?: number;
+  manual_discount?: number;
   total_amount: number;
   status: string;
+  internal_note?: string | null;
+  customer_note?: string | null;
+  payment_method?: string;
+  payment_status?: string;
+  amount_paid?: number;
+  courier_provider?: string | null;
+  courier_consignment_id?: string | null;
+  courier_tracking_code?: string | null;
+  courier_status?: string | null;
   created_at: string;
 }
 
 interface OrderItem {
   id: string;
   order_id: string;
-  product_id: string;
+  product_id: string | null;
+  product_name?: string | null;
   quantity: number;
   price: number;
-  products: Product;
+  cost_price: number; // unit cost when the order was placed
+  variant_label?: string | null;
+  products: Product | null;
 }
 
 interface OrderWithItems extends Order {
   order_items: OrderItem[];
 }
 
+interface UserActivity {
+  id: string;
+  session_id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  activity_type: string;
+  page_path: string | null;
+  product_id: string | null;
+  product_name: string | null;
+  metadata: any;
+  created_at: string;
+}
+
+const ADMIN_TAB_LABELS: Record<AdminTab, string> = {
+  dashboard: 'ড্যাশবোর্ড',
+  products: 'পণ্য',
+  orders: 'অর্ডার',
+  sales: 'বিক্রয়',
+  coupons: 'কুপন',
+  analytics: 'অ্যাক্টিভিটি',
+  settings: 'সেটিংস',
+  team: 'টিম',
+  audit: 'অডিট লগ',
+};
+
+// Indexed by the number of tabs the role can see; written out in full for Tailwind
+const TAB_GRID_COLUMNS = [
+  '',
+  'sm:grid-cols-1',
+  'sm:grid-cols-2',
+  'sm:grid-cols-3',
+  'sm:grid-cols-4',
+  'sm:grid-cols-5',
+  'sm:grid-cols-6',
+  'sm:grid-cols-7',
+  'sm:grid-cols-8',
+  'sm:grid-cols-9',
+];
+
 const Admin = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const { user, can } = useStaff();
   const [products, setProducts] = useState<Product[]>([]);
   const [orders, setOrders] = useState<OrderWithItems[]>([]);
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
+  const [bookingOrderId, setBookingOrderId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [uploading, setUploading] = useState(false);
   const [uploadPreview, setUploadPreview] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState('dashboard');
-  const [deliveryCharges, setDeliveryCharges] = useState({
-    inside_dhaka: 60,
-    outside_dhaka: 120,
-  });
-  const [loadingCharges, setLoadingCharges] = useState(false);
+  const visibleTabs = (Object.keys(ADMIN_TAB_PERMISSIONS) as AdminTab[])
+    .filter((tab) => ADMIN_TAB_PERMISSIONS[tab].some(can));
+  const [activeTab, setActiveTab] = useState<string>(visibleTabs[0]);
+  const [auditFocus, setAuditFocus] = useState<AuditFocus | null>(null);
   const [formData, setFormData] = useState({
     name: '',
+    sku: '',
     description: '',
     price: '',
     cost_price: '',
@@ -82,23 +173,16 @@ const Admin = () => {
     images: [] as string[],
     stock: '',
     priority: '999', // Default priority
+    weight_kg: '',
+    brand_id: '',
+    category_ids: [] as string[],
   });
   const [uploadedFiles, setUploadedFiles] = useState<string[]>([]);
+  const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [brands, setBrands] = useState<Brand[]>([]);
   const [newOrderCount, setNewOrderCount] = useState(0);
   const [lastOrderCheck, setLastOrderCheck] = useState<Date>(new Date());
-  interface UserActivity {
-    id: string;
-    session_id: string;
-    user_agent: string | null;
-    ip_address: string | null;
-    activity_type: string;
-    page_path: string | null;
-    product_id: string | null;
-    product_name: string | null;
-    metadata: any;
-    created_at: string;
-  }
-  
   const [activities, setActivities] = useState<UserActivity[]>([]);
   const [activitiesLoading, setActivitiesLoading] = useState(false);
   const [activityFilter, setActivityFilter] = useState<string>('all');
@@ -112,31 +196,12 @@ const Admin = () => {
   
   const navigate = useNavigate();
 
-  useEffect(() => {
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        setUser(session?.user ?? null);
-        if (!session?.user) {
-          navigate('/auth');
-        }
-      }
-    );
-
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-      if (!session?.user) {
-        navigate('/auth');
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, [navigate]);
-
   useEffect(() => {
     if (user) {
       fetchProducts();
+      fetchCatalog();
       fetchOrders();
-      fetchActivities();
+      if (can('reports.view')) fetchActivities();
       
       // Set up real-time subscription for new orders
       const ordersSubscription = supabase
@@ -149,7 +214,6 @@ const Admin = () => {
             table: 'orders',
           },
           (payload) => {
-            console.log('New order received:', payload);
             setNewOrderCount(prev => prev + 1);
             fetchOrders(); // Refresh orders
             toast.success(`নতুন অর্ডার: ${(payload.new as any).customer_name}`, {
@@ -170,7 +234,7 @@ const Admin = () => {
             table: 'user_activity',
           },
           () => {
-            fetchActivities(); // Refresh activities
+            if (can('reports.view')) fetchActivities(); // Refresh activities
           }
         )
         .subscribe();
@@ -180,83 +244,7 @@ const Admin = () => {
         activitiesSubscription.unsubscribe();
       };
     }
-  }, [user]);
-
-  const fetchDeliveryCharges = async () => {
-    try {
-      setLoadingCharges(true);
-      const { data, error } = await supabase
-        .from('delivery_charges' as any)
-        .select('*');
-
-      if (error) {
-        // If table doesn't exist, use defaults
-        console.warn('Delivery charges table not found, using defaults:', error);
-        return;
-      }
-
-      if (data && data.length > 0) {
-        const charges: { inside_dhaka: number; outside_dhaka: number } = {
-          inside_dhaka: 60,
-          outside_dhaka: 120,
-        };
-        
-        data.forEach((item: any) => {
-          if (item.location_type === 'inside_dhaka') {
-            charges.inside_dhaka = parseFloat(item.charge);
-          } else if (item.location_type === 'outside_dhaka') {
-            charges.outside_dhaka = parseFloat(item.charge);
-          }
-        });
-        
-        setDeliveryCharges(charges);
-      }
-    } catch (error) {
-      console.error('Error fetching delivery charges:', error);
-    } finally {
-      setLoadingCharges(false);
-    }
-  };
-
-  const updateDeliveryCharge = async (locationType: 'inside_dhaka' | 'outside_dhaka', charge: number) => {
-    try {
-      setLoadingCharges(true);
-      const { error } = await supabase
-        .from('delivery_charges' as any)
-        .upsert({
-          location_type: locationType,
-          charge: charge,
-        } as any, {
-          onConflict: 'location_type',
-        });
-
-      if (error) {
-        // If table doesn't exist, show error
-        if (error.message?.includes('does not exist') || error.message?.includes('relation')) {
-          toast.error('Delivery charges table not found. Please run the migration first.');
-        } else {
-          throw error;
-        }
-      } else {
-        setDeliveryCharges(prev => ({
-          ...prev,
-          [locationType]: charge,
-        }));
-        toast.success('ডেলিভারি চার্জ আপডেট হয়েছে!');
-      }
-    } catch (error: any) {
-      console.error('Error updating delivery charge:', error);
-      toast.error(error.message || 'ডেলিভারি চার্জ আপডেট করতে সমস্যা হয়েছে');
-    } finally {
-      setLoadingCharges(false);
-    }
-  };
-
-  useEffect(() => {
-    if (user) {
-      fetchDeliveryCharges();
-    }
-  }, [user]);
+  }, [user, can]);
 
   const fetchProducts = async () => {
     setLoading(true);
@@ -339,6 +327,23 @@ const Admin = () => {
     }
   };
 
+  const fetchCatalog = async () => {
+    try {
+      const [categoriesResult, brandsResult] = await Promise.all([
+        supabase.from('categories').select('id,name,slug,parent_id,sort_order').order('sort_order'),
+        supabase.from('brands').select('id,name,slug,logo_url,sort_order').order('sort_order').order('name'),
+      ]);
+
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (brandsResult.error) throw brandsResult.error;
+      setCategories(categoriesResult.data || []);
+      setBrands(brandsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching catalog:', error);
+      toast.error('ক্যাটাগরি ও ব্র্যান্ড লোড করতে সমস্যা হয়েছে');
+    }
+  };
+
   const fetchOrders = async () => {
     try {
       const { data: ordersData, error: ordersError } = await supabase
@@ -367,13 +372,60 @@ const Admin = () => {
         })
       );
 
-      setOrders(ordersWithItems);
+      setOrders(ordersWithItems as OrderWithItems[]);
     } catch (error) {
       console.error('Error fetching orders:', error);
       toast.error('অর্ডার লোড করতে সমস্যা হয়েছে');
     }
   };
 
+  const pagedOrderIds = orders
+    .slice((ordersPage - 1) * ITEMS_PER_PAGE, ordersPage * ITEMS_PER_PAGE)
+    .map((order) => order.id);
+
+  const toggleOrderSelection = (orderId: string, selected: boolean) => {
+    setSelectedOrderIds((prev) =>
+      selected ? [...prev.filter((id) => id !== orderId), orderId] : prev.filter((id) => id !== orderId)
+    );
+  };
+
+  const togglePageSelection = (selected: boolean) => {
+    setSelectedOrderIds((prev) =>
+      selected
+        ? [...prev, ...pagedOrderIds.filter((id) => !prev.includes(id))]
+        : prev.filter((id) => !pagedOrderIds.includes(id))
+    );
+  };
+
+  // Orders are all loaded already, so a range export filters them here
+  const getOrderRangeRows = async (range: DateRange) => {
+    const { _from, _to } = toReportArgs(range);
+    return orderExportRows(orders.filter((o) => o.created_at >= _from && o.created_at < _to));
+  };
+
+  // The activity log only holds the latest 1000 rows, so a range export pages through the table
+  const getActivityRangeRows = async (range: DateRange) => {
+    const { _from, _to } = toReportArgs(range);
+    const pageSize = 1000;
+    const rows: UserActivity[] = [];
+
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from('user_activity')
+        .select('*')
+        .gte('created_at', _from)
+        .lt('created_at', _to)
+        .order('created_at', { ascending: false })
+        .range(from, from + pageSize - 1);
+
+      if (error) throw error;
+      rows.push(...((data || []) as UserActivity[]));
+      if (!data || data.length < pageSize) break;
+    }
+
+    return activityExportRows(rows);
+  };
+
   const fetchActivities = async () => {
     setActivitiesLoading(true);
     try {
@@ -518,6 +570,7 @@ const Admin = () => {
   const resetForm = () => {
     setFormData({
       name: '',
+      sku: '',
       description: '',
       price: '',
       cost_price: '',
@@ -525,10 +578,94 @@ const Admin = () => {
       images: [],
       stock: '',
       priority: '999',
+      weight_kg: '',
+      brand_id: '',
+      category_ids: [],
     });
     setEditingProduct(null);
     setUploadPreview(null);
     setUploadedFiles([]);
+    setVariantDrafts([]);
+  };
+
+  const fetchProductVariants = async (productId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('product_variants')
+        .select('*')
+        .eq('product_id', productId)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      setVariantDrafts(((data || []) as unknown as ProductVariant[]).map((variant) => ({
+        id: variant.id,
+        options: variant.options,
+        sku: variant.sku || '',
+        price: variant.price != null ? variant.price.toString() : '',
+        stock: variant.stock.toString(),
+        images: Array.isArray(variant.images) ? variant.images : [],
+        is_active: variant.is_active,
+      })));
+    } catch (error) {
+      console.error('Error fetching variants:', error);
+      toast.error('ভ্যারিয়েন্ট লোড করতে সমস্যা হয়েছে');
+    }
+  };
+
+  const fetchProductCategories = async (productId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('product_categories')
+        .select('category_id')
+        .eq('product_id', productId);
+
+      if (error) throw error;
+      setFormData((prev) => ({ ...prev, category_ids: (data || []).map((row) => row.category_id) }));
+    } catch (error) {
+      console.error('Error fetching product categories:', error);
+      toast.error('পণ্যের ক্যাটাগরি লোড করতে সমস্যা হয়েছে');
+    }
+  };
+
+  const saveProductCategories = async (productId: string) => {
+    const { error: deleteError } = await supabase.from('product_categories').delete().eq('product_id', productId);
+    if (deleteError) throw deleteError;
+
+    if (formData.category_ids.length === 0) return;
+
+    const { error } = await supabase
+      .from('product_categories')
+      .insert(formData.category_ids.map((category_id) => ({ product_id: productId, category_id })));
+    if (error) throw error;
+  };
+
+  // Replace the product's variants with the rows in the matrix editor
+  const saveProductVariants = async (productId: string) => {
+    const keptIds = variantDrafts.map((variant) => variant.id).filter((id): id is string => Boolean(id));
+
+    let deleteQuery = supabase.from('product_variants').delete().eq('product_id', productId);
+    if (keptIds.length > 0) {
+      deleteQuery = deleteQuery.not('id', 'in', `(${keptIds.join(',')})`);
+    }
+    const { error: deleteError } = await deleteQuery;
+    if (deleteError) throw deleteError;
+
+    if (variantDrafts.length === 0) return;
+
+    const rows = variantDrafts.map((variant, index) => ({
+      ...(variant.id ? { id: variant.id } : {}),
+      product_id: productId,
+      options: variant.options,
+      sku: variant.sku.trim() || null,
+      price: variant.price.trim() ? parseFloat(variant.price) : null,
+      stock: parseInt(variant.stock) || 0,
+      images: variant.images,
+      is_active: variant.is_active,
+      sort_order: index,
+    }));
+
+    const { error } = await supabase.from('product_variants').upsert(rows);
+    if (error) throw error;
   };
 
   const handleOpenDialog = (product?: Product) => {
@@ -540,6 +677,7 @@ const Admin = () => {
         : (product.image_url && product.image_url.trim() ? [product.image_url] : []);
       setFormData({
         name: product.name,
+        sku: product.sku || '',
         description: product.description || '',
         price: product.price.toString(),
         cost_price: (product.cost_price || 0).toString(),
@@ -547,9 +685,15 @@ const Admin = () => {
         images: productImages,
         stock: product.stock.toString(),
         priority: (product.priority || 999).toString(),
+        weight_kg: product.weight_kg ? product.weight_kg.toString() : '',
+        brand_id: product.brand_id || '',
+        category_ids: [],
       });
       setUploadPreview(productImages.length > 0 ? productImages[0] : null);
       setUploadedFiles(productImages);
+      setVariantDrafts([]);
+      fetchProductVariants(product.id);
+      fetchProductCategories(product.id);
     } else {
       resetForm();
     }
@@ -563,13 +707,21 @@ const Admin = () => {
       // Build product data, conditionally including cost_price, images, and priority
       const productData: any = {
         name: formData.name,
+        sku: formData.sku.trim() || null,
         description: formData.description || null,
         price: parseFloat(formData.price),
         image_url: formData.images[0] || formData.image_url || null, // Keep for backward compatibility
         stock: parseInt(formData.stock),
         priority: parseInt(formData.priority || '999'),
+        weight_kg: parseFloat(formData.weight_kg || '0') || 0,
+        brand_id: formData.brand_id || null,
       };
 
+      // Stock of a product with variants is the sum of its variants, kept by the database
+      if (variantDrafts.length > 0) {
+        delete productData.stock;
+      }
+
       // Only include images if provided and column exists
       // This allows the code to work even if the column doesn't exist yet
       if (formData.images.length > 0) {
@@ -603,6 +755,9 @@ const Admin = () => {
             if (errorMessage.includes('priority')) {
               delete productData.priority;
             }
+            if (errorMessage.includes('weight_kg')) {
+              delete productData.weight_kg;
+            }
             const { error: retryError } = await supabase
               .from('products')
               .update(productData)
@@ -612,11 +767,16 @@ const Admin = () => {
             throw error;
           }
         }
+        await saveProductVariants(editingProduct.id);
+        await saveProductCategories(editingProduct.id);
         toast.success('পণ্য আপডেট হয়েছে!');
       } else {
-        const { error } = await supabase
+        const { data: inserted, error } = await supabase
           .from('products')
-          .insert(productData);
+          .insert(productData)
+          .select('id')
+          .single();
+        let productId = inserted?.id;
 
         if (error) {
           // If error is about cost_price, images, or priority column, try without them
@@ -632,14 +792,24 @@ const Admin = () => {
             if (errorMessage.includes('priority')) {
               delete productData.priority;
             }
-            const { error: retryError } = await supabase
+            if (errorMessage.includes('weight_kg')) {
+              delete productData.weight_kg;
+            }
+            const { data: retryInserted, error: retryError } = await supabase
               .from('products')
-              .insert(productData);
+              .insert(productData)
+              .select('id')
+              .single();
             if (retryError) throw retryError;
+            productId = retryInserted?.id;
           } else {
             throw error;
           }
         }
+        if (productId) {
+          await saveProductVariants(productId);
+          await saveProductCategories(productId);
+        }
         toast.success('পণ্য যোগ হয়েছে!');
       }
 
@@ -648,10 +818,28 @@ const Admin = () => {
       fetchProducts();
     } catch (error: any) {
       console.error('Error saving product:', error);
+      if (error.code === '23505' && error.message?.includes('idx_products_sku')) {
+        toast.error('এই SKU অন্য পণ্যে আছে');
+        return;
+      }
       toast.error(error.message || 'পণ্য সংরক্ষণে সমস্যা হয়েছে');
     }
   };
 
+  const handleBookCourier = async (orderId: string) => {
+    setBookingOrderId(orderId);
+    try {
+      const shipment = await bookCourier(orderId);
+      toast.success(`কুরিয়ারে বুক হয়েছে, ট্র্যাকিং কোড: ${shipment.tracking_code}`);
+      fetchOrders();
+    } catch (error) {
+      console.error('Error booking courier:', error);
+      toast.error(error instanceof Error ? error.message : 'কুরিয়ার বুক করতে সমস্যা হয়েছে');
+    } finally {
+      setBookingOrderId(null);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('আপনি কি নিশ্চিত এই পণ্যটি মুছে ফেলতে চান?')) return;
 
@@ -670,68 +858,21 @@ const Admin = () => {
     }
   };
 
-  const handleUpdateOrderStatus = async (orderId: string, newStatus: string, oldStatus: string) => {
+  const handleUpdateOrderStatus = async (orderId: string, newStatus: string) => {
     try {
-      // Update order status
-      const { error: orderError } = await supabase
-        .from('orders')
-        .update({ status: newStatus })
-        .eq('id', orderId);
-
-      if (orderError) throw orderError;
-
-      // Update stock when order is confirmed or delivered (and wasn't before)
-      if ((newStatus === 'confirmed' || newStatus === 'delivered') && 
-          oldStatus !== 'confirmed' && oldStatus !== 'delivered') {
-        // Get order items
-        const { data: orderItems, error: itemsError } = await supabase
-          .from('order_items')
-          .select('product_id, quantity')
-          .eq('order_id', orderId);
-
-        if (itemsError) {
-          console.warn('Could not fetch order items for stock update:', itemsError);
-        } else if (orderItems) {
-          // Update stock for each product
-          for (const item of orderItems) {
-            const { data: product, error: productError } = await supabase
-              .from('products')
-              .select('stock')
-              .eq('id', item.product_id)
-              .single();
-
-            if (productError) {
-              console.warn(`Could not fetch product ${item.product_id}:`, productError);
-              continue;
-            }
-
-            if (product && product.stock !== undefined) {
-              const newStock = Math.max(0, product.stock - item.quantity);
-              const { error: updateError } = await supabase
-                .from('products')
-                .update({ stock: newStock })
-                .eq('id', item.product_id);
-
-              if (updateError) {
-                console.warn(`Could not update stock for product ${item.product_id}:`, updateError);
-              }
-            }
-          }
-        }
-      }
-
+      // Stock is taken out / put back by the database when the status changes
+      await setOrderStatus(orderId, newStatus);
       toast.success('অর্ডার স্ট্যাটাস আপডেট হয়েছে!');
       fetchOrders();
       fetchProducts(); // Refresh products to show updated stock
     } catch (error) {
-      console.error('Error updating order status:', error);
-      toast.error('অর্ডার স্ট্যাটাস আপডেট করতে সমস্যা হয়েছে');
+      toast.error(error instanceof Error ? error.message : 'অর্ডার স্ট্যাটাস আপডেট করতে সমস্যা হয়েছে');
     }
   };
 
   // Calculate statistics
   const totalSales = orders
-    .filter(o => o.status === 'confirmed' || o.status === 'delivered')
+    .filter(o => orderStatusHoldsStock(o.status))
     .reduce((sum, order) => sum + order.total_amount, 0);
   const totalOrders = orders.length;
   const pendingOrders = orders.filter(o => o.status === 'pending').length;
@@ -742,14 +883,12 @@ const Admin = () => {
 
   // Calculate profit
   const totalProfit = orders
-    .filter(o => o.status === 'confirmed' || o.status === 'delivered')
+    .filter(o => orderStatusHoldsStock(o.status))
     .reduce((sum, order) => {
-      const orderProfit = order.order_items.reduce((itemSum, item) => {
-        const product = products.find(p => p.id === item.product_id);
-        const costPrice = product?.cost_price || 0;
-        const profitPerItem = item.price - costPrice;
-        return itemSum + (profitPerItem * item.quantity);
-      }, 0);
+      const orderProfit = order.order_items.reduce(
+        (itemSum, item) => itemSum + (item.price - (item.cost_price || 0)) * item.quantity,
+        0
+      );
       return sum + orderProfit;
     }, 0);
 
@@ -764,7 +903,7 @@ const Admin = () => {
   });
   
   const monthlySales = monthlyOrders
-    .filter(o => o.status === 'confirmed' || o.status === 'delivered')
+    .filter(o => orderStatusHoldsStock(o.status))
     .reduce((sum, order) => sum + order.total_amount, 0);
   
   const yearlyOrders = orders.filter(o => {
@@ -773,7 +912,7 @@ const Admin = () => {
   });
   
   const yearlySales = yearlyOrders
-    .filter(o => o.status === 'confirmed' || o.status === 'delivered')
+    .filter(o => orderStatusHoldsStock(o.status))
     .reduce((sum, order) => sum + order.total_amount, 0);
 
   // Prepare data for charts
@@ -783,17 +922,15 @@ const Admin = () => {
       return orderDate.getMonth() === i && orderDate.getFullYear() === currentYear;
     });
     const monthSales = monthOrders
-      .filter(o => o.status === 'confirmed' || o.status === 'delivered')
+      .filter(o => orderStatusHoldsStock(o.status))
       .reduce((sum, order) => sum + order.total_amount, 0);
     const monthProfit = monthOrders
-      .filter(o => o.status === 'confirmed' || o.status === 'delivered')
+      .filter(o => orderStatusHoldsStock(o.status))
       .reduce((sum, order) => {
-        const orderProfit = order.order_items.reduce((itemSum, item) => {
-          const product = products.find(p => p.id === item.product_id);
-          const costPrice = product?.cost_price || 0;
-          const profitPerItem = item.price - costPrice;
-          return itemSum + (profitPerItem * item.quantity);
-        }, 0);
+        const orderProfit = order.order_items.reduce(
+          (itemSum, item) => itemSum + (item.price - (item.cost_price || 0)) * item.quantity,
+          0
+        );
         return sum + orderProfit;
       }, 0);
     
@@ -816,7 +953,7 @@ const Admin = () => {
       return orderDate.getMonth() === month && orderDate.getFullYear() === year;
     });
     const monthSales = monthOrders
-      .filter(o => o.status === 'confirmed' || o.status === 'delivered')
+      .filter(o => orderStatusHoldsStock(o.status))
       .reduce((sum, order) => sum + order.total_amount, 0);
     
     return {
@@ -825,36 +962,6 @@ const Admin = () => {
     };
   });
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'confirmed':
-        return 'bg-green-500';
-      case 'pending':
-        return 'bg-yellow-500';
-      case 'delivered':
-        return 'bg-blue-500';
-      case 'cancelled':
-        return 'bg-red-500';
-      default:
-        return 'bg-gray-500';
-    }
-  };
-
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'confirmed':
-        return 'নিশ্চিত';
-      case 'pending':
-        return 'অপেক্ষমান';
-      case 'delivered':
-        return 'ডেলিভারি হয়েছে';
-      case 'cancelled':
-        return 'বাতিল';
-      default:
-        return status;
-    }
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -905,13 +1012,12 @@ const Admin = () => {
 
       <main className="container mx-auto px-2 sm:px-4 py-4 sm:py-8 animate-fade-in">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4 sm:space-y-6">
-          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-6 lg:grid-cols-6 h-auto">
-            <TabsTrigger value="dashboard" className="text-xs sm:text-sm py-2 sm:py-2.5 transition-all duration-200">ড্যাশবোর্ড</TabsTrigger>
-            <TabsTrigger value="products" className="text-xs sm:text-sm py-2 sm:py-2.5 transition-all duration-200">পণ্য</TabsTrigger>
-            <TabsTrigger value="orders" className="text-xs sm:text-sm py-2 sm:py-2.5 transition-all duration-200">অর্ডার</TabsTrigger>
-            <TabsTrigger value="sales" className="text-xs sm:text-sm py-2 sm:py-2.5 transition-all duration-200">বিক্রয়</TabsTrigger>
-            <TabsTrigger value="analytics" className="text-xs sm:text-sm py-2 sm:py-2.5 transition-all duration-200">অ্যাক্টিভিটি</TabsTrigger>
-            <TabsTrigger value="settings" className="text-xs sm:text-sm py-2 sm:py-2.5 transition-all duration-200">সেটিংস</TabsTrigger>
+          <TabsList className={`grid w-full grid-cols-2 ${TAB_GRID_COLUMNS[visibleTabs.length]} h-auto`}>
+            {visibleTabs.map((tab) => (
+              <TabsTrigger key={tab} value={tab} className="text-xs sm:text-sm py-2 sm:py-2.5 transition-all duration-200">
+                {ADMIN_TAB_LABELS[tab]}
+              </TabsTrigger>
+            ))}
           </TabsList>
 
           {/* Dashboard Tab */}
@@ -991,7 +1097,7 @@ const Admin = () => {
                 <CardContent>
                   <div className="text-3xl font-bold text-primary">৳{monthlySales.toFixed(2)}</div>
                   <p className="text-sm text-muted-foreground mt-2">
-                    {monthlyOrders.filter(o => o.status === 'confirmed' || o.status === 'delivered').length} টি অর্ডার
+                    {monthlyOrders.filter(o => orderStatusHoldsStock(o.status)).length} টি অর্ডার
                   </p>
                 </CardContent>
               </Card>
@@ -1003,7 +1109,7 @@ const Admin = () => {
                 <CardContent>
                   <div className="text-3xl font-bold text-primary">৳{yearlySales.toFixed(2)}</div>
                   <p className="text-sm text-muted-foreground mt-2">
-                    {yearlyOrders.filter(o => o.status === 'confirmed' || o.status === 'delivered').length} টি অর্ডার
+                    {yearlyOrders.filter(o => orderStatusHoldsStock(o.status)).length} টি অর্ডার
                   </p>
                 </CardContent>
               </Card>
@@ -1023,8 +1129,8 @@ const Admin = () => {
                         <p className="text-sm text-muted-foreground">{order.phone}</p>
                         <p className="text-sm text-muted-foreground">৳{order.total_amount.toFixed(2)}</p>
                       </div>
-                      <Badge className={getStatusColor(order.status)}>
-                        {getStatusText(order.status)}
+                      <Badge className={getOrderStatusColor(order.status)}>
+                        {getOrderStatusText(order.status)}
                       </Badge>
                     </div>
                   ))}
@@ -1045,6 +1151,9 @@ const Admin = () => {
               <CardTitle>পণ্য ব্যবস্থাপনা</CardTitle>
                     <CardDescription>পণ্য যোগ, সম্পাদনা এবং মুছুন</CardDescription>
                   </div>
+              <div className="flex gap-2">
+              <ExportMenu basename="products" getRows={() => productExportRows(products, brands)} />
+              <ProductImportDialog onImported={fetchProducts} />
               <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
                 <DialogTrigger asChild>
                       <Button onClick={() => handleOpenDialog()} className="transition-all duration-300 hover:scale-105">
@@ -1074,6 +1183,19 @@ const Admin = () => {
                             className="transition-all duration-200"
                       />
                     </div>
+                    <div>
+                      <Label htmlFor="sku">SKU</Label>
+                      <Input
+                        id="sku"
+                        value={formData.sku}
+                        onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+                        placeholder="যেমন: EB-001"
+                            className="transition-all duration-200"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        CSV ইমপোর্টে পণ্য মেলাতে ব্যবহার হয়
+                      </p>
+                    </div>
                     <div>
                       <Label htmlFor="description">বিবরণ</Label>
                       <Textarea
@@ -1119,13 +1241,35 @@ const Admin = () => {
                       <Input
                         id="stock"
                         type="number"
-                        value={formData.stock}
+                        value={variantDrafts.length > 0
+                          ? variantDrafts.filter((v) => v.is_active).reduce((sum, v) => sum + (parseInt(v.stock) || 0), 0).toString()
+                          : formData.stock}
                         onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
-                        required
+                        required={variantDrafts.length === 0}
+                        disabled={variantDrafts.length > 0}
                               className="transition-all duration-200"
                       />
+                      {variantDrafts.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">ভ্যারিয়েন্টের স্টক থেকে হিসাব করা</p>
+                      )}
                     </div>
                         </div>
+                        <div>
+                          <Label htmlFor="weight_kg">ওজন (কেজি)</Label>
+                          <Input
+                            id="weight_kg"
+                            type="number"
+                            step="0.001"
+                            min="0"
+                            value={formData.weight_kg}
+                            onChange={(e) => setFormData({ ...formData, weight_kg: e.target.value })}
+                            placeholder="0.000"
+                            className="transition-all duration-200"
+                          />
+                          <p className="text-xs text-muted-foreground mt-1">
+                            ডেলিভারি জোনের ওজন চার্জের জন্য
+                          </p>
+                        </div>
                         <div>
                           <Label htmlFor="priority">প্রাধান্য (Priority) *</Label>
                           <Input
@@ -1142,6 +1286,54 @@ const Admin = () => {
                             কম সংখ্যা = বেশি প্রাধান্য (1 প্রথমে, 2 দ্বিতীয়ে, ইত্যাদি)
                           </p>
                         </div>
+                        <div>
+                          <Label htmlFor="brand_id">ব্র্যান্ড</Label>
+                          <Select
+                            value={formData.brand_id || 'none'}
+                            onValueChange={(value) => setFormData({ ...formData, brand_id: value === 'none' ? '' : value })}
+                          >
+                            <SelectTrigger id="brand_id">
+                              <SelectValue placeholder="ব্র্যান্ড নির্বাচন করুন" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">কোনো ব্র্যান্ড নেই</SelectItem>
+                              {brands.map((brand) => (
+                                <SelectItem key={brand.id} value={brand.id}>{brand.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <Label>ক্যাটাগরি</Label>
+                          {categories.length === 0 ? (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              সেটিংস ট্যাবে ক্যাটাগরি যোগ করুন
+                            </p>
+                          ) : (
+                            <ScrollArea className="h-36 rounded-md border p-2 mt-1">
+                              {flattenCategoryTree(categories).map(({ category, depth }) => (
+                                <label
+                                  key={category.id}
+                                  className="flex items-center gap-2 py-1 text-sm cursor-pointer"
+                                  style={{ paddingLeft: depth * 16 }}
+                                >
+                                  <Checkbox
+                                    checked={formData.category_ids.includes(category.id)}
+                                    onCheckedChange={(checked) =>
+                                      setFormData({
+                                        ...formData,
+                                        category_ids: checked === true
+                                          ? [...formData.category_ids, category.id]
+                                          : formData.category_ids.filter((id) => id !== category.id),
+                                      })
+                                    }
+                                  />
+                                  {category.name}
+                                </label>
+                              ))}
+                            </ScrollArea>
+                          )}
+                        </div>
                         <div>
                           <Label>ছবি/ভিডিও আপলোড করুন (একাধিক নির্বাচন করুন)</Label>
                           <p className="text-xs text-muted-foreground mb-2">
@@ -1228,6 +1420,12 @@ const Admin = () => {
                             )}
                           </div>
                         </div>
+                        <VariantMatrixEditor
+                          value={variantDrafts}
+                          onChange={setVariantDrafts}
+                          basePrice={formData.price}
+                          productImages={uploadedFiles}
+                        />
                         <Button type="submit" className="w-full transition-all duration-300 hover:scale-105" disabled={uploading}>
                           {uploading ? (
                             <>
@@ -1243,6 +1441,7 @@ const Admin = () => {
                   </form>
                 </DialogContent>
               </Dialog>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
@@ -1310,6 +1509,20 @@ const Admin = () => {
                       >
                         <Edit className="h-4 w-4" />
                       </Button>
+                      {can('audit.view') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="পরিবর্তনের ইতিহাস"
+                          onClick={() => {
+                            setAuditFocus({ entity: 'product', entityId: product.id, label: product.name });
+                            setActiveTab('audit');
+                          }}
+                          className="transition-all duration-200 hover:scale-110"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon"
@@ -1344,8 +1557,35 @@ const Admin = () => {
           <TabsContent value="orders" className="space-y-4 sm:space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg sm:text-xl">অর্ডার ব্যবস্থাপনা</CardTitle>
-                <CardDescription className="text-sm">সব অর্ডার দেখুন এবং পরিচালনা করুন</CardDescription>
+                <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                  <div>
+                    <CardTitle className="text-lg sm:text-xl">অর্ডার ব্যবস্থাপনা</CardTitle>
+                    <CardDescription className="text-sm">সব অর্ডার দেখুন এবং পরিচালনা করুন</CardDescription>
+                  </div>
+                  <div className="flex flex-wrap gap-2 w-full sm:w-auto">
+                    <Button
+                      variant="outline"
+                      disabled={selectedOrderIds.length === 0}
+                      onClick={() => openOrderPrint('invoice', selectedOrderIds)}
+                    >
+                      <Printer className="h-4 w-4 mr-2" />
+                      ইনভয়েস ({selectedOrderIds.length})
+                    </Button>
+                    <Button
+                      variant="outline"
+                      disabled={selectedOrderIds.length === 0}
+                      onClick={() => openOrderPrint('label', selectedOrderIds)}
+                    >
+                      <Tag className="h-4 w-4 mr-2" />
+                      লেবেল ({selectedOrderIds.length})
+                    </Button>
+                    <ExportMenu
+                      basename="orders"
+                      getRows={() => orderExportRows(orders)}
+                      getRangeRows={getOrderRangeRows}
+                    />
+                  </div>
+                </div>
               </CardHeader>
               <CardContent>
                 {/* Mobile View - Card Layout */}
@@ -1356,25 +1596,31 @@ const Admin = () => {
                     <Card key={order.id} className="card-hover animate-fade-in">
                       <CardContent className="p-4 space-y-3">
                         <div className="flex items-start justify-between">
+                          <Checkbox
+                            checked={selectedOrderIds.includes(order.id)}
+                            onCheckedChange={(checked) => toggleOrderSelection(order.id, checked === true)}
+                            className="mr-3 mt-1"
+                            aria-label="অর্ডার নির্বাচন"
+                          />
                           <div className="flex-1">
                             <p className="font-mono text-xs text-muted-foreground mb-1">{order.id.slice(0, 8)}</p>
                             <h3 className="font-semibold text-base">{order.customer_name}</h3>
                             <p className="text-sm text-muted-foreground">{order.phone}</p>
                           </div>
-                          <Badge className={getStatusColor(order.status)}>
-                            {getStatusText(order.status)}
+                          <Badge className={getOrderStatusColor(order.status)}>
+                            {getOrderStatusText(order.status)}
                           </Badge>
                         </div>
                         <div className="text-sm">
                           <p className="text-muted-foreground mb-1">ঠিকানা:</p>
-                          <p className="font-medium">{order.address}</p>
+                          <p className="font-medium">{order.address}{order.district ? `, ${order.district}` : ''}</p>
                         </div>
                         <div className="text-sm">
                           <p className="text-muted-foreground mb-1">পণ্য:</p>
                           <div className="space-y-1">
                             {order.order_items.map((item, idx) => (
                               <div key={idx}>
-                                {item.products?.name || 'N/A'} x{item.quantity} = ৳{(item.quantity * item.price).toFixed(2)}
+                                {item.products?.name || item.product_name || 'N/A'}{item.variant_label ? ` (${item.variant_label})` : ''} x{item.quantity} = ৳{(item.quantity * item.price).toFixed(2)}
                               </div>
                             ))}
                           </div>
@@ -1383,25 +1629,72 @@ const Admin = () => {
                           <div>
                             <p className="text-sm text-muted-foreground">মোট:</p>
                             <p className="text-lg font-bold text-primary">৳{order.total_amount.toFixed(2)}</p>
+                            {order.coupon_code && (
+                              <p className="text-xs text-muted-foreground">
+                                কুপন {order.coupon_code}: -৳{Number(order.discount_amount || 0).toFixed(2)}
+                              </p>
+                            )}
+                            {Number(order.manual_discount || 0) > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                অতিরিক্ত ছাড়: -৳{Number(order.manual_discount).toFixed(2)}
+                              </p>
+                            )}
+                            {order.payment_method && order.payment_method !== 'cod' && (
+                              <p className="text-xs text-muted-foreground">
+                                {getPaymentMethodText(order.payment_method)}: {getPaymentStatusText(order.payment_status || '')} (৳{Number(order.amount_paid || 0).toFixed(2)})
+                              </p>
+                            )}
                           </div>
                           <Select
                             value={order.status}
-                            onValueChange={(value) => handleUpdateOrderStatus(order.id, value, order.status)}
+                            onValueChange={(value) => handleUpdateOrderStatus(order.id, value)}
+                            disabled={!can('orders.manage')}
                           >
                             <SelectTrigger className="w-28 sm:w-32 transition-all duration-200">
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="pending">অপেক্ষমান</SelectItem>
-                              <SelectItem value="confirmed">নিশ্চিত</SelectItem>
-                              <SelectItem value="delivered">ডেলিভারি হয়েছে</SelectItem>
-                              <SelectItem value="cancelled">বাতিল</SelectItem>
+                              {[order.status, ...getNextOrderStatuses(order.status)].map((status) => (
+                                <SelectItem key={status} value={status}>{getOrderStatusText(status)}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </div>
-                        <p className="text-xs text-muted-foreground">
-                          তারিখ: {new Date(order.created_at).toLocaleDateString('bn-BD')}
-                        </p>
+                        {order.courier_tracking_code && (
+                          <p className="text-xs text-muted-foreground">
+                            কুরিয়ার: {order.courier_tracking_code} · {getCourierStatusText(order.courier_status || '')}
+                          </p>
+                        )}
+                        <div className="flex items-center justify-between">
+                          <p className="text-xs text-muted-foreground">
+                            তারিখ: {new Date(order.created_at).toLocaleDateString('bn-BD')}
+                          </p>
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="sm" asChild>
+                              <Link to={orderDetailsUrl(order.id)}>
+                                <Eye className="h-4 w-4 mr-1" />
+                                বিস্তারিত
+                              </Link>
+                            </Button>
+                            {can('orders.manage') && canBookCourier(order) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleBookCourier(order.id)}
+                                disabled={bookingOrderId === order.id}
+                              >
+                                {bookingOrderId === order.id
+                                  ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                  : <Truck className="h-4 w-4 mr-1" />}
+                                কুরিয়ার
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => openOrderPrint('invoice', [order.id])}>
+                              <Printer className="h-4 w-4 mr-1" />
+                              ইনভয়েস
+                            </Button>
+                          </div>
+                        </div>
                       </CardContent>
                     </Card>
                   ))}
@@ -1416,6 +1709,13 @@ const Admin = () => {
                     <Table>
                       <TableHeader>
                         <TableRow>
+                          <TableHead className="w-10">
+                            <Checkbox
+                              checked={pagedOrderIds.length > 0 && pagedOrderIds.every((id) => selectedOrderIds.includes(id))}
+                              onCheckedChange={(checked) => togglePageSelection(checked === true)}
+                              aria-label="এই পাতার সব অর্ডার"
+                            />
+                          </TableHead>
                           <TableHead>অর্ডার আইডি</TableHead>
                           <TableHead>গ্রাহক</TableHead>
                           <TableHead>ফোন</TableHead>
@@ -1432,49 +1732,120 @@ const Admin = () => {
                           .slice((ordersPage - 1) * ITEMS_PER_PAGE, ordersPage * ITEMS_PER_PAGE)
                           .map((order) => (
                           <TableRow key={order.id} className="transition-colors hover:bg-muted/50">
+                            <TableCell>
+                              <Checkbox
+                                checked={selectedOrderIds.includes(order.id)}
+                                onCheckedChange={(checked) => toggleOrderSelection(order.id, checked === true)}
+                                aria-label="অর্ডার নির্বাচন"
+                              />
+                            </TableCell>
                             <TableCell className="font-mono text-xs">{order.id.slice(0, 8)}</TableCell>
                             <TableCell className="font-medium">{order.customer_name}</TableCell>
                             <TableCell>{order.phone}</TableCell>
-                            <TableCell className="max-w-xs truncate">{order.address}</TableCell>
+                            <TableCell className="max-w-xs truncate">{order.address}{order.district ? `, ${order.district}` : ''}</TableCell>
                             <TableCell>
                               <div className="space-y-1">
                                 {order.order_items.map((item, idx) => (
                                   <div key={idx} className="text-sm">
-                                    {item.products?.name || 'N/A'} x{item.quantity}
+                                    {item.products?.name || item.product_name || 'N/A'}{item.variant_label ? ` (${item.variant_label})` : ''} x{item.quantity}
                                   </div>
                                 ))}
                               </div>
                             </TableCell>
-                            <TableCell className="font-semibold">৳{order.total_amount.toFixed(2)}</TableCell>
                             <TableCell>
-                              <Badge className={getStatusColor(order.status)}>
-                                {getStatusText(order.status)}
+                              <p className="font-semibold">৳{order.total_amount.toFixed(2)}</p>
+                              {order.coupon_code && (
+                                <p className="text-xs text-muted-foreground">
+                                  {order.coupon_code}: -৳{Number(order.discount_amount || 0).toFixed(2)}
+                                </p>
+                              )}
+                              {Number(order.manual_discount || 0) > 0 && (
+                                <p className="text-xs text-muted-foreground whitespace-nowrap">
+                                  অতিরিক্ত ছাড়: -৳{Number(order.manual_discount).toFixed(2)}
+                                </p>
+                              )}
+                              {order.payment_method && order.payment_method !== 'cod' && (
+                                <p className="text-xs text-muted-foreground whitespace-nowrap">
+                                  {getPaymentStatusText(order.payment_status || '')}: ৳{Number(order.amount_paid || 0).toFixed(2)}
+                                </p>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge className={getOrderStatusColor(order.status)}>
+                                {getOrderStatusText(order.status)}
                               </Badge>
+                              {order.courier_tracking_code && (
+                                <p className="text-xs text-muted-foreground mt-1 whitespace-nowrap">
+                                  <Truck className="inline h-3 w-3 mr-1" />
+                                  {order.courier_tracking_code} · {getCourierStatusText(order.courier_status || '')}
+                                </p>
+                              )}
                             </TableCell>
                             <TableCell className="text-sm text-muted-foreground">
                               {new Date(order.created_at).toLocaleDateString('bn-BD')}
                             </TableCell>
                             <TableCell>
-                              <Select
-                                value={order.status}
-                                onValueChange={(value) => handleUpdateOrderStatus(order.id, value, order.status)}
-                              >
-                                <SelectTrigger className="w-32 transition-all duration-200">
-                                  <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  <SelectItem value="pending">অপেক্ষমান</SelectItem>
-                                  <SelectItem value="confirmed">নিশ্চিত</SelectItem>
-                                  <SelectItem value="delivered">ডেলিভারি হয়েছে</SelectItem>
-                                  <SelectItem value="cancelled">বাতিল</SelectItem>
-                                </SelectContent>
-                              </Select>
+                              <div className="flex items-center gap-1">
+                                <Select
+                                  value={order.status}
+                                  onValueChange={(value) => handleUpdateOrderStatus(order.id, value)}
+                                  disabled={!can('orders.manage')}
+                                >
+                                  <SelectTrigger className="w-32 transition-all duration-200">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {[order.status, ...getNextOrderStatuses(order.status)].map((status) => (
+                                      <SelectItem key={status} value={status}>{getOrderStatusText(status)}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Button variant="ghost" size="icon" title="বিস্তারিত ও এডিট" asChild>
+                                  <Link to={orderDetailsUrl(order.id)}>
+                                    <Eye className="h-4 w-4" />
+                                  </Link>
+                                </Button>
+                                {can('audit.view') && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="পরিবর্তনের ইতিহাস"
+                                    onClick={() => {
+                                      setAuditFocus({ entity: 'order', entityId: order.id, label: order.customer_name });
+                                      setActiveTab('audit');
+                                    }}
+                                  >
+                                    <History className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                {can('orders.manage') && canBookCourier(order) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleBookCourier(order.id)}
+                                    disabled={bookingOrderId === order.id}
+                                    title="কুরিয়ারে বুক করুন"
+                                  >
+                                    {bookingOrderId === order.id
+                                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                                      : <Truck className="h-4 w-4" />}
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => openOrderPrint('invoice', [order.id])}
+                                  title="ইনভয়েস প্রিন্ট"
+                                >
+                                  <Printer className="h-4 w-4" />
+                                </Button>
+                              </div>
                             </TableCell>
                           </TableRow>
                         ))}
                         {orders.length === 0 && (
                           <TableRow>
-                            <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                            <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
                               কোন অর্ডার নেই
                             </TableCell>
                           </TableRow>
@@ -1595,6 +1966,8 @@ const Admin = () => {
               </Card>
             </div>
 
+            <ProfitReport />
+
             <Card>
               <CardHeader>
                 <CardTitle>অর্ডার বিবরণ</CardTitle>
@@ -1611,8 +1984,8 @@ const Admin = () => {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <h3 className="font-semibold">{order.customer_name}</h3>
-                              <Badge className={getStatusColor(order.status)}>
-                                {getStatusText(order.status)}
+                              <Badge className={getOrderStatusColor(order.status)}>
+                                {getOrderStatusText(order.status)}
                               </Badge>
                             </div>
                             <p className="text-sm text-muted-foreground">ফোন: {order.phone}</p>
@@ -1623,13 +1996,12 @@ const Admin = () => {
                             <div className="mt-2 space-y-1">
                               <p className="text-sm font-medium">পণ্য:</p>
                               {order.order_items.map((item, idx) => {
-                                const product = products.find(p => p.id === item.product_id);
-                                const costPrice = product?.cost_price || 0;
+                                const costPrice = item.cost_price || 0;
                                 const profitPerItem = item.price - costPrice;
                                 const itemProfit = profitPerItem * item.quantity;
                                 return (
                                   <div key={idx} className="text-sm text-muted-foreground ml-4">
-                                    • {item.products?.name || 'N/A'} - {item.quantity} x ৳{item.price.toFixed(2)} = ৳{(item.quantity * item.price).toFixed(2)}
+                                    • {item.products?.name || item.product_name || 'N/A'} - {item.quantity} x ৳{item.price.toFixed(2)} = ৳{(item.quantity * item.price).toFixed(2)}
                                     {costPrice > 0 && (
                                       <span className="text-blue-600 dark:text-blue-400 ml-2">
                                         (লাভ: ৳{itemProfit.toFixed(2)})
@@ -1646,16 +2018,11 @@ const Admin = () => {
                               {order.location_type === 'inside_dhaka' ? 'ঢাকার ভিতরে' : 'ঢাকার বাইরে'}
                             </p>
                             {order.order_items.length > 0 && (() => {
-                              const orderProfit = order.order_items.reduce((sum, item) => {
-                                const product = products.find(p => p.id === item.product_id);
-                                const costPrice = product?.cost_price || 0;
-                                const profitPerItem = item.price - costPrice;
-                                return sum + (profitPerItem * item.quantity);
-                              }, 0);
-                              const hasCostPrice = order.order_items.some(item => {
-                                const product = products.find(p => p.id === item.product_id);
-                                return (product?.cost_price || 0) > 0;
-                              });
+                              const orderProfit = order.order_items.reduce(
+                                (sum, item) => sum + (item.price - (item.cost_price || 0)) * item.quantity,
+                                0
+                              );
+                              const hasCostPrice = order.order_items.some(item => (item.cost_price || 0) > 0);
                               return hasCostPrice && orderProfit > 0 ? (
                                 <p className="text-sm text-blue-600 dark:text-blue-400 font-semibold mt-1">
                                   লাভ: ৳{orderProfit.toFixed(2)}
@@ -1731,6 +2098,8 @@ const Admin = () => {
               </Card>
             </div>
 
+            <FunnelReport />
+
             <Card>
               <CardHeader>
                 <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -1763,6 +2132,11 @@ const Admin = () => {
                         <SelectItem value="search">খোঁজা</SelectItem>
                       </SelectContent>
                     </Select>
+                    <ExportMenu
+                      basename="activity"
+                      getRows={() => activityExportRows(activities)}
+                      getRangeRows={getActivityRangeRows}
+                    />
                   </div>
                 </div>
               </CardHeader>
@@ -1883,112 +2257,23 @@ const Admin = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="coupons" className="space-y-4 sm:space-y-6">
+            <CouponsEditor products={products} />
+          </TabsContent>
+
           <TabsContent value="settings" className="space-y-4 sm:space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Settings className="h-5 w-5" />
-                  ডেলিভারি চার্জ সেটিংস
-                </CardTitle>
-                <CardDescription>
-                  ঢাকার ভিতরে এবং বাইরের জন্য ডেলিভারি চার্জ নির্ধারণ করুন
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  {/* Inside Dhaka */}
-                  <Card className="border-2 border-border">
-                    <CardHeader>
-                      <CardTitle className="text-lg">ঢাকার ভিতরে</CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div>
-                        <Label htmlFor="inside_dhaka_charge">ডেলিভারি চার্জ (৳)</Label>
-                        <Input
-                          id="inside_dhaka_charge"
-                          type="number"
-                          min="0"
-                          step="0.01"
-                          value={deliveryCharges.inside_dhaka}
-                          onChange={(e) => {
-                            const value = parseFloat(e.target.value) || 0;
-                            setDeliveryCharges(prev => ({
-                              ...prev,
-                              inside_dhaka: value,
-                            }));
-                          }}
-                          className="mt-2"
-                          disabled={loadingCharges}
-                        />
-                      </div>
-                      <Button
-                        onClick={() => updateDeliveryCharge('inside_dhaka', deliveryCharges.inside_dhaka)}
-                        disabled={loadingCharges}
-                        className="w-full"
-                      >
-                        {loadingCharges ? (
-                          <>
-                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                            আপডেট হচ্ছে...
-                          </>
-                        ) : (
-                          'সংরক্ষণ করুন'
-                        )}
-                      </Button>
-                    </CardContent>
-                  </Card>
-
-                  {/* Outside Dhaka */}
-                  <Card className="border-2 border-border">
-                    <CardHeader>
-                      <CardTitle className="text-lg">ঢাকার বাইরে</CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div>
-                        <Label htmlFor="outside_dhaka_charge">ডেলিভারি চার্জ (৳)</Label>
-                        <Input
-                          id="outside_dhaka_charge"
-                          type="number"
-                          min="0"
-                          step="0.01"
-                          value={deliveryCharges.outside_dhaka}
-                          onChange={(e) => {
-                            const value = parseFloat(e.target.value) || 0;
-                            setDeliveryCharges(prev => ({
-                              ...prev,
-                              outside_dhaka: value,
-                            }));
-                          }}
-                          className="mt-2"
-                          disabled={loadingCharges}
-                        />
-                      </div>
-                      <Button
-                        onClick={() => updateDeliveryCharge('outside_dhaka', deliveryCharges.outside_dhaka)}
-                        disabled={loadingCharges}
-                        className="w-full"
-                      >
-                        {loadingCharges ? (
-                          <>
-                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                            আপডেট হচ্ছে...
-                          </>
-                        ) : (
-                          'সংরক্ষণ করুন'
-                        )}
-                      </Button>
-                    </CardContent>
-                  </Card>
-                </div>
+            {can('settings.manage') && <DeliveryZonesEditor />}
+            {can('products.manage') && (
+              <CatalogEditor categories={categories} brands={brands} onChanged={fetchCatalog} />
+            )}
+          </TabsContent>
 
-                <div className="bg-muted/50 p-4 rounded-lg">
-                  <p className="text-sm text-muted-foreground">
-                    <strong>নোট:</strong> ডেলিভারি চার্জ পরিবর্তন করলে নতুন অর্ডারগুলোতে নতুন চার্জ প্রযোজ্য হবে।
-                    আগের অর্ডারগুলোতে পুরানো চার্জই থাকবে।
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+          <TabsContent value="team" className="space-y-4 sm:space-y-6">
+            {can('team.manage') && <TeamManager />}
+          </TabsContent>
+
+          <TabsContent value="audit" className="space-y-4 sm:space-y-6">
+            {can('audit.view') && <AuditLogViewer focus={auditFocus} onFocusChange={setAuditFocus} />}
           </TabsContent>
         </Tabs>
       </main>
@@ -1997,6 +2282,80 @@ const Admin = () => {
 };
 
 // Helper functions for activity types
+// Export rows (header first) for the Admin tables
+const formatExportDate = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16).replace('T', ' ');
+};
+
+const productExportRows = (products: Product[], brands: Brand[]): CsvValue[][] => [
+  ['ID', 'SKU', 'নাম', 'ব্র্যান্ড', 'দাম', 'ক্রয় মূল্য', 'স্টক', 'ওজন (কেজি)', 'অগ্রাধিকার', 'ভ্যারিয়েন্ট আছে', 'তৈরির তারিখ'],
+  ...products.map((product) => [
+    product.id,
+    product.sku ?? '',
+    product.name,
+    brands.find((brand) => brand.id === product.brand_id)?.name ?? '',
+    product.price,
+    product.cost_price ?? 0,
+    product.stock,
+    product.weight_kg ?? 0,
+    product.priority ?? '',
+    product.has_variants ? 'হ্যাঁ' : 'না',
+    formatExportDate(product.created_at),
+  ]),
+];
+
+// One row per order line. Order-level amounts are only on the first line of each order,
+// so summing a column in a spreadsheet does not count them twice.
+const orderExportRows = (orders: OrderWithItems[]): CsvValue[][] => [
+  [
+    'অর্ডার ID', 'তারিখ', 'স্ট্যাটাস', 'গ্রাহক', 'ফোন', 'ঠিকানা', 'জেলা', 'কুপন',
+    'পণ্য', 'ভ্যারিয়েন্ট', 'পরিমাণ', 'একক মূল্য', 'একক ক্রয় মূল্য', 'লাইন মোট', 'লাইন লাভ',
+    'ডেলিভারি চার্জ', 'ছাড়', 'অর্ডার মোট',
+  ],
+  ...orders.flatMap((order) => {
+    const orderColumns = [
+      order.id,
+      formatExportDate(order.created_at),
+      getOrderStatusText(order.status),
+      order.customer_name,
+      order.phone,
+      order.address,
+      order.district || getLocationText(order.location_type),
+      order.coupon_code || '',
+    ];
+    const amounts = [order.delivery_charge ?? 0, (order.discount_amount ?? 0) + (order.manual_discount ?? 0), order.total_amount];
+    const lines = order.order_items.length > 0 ? order.order_items : [null];
+
+    return lines.map((item, index) => [
+      ...orderColumns,
+      item ? item.products?.name || item.product_name || '' : '',
+      item?.variant_label || '',
+      item?.quantity ?? '',
+      item?.price ?? '',
+      item?.cost_price ?? '',
+      item ? item.price * item.quantity : '',
+      item ? (item.price - (item.cost_price || 0)) * item.quantity : '',
+      ...(index === 0 ? amounts : ['', '', '']),
+    ]);
+  }),
+];
+
+const activityExportRows = (activities: UserActivity[]): CsvValue[][] => [
+  ['সময়', 'ধরন', 'সেশন', 'পেজ', 'পণ্য', 'খোঁজা', 'অর্ডার ID', 'IP', 'ব্রাউজার'],
+  ...activities.map((activity) => [
+    formatExportDate(activity.created_at),
+    getActivityTypeText(activity.activity_type),
+    activity.session_id,
+    activity.page_path || '',
+    activity.product_name || '',
+    activity.metadata?.search_query || '',
+    activity.metadata?.order_id || '',
+    activity.ip_address || '',
+    activity.user_agent || '',
+  ]),
+];
+
 const getActivityTypeColor = (type: string) => {
   switch (type) {
     case 'page_view':
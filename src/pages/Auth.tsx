@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,19 +7,24 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { User } from '@supabase/supabase-js';
+import { fetchPublicSignupEnabled } from '@/lib/team';
 
 const Auth = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [user, setUser] = useState<User | null>(null);
+  const [signupEnabled, setSignupEnabled] = useState(true);
   const navigate = useNavigate();
+  // Invite emails link here; invited staff choose a password before going on to the Admin
+  const [searchParams] = useSearchParams();
+  const invited = searchParams.get('invited') === '1';
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
         setUser(session?.user ?? null);
-        if (session?.user) {
+        if (session?.user && !invited) {
           navigate('/admin');
         }
       }
@@ -27,13 +32,19 @@ const Auth = () => {
 
     supabase.auth.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null);
-      if (session?.user) {
+      if (session?.user && !invited) {
         navigate('/admin');
       }
     });
 
     return () => subscription.unsubscribe();
-  }, [navigate]);
+  }, [navigate, invited]);
+
+  useEffect(() => {
+    fetchPublicSignupEnabled()
+      .then(setSignupEnabled)
+      .catch((error) => console.error('Error fetching signup setting:', error));
+  }, []);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -69,6 +80,12 @@ const Auth = () => {
         }
       });
 
+      // Raised by check_public_signup() when signup is turned off
+      if (error?.message.includes('Database error saving new user')) {
+        setSignupEnabled(false);
+        toast.error('নতুন অ্যাকাউন্ট খোলা বন্ধ আছে, অ্যাডমিনের কাছে আমন্ত্রণ চান');
+        return;
+      }
       if (error) throw error;
       toast.success('নিবন্ধন সফল হয়েছে! এখন লগইন করুন।');
     } catch (error: any) {
@@ -78,6 +95,57 @@ const Auth = () => {
     }
   };
 
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 6) {
+      toast.error('পাসওয়ার্ড অন্তত ৬ অক্ষরের হতে হবে');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+      toast.success('পাসওয়ার্ড সেট হয়েছে!');
+      navigate('/admin');
+    } catch (error) {
+      console.error('Error setting password:', error);
+      toast.error((error as { message?: string }).message || 'পাসওয়ার্ড সেট করতে সমস্যা হয়েছে');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (invited && user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-2xl text-center">পাসওয়ার্ড সেট করুন</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSetPassword} className="space-y-4">
+              <p className="text-sm text-muted-foreground text-center">{user.email}</p>
+              <div>
+                <Label htmlFor="new_password">নতুন পাসওয়ার্ড</Label>
+                <Input
+                  id="new_password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={loading} className="w-full">
+                সংরক্ষণ করে এগিয়ে যান
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
@@ -117,15 +185,17 @@ const Auth = () => {
               >
                 লগইন
               </Button>
-              <Button
-                type="button"
-                onClick={handleSignup}
-                disabled={loading}
-                variant="outline"
-                className="flex-1"
-              >
-                নিবন্ধন
-              </Button>
+              {signupEnabled && (
+                <Button
+                  type="button"
+                  onClick={handleSignup}
+                  disabled={loading}
+                  variant="outline"
+                  className="flex-1"
+                >
+                  নিবন্ধন
+                </Button>
+              )}
             </div>
           </form>
         </CardContent>
@@ -1,19 +1,27 @@
 // This file assumes the existence of the actual Facebook Pixel helper functions.
 
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { Footer } from '@/components/Footer';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { useCart } from '@/contexts/CartContext';
+import { getCartItemKey } from '@/lib/cart';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { Trash2, Plus, Minus, CheckCircle2, Loader2 } from 'lucide-react';
+import { Trash2, Plus, Minus, CheckCircle2, Loader2, Tag, X, AlertTriangle } from 'lucide-react';
+import { DeliveryQuote, getDeliveryAreas } from '@/lib/delivery';
+import { CouponQuote, getCouponErrorText } from '@/lib/coupons';
+import { track } from '@/lib/analytics';
+import { PaymentMethod, getPaymentMethodText, onlinePaymentsEnabled, startPayment } from '@/lib/payments';
+import { SavedAddress, fetchAddresses } from '@/lib/account';
+import { getDistrictLabel } from '@/lib/districts';
 
 // === BEGIN FACEBOOK PIXEL/TRACKING UTILITIES ===
 
@@ -57,6 +65,17 @@ function getFirstImageUrl(imageData: any): string | null {
   return validImages.length > 0 ? validImages[0] : null;
 }
 
+// place_order puts the affected products in the error detail as a JSON array
+function parseErrorDetails<T>(details: string | undefined): T[] {
+  if (!details) return [];
+  try {
+    const parsed = JSON.parse(details);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
 // Reworked tracking function for robustness
 const safeFbqTrack = (event: string, params?: Record<string, any>) => {
   if (typeof window !== 'undefined' && window.fbqInitialized) {
@@ -71,24 +90,41 @@ const safeFbqTrack = (event: string, params?: Record<string, any>) => {
 
 // === END FACEBOOK PIXEL/TRACKING UTILITIES ===
 
+const toFormData = (address: SavedAddress) => ({
+  name: address.customer_name,
+  phone: address.phone,
+  address: address.address,
+  district: address.district,
+});
+
 const Cart = () => {
-  const { items, removeItem, updateQuantity, clearCart, totalPrice } = useCart();
+  const { items, removeItem, updateQuantity, clearCart, totalPrice, checks, refreshCart } = useCart();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [orderConfirmed, setOrderConfirmed] = useState(false);
   const [orderId, setOrderId] = useState<string | null>(null);
+  const [paymentPending, setPaymentPending] = useState(false);
 
   const [formData, setFormData] = useState({
     name: '',
     phone: '',
     address: '',
-    location: 'inside_dhaka' as 'inside_dhaka' | 'outside_dhaka',
+    district: 'Dhaka',
   });
 
-  const [deliveryCharges, setDeliveryCharges] = useState({
-    inside_dhaka: 60,
-    outside_dhaka: 120,
-  });
+  const [deliveryAreas, setDeliveryAreas] = useState(() => getDeliveryAreas([]));
+  const [deliveryQuote, setDeliveryQuote] = useState<DeliveryQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCouponCode, setAppliedCouponCode] = useState('');
+  const [couponQuote, setCouponQuote] = useState<CouponQuote | null>(null);
+  const [couponLoading, setCouponLoading] = useState(false);
+
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cod');
+
+  // Signed-in customers; null while unknown or for guests
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[] | null>(null);
 
   // Centralized FB Pixel Initialization and PageView Tracking
   useEffect(() => {
@@ -106,46 +142,161 @@ const Cart = () => {
     }
   }, []);
 
+  // Prices and stock may have changed since the lines were added
+  useEffect(() => {
+    refreshCart();
+  }, [refreshCart]);
+
   useEffect(() => {
-    const fetchDeliveryCharges = async () => {
+    const fetchDeliveryZones = async () => {
       try {
         const { data, error } = await supabase
-          .from('delivery_charges' as any)
-          .select('*');
+          .from('delivery_zones')
+          .select('areas')
+          .eq('is_active', true);
 
-        if (error) {
-          console.warn('Delivery charges not found, using defaults');
-          return;
-        }
+        if (error) throw error;
+        setDeliveryAreas(getDeliveryAreas(data || []));
+      } catch (error) {
+        console.error('Error fetching delivery zones:', error);
+      }
+    };
 
-        if (data && data.length > 0) {
-          const charges: { inside_dhaka: number; outside_dhaka: number } = {
-            inside_dhaka: 60,
-            outside_dhaka: 120,
-          };
-          
-          data.forEach((item: any) => {
-            if (item.location_type === 'inside_dhaka') {
-              charges.inside_dhaka = parseFloat(item.charge);
-            } else if (item.location_type === 'outside_dhaka') {
-              charges.outside_dhaka = parseFloat(item.charge);
-            }
-          });
-          
-          setDeliveryCharges(charges);
+    fetchDeliveryZones();
+  }, []);
+
+  // The default saved address fills in the form, which sets the delivery zone through its area
+  useEffect(() => {
+    const loadSavedAddresses = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) return;
+
+      try {
+        const addresses = await fetchAddresses();
+        setSavedAddresses(addresses);
+        const defaultAddress = addresses.find((address) => address.is_default);
+        if (defaultAddress) {
+          setFormData((current) => (current.name || current.phone || current.address ? current : toFormData(defaultAddress)));
         }
       } catch (error) {
-        console.error('Error fetching delivery charges:', error);
+        console.error('Error fetching saved addresses:', error);
       }
     };
 
-    fetchDeliveryCharges();
+    loadSavedAddresses();
   }, []);
 
-  const deliveryCharge = formData.location === 'inside_dhaka' 
-    ? deliveryCharges.inside_dhaka 
-    : deliveryCharges.outside_dhaka;
-  const finalTotal = totalPrice + deliveryCharge;
+  // The charge depends on the zone, the number of items, their weight and the subtotal,
+  // so it is quoted by the same database function that place_order uses
+  useEffect(() => {
+    if (items.length === 0 || !formData.district) {
+      setDeliveryQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchQuote = async () => {
+      setQuoteLoading(true);
+      try {
+        const { data, error } = await supabase.rpc('quote_delivery', {
+          _district: formData.district,
+          _items: items.map(item => ({ product_id: item.id, variant_id: item.variant_id, quantity: item.quantity })),
+        });
+
+        if (error) throw error;
+        if (!cancelled) setDeliveryQuote(data as unknown as DeliveryQuote);
+      } catch (error) {
+        console.error('Error quoting delivery charge:', error);
+        if (!cancelled) setDeliveryQuote(null);
+      } finally {
+        if (!cancelled) setQuoteLoading(false);
+      }
+    };
+
+    const timer = setTimeout(fetchQuote, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.district, items]);
+
+  // The discount also depends on the cart and the delivery charge, so an applied code is
+  // re-checked whenever either changes and dropped if it no longer applies
+  useEffect(() => {
+    if (!appliedCouponCode || items.length === 0 || !formData.district) {
+      setCouponQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchCouponQuote = async () => {
+      setCouponLoading(true);
+      try {
+        const { data, error } = await supabase.rpc('quote_coupon', {
+          _code: appliedCouponCode,
+          _district: formData.district,
+          _items: items.map(item => ({ product_id: item.id, variant_id: item.variant_id, quantity: item.quantity })),
+        });
+
+        if (cancelled) return;
+        if (error) {
+          const couponError = getCouponErrorText(error.message, error.details);
+          if (!couponError) throw error;
+          toast.error(couponError);
+          setAppliedCouponCode('');
+          setCouponQuote(null);
+          return;
+        }
+        setCouponQuote(data as unknown as CouponQuote);
+      } catch (error) {
+        console.error('Error checking coupon:', error);
+        if (!cancelled) {
+          toast.error('কুপন যাচাই করতে সমস্যা হয়েছে');
+          setAppliedCouponCode('');
+          setCouponQuote(null);
+        }
+      } finally {
+        if (!cancelled) setCouponLoading(false);
+      }
+    };
+
+    const timer = setTimeout(fetchCouponQuote, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [appliedCouponCode, formData.district, items]);
+
+  const handleApplyCoupon = () => {
+    const code = couponInput.trim().toUpperCase();
+    if (!code) {
+      toast.error('কুপন কোড দিন');
+      return;
+    }
+    setAppliedCouponCode(code);
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCouponCode('');
+    setCouponInput('');
+    setCouponQuote(null);
+  };
+
+  const deliveryCharge = deliveryQuote ? Number(deliveryQuote.charge) : 0;
+  const discount = couponQuote ? Number(couponQuote.discount) : 0;
+  const finalTotal = totalPrice + deliveryCharge - discount;
+  // Pre-paying the delivery charge only makes sense when there is one left after the coupon
+  const advanceAmount = deliveryCharge - (couponQuote ? Number(couponQuote.delivery_discount) : 0);
+  const checkoutPaymentMethod: PaymentMethod = paymentMethod === 'advance' && advanceAmount <= 0 ? 'cod' : paymentMethod;
+  const freeDeliveryThreshold = deliveryQuote?.free_delivery_threshold
+    ? Number(deliveryQuote.free_delivery_threshold)
+    : null;
+
+  // Lines place_order would turn down; they have to be removed or reduced first
+  const blockedItems = items.filter((item) => {
+    const check = checks[getCartItemKey(item)];
+    return check && (!check.available || (check.stock !== null && check.stock < item.quantity));
+  });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -183,43 +334,15 @@ const Cart = () => {
       return;
     }
 
+    if (!formData.district) {
+      toast.error('জেলা নির্বাচন করুন');
+      return;
+    }
+
     setLoading(true);
 
     try {
-      // 1️⃣ Validate and fetch existing products
-      const productIds = items.map(item => item.id);
-      const { data: existingProducts, error: productsError } = await supabase
-        .from('products')
-        .select('id, name, stock, price')
-        .in('id', productIds);
-    
-      if (productsError) throw new Error(productsError.message || 'পণ্য যাচাই করতে সমস্যা হয়েছে');
-    
-      // Check for missing products
-      const existingIds = new Set(existingProducts?.map(p => p.id) || []);
-      const missingItems = items.filter(item => !existingIds.has(item.id));
-      if (missingItems.length > 0) {
-        toast.error(`কিছু পণ্য আর পাওয়া যায় না: ${missingItems.map(i => i.name).join(', ')}`);
-        missingItems.forEach(item => removeItem(item.id));
-        setLoading(false);
-        return;
-      }
-    
-      // Check stock
-      const outOfStockItems: string[] = [];
-      for (const item of items) {
-        const product = existingProducts?.find(p => p.id === item.id);
-        if (product && product.stock < item.quantity) {
-          outOfStockItems.push(`${product.name} (স্টক: ${product.stock})`);
-        }
-      }
-      if (outOfStockItems.length > 0) {
-        toast.error(`স্টক শেষ: ${outOfStockItems.join(', ')}`);
-        setLoading(false);
-        return;
-      }
-    
-      // 2️⃣ Fire InitiateCheckout *safely* before order creation
+      // 1️⃣ Fire InitiateCheckout *safely* before order creation
       safeFbqTrack("InitiateCheckout", {
         value: parseFloat(finalTotal.toFixed(2)),
         currency: "BDT",
@@ -232,43 +355,65 @@ const Cart = () => {
         content_type: "product", 
       });
     
-      // 3️⃣ Create order
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          customer_name: formData.name.trim(),
-          phone: formData.phone.trim(),
-          address: formData.address.trim(),
-          location_type: formData.location,
-          total_amount: parseFloat(finalTotal.toFixed(2)),
-          status: 'pending',
-        })
-        .select('id')
-        .single();
-    
-      if (orderError) throw new Error(orderError.message || 'অর্ডার তৈরি করতে সমস্যা হয়েছে');
-      if (!orderData?.id) throw new Error('অর্ডার তৈরি করা হয়েছে কিন্তু ID পাওয়া যায়নি');
-    
-      const orderId = orderData.id;
-    
-      // 4️⃣ Insert order items
-      const orderItems = items.map(item => ({
-        order_id: orderId,
-        product_id: item.id,
-        quantity: item.quantity,
-        price: parseFloat(item.price.toFixed(2)),
-      }));
-    
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
+      // 2️⃣ Place the order in one transaction; prices, stock and total are checked on the server
+      const { data: orderId, error: orderError } = await supabase.rpc('place_order', {
+        _customer_name: formData.name.trim(),
+        _phone: formData.phone.trim(),
+        _address: formData.address.trim(),
+        _district: formData.district,
+        _items: items.map(item => ({
+          product_id: item.id,
+          variant_id: item.variant_id,
+          quantity: item.quantity,
+        })),
+        _coupon_code: couponQuote ? appliedCouponCode : undefined,
+        _payment_method: checkoutPaymentMethod,
+      });
     
-      if (itemsError) {
-        await supabase.from('orders').delete().eq('id', orderId);
-        throw new Error(itemsError.message || 'অর্ডার আইটেম যোগ করতে সমস্যা হয়েছে');
+      if (orderError) {
+        switch (orderError.message) {
+          case 'product_not_found': {
+            const missingIds = parseErrorDetails<string>(orderError.details);
+            const missingItems = items.filter(item =>
+              item.variant_id ? missingIds.includes(item.variant_id) : missingIds.includes(item.id)
+            );
+            toast.error(`কিছু পণ্য আর পাওয়া যায় না: ${missingItems.map(i => i.name).join(', ')}`);
+            missingItems.forEach(item => removeItem(getCartItemKey(item)));
+            return;
+          }
+          case 'variant_required': {
+            // Lines added before the product got variants; the customer has to pick one
+            const productIds = parseErrorDetails<string>(orderError.details);
+            const staleItems = items.filter(item => !item.variant_id && productIds.includes(item.id));
+            toast.error(`অপশন (রং/সাইজ) নির্বাচন করে আবার কার্টে যোগ করুন: ${staleItems.map(i => i.name).join(', ')}`);
+            staleItems.forEach(item => removeItem(getCartItemKey(item)));
+            return;
+          }
+          case 'insufficient_stock': {
+            const shortItems = parseErrorDetails<{ name: string; stock: number }>(orderError.details);
+            toast.error(`স্টক শেষ: ${shortItems.map(p => `${p.name} (স্টক: ${p.stock})`).join(', ')}`);
+            return;
+          }
+          case 'invalid_location':
+            toast.error('এই এলাকায় ডেলিভারি দেওয়া হয় না');
+            return;
+          case 'invalid_payment_method':
+            toast.error('পেমেন্ট পদ্ধতি নির্বাচন করুন');
+            return;
+          default: {
+            const couponError = getCouponErrorText(orderError.message, orderError.details);
+            if (couponError) {
+              toast.error(couponError);
+              handleRemoveCoupon();
+              return;
+            }
+            throw new Error(orderError.message || 'অর্ডার তৈরি করতে সমস্যা হয়েছে');
+          }
+        }
       }
+      if (!orderId) throw new Error('অর্ডার তৈরি করা হয়েছে কিন্তু ID পাওয়া যায়নি');
     
-      // 5️⃣ Fire Purchase event *safely* after order confirmed
+      // 3️⃣ Fire Purchase event *safely* after order confirmed
       safeFbqTrack("Purchase", {
         value: parseFloat(finalTotal.toFixed(2)),
         currency: "BDT",
@@ -281,9 +426,31 @@ const Cart = () => {
         content_type: "product",
       });
     
+      track('order_placed', {
+        order_id: orderId,
+        total: parseFloat(finalTotal.toFixed(2)),
+        items: items.reduce((sum, i) => sum + i.quantity, 0),
+      });
+
       setOrderId(orderId);
-      setOrderConfirmed(true);
       clearCart();
+      handleRemoveCoupon();
+
+      if (checkoutPaymentMethod !== 'cod') {
+        try {
+          await startPayment(orderId, formData.phone.trim());
+          return;
+        } catch (paymentError) {
+          // The order stands; the customer can pay later from the tracking page
+          console.error('Payment start error:', paymentError);
+          toast.error(paymentError instanceof Error ? paymentError.message : 'পেমেন্ট শুরু করতে সমস্যা হয়েছে');
+          setPaymentPending(true);
+        }
+      } else {
+        setPaymentPending(false);
+      }
+
+      setOrderConfirmed(true);
       toast.success('অর্ডার সফলভাবে প্লেস করা হয়েছে!');
     } catch (error: any) {
       console.error('Order error details:', error);
@@ -318,8 +485,9 @@ const Cart = () => {
           <div className="lg:col-span-2 space-y-3 sm:space-y-4">
             {items.map((item) => {
               const firstImageUrl = getFirstImageUrl(item.image_url);
+              const check = checks[getCartItemKey(item)];
               return (
-                <Card key={item.id} className="card-hover animate-fade-in">
+                <Card key={getCartItemKey(item)} className="card-hover animate-fade-in">
                   <CardContent className="p-3 sm:p-4">
                     <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
                       {firstImageUrl ? (
@@ -336,14 +504,40 @@ const Cart = () => {
 
                       <div className="flex-1">
                         <h3 className="font-semibold mb-1 sm:mb-2 text-sm sm:text-base">{item.name}</h3>
-                        <p className="text-base sm:text-lg font-bold text-primary">৳{item.price.toFixed(2)}</p>
+                        {item.variant_label && (
+                          <p className="text-xs sm:text-sm text-muted-foreground -mt-1 mb-1 sm:mb-2">{item.variant_label}</p>
+                        )}
+                        <p className="text-base sm:text-lg font-bold text-primary">
+                          ৳{item.price.toFixed(2)}
+                          {check?.previousPrice !== undefined && (
+                            <span className="ml-2 text-sm font-normal text-muted-foreground line-through">
+                              ৳{check.previousPrice.toFixed(2)}
+                            </span>
+                          )}
+                        </p>
+                        {check && !check.available ? (
+                          <p className="flex items-center gap-1 text-xs sm:text-sm text-destructive mt-1">
+                            <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4" />
+                            এই পণ্যটি এখন পাওয়া যাচ্ছে না, কার্ট থেকে সরিয়ে দিন
+                          </p>
+                        ) : check?.stock !== null && check?.stock !== undefined && check.stock < item.quantity ? (
+                          <p className="flex items-center gap-1 text-xs sm:text-sm text-destructive mt-1">
+                            <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4" />
+                            {check.stock <= 0 ? 'স্টক শেষ' : `মাত্র ${check.stock}টি স্টকে আছে`}
+                          </p>
+                        ) : check?.previousPrice !== undefined && (
+                          <p className="flex items-center gap-1 text-xs sm:text-sm text-orange-600 dark:text-orange-400 mt-1">
+                            <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4" />
+                            কার্টে যোগ করার পর দাম পরিবর্তন হয়েছে
+                          </p>
+                        )}
                         
                         <div className="flex items-center gap-2 mt-2 sm:mt-3">
                           <Button
                             size="icon"
                             variant="outline"
                             className="h-7 w-7 sm:h-8 sm:w-8 transition-all duration-200 hover:scale-110"
-                            onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                            onClick={() => updateQuantity(getCartItemKey(item), item.quantity - 1)}
                           >
                             <Minus className="h-3 w-3 sm:h-4 sm:w-4" />
                           </Button>
@@ -360,7 +554,7 @@ const Cart = () => {
                                 value: parseFloat(item.price.toFixed(2)),
                                 currency: "BDT",
                               });
-                              updateQuantity(item.id, item.quantity + 1);
+                              updateQuantity(getCartItemKey(item), item.quantity + 1);
                             }}
                           >
                             <Plus className="h-3 w-3 sm:h-4 sm:w-4" />
@@ -369,7 +563,15 @@ const Cart = () => {
                             size="icon"
                             variant="destructive"
                             className="h-7 w-7 sm:h-8 sm:w-8 ml-auto transition-all duration-200 hover:scale-110"
-                            onClick={() => removeItem(item.id)}
+                            onClick={() => {
+                              track('remove_from_cart', {
+                                product_id: item.id,
+                                product_name: item.name,
+                                quantity: item.quantity,
+                                variant_id: item.variant_id,
+                              });
+                              removeItem(getCartItemKey(item));
+                            }}
                           >
                             <Trash2 className="h-3 w-3 sm:h-4 sm:w-4" />
                           </Button>
@@ -388,7 +590,35 @@ const Cart = () => {
                 <h2 className="text-lg sm:text-xl font-bold mb-4">অর্ডার সম্পন্ন করুন</h2>
                 
                 <form onSubmit={handleSubmit} className="space-y-4">
-                  
+                  {savedAddresses === null ? (
+                    <p className="text-xs text-muted-foreground">
+                      লগইন ছাড়াই অর্ডার করতে পারবেন।{' '}
+                      <Link to="/account" className="text-primary hover:underline">লগইন করলে</Link>{' '}
+                      ঠিকানা সংরক্ষণ ও আগের অর্ডার দেখা যাবে।
+                    </p>
+                  ) : savedAddresses.length > 0 && (
+                    <div>
+                      <Label htmlFor="saved_address">সংরক্ষিত ঠিকানা</Label>
+                      <Select
+                        onValueChange={(id) => {
+                          const address = savedAddresses.find((a) => a.id === id);
+                          if (address) setFormData(toFormData(address));
+                        }}
+                      >
+                        <SelectTrigger id="saved_address">
+                          <SelectValue placeholder="ঠিকানা নির্বাচন করুন" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {savedAddresses.map((address) => (
+                            <SelectItem key={address.id} value={address.id}>
+                              {address.label || address.customer_name} · {getDistrictLabel(address.district)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
                   <div>
                     <Label htmlFor="name">নাম *</Label>
                     <Input
@@ -421,47 +651,142 @@ const Cart = () => {
                   </div>
 
                   <div>
-                    <Label>লোকেশন *</Label>
-                    <RadioGroup
-                      value={formData.location}
-                      onValueChange={(value) =>
-                        setFormData({ ...formData, location: value as any })
-                      }
+                    <Label htmlFor="district">জেলা / এলাকা *</Label>
+                    <Select
+                      value={formData.district}
+                      onValueChange={(value) => setFormData({ ...formData, district: value })}
                     >
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="inside_dhaka" id="inside" />
-                        <Label htmlFor="inside" className="font-normal">ঢাকার ভিতরে</Label>
+                      <SelectTrigger id="district">
+                        <SelectValue placeholder="জেলা নির্বাচন করুন" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {deliveryAreas.map((area) => (
+                          <SelectItem key={area.value} value={area.value}>{area.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="coupon">কুপন কোড</Label>
+                    {couponQuote ? (
+                      <div className="flex items-center justify-between rounded-md border border-dashed border-primary px-3 py-2">
+                        <span className="flex items-center gap-2 font-mono text-sm font-semibold">
+                          <Tag className="h-4 w-4 text-primary" />
+                          {couponQuote.code}
+                        </span>
+                        <Button type="button" size="icon" variant="ghost" className="h-7 w-7" onClick={handleRemoveCoupon}>
+                          <X className="h-4 w-4" />
+                        </Button>
                       </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="outside_dhaka" id="outside" />
-                        <Label htmlFor="outside" className="font-normal">ঢাকার বাইরে</Label>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          id="coupon"
+                          value={couponInput}
+                          onChange={(e) => setCouponInput(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              handleApplyCoupon();
+                            }
+                          }}
+                          className="font-mono uppercase"
+                        />
+                        <Button type="button" variant="outline" onClick={handleApplyCoupon} disabled={couponLoading}>
+                          {couponLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'প্রয়োগ করুন'}
+                        </Button>
                       </div>
-                    </RadioGroup>
+                    )}
                   </div>
 
+                  {onlinePaymentsEnabled && (
+                    <div>
+                      <Label>পেমেন্ট পদ্ধতি</Label>
+                      <RadioGroup
+                        value={checkoutPaymentMethod}
+                        onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
+                        className="mt-2 space-y-1"
+                      >
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem value="cod" id="payment-cod" />
+                          <Label htmlFor="payment-cod" className="font-normal">{getPaymentMethodText('cod')}</Label>
+                        </div>
+                        {advanceAmount > 0 && (
+                          <div className="flex items-center gap-2">
+                            <RadioGroupItem value="advance" id="payment-advance" />
+                            <Label htmlFor="payment-advance" className="font-normal">
+                              {getPaymentMethodText('advance')} (৳{advanceAmount.toFixed(2)}), বাকি ডেলিভারির সময়
+                            </Label>
+                          </div>
+                        )}
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem value="online" id="payment-online" />
+                          <Label htmlFor="payment-online" className="font-normal">{getPaymentMethodText('online')} (বিকাশ / নগদ / কার্ড)</Label>
+                        </div>
+                      </RadioGroup>
+                    </div>
+                  )}
+
                   <div className="border-t pt-4 space-y-2">
                     <div className="flex justify-between">
                       <span>পণ্যের মূল্য:</span>
                       <span className="font-semibold">৳{totalPrice.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span>ডেলিভারি চার্জ:</span>
-                      <span className="font-semibold">৳{deliveryCharge.toFixed(2)}</span>
+                      <span>
+                        ডেলিভারি চার্জ:
+                        {deliveryQuote && (
+                          <span className="block text-xs text-muted-foreground">{deliveryQuote.zone_name}</span>
+                        )}
+                      </span>
+                      <span className="font-semibold">
+                        {quoteLoading ? (
+                          <Loader2 className="h-4 w-4 animate-spin inline" />
+                        ) : deliveryQuote ? (
+                          `৳${deliveryCharge.toFixed(2)}`
+                        ) : (
+                          '—'
+                        )}
+                      </span>
                     </div>
+                    {couponQuote && discount > 0 && (
+                      <div className="flex justify-between text-green-600 dark:text-green-400">
+                        <span>ছাড় ({couponQuote.code}):</span>
+                        <span className="font-semibold">-৳{discount.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {freeDeliveryThreshold !== null && totalPrice < freeDeliveryThreshold && (
+                      <p className="text-xs text-muted-foreground">
+                        ৳{freeDeliveryThreshold.toFixed(2)} বা তার বেশি অর্ডারে ফ্রি ডেলিভারি
+                      </p>
+                    )}
                     <div className="flex justify-between text-lg font-bold border-t pt-2">
                       <span>সর্বমোট:</span>
                       <span className="text-primary">৳{finalTotal.toFixed(2)}</span>
                     </div>
                   </div>
 
-                  <Button type="submit" className="w-full btn-order transition-all duration-300" disabled={loading}>
+                  {blockedItems.length > 0 && (
+                    <p className="text-sm text-destructive">
+                      অর্ডার করতে আগে এই পণ্যগুলো সরিয়ে দিন বা পরিমাণ কমান: {blockedItems.map((item) => item.name).join(', ')}
+                    </p>
+                  )}
+
+                  <Button
+                    type="submit"
+                    className="w-full btn-order transition-all duration-300"
+                    disabled={loading || quoteLoading || couponLoading || !deliveryQuote || blockedItems.length > 0}
+                  >
                     {loading ? (
                       <>
                         <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                         অপেক্ষা করুন...
                       </>
-                    ) : (
+                    ) : checkoutPaymentMethod === 'cod' ? (
                       'অর্ডার প্লেস করুন'
+                    ) : (
+                      'অর্ডার করে পেমেন্ট করুন'
                     )}
                   </Button>
                 </form>
@@ -490,7 +815,25 @@ const Cart = () => {
             <div className="bg-muted p-3 sm:p-4 rounded-lg transition-colors">
               <p className="text-xs sm:text-sm text-muted-foreground">অর্ডার আইডি:</p>
               <p className="font-mono text-xs sm:text-sm font-semibold break-all">{orderId}</p>
+              <p className="text-xs text-muted-foreground mt-2">
+                এই আইডি ও আপনার ফোন নম্বর দিয়ে যেকোনো সময় অর্ডারের অবস্থা দেখতে পারবেন।
+              </p>
+              {paymentPending && (
+                <p className="text-xs text-destructive mt-2">
+                  পেমেন্ট এখনো হয়নি। অর্ডার ট্র্যাক করার পেজ থেকে আবার পেমেন্ট করতে পারবেন।
+                </p>
+              )}
             </div>
+            <Button
+              variant="secondary"
+              className="w-full transition-all duration-300 hover:scale-105"
+              onClick={() => {
+                setOrderConfirmed(false);
+                navigate(`/track?id=${orderId}`);
+              }}
+            >
+              অর্ডার ট্র্যাক করুন
+            </Button>
             <div className="flex flex-col sm:flex-row gap-2">
               <Button
                 className="flex-1 transition-all duration-300 hover:scale-105"
@@ -510,7 +853,7 @@ const Cart = () => {
                     name: '',
                     phone: '',
                     address: '',
-                    location: 'inside_dhaka',
+                    district: 'Dhaka',
                   });
                 }}
               >
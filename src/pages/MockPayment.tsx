@@ -0,0 +1,59 @@
+import { useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+// Gateway page of the mock payment provider (supabase/functions/_shared/payments/mock.ts),
+// for testing checkout without a real gateway. It returns to payment-callback with the
+// result picked here.
+const MockPayment = () => {
+  const [searchParams] = useSearchParams();
+  const ref = searchParams.get('ref') || '';
+  const amount = searchParams.get('amount') || '';
+  const orderId = searchParams.get('order') || '';
+  const callback = searchParams.get('callback') || '';
+
+  // Only ever return to this project's own callback
+  const validCallback = Boolean(ref) && callback.startsWith(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/payment-callback?`);
+
+  const finish = (status: 'paid' | 'failed' | 'cancelled') => {
+    const params = new URLSearchParams({ ref, amount, status });
+    window.location.assign(`${callback}&${params}`);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/40 px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Mock payment gateway</CardTitle>
+          <CardDescription>For testing only, no money is charged.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {validCallback ? (
+            <>
+              <div className="bg-muted p-3 rounded-lg text-sm space-y-1">
+                <p>Order: <span className="font-mono">{orderId.slice(0, 8)}</span></p>
+                <p className="font-mono text-xs break-all">{ref}</p>
+                <p className="text-2xl font-bold text-primary">৳{Number(amount).toFixed(2)}</p>
+              </div>
+              <Button className="w-full" onClick={() => finish('paid')}>
+                Pay
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => finish('failed')}>
+                  Fail
+                </Button>
+                <Button variant="outline" className="flex-1" onClick={() => finish('cancelled')}>
+                  Cancel
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-destructive">Invalid payment link</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MockPayment;
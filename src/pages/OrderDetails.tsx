@@ -0,0 +1,763 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { useStaff } from '@/contexts/StaffContext';
+import { ArrowLeft, CheckCircle2, Circle, Loader2, Plus, Printer, Save, Trash2 } from 'lucide-react';
+import { DeliveryArea, DeliveryQuote, getDeliveryAreas } from '@/lib/delivery';
+import { getDistrictLabel } from '@/lib/districts';
+import { openOrderPrint } from '@/lib/orderPrint';
+import { getPaymentMethodText, getPaymentStatusText } from '@/lib/payments';
+import { ProductVariant, getVariantLabel, getVariantPrice } from '@/lib/variants';
+import {
+  OrderHistoryEntry,
+  fetchOrderHistory,
+  getNextOrderStatuses,
+  getOrderStatusColor,
+  getOrderStatusText,
+  setOrderStatus,
+} from '@/lib/orderStatus';
+import {
+  ORDER_AUDIT_FIELD_LABELS,
+  OrderAuditEntry,
+  canEditOrder,
+  editOrder,
+  fetchOrderAudit,
+} from '@/lib/orderEditing';
+
+interface DetailOrderItem {
+  id: string;
+  product_id: string | null;
+  variant_id: string | null;
+  product_name: string | null;
+  variant_label: string | null;
+  quantity: number;
+  price: number;
+  products: { name: string } | null;
+}
+
+interface DetailOrder {
+  id: string;
+  customer_name: string;
+  phone: string;
+  address: string;
+  district: string | null;
+  status: string;
+  delivery_charge: number;
+  coupon_code: string | null;
+  discount_amount: number;
+  manual_discount: number;
+  total_amount: number;
+  payment_method: string;
+  payment_status: string;
+  amount_paid: number;
+  internal_note: string | null;
+  customer_note: string | null;
+  courier_consignment_id: string | null;
+  courier_status: string | null;
+  created_at: string;
+  order_items: DetailOrderItem[];
+}
+
+interface ProductOption {
+  id: string;
+  name: string;
+  price: number;
+  has_variants: boolean;
+}
+
+// A line in the editor: existing lines keep their order_items id, new ones have none
+interface EditLine {
+  key: string;
+  id: string | null;
+  product_id: string | null;
+  variant_id: string | null;
+  name: string;
+  variant_label: string | null;
+  price: number;
+  quantity: number;
+}
+
+const toEditLines = (items: DetailOrderItem[]): EditLine[] =>
+  items.map((item) => ({
+    key: item.id,
+    id: item.id,
+    product_id: item.product_id,
+    variant_id: item.variant_id,
+    name: item.products?.name || item.product_name || 'N/A',
+    variant_label: item.variant_label,
+    price: Number(item.price),
+    quantity: item.quantity,
+  }));
+
+const formatMoney = (amount: number) => `৳${Number(amount).toFixed(2)}`;
+
+const formatAuditValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'district') return getDistrictLabel(String(value));
+  if (['delivery_charge', 'manual_discount', 'total_amount'].includes(field)) return formatMoney(Number(value));
+  return String(value);
+};
+
+const lineName = (line: { name: string | null; variant_label: string | null }) =>
+  `${line.name || 'N/A'}${line.variant_label ? ` (${line.variant_label})` : ''}`;
+
+const AuditEntry = ({ entry }: { entry: OrderAuditEntry }) => {
+  const { items, ...fields } = entry.changes;
+
+  return (
+    <li className="border-l-2 border-muted pl-3 space-y-1 text-sm">
+      <p className="text-xs text-muted-foreground">
+        {new Date(entry.created_at).toLocaleString('bn-BD')} · {entry.changed_by || 'সিস্টেম'}
+      </p>
+      {entry.note && <p className="font-medium">{entry.note}</p>}
+      <ul className="space-y-0.5">
+        {items?.added?.map((line, index) => (
+          <li key={`added-${index}`} className="text-green-600 dark:text-green-400">
+            + {lineName(line)} x{line.quantity}
+          </li>
+        ))}
+        {items?.removed?.map((line, index) => (
+          <li key={`removed-${index}`} className="text-destructive">
+            − {lineName(line)} x{line.quantity}
+          </li>
+        ))}
+        {items?.changed?.map((line, index) => (
+          <li key={`changed-${index}`}>
+            {lineName(line)}: x{line.from} → x{line.to}
+          </li>
+        ))}
+        {Object.entries(fields).map(([field, change]) => {
+          const { from, to } = change as { from: unknown; to: unknown };
+          return (
+            <li key={field}>
+              <span className="text-muted-foreground">{ORDER_AUDIT_FIELD_LABELS[field] || field}:</span>{' '}
+              {formatAuditValue(field, from)} → {formatAuditValue(field, to)}
+            </li>
+          );
+        })}
+      </ul>
+    </li>
+  );
+};
+
+const OrderDetails = () => {
+  const { id: orderId = '' } = useParams();
+  const navigate = useNavigate();
+  const { can } = useStaff();
+  const [order, setOrder] = useState<DetailOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [customerName, setCustomerName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [address, setAddress] = useState('');
+  const [district, setDistrict] = useState('');
+  const [lines, setLines] = useState<EditLine[]>([]);
+  const [manualDiscount, setManualDiscount] = useState('0');
+  const [internalNote, setInternalNote] = useState('');
+  const [customerNote, setCustomerNote] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [deliveryAreas, setDeliveryAreas] = useState<DeliveryArea[]>([]);
+  const [deliveryQuote, setDeliveryQuote] = useState<DeliveryQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [newProductId, setNewProductId] = useState('');
+  const [newVariants, setNewVariants] = useState<ProductVariant[]>([]);
+  const [newVariantId, setNewVariantId] = useState('');
+  const [newQuantity, setNewQuantity] = useState('1');
+
+  const [history, setHistory] = useState<OrderHistoryEntry[]>([]);
+  const [auditEntries, setAuditEntries] = useState<OrderAuditEntry[]>([]);
+  const [nextStatus, setNextStatus] = useState('');
+  const [statusNote, setStatusNote] = useState('');
+  const [statusSaving, setStatusSaving] = useState(false);
+
+  const resetForm = (data: DetailOrder) => {
+    setCustomerName(data.customer_name);
+    setPhone(data.phone);
+    setAddress(data.address);
+    setDistrict(data.district || '');
+    setLines(toEditLines(data.order_items));
+    setManualDiscount(String(Number(data.manual_discount)));
+    setInternalNote(data.internal_note || '');
+    setCustomerNote(data.customer_note || '');
+    setReason('');
+  };
+
+  const fetchOrder = useCallback(async () => {
+    try {
+      const [{ data, error }, historyEntries, audit] = await Promise.all([
+        supabase
+          .from('orders')
+          .select(`
+            id, customer_name, phone, address, district, status, delivery_charge, coupon_code,
+            discount_amount, manual_discount, total_amount, payment_method, payment_status, amount_paid,
+            internal_note, customer_note, courier_consignment_id, courier_status, created_at,
+            order_items (id, product_id, variant_id, product_name, variant_label, quantity, price, products (name))
+          `)
+          .eq('id', orderId)
+          .maybeSingle(),
+        fetchOrderHistory(orderId),
+        fetchOrderAudit(orderId),
+      ]);
+
+      if (error) throw error;
+
+      const loaded = data as DetailOrder | null;
+      setOrder(loaded);
+      if (loaded) resetForm(loaded);
+      setHistory(historyEntries);
+      setAuditEntries(audit);
+    } catch (error) {
+      console.error('Error fetching order:', error);
+      toast.error('অর্ডার লোড করতে সমস্যা হয়েছে');
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    const init = async () => {
+      fetchOrder();
+
+      const [zonesResult, productsResult] = await Promise.all([
+        supabase.from('delivery_zones').select('areas').eq('is_active', true),
+        supabase.from('products').select('id, name, price, has_variants').order('name'),
+      ]);
+
+      if (zonesResult.error) console.error('Error fetching delivery zones:', zonesResult.error);
+      else setDeliveryAreas(getDeliveryAreas(zonesResult.data || []));
+
+      if (productsResult.error) console.error('Error fetching products:', productsResult.error);
+      else setProducts(productsResult.data as ProductOption[]);
+    };
+
+    init();
+  }, [fetchOrder]);
+
+  const newProduct = products.find((product) => product.id === newProductId);
+
+  useEffect(() => {
+    setNewVariantId('');
+    setNewVariants([]);
+    if (!newProduct?.has_variants) return;
+
+    const fetchVariants = async () => {
+      const { data, error } = await supabase
+        .from('product_variants')
+        .select('*')
+        .eq('product_id', newProduct.id)
+        .eq('is_active', true)
+        .order('sort_order');
+
+      if (error) {
+        console.error('Error fetching variants:', error);
+        return;
+      }
+      setNewVariants(data as unknown as ProductVariant[]);
+    };
+
+    fetchVariants();
+  }, [newProduct]);
+
+  const itemsChanged = useMemo(() => {
+    if (!order) return false;
+    const original = toEditLines(order.order_items);
+    return lines.length !== original.length ||
+      lines.some((line) => {
+        const before = original.find((o) => o.id === line.id);
+        return !before || before.quantity !== line.quantity;
+      });
+  }, [order, lines]);
+
+  const districtChanged = order ? district !== (order.district || '') : false;
+
+  // Same quote as checkout, only needed when the items or the area differ from the saved order
+  useEffect(() => {
+    if (!itemsChanged && !districtChanged) {
+      setDeliveryQuote(null);
+      return;
+    }
+    const quoteLines = lines.filter((line) => line.product_id);
+    if (!district || quoteLines.length === 0) {
+      setDeliveryQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchQuote = async () => {
+      setQuoteLoading(true);
+      try {
+        const { data, error } = await supabase.rpc('quote_delivery', {
+          _district: district,
+          _items: quoteLines.map((line) => ({ product_id: line.product_id, variant_id: line.variant_id, quantity: line.quantity })),
+        });
+
+        if (error) throw error;
+        if (!cancelled) setDeliveryQuote(data as unknown as DeliveryQuote);
+      } catch (error) {
+        console.error('Error quoting delivery charge:', error);
+        if (!cancelled) setDeliveryQuote(null);
+      } finally {
+        if (!cancelled) setQuoteLoading(false);
+      }
+    };
+
+    const timer = setTimeout(fetchQuote, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [district, lines, itemsChanged, districtChanged]);
+
+  const handleQuantityChange = (key: string, value: string) => {
+    const quantity = Math.max(1, parseInt(value) || 1);
+    setLines((current) => current.map((line) => (line.key === key ? { ...line, quantity } : line)));
+  };
+
+  const handleRemoveLine = (key: string) => {
+    setLines((current) => current.filter((line) => line.key !== key));
+  };
+
+  const handleAddLine = () => {
+    if (!newProduct) return;
+
+    const variant = newVariants.find((v) => v.id === newVariantId) || null;
+    if (newProduct.has_variants && !variant) {
+      toast.error('পণ্যের ভ্যারিয়েন্ট নির্বাচন করুন');
+      return;
+    }
+
+    const quantity = Math.max(1, parseInt(newQuantity) || 1);
+    const variantId = variant?.id ?? null;
+
+    setLines((current) => {
+      // A product already on the order gets its quantity raised instead of a second line
+      const existing = current.find((line) => line.product_id === newProduct.id && line.variant_id === variantId);
+      if (existing) {
+        return current.map((line) => (line.key === existing.key ? { ...line, quantity: line.quantity + quantity } : line));
+      }
+      return [
+        ...current,
+        {
+          key: `new-${newProduct.id}-${variantId ?? ''}`,
+          id: null,
+          product_id: newProduct.id,
+          variant_id: variantId,
+          name: newProduct.name,
+          variant_label: variant ? getVariantLabel(variant.options) : null,
+          price: getVariantPrice(variant, Number(newProduct.price)),
+          quantity,
+        },
+      ];
+    });
+
+    setNewProductId('');
+    setNewQuantity('1');
+  };
+
+  const handleSave = async () => {
+    if (!order) return;
+
+    const discount = parseFloat(manualDiscount) || 0;
+    setSaving(true);
+    try {
+      const changes = await editOrder(order.id, {
+        customer_name: customerName,
+        phone,
+        address,
+        district,
+        items: lines.map((line) =>
+          line.id
+            ? { id: line.id, quantity: line.quantity }
+            : { product_id: line.product_id as string, variant_id: line.variant_id, quantity: line.quantity },
+        ),
+        manual_discount: discount,
+        internal_note: internalNote,
+        customer_note: customerNote,
+        reason,
+      });
+
+      if (Object.keys(changes).length === 0) {
+        toast.info('কোন পরিবর্তন নেই');
+      } else {
+        toast.success('অর্ডার আপডেট হয়েছে!');
+      }
+      await fetchOrder();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'অর্ডার সংরক্ষণ করতে সমস্যা হয়েছে');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async () => {
+    if (!order || !nextStatus) return;
+
+    setStatusSaving(true);
+    try {
+      await setOrderStatus(order.id, nextStatus, statusNote);
+      toast.success('অর্ডার স্ট্যাটাস আপডেট হয়েছে!');
+      setNextStatus('');
+      setStatusNote('');
+      await fetchOrder();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'অর্ডার স্ট্যাটাস আপডেট করতে সমস্যা হয়েছে');
+    } finally {
+      setStatusSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">অর্ডার পাওয়া যায়নি</p>
+        <Button variant="outline" onClick={() => navigate('/admin')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          অ্যাডমিন প্যানেলে ফিরুন
+        </Button>
+      </div>
+    );
+  }
+
+  const canManage = can('orders.manage');
+  const editable = canManage && canEditOrder(order);
+  const nextStatuses = getNextOrderStatuses(order.status);
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  const deliveryCharge = deliveryQuote ? Number(deliveryQuote.charge) : Number(order.delivery_charge);
+  const previewTotal = subtotal + deliveryCharge - Number(order.discount_amount || 0) - (parseFloat(manualDiscount) || 0);
+  // The saved area stays selectable even if no zone lists it any more
+  const areaOptions = order.district && !deliveryAreas.some((area) => area.value === order.district)
+    ? [{ value: order.district, label: getDistrictLabel(order.district) }, ...deliveryAreas]
+    : deliveryAreas;
+
+  return (
+    <div className="min-h-screen bg-muted/40">
+      <div className="sticky top-0 z-10 bg-background border-b">
+        <div className="container mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <p className="font-semibold">{order.customer_name}</p>
+              <p className="text-xs text-muted-foreground font-mono break-all">{order.id}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge className={getOrderStatusColor(order.status)}>{getOrderStatusText(order.status)}</Badge>
+            <Button variant="outline" onClick={() => openOrderPrint('invoice', [order.id])}>
+              <Printer className="h-4 w-4 mr-2" />
+              ইনভয়েস
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <main className="container mx-auto px-4 py-6 grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {canManage && !editable && (
+            <p className="bg-muted p-3 rounded-lg text-sm text-muted-foreground">
+              এই অর্ডার পাঠানো হয়েছে বা কুরিয়ারে বুক হয়েছে, তাই এডিট করা যাবে না।
+            </p>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">গ্রাহক</CardTitle>
+              <CardDescription>অর্ডারের তারিখ: {new Date(order.created_at).toLocaleString('bn-BD')}</CardDescription>
+            </CardHeader>
+            <CardContent className="grid sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="customer_name">নাম</Label>
+                <Input id="customer_name" value={customerName} onChange={(e) => setCustomerName(e.target.value)} disabled={!editable} />
+              </div>
+              <div>
+                <Label htmlFor="phone">ফোন</Label>
+                <Input id="phone" type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} disabled={!editable} />
+              </div>
+              <div className="sm:col-span-2">
+                <Label htmlFor="address">ঠিকানা</Label>
+                <Textarea id="address" value={address} onChange={(e) => setAddress(e.target.value)} rows={2} disabled={!editable} />
+              </div>
+              <div className="sm:col-span-2">
+                <Label>এলাকা</Label>
+                <Select value={district} onValueChange={setDistrict} disabled={!editable}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="এলাকা নির্বাচন করুন" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {areaOptions.map((area) => (
+                      <SelectItem key={area.value} value={area.value}>{area.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">পণ্য</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {lines.map((line) => (
+                <div key={line.key} className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{lineName(line)}</p>
+                    <p className="text-xs text-muted-foreground">{formatMoney(line.price)} / পিস</p>
+                  </div>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={line.quantity}
+                    onChange={(e) => handleQuantityChange(line.key, e.target.value)}
+                    className="w-20"
+                    disabled={!editable}
+                  />
+                  <p className="w-24 text-right font-semibold">{formatMoney(line.price * line.quantity)}</p>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemoveLine(line.key)}
+                    disabled={!editable || lines.length === 1}
+                    title="সরান"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              {editable && (
+                <div className="flex flex-wrap items-end gap-2 border-t pt-3">
+                  <div className="flex-1 min-w-[180px]">
+                    <Label>পণ্য যোগ করুন</Label>
+                    <Select value={newProductId} onValueChange={setNewProductId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="পণ্য নির্বাচন করুন" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.map((product) => (
+                          <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {newProduct?.has_variants && (
+                    <div className="flex-1 min-w-[160px]">
+                      <Label>ভ্যারিয়েন্ট</Label>
+                      <Select value={newVariantId} onValueChange={setNewVariantId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="ভ্যারিয়েন্ট" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {newVariants.map((variant) => (
+                            <SelectItem key={variant.id} value={variant.id}>
+                              {getVariantLabel(variant.options)} (স্টক: {variant.stock})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="w-20">
+                    <Label htmlFor="new_quantity">পরিমাণ</Label>
+                    <Input
+                      id="new_quantity"
+                      type="number"
+                      min={1}
+                      value={newQuantity}
+                      onChange={(e) => setNewQuantity(e.target.value)}
+                    />
+                  </div>
+                  <Button variant="outline" onClick={handleAddLine} disabled={!newProduct}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    যোগ করুন
+                  </Button>
+                </div>
+              )}
+
+              <div className="border-t pt-3 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span>পণ্যের মূল্য:</span>
+                  <span className="font-semibold">{formatMoney(subtotal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>ডেলিভারি চার্জ{deliveryQuote ? ` (${deliveryQuote.zone_name})` : ''}:</span>
+                  <span className="font-semibold">
+                    {quoteLoading ? <Loader2 className="h-4 w-4 animate-spin inline" /> : formatMoney(deliveryCharge)}
+                  </span>
+                </div>
+                {Number(order.discount_amount) > 0 && (
+                  <div className="flex justify-between text-green-600 dark:text-green-400">
+                    <span>ছাড়{order.coupon_code ? ` (${order.coupon_code})` : ''}:</span>
+                    <span className="font-semibold">-{formatMoney(order.discount_amount)}</span>
+                  </div>
+                )}
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="manual_discount">অতিরিক্ত ছাড় (৳):</Label>
+                  <Input
+                    id="manual_discount"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={manualDiscount}
+                    onChange={(e) => setManualDiscount(e.target.value)}
+                    className="w-32 text-right"
+                    disabled={!editable}
+                  />
+                </div>
+                <div className="flex justify-between text-lg font-bold border-t pt-2">
+                  <span>সর্বমোট:</span>
+                  <span className="text-primary">{formatMoney(previewTotal)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {getPaymentMethodText(order.payment_method)} · {getPaymentStatusText(order.payment_status)}
+                  {Number(order.amount_paid) > 0 && ` · পরিশোধিত ${formatMoney(order.amount_paid)}`}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">নোট</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="internal_note">অভ্যন্তরীণ নোট</Label>
+                <Textarea id="internal_note" value={internalNote} onChange={(e) => setInternalNote(e.target.value)} rows={3} disabled={!editable} />
+                <p className="text-xs text-muted-foreground mt-1">শুধু অ্যাডমিনরা দেখতে পাবেন</p>
+              </div>
+              <div>
+                <Label htmlFor="customer_note">গ্রাহকের জন্য নোট</Label>
+                <Textarea id="customer_note" value={customerNote} onChange={(e) => setCustomerNote(e.target.value)} rows={3} disabled={!editable} />
+                <p className="text-xs text-muted-foreground mt-1">অর্ডার ট্র্যাকিং পেজে দেখানো হবে</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {editable && (
+            <Card>
+              <CardContent className="p-4 sm:p-6 space-y-3">
+                <div>
+                  <Label htmlFor="reason">পরিবর্তনের কারণ</Label>
+                  <Input
+                    id="reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="ঐচ্ছিক, যেমন: গ্রাহক ফোনে পরিমাণ বাড়িয়েছেন"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => resetForm(order)} disabled={saving}>
+                    বাতিল
+                  </Button>
+                  <Button className="flex-1" onClick={handleSave} disabled={saving || lines.length === 0}>
+                    {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    সংরক্ষণ করুন
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">স্ট্যাটাস</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!canManage ? null : nextStatuses.length > 0 ? (
+                <div className="space-y-3">
+                  <Select value={nextStatus} onValueChange={setNextStatus}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="নতুন স্ট্যাটাস নির্বাচন করুন" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {nextStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>{getOrderStatusText(status)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Textarea
+                    value={statusNote}
+                    onChange={(e) => setStatusNote(e.target.value)}
+                    placeholder="নোট (ঐচ্ছিক), যেমন: গ্রাহক ফোন ধরেননি"
+                    rows={2}
+                  />
+                  <Button className="w-full" onClick={handleStatusChange} disabled={!nextStatus || statusSaving}>
+                    {statusSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    স্ট্যাটাস পরিবর্তন করুন
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">এই স্ট্যাটাস থেকে আর পরিবর্তন করা যায় না</p>
+              )}
+
+              <ol className={canManage ? 'space-y-3 border-t pt-4' : 'space-y-3'}>
+                {history.map((entry, index) => {
+                  const isLatest = index === history.length - 1;
+                  return (
+                    <li key={`${entry.status}-${entry.created_at}`} className="flex items-start gap-3">
+                      {isLatest ? (
+                        <CheckCircle2 className="h-5 w-5 text-primary shrink-0" />
+                      ) : (
+                        <Circle className="h-5 w-5 text-muted-foreground shrink-0" />
+                      )}
+                      <div className="text-sm">
+                        <p className={isLatest ? 'font-semibold' : ''}>{getOrderStatusText(entry.status)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(entry.created_at).toLocaleString('bn-BD')} · {entry.changed_by || 'সিস্টেম'}
+                        </p>
+                        {entry.note && <p className="text-muted-foreground mt-1">{entry.note}</p>}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">পরিবর্তনের লগ</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {auditEntries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">এখনো কোন পরিবর্তন হয়নি</p>
+              ) : (
+                <ul className="space-y-4">
+                  {auditEntries.map((entry) => (
+                    <AuditEntry key={entry.id} entry={entry} />
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default OrderDetails;
@@ -0,0 +1,60 @@
+import { Link, useSearchParams } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { Footer } from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+// Where payment-callback sends the customer back from the gateway: ?order=<id>&status=<status>
+const PaymentResult = () => {
+  const [searchParams] = useSearchParams();
+  const orderId = searchParams.get('order');
+  const status = searchParams.get('status');
+  const paid = status === 'paid';
+
+  const message = paid
+    ? 'পেমেন্ট সফল হয়েছে। আপনার অর্ডার শীঘ্রই নিশ্চিত করা হবে।'
+    : status === 'cancelled'
+      ? 'পেমেন্ট বাতিল করা হয়েছে। অর্ডার ট্র্যাক করার পেজ থেকে আবার পেমেন্ট করতে পারবেন।'
+      : 'পেমেন্ট সম্পন্ন হয়নি। অর্ডার ট্র্যাক করার পেজ থেকে আবার চেষ্টা করুন।';
+
+  return (
+    <div className="min-h-screen flex flex-col page-transition">
+      <Header />
+      <main className="flex-1 container mx-auto px-4 py-8 flex items-center justify-center">
+        <Card className="w-full max-w-md animate-fade-in">
+          <CardContent className="p-6 text-center space-y-4">
+            <div className="flex justify-center">
+              {paid ? (
+                <CheckCircle2 className="h-14 w-14 text-green-600 dark:text-green-400" />
+              ) : (
+                <XCircle className="h-14 w-14 text-destructive" />
+              )}
+            </div>
+            <h1 className="text-2xl font-bold">{paid ? 'পেমেন্ট সফল' : 'পেমেন্ট হয়নি'}</h1>
+            <p className="text-muted-foreground">{message}</p>
+            {orderId && (
+              <div className="bg-muted p-3 rounded-lg">
+                <p className="text-xs text-muted-foreground">অর্ডার আইডি:</p>
+                <p className="font-mono text-sm font-semibold break-all">{orderId}</p>
+              </div>
+            )}
+            <div className="flex flex-col sm:flex-row gap-2">
+              {orderId && (
+                <Button variant="secondary" className="flex-1" asChild>
+                  <Link to={`/track?id=${orderId}`}>অর্ডার ট্র্যাক করুন</Link>
+                </Button>
+              )}
+              <Button className="flex-1" asChild>
+                <Link to="/">হোমপেজে যান</Link>
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default PaymentResult;
@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { QrCode } from '@/components/admin/QrCode';
+import { toast } from 'sonner';
+import { ArrowLeft, Loader2, Printer } from 'lucide-react';
+import logo from '@/assets/logo.jpeg';
+import { getLocationText } from '@/lib/orderStatus';
+import { getDistrictLabel } from '@/lib/districts';
+import { OrderPrintType, orderPrintUrl } from '@/lib/orderPrint';
+import { toDateInput } from '@/lib/reports';
+import { amountDue } from '@/lib/payments';
+
+interface PrintOrderItem {
+  id: string;
+  product_name: string | null;
+  variant_label: string | null;
+  quantity: number;
+  price: number;
+  products: { name: string } | null;
+}
+
+interface PrintOrder {
+  id: string;
+  customer_name: string;
+  phone: string;
+  address: string;
+  location_type: string;
+  district: string | null;
+  delivery_charge: number;
+  coupon_code: string | null;
+  discount_amount: number;
+  manual_discount: number;
+  total_amount: number;
+  amount_paid: number;
+  courier_tracking_code: string | null;
+  created_at: string;
+  order_items: PrintOrderItem[];
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SHOP_NAME = "GADGET'S RAJJO";
+
+const formatMoney = (amount: number) => `৳${Number(amount).toFixed(2)}`;
+
+const itemName = (item: PrintOrderItem) =>
+  `${item.products?.name || item.product_name || 'N/A'}${item.variant_label ? ` (${item.variant_label})` : ''}`;
+
+const orderAddress = (order: PrintOrder) =>
+  [order.address, order.district ? getDistrictLabel(order.district) : getLocationText(order.location_type)].join(', ');
+
+const Invoice = ({ order }: { order: PrintOrder }) => {
+  const subtotal = order.order_items.reduce((sum, item) => sum + item.quantity * item.price, 0);
+
+  return (
+    <section className="bg-white text-black mx-auto w-[210mm] min-h-[297mm] p-[12mm] shadow-lg mb-8 print:w-auto print:min-h-0 print:p-0 print:shadow-none print:mb-0 break-after-page last:break-after-auto">
+      <header className="flex items-start justify-between gap-6 border-b-2 border-black pb-4">
+        <div className="flex items-center gap-3">
+          <img src={logo} alt={SHOP_NAME} className="h-16 w-auto rounded" />
+          <div>
+            <p className="text-2xl font-extrabold">{SHOP_NAME}</p>
+            <p className="text-sm">আপনার পছন্দের গ্যাজেট</p>
+          </div>
+        </div>
+        <div className="flex items-start gap-3 text-right">
+          <div>
+            <p className="text-2xl font-bold">ইনভয়েস</p>
+            <p className="font-mono text-sm">#{order.id.slice(0, 8)}</p>
+            <p className="text-sm">তারিখ: {new Date(order.created_at).toLocaleDateString('bn-BD')}</p>
+          </div>
+          <QrCode value={order.id} size="24mm" />
+        </div>
+      </header>
+
+      <div className="py-4">
+        <p className="text-sm font-semibold text-gray-600">প্রাপক</p>
+        <p className="text-lg font-semibold">{order.customer_name}</p>
+        <p>{order.phone}</p>
+        <p>{orderAddress(order)}</p>
+      </div>
+
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="border-y border-black text-left">
+            <th className="py-2 w-8">#</th>
+            <th className="py-2">পণ্য</th>
+            <th className="py-2 text-right">পরিমাণ</th>
+            <th className="py-2 text-right">একক মূল্য</th>
+            <th className="py-2 text-right">মোট</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.order_items.map((item, index) => (
+            <tr key={item.id} className="border-b border-gray-300 break-inside-avoid">
+              <td className="py-2 align-top">{index + 1}</td>
+              <td className="py-2 pr-4">{itemName(item)}</td>
+              <td className="py-2 text-right align-top">{item.quantity}</td>
+              <td className="py-2 text-right align-top">{formatMoney(item.price)}</td>
+              <td className="py-2 text-right align-top">{formatMoney(item.quantity * item.price)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex justify-end mt-4 break-inside-avoid">
+        <dl className="w-72 text-sm space-y-1">
+          <div className="flex justify-between">
+            <dt>পণ্যের মূল্য</dt>
+            <dd>{formatMoney(subtotal)}</dd>
+          </div>
+          <div className="flex justify-between">
+            <dt>ডেলিভারি চার্জ</dt>
+            <dd>{formatMoney(order.delivery_charge)}</dd>
+          </div>
+          {Number(order.discount_amount) > 0 && (
+            <div className="flex justify-between">
+              <dt>ছাড়{order.coupon_code ? ` (${order.coupon_code})` : ''}</dt>
+              <dd>-{formatMoney(order.discount_amount)}</dd>
+            </div>
+          )}
+          {Number(order.manual_discount) > 0 && (
+            <div className="flex justify-between">
+              <dt>অতিরিক্ত ছাড়</dt>
+              <dd>-{formatMoney(order.manual_discount)}</dd>
+            </div>
+          )}
+          <div className="flex justify-between border-t border-black pt-1 font-semibold">
+            <dt>মোট</dt>
+            <dd>{formatMoney(order.total_amount)}</dd>
+          </div>
+          {Number(order.amount_paid) > 0 && (
+            <div className="flex justify-between">
+              <dt>অগ্রিম পরিশোধিত</dt>
+              <dd>-{formatMoney(order.amount_paid)}</dd>
+            </div>
+          )}
+          <div className="flex justify-between border-2 border-black p-2 mt-2 text-base font-bold">
+            <dt>ক্যাশ অন ডেলিভারি</dt>
+            <dd>{formatMoney(amountDue(order))}</dd>
+          </div>
+        </dl>
+      </div>
+
+      <p className="mt-10 text-center text-sm text-gray-600">আমাদের সাথে কেনাকাটার জন্য ধন্যবাদ!</p>
+    </section>
+  );
+};
+
+const ShippingLabel = ({ order }: { order: PrintOrder }) => (
+  <section className="bg-white text-black h-[68mm] border border-dashed border-black p-[4mm] flex flex-col overflow-hidden break-inside-avoid">
+    <div className="flex items-start justify-between gap-2 border-b border-black pb-1">
+      <div className="flex items-center gap-2 min-w-0">
+        <img src={logo} alt={SHOP_NAME} className="h-8 w-auto rounded" />
+        <div className="min-w-0">
+          <p className="font-extrabold leading-tight">{SHOP_NAME}</p>
+          <p className="font-mono text-xs">#{order.id.slice(0, 8)} · {new Date(order.created_at).toLocaleDateString('bn-BD')}</p>
+          {order.courier_tracking_code && (
+            <p className="font-mono text-xs font-bold">ট্র্যাকিং: {order.courier_tracking_code}</p>
+          )}
+        </div>
+      </div>
+      <QrCode value={order.id} size="18mm" className="shrink-0" />
+    </div>
+
+    <div className="py-1 text-sm leading-snug">
+      <p className="font-bold text-base">{order.customer_name}</p>
+      <p className="font-semibold">{order.phone}</p>
+      <p className="line-clamp-2">{orderAddress(order)}</p>
+    </div>
+
+    <ul className="text-xs leading-tight flex-1 overflow-hidden">
+      {order.order_items.map((item) => (
+        <li key={item.id} className="truncate">
+          {itemName(item)} x{item.quantity}
+        </li>
+      ))}
+    </ul>
+
+    <div className="flex items-end justify-between border-t border-black pt-1">
+      <p className="text-xs">ডেলিভারি চার্জ: {formatMoney(order.delivery_charge)}</p>
+      <p className="text-lg font-extrabold">COD {formatMoney(amountDue(order))}</p>
+    </div>
+  </section>
+);
+
+const PrintOrders = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const type: OrderPrintType = searchParams.get('type') === 'label' ? 'label' : 'invoice';
+  const idsParam = searchParams.get('ids') || '';
+  const orderIds = useMemo(() => idsParam.split(',').filter((id) => UUID_REGEX.test(id)), [idsParam]);
+  const [orders, setOrders] = useState<PrintOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchOrders = async () => {
+      if (orderIds.length === 0) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('orders')
+          .select(`
+            id, customer_name, phone, address, location_type, district,
+            delivery_charge, coupon_code, discount_amount, manual_discount, total_amount, amount_paid, courier_tracking_code, created_at,
+            order_items (id, product_name, variant_label, quantity, price, products (name))
+          `)
+          .in('id', orderIds);
+
+        if (error) throw error;
+
+        // Keep the order in which they were selected
+        const byId = new Map((data || []).map((order) => [order.id, order as PrintOrder]));
+        setOrders(orderIds.map((id) => byId.get(id)).filter((order): order is PrintOrder => Boolean(order)));
+      } catch (error) {
+        console.error('Error fetching orders for printing:', error);
+        toast.error('অর্ডার লোড করতে সমস্যা হয়েছে');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOrders();
+  }, [orderIds]);
+
+  // Default file name when saving as PDF
+  useEffect(() => {
+    const name = orders.length === 1 ? orders[0].id.slice(0, 8) : toDateInput(new Date());
+    document.title = `${type === 'invoice' ? 'invoice' : 'labels'}-${name}`;
+  }, [orders, type]);
+
+  const handlePrint = async () => {
+    // Bengali text falls back to a system font if the page prints before the web font has loaded
+    await document.fonts.ready;
+    window.print();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/40 print:bg-white">
+      <style>{`@page { size: A4; margin: ${type === 'invoice' ? '12mm' : '8mm'}; }`}</style>
+
+      <div className="sticky top-0 z-10 bg-background border-b print:hidden">
+        <div className="container mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <p className="font-semibold">{type === 'invoice' ? 'ইনভয়েস' : 'কুরিয়ার লেবেল'}</p>
+              <p className="text-sm text-muted-foreground">{orders.length} টি অর্ডার</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link to={orderPrintUrl(type === 'invoice' ? 'label' : 'invoice', orderIds)} replace>
+                {type === 'invoice' ? 'লেবেল দেখুন' : 'ইনভয়েস দেখুন'}
+              </Link>
+            </Button>
+            <Button onClick={handlePrint} disabled={orders.length === 0}>
+              <Printer className="h-4 w-4 mr-2" />
+              প্রিন্ট / PDF
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {orders.length === 0 ? (
+        <p className="text-center py-16 text-muted-foreground">কোন অর্ডার পাওয়া যায়নি</p>
+      ) : type === 'invoice' ? (
+        <div className="py-8 print:py-0">
+          {orders.map((order) => (
+            <Invoice key={order.id} order={order} />
+          ))}
+        </div>
+      ) : (
+        <div className="bg-white mx-auto w-[210mm] p-[8mm] my-8 shadow-lg grid grid-cols-2 gap-[2mm] print:w-auto print:p-0 print:my-0 print:shadow-none">
+          {orders.map((order) => (
+            <ShippingLabel key={order.id} order={order} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrintOrders;
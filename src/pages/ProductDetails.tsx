@@ -10,8 +10,16 @@ import { useCart } from '@/contexts/CartContext';
 import { toast } from 'sonner';
 import { ShoppingCart, ArrowLeft, Plus, Minus, Package, DollarSign, TrendingUp } from 'lucide-react';
 import { Loader2 } from 'lucide-react';
-import { trackProductView, trackProductClick } from '@/hooks/useTracking';
+import { track } from '@/lib/analytics';
 import { LazyImage } from '@/components/LazyImage';
+import {
+  ProductVariant,
+  VariantOptions,
+  findVariant,
+  getVariantAttributes,
+  getVariantLabel,
+  getVariantPrice,
+} from '@/lib/variants';
 
 // FIX: Import the functions using their actual names: trackEvent and initFacebookPixel
 import { trackEvent, initFacebookPixel } from '@/fbpixel'; 
@@ -75,6 +83,14 @@ const ProductDetails = () => {
   const [loading, setLoading] = useState(true);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [quantity, setQuantity] = useState(1);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [selection, setSelection] = useState<VariantOptions>({});
+
+  const variantAttributes = useMemo(() => getVariantAttributes(variants), [variants]);
+  const selectedVariant = useMemo(() => findVariant(variants, selection), [variants, selection]);
+  const hasVariants = variants.length > 0;
+  const price = getVariantPrice(selectedVariant, product?.price ?? 0);
+  const stock = hasVariants ? selectedVariant?.stock ?? 0 : product?.stock ?? 0;
 
   const fetchProduct = async () => {
     if (!id) {
@@ -159,9 +175,52 @@ const ProductDetails = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id]);
 
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchVariants = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('product_variants')
+          .select('*')
+          .eq('product_id', id)
+          .eq('is_active', true)
+          .order('sort_order', { ascending: true });
+
+        if (error) throw error;
+        const activeVariants = (data || []) as unknown as ProductVariant[];
+        setVariants(activeVariants);
+        // Start with the first variant that can be bought
+        const firstAvailable = activeVariants.find((v) => v.stock > 0) || activeVariants[0];
+        setSelection(firstAvailable ? { ...firstAvailable.options } : {});
+      } catch (error) {
+        console.error('Error fetching variants:', error);
+      }
+    };
+
+    fetchVariants();
+  }, [id]);
+
+  // A value can be picked if some variant with it and the other current choices is in stock
+  const isOptionAvailable = (name: string, value: string) =>
+    variants.some((variant) =>
+      variant.stock > 0 &&
+      variant.options[name] === value &&
+      Object.entries(selection).every(([key, selected]) => key === name || variant.options[key] === selected)
+    );
+
+  const handleSelectOption = (name: string, value: string) => {
+    setSelection((prev) => ({ ...prev, [name]: value }));
+    setQuantity(1);
+    setCurrentImageIndex(0);
+  };
+
   // Get all images (from images array or fallback to image_url)
   const allImages = useMemo(() => {
     if (!product) return [];
+    if (selectedVariant && selectedVariant.images.length > 0) {
+      return selectedVariant.images;
+    }
     try {
       return (product.images && product.images.length > 0 
         ? product.images.filter((img): img is string => Boolean(img && typeof img === 'string' && img.trim()))
@@ -171,13 +230,13 @@ const ProductDetails = () => {
       console.error('Error processing images:', error);
       return product.image_url && product.image_url.trim() ? [product.image_url] : [];
     }
-  }, [product]);
+  }, [product, selectedVariant]);
 
   const hasMultipleImages = allImages.length > 1;
 
   useEffect(() => {
     if (product) {
-      trackProductView(product.id, product.name);
+      track('product_view', { product_id: product.id, product_name: product.name });
       
       // FIX: Add ViewContent event for Meta Pixel
       safeTrackEvent("ViewContent", {
@@ -210,67 +269,43 @@ const ProductDetails = () => {
   const handleAddToCart = async () => {
     if (!product) return;
 
-    if (product.stock <= 0) {
-      toast.error('এই পণ্যটি স্টকে নেই');
+    if (hasVariants && !selectedVariant) {
+      toast.error('অপশন নির্বাচন করুন');
       return;
     }
 
-    // Track product click
-    trackProductClick(product.id, product.name);
+    if (stock <= 0) {
+      toast.error('এই পণ্যটি স্টকে নেই');
+      return;
+    }
 
     // FIX: Add AddToCart event for Meta Pixel
     safeTrackEvent("AddToCart", {
       content_name: product.name,
       content_ids: [product.id],
       content_type: 'product',
-      value: parseFloat((product.price * quantity).toFixed(2)),
+      value: parseFloat((price * quantity).toFixed(2)),
       currency: 'BDT',
       quantity: quantity,
     });
 
-    // Track add to cart (Supabase activity)
-    try {
-      const sessionId = sessionStorage.getItem('tracking_session_id') || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      if (!sessionStorage.getItem('tracking_session_id')) {
-        sessionStorage.setItem('tracking_session_id', sessionId);
-      }
-      
-      const getUserAgent = () => navigator.userAgent || 'Unknown';
-      const getIPAddress = async () => {
-        try {
-          const response = await fetch('https://api.ipify.org?format=json');
-          const data = await response.json();
-          return data.ip || 'Unknown';
-        } catch {
-          return 'Unknown';
-        }
-      };
-
-      await supabase.from('user_activity' as any).insert({
-        session_id: sessionId,
-        user_agent: getUserAgent(),
-        ip_address: await getIPAddress(),
-        activity_type: 'add_to_cart',
-        page_path: window.location.pathname,
-        product_id: product.id,
-        product_name: product.name,
-        metadata: {
-          price: product.price,
-          quantity: quantity,
-          timestamp: new Date().toISOString(),
-        },
-      });
-    } catch (error) {
-      console.error('Error tracking add to cart:', error);
-    }
+    track('add_to_cart', {
+      product_id: product.id,
+      product_name: product.name,
+      price,
+      quantity,
+      variant_id: selectedVariant?.id,
+    });
 
     for (let i = 0; i < quantity; i++) {
       addItem({
         id: product.id,
         name: product.name,
-        price: product.price,
+        price,
         quantity: 1,
         image_url: allImages[0] || product.image_url,
+        variant_id: selectedVariant?.id,
+        variant_label: selectedVariant ? getVariantLabel(selectedVariant.options) : undefined,
       });
     }
 
@@ -313,8 +348,6 @@ const ProductDetails = () => {
     );
   }
 
-  const {stock} = product;
-
   return (
     <div className="min-h-screen flex flex-col page-transition">
       <Header />
@@ -456,7 +489,7 @@ const ProductDetails = () => {
             <div className="flex items-center gap-4">
               <div>
                 <span className="text-4xl sm:text-5xl font-extrabold bg-gradient-to-r from-primary to-primary/70 bg-clip-text text-transparent">
-                  ৳{product.price.toFixed(2)}
+                  ৳{price.toFixed(2)}
                 </span>
               </div>
               <Badge 
@@ -470,6 +503,33 @@ const ProductDetails = () => {
               </Badge>
             </div>
 
+            {/* Variant Picker */}
+            {variantAttributes.map((attribute) => (
+              <div key={attribute.name} className="space-y-2">
+                <p className="font-semibold capitalize">{attribute.name}:</p>
+                <div className="flex flex-wrap gap-2">
+                  {attribute.values.map((value) => {
+                    const selected = selection[attribute.name] === value;
+                    const available = isOptionAvailable(attribute.name, value);
+                    return (
+                      <Button
+                        key={value}
+                        type="button"
+                        variant={selected ? 'default' : 'outline'}
+                        onClick={() => handleSelectOption(attribute.name, value)}
+                        className={`transition-all duration-200 ${!available ? 'line-through opacity-60' : ''}`}
+                      >
+                        {value}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+            {hasVariants && !selectedVariant && (
+              <p className="text-sm text-destructive">এই অপশনের সমন্বয়টি পাওয়া যায় না</p>
+            )}
+
             {/* Quantity Selector */}
             {stock > 0 && (
               <Card className="p-4 border-2 border-border">
@@ -501,7 +561,7 @@ const ProductDetails = () => {
                   <div className="text-right">
                     <p className="text-sm text-muted-foreground">মোট মূল্য</p>
                     <p className="text-2xl font-bold text-primary">
-                      ৳{(product.price * quantity).toFixed(2)}
+                      ৳{(price * quantity).toFixed(2)}
                     </p>
                   </div>
                 </div>
@@ -548,7 +608,7 @@ const ProductDetails = () => {
               <Card className="p-4 border-2 border-border hover:border-primary/20 transition-all duration-300 hover:shadow-lg">
                 <DollarSign className="h-6 w-6 text-primary mb-2" />
                 <p className="text-sm text-muted-foreground">মূল্য</p>
-                <p className="text-lg font-bold">৳{product.price.toFixed(2)}</p>
+                <p className="text-lg font-bold">৳{price.toFixed(2)}</p>
               </Card>
               <Card className="p-4 border-2 border-border hover:border-primary/20 transition-all duration-300 hover:shadow-lg">
                 <TrendingUp className="h-6 w-6 text-primary mb-2" />
@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { Footer } from '@/components/Footer';
+import { ProductCatalog } from '@/components/ProductCatalog';
+import { trackEvent } from '@/fbpixel';
+
+const Search = () => {
+  const [searchParams] = useSearchParams();
+  const query = (searchParams.get('q') || '').trim();
+
+  useEffect(() => {
+    if (query) {
+      trackEvent('Search', { search_string: query });
+    }
+  }, [query]);
+
+  return (
+    <div className="min-h-screen flex flex-col page-transition">
+      <Header />
+      <main className="flex-1 container mx-auto px-4 py-4 sm:py-8 animate-fade-in">
+        <h1 className="text-2xl sm:text-3xl font-bold mb-6 sm:mb-8">
+          {query ? `"${query}" এর ফলাফল` : 'সব পণ্য'}
+        </h1>
+        <ProductCatalog searchQuery={query} />
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default Search;
@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { Footer } from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Loader2, PackageSearch, CheckCircle2, Circle, CreditCard } from 'lucide-react';
+import { getLocationText, getOrderStatusColor, getOrderStatusText } from '@/lib/orderStatus';
+import { getDistrictLabel } from '@/lib/districts';
+import {
+  amountDue,
+  getPaymentMethodText,
+  getPaymentStatusColor,
+  getPaymentStatusText,
+  outstandingPrepay,
+  startPayment,
+} from '@/lib/payments';
+
+interface TrackedOrderItem {
+  product_id: string | null;
+  name: string | null;
+  variant_label: string | null;
+  quantity: number;
+  price: number;
+}
+
+interface TrackedOrderEvent {
+  status: string;
+  created_at: string;
+}
+
+interface TrackedOrder {
+  id: string;
+  status: string;
+  customer_note: string | null;
+  location_type: string;
+  district: string | null;
+  delivery_zone: string | null;
+  delivery_charge: number;
+  coupon_code: string | null;
+  discount_amount: number;
+  manual_discount: number;
+  total_amount: number;
+  payment_method: string;
+  payment_status: string;
+  prepay_amount: number;
+  amount_paid: number;
+  created_at: string;
+  items: TrackedOrderItem[];
+  history: TrackedOrderEvent[];
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const TrackOrder = () => {
+  const [searchParams] = useSearchParams();
+  const [orderId, setOrderId] = useState(searchParams.get('id') || '');
+  const [phone, setPhone] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [paying, setPaying] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedId = orderId.trim();
+    if (!UUID_REGEX.test(trimmedId)) {
+      toast.error('সঠিক অর্ডার আইডি দিন');
+      return;
+    }
+
+    if (!phone.trim()) {
+      toast.error('ফোন নম্বর প্রয়োজন');
+      return;
+    }
+
+    setLoading(true);
+    setNotFound(false);
+
+    try {
+      const { data, error } = await supabase.rpc('track_order', {
+        _order_id: trimmedId,
+        _phone: phone.trim(),
+      });
+
+      if (error) throw error;
+
+      if (!data) {
+        setOrder(null);
+        setNotFound(true);
+        return;
+      }
+
+      setOrder(data as unknown as TrackedOrder);
+    } catch (error) {
+      console.error('Error tracking order:', error);
+      toast.error('অর্ডার খুঁজতে সমস্যা হয়েছে। আবার চেষ্টা করুন।');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePay = async () => {
+    if (!order) return;
+
+    setPaying(true);
+    try {
+      await startPayment(order.id, phone.trim());
+    } catch (error) {
+      console.error('Error starting payment:', error);
+      toast.error(error instanceof Error ? error.message : 'পেমেন্ট শুরু করতে সমস্যা হয়েছে');
+      setPaying(false);
+    }
+  };
+
+  const subtotal = order
+    ? order.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+    : 0;
+
+  return (
+    <div className="min-h-screen flex flex-col page-transition">
+      <Header />
+      <main className="flex-1 container mx-auto px-4 py-4 sm:py-8 animate-fade-in">
+        <h1 className="text-2xl sm:text-3xl font-bold mb-6 sm:mb-8">অর্ডার ট্র্যাক করুন</h1>
+
+        <div className="grid lg:grid-cols-3 gap-4 sm:gap-8">
+          <Card className="lg:h-fit">
+            <CardContent className="p-4 sm:p-6">
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="order_id">অর্ডার আইডি *</Label>
+                  <Input
+                    id="order_id"
+                    value={orderId}
+                    onChange={(e) => setOrderId(e.target.value)}
+                    className="font-mono text-sm"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="phone">ফোন নম্বর *</Label>
+                  <Input
+                    id="phone"
+                    type="tel"
+                    value={phone}
+                    onChange={(e) => setPhone(e.target.value)}
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">অর্ডার করার সময় যে নম্বর দিয়েছিলেন</p>
+                </div>
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      খোঁজা হচ্ছে...
+                    </>
+                  ) : (
+                    <>
+                      <PackageSearch className="h-4 w-4 mr-2" />
+                      অর্ডার খুঁজুন
+                    </>
+                  )}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2 space-y-4">
+            {notFound && (
+              <Card className="animate-fade-in">
+                <CardContent className="p-6 text-center text-muted-foreground">
+                  এই আইডি ও ফোন নম্বরে কোন অর্ডার পাওয়া যায়নি
+                </CardContent>
+              </Card>
+            )}
+
+            {order && (
+              <>
+                <Card className="animate-fade-in">
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <CardTitle className="text-lg sm:text-xl">অর্ডার স্ট্যাটাস</CardTitle>
+                        <CardDescription className="font-mono text-xs break-all mt-1">{order.id}</CardDescription>
+                      </div>
+                      <Badge className={getOrderStatusColor(order.status)}>
+                        {getOrderStatusText(order.status)}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {order.customer_note && (
+                      <p className="bg-muted p-3 rounded-lg text-sm mb-4 whitespace-pre-line">{order.customer_note}</p>
+                    )}
+                    <ol className="space-y-4">
+                      {order.history.map((event, index) => {
+                        const isLatest = index === order.history.length - 1;
+                        return (
+                          <li key={`${event.status}-${event.created_at}`} className="flex items-start gap-3">
+                            {isLatest ? (
+                              <CheckCircle2 className="h-5 w-5 text-primary shrink-0" />
+                            ) : (
+                              <Circle className="h-5 w-5 text-muted-foreground shrink-0" />
+                            )}
+                            <div>
+                              <p className={isLatest ? 'font-semibold' : ''}>{getOrderStatusText(event.status)}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {new Date(event.created_at).toLocaleString('bn-BD')}
+                              </p>
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  </CardContent>
+                </Card>
+
+                <Card className="animate-fade-in">
+                  <CardHeader>
+                    <CardTitle className="text-lg sm:text-xl">পণ্য</CardTitle>
+                    <CardDescription>
+                      অর্ডারের তারিখ: {new Date(order.created_at).toLocaleDateString('bn-BD')} · {order.district ? getDistrictLabel(order.district) : getLocationText(order.location_type)}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {order.items.map((item, idx) => (
+                      <div key={idx} className="flex justify-between text-sm">
+                        <span>{item.name || 'N/A'}{item.variant_label ? ` (${item.variant_label})` : ''} x{item.quantity}</span>
+                        <span className="font-semibold">৳{(item.price * item.quantity).toFixed(2)}</span>
+                      </div>
+                    ))}
+                    <div className="border-t pt-2 space-y-2">
+                      <div className="flex justify-between">
+                        <span>পণ্যের মূল্য:</span>
+                        <span className="font-semibold">৳{subtotal.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>ডেলিভারি চার্জ{order.delivery_zone ? ` (${order.delivery_zone})` : ''}:</span>
+                        <span className="font-semibold">৳{Number(order.delivery_charge).toFixed(2)}</span>
+                      </div>
+                      {Number(order.discount_amount) > 0 && (
+                        <div className="flex justify-between text-green-600 dark:text-green-400">
+                          <span>ছাড়{order.coupon_code ? ` (${order.coupon_code})` : ''}:</span>
+                          <span className="font-semibold">-৳{Number(order.discount_amount).toFixed(2)}</span>
+                        </div>
+                      )}
+                      {Number(order.manual_discount) > 0 && (
+                        <div className="flex justify-between text-green-600 dark:text-green-400">
+                          <span>অতিরিক্ত ছাড়:</span>
+                          <span className="font-semibold">-৳{Number(order.manual_discount).toFixed(2)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between text-lg font-bold border-t pt-2">
+                        <span>সর্বমোট:</span>
+                        <span className="text-primary">৳{Number(order.total_amount).toFixed(2)}</span>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="animate-fade-in">
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <CardTitle className="text-lg sm:text-xl">পেমেন্ট</CardTitle>
+                        <CardDescription>{getPaymentMethodText(order.payment_method)}</CardDescription>
+                      </div>
+                      <Badge className={getPaymentStatusColor(order.payment_status)}>
+                        {getPaymentStatusText(order.payment_status)}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {Number(order.amount_paid) > 0 && (
+                      <div className="flex justify-between">
+                        <span>পরিশোধিত:</span>
+                        <span className="font-semibold">৳{Number(order.amount_paid).toFixed(2)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span>ডেলিভারির সময় পরিশোধ:</span>
+                      <span className="font-semibold">৳{amountDue(order).toFixed(2)}</span>
+                    </div>
+                    {outstandingPrepay(order) > 0 && order.status !== 'cancelled' && (
+                      <Button className="w-full mt-2" onClick={handlePay} disabled={paying}>
+                        {paying ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <CreditCard className="h-4 w-4 mr-2" />
+                        )}
+                        ৳{outstandingPrepay(order).toFixed(2)} পেমেন্ট করুন
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default TrackOrder;
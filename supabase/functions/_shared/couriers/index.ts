@@ -0,0 +1,16 @@
+// Available courier providers. A new courier implements CourierProvider and is added here.
+
+import { mockCourier } from './mock.ts';
+import { CourierProvider } from './types.ts';
+
+export * from './types.ts';
+
+// A Map, so a name from a request such as "constructor" cannot reach Object.prototype
+const PROVIDERS = new Map<string, CourierProvider>([
+  [mockCourier.name, mockCourier],
+]);
+
+export const getCourier = (name: string): CourierProvider | null => PROVIDERS.get(name) ?? null;
+
+// Provider used for new bookings, set with `supabase secrets set COURIER_PROVIDER=...`
+export const defaultCourier = (): CourierProvider | null => getCourier(Deno.env.get('COURIER_PROVIDER') || 'mock');
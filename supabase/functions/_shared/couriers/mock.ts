@@ -0,0 +1,37 @@
+// Local stand-in for a courier, for development and testing the order flow.
+// Bookings always succeed; status webhooks are sent by hand, e.g.
+//
+//   curl -X POST "$SUPABASE_URL/functions/v1/courier-webhook?provider=mock" \
+//     -H "x-webhook-secret: $MOCK_COURIER_WEBHOOK_SECRET" \
+//     -d '{"consignment_id": "MOCK-...", "status": "delivered"}'
+
+import { CourierProvider, isCourierStatus } from './types.ts';
+
+const randomCode = (length: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(length)), (byte) => 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'[byte % 32]).join('');
+
+export const mockCourier: CourierProvider = {
+  name: 'mock',
+
+  createConsignment() {
+    return Promise.resolve({
+      consignment_id: `MOCK-${randomCode(10)}`,
+      tracking_code: randomCode(8),
+      status: 'booked',
+    });
+  },
+
+  async parseWebhook(req) {
+    const secret = Deno.env.get('MOCK_COURIER_WEBHOOK_SECRET');
+    if (!secret || req.headers.get('x-webhook-secret') !== secret) {
+      return null;
+    }
+
+    const payload = await req.json().catch(() => null);
+    if (!payload || typeof payload.consignment_id !== 'string' || !isCourierStatus(payload.status)) {
+      return null;
+    }
+
+    return { consignment_id: payload.consignment_id, status: payload.status, payload };
+  },
+};
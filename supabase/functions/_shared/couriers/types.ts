@@ -0,0 +1,42 @@
+// Interface every courier integration implements. Providers translate between their own
+// API and these shapes, so the edge functions and the database never see provider details.
+
+// Must match courier_status_rank() in the courier_shipments migration
+export const COURIER_STATUSES = ['booked', 'picked_up', 'in_transit', 'delivered', 'returned', 'cancelled'] as const;
+
+export type CourierStatus = (typeof COURIER_STATUSES)[number];
+
+export const isCourierStatus = (value: unknown): value is CourierStatus =>
+  typeof value === 'string' && (COURIER_STATUSES as readonly string[]).includes(value);
+
+export interface ConsignmentRequest {
+  order_id: string;
+  recipient_name: string;
+  recipient_phone: string;
+  recipient_address: string;
+  district: string | null;
+  // Amount the courier collects from the customer
+  cod_amount: number;
+  weight_kg: number;
+  item_description: string;
+}
+
+export interface Consignment {
+  consignment_id: string;
+  tracking_code: string;
+  status: CourierStatus;
+}
+
+export interface CourierStatusUpdate {
+  consignment_id: string;
+  status: CourierStatus;
+  payload: Record<string, unknown>;
+}
+
+export interface CourierProvider {
+  name: string;
+  createConsignment(request: ConsignmentRequest): Promise<Consignment>;
+  // Checks that a webhook request really comes from the courier and reads it.
+  // Returns null when it cannot be verified.
+  parseWebhook(req: Request): Promise<CourierStatusUpdate | null>;
+}
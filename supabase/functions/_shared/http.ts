@@ -0,0 +1,47 @@
+// Helpers shared by the edge functions
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+export const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+export const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+// Bypasses RLS; only use it after checking who is calling
+export const serviceClient = () => createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+// Acts as the caller, so RLS applies and auth.uid() is the caller in the database
+export const userClient = (req: Request) =>
+  createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+// Returns an error response unless the request comes from a signed-in staff member whose role
+// has the permission (see role_permissions() in the database)
+export const requirePermission = async (req: Request, permission: string): Promise<Response | null> => {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return json({ error: 'unauthorized' }, 401);
+  }
+
+  const client = userClient(req);
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) {
+    return json({ error: 'unauthorized' }, 401);
+  }
+
+  const { data: allowed } = await client.rpc('has_permission', { _user_id: user.id, _permission: permission });
+  if (!allowed) {
+    return json({ error: 'forbidden' }, 403);
+  }
+
+  return null;
+};
@@ -0,0 +1,21 @@
+// Available payment gateways. A new gateway implements PaymentProvider and is added here.
+
+import { mockPayment } from './mock.ts';
+import { PaymentProvider } from './types.ts';
+
+export * from './types.ts';
+
+const PROVIDERS = new Map<string, PaymentProvider>([
+  [mockPayment.name, mockPayment],
+]);
+
+// Gateway used for payments, set with `supabase secrets set PAYMENT_PROVIDER=...`.
+// Online payment is off until it is set.
+export const activePaymentProvider = (): PaymentProvider | null => PROVIDERS.get(Deno.env.get('PAYMENT_PROVIDER') || '') ?? null;
+
+// Callbacks are only accepted for the active gateway, so the mock cannot be used to mark
+// payments paid once a real gateway is configured
+export const getPaymentProvider = (name: string): PaymentProvider | null => {
+  const provider = activePaymentProvider();
+  return provider?.name === name ? provider : null;
+};
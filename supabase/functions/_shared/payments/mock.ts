@@ -0,0 +1,42 @@
+// Local stand-in for a payment gateway, for development and testing the checkout flow.
+// The customer is sent to the shop's /payment/mock page, which returns to the callback with
+// the result they pick. Nothing is verified, so never enable it in production.
+
+import { PaymentProvider, isPaymentResult } from './types.ts';
+
+export const mockPayment: PaymentProvider = {
+  name: 'mock',
+
+  createPayment(request) {
+    const providerRef = `MOCKPAY-${crypto.randomUUID()}`;
+    const params = new URLSearchParams({
+      ref: providerRef,
+      amount: String(request.amount),
+      order: request.order_id,
+      callback: request.return_url,
+    });
+
+    return Promise.resolve({
+      provider_ref: providerRef,
+      redirect_url: `${Deno.env.get('SITE_URL')}/payment/mock?${params}`,
+    });
+  },
+
+  parseCallback(req) {
+    const params = new URL(req.url).searchParams;
+    const ref = params.get('ref');
+    const status = params.get('status');
+    if (!ref || !isPaymentResult(status)) {
+      return Promise.resolve(null);
+    }
+
+    const amount = Number(params.get('amount'));
+    return Promise.resolve({
+      provider_ref: ref,
+      status,
+      amount: Number.isFinite(amount) && amount > 0 ? amount : null,
+      event_id: null,
+      payload: Object.fromEntries(params),
+    });
+  },
+};
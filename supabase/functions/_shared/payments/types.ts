@@ -0,0 +1,50 @@
+// Interface every payment gateway integration (mobile wallet, card) implements. Providers
+// translate between their own API and these shapes, so the edge functions and the database
+// never see gateway details.
+
+// Must match the statuses accepted by record_payment_result() in the payments migration
+export const PAYMENT_RESULTS = ['paid', 'failed', 'cancelled'] as const;
+
+export type PaymentResultStatus = (typeof PAYMENT_RESULTS)[number];
+
+export const isPaymentResult = (value: unknown): value is PaymentResultStatus =>
+  typeof value === 'string' && (PAYMENT_RESULTS as readonly string[]).includes(value);
+
+export interface PaymentRequest {
+  payment_id: string;
+  order_id: string;
+  amount: number;
+  currency: string;
+  customer_name: string;
+  customer_phone: string;
+  // Where the gateway sends the customer's browser when they finish or abandon the payment
+  return_url: string;
+  // Where the gateway sends its server-to-server notification
+  notify_url: string;
+}
+
+export interface PaymentSession {
+  // The gateway's ID for the payment, used to match its callbacks
+  provider_ref: string;
+  // Gateway page the customer is sent to
+  redirect_url: string;
+}
+
+export interface PaymentResult {
+  provider_ref: string;
+  status: PaymentResultStatus;
+  // Amount the gateway says was paid, checked against the payment; null if not reported
+  amount: number | null;
+  // The gateway's ID for this notification; defaults to provider_ref and status
+  event_id: string | null;
+  payload: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createPayment(request: PaymentRequest): Promise<PaymentSession>;
+  // Checks that a callback (browser return or notification) really comes from the gateway
+  // and reads its result, querying the gateway where needed. Returns null when it cannot be
+  // verified.
+  parseCallback(req: Request): Promise<PaymentResult | null>;
+}
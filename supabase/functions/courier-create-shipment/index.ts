@@ -0,0 +1,146 @@
+// Books a confirmed or processing order with the courier and stores the consignment on the order.
+//
+// POST { order_id } with the admin's Authorization header
+// -> { shipment: { provider, consignment_id, tracking_code, status } }
+
+import { corsHeaders, json, requirePermission, serviceClient } from '../_shared/http.ts';
+import { defaultCourier } from '../_shared/couriers/index.ts';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'method_not_allowed' }, 405);
+  }
+
+  const denied = await requirePermission(req, 'orders.manage');
+  if (denied) {
+    return denied;
+  }
+
+  const { order_id: orderId } = await req.json().catch(() => ({}));
+  if (typeof orderId !== 'string' || !UUID_REGEX.test(orderId)) {
+    return json({ error: 'invalid_body' }, 400);
+  }
+
+  const courier = defaultCourier();
+  if (!courier) {
+    return json({ error: 'courier_not_configured' }, 500);
+  }
+
+  const supabase = serviceClient();
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select(`
+      id, customer_name, phone, address, district, total_amount, amount_paid, status,
+      courier_provider, courier_consignment_id, courier_tracking_code, courier_status, courier_updated_at,
+      order_items (quantity, product_name, variant_label, products (name, weight_kg))
+    `)
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    console.error('Error loading order:', orderError);
+    return json({ error: 'order_not_found' }, 500);
+  }
+  if (!order) {
+    return json({ error: 'order_not_found' }, 404);
+  }
+  if (order.status !== 'confirmed' && order.status !== 'processing') {
+    return json({ error: 'order_not_confirmed' }, 409);
+  }
+  // A cancelled consignment can be booked again
+  if (order.courier_consignment_id && order.courier_status !== 'cancelled') {
+    return json({ error: 'already_booked' }, 409);
+  }
+
+  // Claim the order before calling the courier, so two clicks cannot book it twice. A claim
+  // left behind by a crashed call can be taken over after CLAIM_TIMEOUT_MS.
+  const staleClaim = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('orders')
+    .update({
+      courier_provider: null,
+      courier_consignment_id: null,
+      courier_tracking_code: null,
+      courier_status: 'booking',
+      courier_updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id)
+    .in('status', ['confirmed', 'processing'])
+    .or(
+      `courier_status.eq.cancelled,and(courier_consignment_id.is.null,or(courier_status.is.null,courier_status.neq.booking,courier_updated_at.lt."${staleClaim}"))`
+    )
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) {
+    console.error('Error claiming order:', claimError);
+    return json({ error: 'update_failed' }, 500);
+  }
+  if (!claimed) {
+    return json({ error: 'booking_in_progress' }, 409);
+  }
+
+  // Puts back what the order had before the claim, such as a cancelled consignment
+  const releaseClaim = async () => {
+    const { error } = await supabase
+      .from('orders')
+      .update({
+        courier_provider: order.courier_provider,
+        courier_consignment_id: order.courier_consignment_id,
+        courier_tracking_code: order.courier_tracking_code,
+        courier_status: order.courier_status,
+        courier_updated_at: order.courier_updated_at,
+      })
+      .eq('id', order.id)
+      .eq('courier_status', 'booking');
+    if (error) {
+      console.error('Error releasing order claim:', error);
+    }
+  };
+
+  const items = order.order_items ?? [];
+  let consignment;
+  try {
+    consignment = await courier.createConsignment({
+      order_id: order.id,
+      recipient_name: order.customer_name,
+      recipient_phone: order.phone,
+      recipient_address: order.address,
+      district: order.district,
+      // Anything paid online in advance is not collected again
+      cod_amount: Math.max(Number(order.total_amount) - Number(order.amount_paid), 0),
+      weight_kg: items.reduce((sum, item) => sum + item.quantity * Number(item.products?.weight_kg || 0), 0),
+      item_description: items
+        .map((item) => `${item.products?.name || item.product_name || 'Item'}${item.variant_label ? ` (${item.variant_label})` : ''} x${item.quantity}`)
+        .join(', '),
+    });
+  } catch (error) {
+    console.error(`Booking with ${courier.name} failed:`, error);
+    await releaseClaim();
+    return json({ error: 'courier_failed' }, 502);
+  }
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({
+      courier_provider: courier.name,
+      courier_consignment_id: consignment.consignment_id,
+      courier_tracking_code: consignment.tracking_code,
+      courier_status: consignment.status,
+      courier_updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id);
+
+  if (updateError) {
+    console.error(`Storing consignment ${consignment.consignment_id} failed:`, updateError);
+    return json({ error: 'update_failed' }, 500);
+  }
+
+  return json({ shipment: { provider: courier.name, ...consignment } });
+});
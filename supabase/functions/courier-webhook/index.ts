@@ -0,0 +1,39 @@
+// Receives status updates from couriers: POST /courier-webhook?provider=<name>.
+// Couriers do not send a Supabase JWT, so this function is deployed with verify_jwt off
+// (see supabase/config.toml) and each provider verifies its own requests.
+
+import { json, serviceClient } from '../_shared/http.ts';
+import { getCourier } from '../_shared/couriers/index.ts';
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'method_not_allowed' }, 405);
+  }
+
+  const courier = getCourier(new URL(req.url).searchParams.get('provider') || '');
+  if (!courier) {
+    return json({ error: 'unknown_provider' }, 404);
+  }
+
+  const update = await courier.parseWebhook(req);
+  if (!update) {
+    return json({ error: 'invalid_webhook' }, 401);
+  }
+
+  const { data, error } = await serviceClient().rpc('record_courier_status', {
+    _provider: courier.name,
+    _consignment_id: update.consignment_id,
+    _status: update.status,
+    _payload: update.payload,
+  });
+
+  if (error) {
+    if (error.message === 'consignment_not_found') {
+      return json({ error: 'consignment_not_found' }, 404);
+    }
+    console.error(`Recording ${courier.name} status for ${update.consignment_id} failed:`, error);
+    return json({ error: 'update_failed' }, 500);
+  }
+
+  return json({ ok: true, ...data });
+});
@@ -0,0 +1,217 @@
+// Copies remote images into the `products` storage bucket for the Admin bulk import.
+// Browsers usually cannot download images from other sites (CORS), so the import sends
+// the URLs here and stores the returned bucket URLs on the product instead.
+//
+// POST { urls: string[] } (at most 10) with the admin's Authorization header
+// -> { results: [{ source, url } | { source, error }] } in the same order
+
+import { corsHeaders, json, requirePermission, serviceClient } from '../_shared/http.ts';
+
+const MAX_URLS = 10;
+const MAX_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+type ImageResult = { source: string; url: string } | { source: string; error: string };
+
+const storage = serviceClient().storage;
+
+const ipv4Bytes = (address: string) => {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.map(Number);
+};
+
+// Loopback, private, link-local (including the cloud metadata address 169.254.169.254),
+// carrier-grade NAT, benchmarking, multicast and reserved ranges
+const isPrivateAddress = (address: string): boolean => {
+  const v4 = ipv4Bytes(address);
+  if (v4) {
+    const [a, b] = v4;
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && (b === 168 || (b === 0 && v4[2] === 0))) ||
+      (a === 198 && (b === 18 || b === 19));
+  }
+
+  const v6 = address.toLowerCase();
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  return v6 === '::' || v6 === '::1' || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith('ff') ||
+    v6.startsWith('::ffff:');
+};
+
+// The host and every address it resolves to must be public, so an admin-supplied link
+// (or a redirect from it) cannot reach the function's own network
+const isPublicHost = async (hostname: string) => {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return false;
+  if (ipv4Bytes(host) || host.includes(':')) return !isPrivateAddress(host);
+
+  const addresses = (
+    await Promise.all([
+      Deno.resolveDns(host, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(host, 'AAAA').catch(() => [] as string[]),
+    ])
+  ).flat();
+  return addresses.length > 0 && !addresses.some(isPrivateAddress);
+};
+
+// Redirects are followed by hand so each hop's host is checked
+const fetchPublic = async (start: URL, signal: AbortSignal): Promise<Response | string> => {
+  let url = start;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!(await isPublicHost(url.hostname))) {
+      return 'blocked_host';
+    }
+
+    const response = await fetch(url, { redirect: 'manual', signal });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    url = new URL(location, url);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'invalid_url';
+    }
+  }
+  return 'download_failed';
+};
+
+// Stops as soon as the body passes MAX_BYTES, whatever content-length claimed
+const readLimited = async (response: Response): Promise<Uint8Array | null> => {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > MAX_BYTES) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+};
+
+const copyImage = async (source: string): Promise<ImageResult> => {
+  let url: URL;
+  try {
+    url = new URL(source);
+  } catch {
+    return { source, error: 'invalid_url' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { source, error: 'invalid_url' };
+  }
+
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let response: Response;
+  try {
+    const fetched = await fetchPublic(url, signal);
+    if (typeof fetched === 'string') {
+      return { source, error: fetched };
+    }
+    response = fetched;
+  } catch {
+    return { source, error: 'download_failed' };
+  }
+  if (!response.ok) {
+    return { source, error: `http_${response.status}` };
+  }
+
+  const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  const extension = EXTENSIONS[contentType];
+  if (!extension) {
+    await response.body?.cancel();
+    return { source, error: 'not_an_image' };
+  }
+
+  const declaredSize = Number(response.headers.get('content-length') || 0);
+  if (declaredSize > MAX_BYTES) {
+    await response.body?.cancel();
+    return { source, error: 'too_large' };
+  }
+
+  let body: Uint8Array | null;
+  try {
+    body = await readLimited(response);
+  } catch {
+    return { source, error: 'download_failed' };
+  }
+  if (!body) {
+    return { source, error: 'too_large' };
+  }
+
+  // Same naming as uploads from the product dialog
+  const path = `images/${Date.now()}-${crypto.randomUUID().slice(0, 9)}.${extension}`;
+  const { error } = await storage.from('products').upload(path, body, {
+    contentType,
+    cacheControl: '3600',
+    upsert: false,
+  });
+  if (error) {
+    console.error(`Upload failed for ${source}:`, error);
+    return { source, error: 'upload_failed' };
+  }
+
+  return { source, url: storage.from('products').getPublicUrl(path).data.publicUrl };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'method_not_allowed' }, 405);
+  }
+
+  // Only admins may write to the bucket through this function
+  const denied = await requirePermission(req, 'products.manage');
+  if (denied) {
+    return denied;
+  }
+
+  let urls: unknown;
+  try {
+    ({ urls } = await req.json());
+  } catch {
+    return json({ error: 'invalid_body' }, 400);
+  }
+  if (!Array.isArray(urls) || urls.length === 0 || urls.some((u) => typeof u !== 'string')) {
+    return json({ error: 'invalid_body' }, 400);
+  }
+  if (urls.length > MAX_URLS) {
+    return json({ error: 'too_many_urls' }, 400);
+  }
+
+  const results: ImageResult[] = [];
+  for (const source of urls as string[]) {
+    results.push(await copyImage(source.trim()));
+  }
+
+  return json({ results });
+});
@@ -0,0 +1,53 @@
+// Receives payment results from gateways: /payment-callback?provider=<name>.
+// With &return=1 it is the customer's browser coming back from the gateway, which is sent on
+// to the shop's /payment/result page; otherwise it is the gateway's server notification and
+// gets a JSON reply. Both may report the same result, and record_payment_result() applies
+// it once. Gateways do not send a Supabase JWT, so this function is deployed with verify_jwt
+// off (see supabase/config.toml) and each provider verifies its own callbacks.
+
+import { json, serviceClient } from '../_shared/http.ts';
+import { getPaymentProvider } from '../_shared/payments/index.ts';
+
+const resultPage = (params: Record<string, string>) =>
+  new Response(null, {
+    status: 303,
+    headers: { Location: `${Deno.env.get('SITE_URL')}/payment/result?${new URLSearchParams(params)}` },
+  });
+
+Deno.serve(async (req) => {
+  const searchParams = new URL(req.url).searchParams;
+  const isReturn = searchParams.get('return') === '1';
+
+  const provider = getPaymentProvider(searchParams.get('provider') || '');
+  if (!provider) {
+    return isReturn ? resultPage({ status: 'error' }) : json({ error: 'unknown_provider' }, 404);
+  }
+
+  const result = await provider.parseCallback(req);
+  if (!result) {
+    return isReturn ? resultPage({ status: 'error' }) : json({ error: 'invalid_callback' }, 401);
+  }
+
+  const { data, error } = await serviceClient().rpc('record_payment_result', {
+    _provider: provider.name,
+    _provider_ref: result.provider_ref,
+    _event_id: result.event_id ?? `${result.provider_ref}:${result.status}`,
+    _status: result.status,
+    _amount: result.amount,
+    _payload: result.payload,
+  });
+
+  if (error) {
+    if (error.message !== 'payment_not_found') {
+      console.error(`Recording ${provider.name} payment ${result.provider_ref} failed:`, error);
+    }
+    if (isReturn) {
+      return resultPage({ status: 'error' });
+    }
+    return error.message === 'payment_not_found'
+      ? json({ error: 'payment_not_found' }, 404)
+      : json({ error: 'update_failed' }, 500);
+  }
+
+  return isReturn ? resultPage({ order: data.order_id, status: data.status }) : json({ ok: true, ...data });
+});
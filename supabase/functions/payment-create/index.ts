@@ -0,0 +1,82 @@
+// Starts an online payment for what is left to pre-pay on an order and returns the gateway
+// page to send the customer to. Customers identify the order with its phone number, as on
+// the tracking page.
+//
+// POST { order_id, phone } -> { redirect_url }
+
+import { corsHeaders, json, serviceClient, supabaseUrl } from '../_shared/http.ts';
+import { activePaymentProvider } from '../_shared/payments/index.ts';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const START_ERRORS: Record<string, number> = {
+  order_not_found: 404,
+  order_cancelled: 409,
+  nothing_to_pay: 409,
+  payment_in_progress: 409,
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'method_not_allowed' }, 405);
+  }
+
+  const { order_id: orderId, phone } = await req.json().catch(() => ({}));
+  if (typeof orderId !== 'string' || !UUID_REGEX.test(orderId) || typeof phone !== 'string') {
+    return json({ error: 'invalid_body' }, 400);
+  }
+
+  const provider = activePaymentProvider();
+  if (!provider) {
+    return json({ error: 'payments_not_configured' }, 500);
+  }
+
+  const supabase = serviceClient();
+  const { data: payment, error: startError } = await supabase.rpc('start_payment', {
+    _order_id: orderId,
+    _phone: phone,
+    _provider: provider.name,
+  });
+
+  if (startError) {
+    if (startError.message in START_ERRORS) {
+      return json({ error: startError.message }, START_ERRORS[startError.message]);
+    }
+    console.error(`Starting payment for order ${orderId} failed:`, startError);
+    return json({ error: 'payment_failed' }, 500);
+  }
+
+  const callbackUrl = `${supabaseUrl}/functions/v1/payment-callback?provider=${provider.name}`;
+  let session;
+  try {
+    session = await provider.createPayment({
+      payment_id: payment.payment_id,
+      order_id: payment.order_id,
+      amount: Number(payment.amount),
+      currency: 'BDT',
+      customer_name: payment.customer_name,
+      customer_phone: payment.phone,
+      return_url: `${callbackUrl}&return=1`,
+      notify_url: callbackUrl,
+    });
+  } catch (error) {
+    console.error(`Creating ${provider.name} payment ${payment.payment_id} failed:`, error);
+    await supabase.from('payments').update({ status: 'failed' }).eq('id', payment.payment_id);
+    return json({ error: 'gateway_failed' }, 502);
+  }
+
+  const { error: updateError } = await supabase
+    .from('payments')
+    .update({ provider_ref: session.provider_ref })
+    .eq('id', payment.payment_id);
+
+  if (updateError) {
+    console.error(`Storing ${provider.name} reference ${session.provider_ref} failed:`, updateError);
+    return json({ error: 'payment_failed' }, 500);
+  }
+
+  return json({ redirect_url: session.redirect_url });
+});
@@ -0,0 +1,74 @@
+// Invites a staff member by email and gives them a staff role. People who already have an
+// account get the role straight away instead of an invite email.
+//
+// POST { email, role } with the owner's Authorization header
+// -> { user_id, invited }
+
+import { corsHeaders, json, requirePermission, serviceClient, userClient } from '../_shared/http.ts';
+
+const EMAIL_REGEX = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+const STAFF_ROLES = ['owner', 'manager', 'order_staff', 'analyst'];
+
+// Errors raised by set_staff_role and record_staff_invite that the Admin shows as they are
+const ROLE_ERRORS = ['forbidden', 'invalid_role', 'invalid_email', 'user_not_found', 'last_owner'];
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'method_not_allowed' }, 405);
+  }
+
+  const denied = await requirePermission(req, 'team.manage');
+  if (denied) {
+    return denied;
+  }
+
+  const { email: rawEmail, role } = await req.json().catch(() => ({}));
+  const email = typeof rawEmail === 'string' ? rawEmail.trim().toLowerCase() : '';
+  if (!EMAIL_REGEX.test(email) || typeof role !== 'string' || !STAFF_ROLES.includes(role)) {
+    return json({ error: 'invalid_body' }, 400);
+  }
+
+  // The role changes go through the caller so role_audit_log records who made them
+  const caller = userClient(req);
+  const service = serviceClient();
+
+  const { data: existingId, error: lookupError } = await service.rpc('auth_user_id_by_email', { _email: email });
+  if (lookupError) {
+    console.error('User lookup failed:', lookupError);
+    return json({ error: 'invite_failed' }, 500);
+  }
+
+  let userId = existingId as string | null;
+  const invited = !userId;
+
+  if (!userId) {
+    // Lets the new account through while public signup is off
+    const { error: recordError } = await caller.rpc('record_staff_invite', { _email: email });
+    if (recordError) {
+      console.error('Recording invite failed:', recordError);
+      return json({ error: ROLE_ERRORS.includes(recordError.message) ? recordError.message : 'invite_failed' }, 400);
+    }
+
+    const siteUrl = Deno.env.get('SITE_URL');
+    const { data, error: inviteError } = await service.auth.admin.inviteUserByEmail(email, {
+      redirectTo: siteUrl ? `${siteUrl.replace(/\/$/, '')}/auth?invited=1` : undefined,
+    });
+    if (inviteError || !data.user) {
+      console.error('Invite failed:', inviteError);
+      return json({ error: 'invite_failed' }, 502);
+    }
+    userId = data.user.id;
+  }
+
+  const { error: roleError } = await caller.rpc('set_staff_role', { _user_id: userId, _role: role });
+  if (roleError) {
+    console.error('Setting role failed:', roleError);
+    const code = ROLE_ERRORS.includes(roleError.message) ? roleError.message : 'role_failed';
+    return json({ error: code }, code === 'forbidden' ? 403 : 400);
+  }
+
+  return json({ user_id: userId, invited });
+});
@@ -0,0 +1,115 @@
+-- Atomic order placement
+-- Checkout used to check stock with a client-side select, insert the order, insert the items
+-- and delete the order by hand if the items insert failed. Prices and the total were taken
+-- from the browser. place_order() does all of it in one transaction using server-side prices.
+
+-- Store the delivery charge that was applied to each order
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS delivery_charge DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.orders.delivery_charge IS 'Delivery charge applied when the order was placed (included in total_amount)';
+
+-- _items is a JSON array of { "product_id": uuid, "quantity": int }
+-- Raises one of these exceptions (message) so the client can react:
+--   empty_cart, invalid_quantity, invalid_customer, invalid_location,
+--   product_not_found (detail: JSON array of missing product ids),
+--   insufficient_stock (detail: JSON array of { id, name, stock })
+CREATE OR REPLACE FUNCTION public.place_order(
+  _customer_name TEXT,
+  _phone TEXT,
+  _address TEXT,
+  _location_type TEXT,
+  _items JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _delivery_charge DECIMAL(10, 2);
+  _subtotal DECIMAL(10, 2);
+  _cart JSONB;
+  _missing JSONB;
+  _short JSONB;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'empty_cart';
+  END IF;
+
+  IF coalesce(trim(_customer_name), '') = ''
+    OR coalesce(trim(_phone), '') = ''
+    OR coalesce(trim(_address), '') = '' THEN
+    RAISE EXCEPTION 'invalid_customer';
+  END IF;
+
+  -- Merge duplicate lines so each product is checked once
+  SELECT jsonb_agg(jsonb_build_object('product_id', l.product_id, 'quantity', l.quantity)) INTO _cart
+  FROM (
+    SELECT (line->>'product_id')::UUID AS product_id,
+           sum((line->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS line
+    GROUP BY 1
+  ) l;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+    WHERE c.product_id IS NULL OR c.quantity IS NULL OR c.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'invalid_quantity';
+  END IF;
+
+  -- Lock the product rows (in a stable order to avoid deadlocks) before reading price and stock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT c.product_id FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(c.product_id) INTO _missing
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = c.product_id
+  WHERE p.id IS NULL;
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'product_not_found' USING DETAIL = _missing::TEXT;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('id', p.id, 'name', p.name, 'stock', p.stock)) INTO _short
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id
+  WHERE p.stock < c.quantity;
+
+  IF _short IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = _short::TEXT;
+  END IF;
+
+  SELECT charge INTO _delivery_charge
+  FROM public.delivery_charges
+  WHERE location_type = _location_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invalid_location';
+  END IF;
+
+  SELECT sum(p.price * c.quantity) INTO _subtotal
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id;
+
+  INSERT INTO public.orders (customer_name, phone, address, location_type, delivery_charge, total_amount, status)
+  VALUES (trim(_customer_name), trim(_phone), trim(_address), _location_type, _delivery_charge, _subtotal + _delivery_charge, 'pending')
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price)
+  SELECT _order_id, c.product_id, c.quantity, p.price
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB) IS 'Places an order atomically using current product prices and delivery charges. Returns the new order ID.';
@@ -0,0 +1,162 @@
+-- Stock movements ledger
+-- Stock used to be lowered by the Admin page with a read-then-write loop when an order was
+-- confirmed, and was never given back when the order was cancelled. Stock is now moved by a
+-- trigger on orders.status and every change to products.stock is written to stock_movements.
+
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  quantity_change INTEGER NOT NULL,
+  stock_after INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('order_confirmed', 'order_cancelled', 'order_reverted', 'manual_adjustment', 'initial_stock')),
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product ON public.stock_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order ON public.stock_movements(order_id);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the triggers below only; admins can read them
+CREATE POLICY "Admins can view stock movements"
+ON public.stock_movements FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+COMMENT ON TABLE public.stock_movements IS 'Ledger of every change to products.stock with the order and reason behind it';
+
+-- Statuses in which an order holds its items out of stock
+CREATE OR REPLACE FUNCTION public.order_status_holds_stock(_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _status IN ('confirmed', 'delivered')
+$$;
+
+-- Log every stock change. Order transitions set app.stock_reason / app.stock_order_id for the
+-- duration of their update; anything else (e.g. editing a product) is a manual adjustment.
+CREATE OR REPLACE FUNCTION public.log_product_stock_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _change INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    _change := NEW.stock;
+  ELSE
+    _change := NEW.stock - OLD.stock;
+  END IF;
+
+  IF _change = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.stock_movements (product_id, order_id, quantity_change, stock_after, reason)
+  VALUES (
+    NEW.id,
+    nullif(current_setting('app.stock_order_id', true), '')::UUID,
+    _change,
+    NEW.stock,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'initial_stock'
+      ELSE coalesce(nullif(current_setting('app.stock_reason', true), ''), 'manual_adjustment')
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_products_stock_insert
+AFTER INSERT ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.log_product_stock_change();
+
+CREATE TRIGGER log_products_stock_update
+AFTER UPDATE OF stock ON public.products
+FOR EACH ROW
+WHEN (OLD.stock IS DISTINCT FROM NEW.stock)
+EXECUTE FUNCTION public.log_product_stock_change();
+
+-- Take stock out when an order starts holding it and put it back when it stops.
+-- Raises insufficient_stock (detail: JSON array of { id, name, stock }) if an order
+-- cannot be confirmed with the stock on hand.
+CREATE OR REPLACE FUNCTION public.apply_order_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _was_holding BOOLEAN := public.order_status_holds_stock(OLD.status);
+  _now_holding BOOLEAN := public.order_status_holds_stock(NEW.status);
+  _direction INTEGER;
+  _reason TEXT;
+  _short JSONB;
+BEGIN
+  IF _was_holding = _now_holding THEN
+    RETURN NEW;
+  END IF;
+
+  IF _now_holding THEN
+    _direction := -1;
+    _reason := 'order_confirmed';
+  ELSE
+    _direction := 1;
+    _reason := CASE WHEN NEW.status = 'cancelled' THEN 'order_cancelled' ELSE 'order_reverted' END;
+  END IF;
+
+  -- Lock the products in a stable order so concurrent transitions cannot interleave
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT oi.product_id FROM public.order_items oi WHERE oi.order_id = NEW.id)
+  ORDER BY p.id
+  FOR UPDATE;
+
+  IF _direction < 0 THEN
+    SELECT jsonb_agg(jsonb_build_object('id', p.id, 'name', p.name, 'stock', p.stock)) INTO _short
+    FROM (
+      SELECT product_id, sum(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id
+      GROUP BY product_id
+    ) i
+    JOIN public.products p ON p.id = i.product_id
+    WHERE p.stock < i.quantity;
+
+    IF _short IS NOT NULL THEN
+      RAISE EXCEPTION 'insufficient_stock' USING DETAIL = _short::TEXT;
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.stock_order_id', NEW.id::TEXT, true);
+  PERFORM set_config('app.stock_reason', _reason, true);
+
+  UPDATE public.products p
+  SET stock = p.stock + _direction * i.quantity
+  FROM (
+    SELECT product_id, sum(quantity)::INTEGER AS quantity
+    FROM public.order_items
+    WHERE order_id = NEW.id
+    GROUP BY product_id
+  ) i
+  WHERE p.id = i.product_id;
+
+  PERFORM set_config('app.stock_order_id', '', true);
+  PERFORM set_config('app.stock_reason', '', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_orders_stock_movement
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.apply_order_stock_movement();
@@ -0,0 +1,107 @@
+-- Customer order tracking
+-- Customers look up an order with its ID and the phone number used at checkout.
+-- The lookup goes through track_order() so orders never have to be readable by the public.
+
+-- Status history used for the tracking timeline
+CREATE TABLE IF NOT EXISTS public.order_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  changed_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON public.order_status_history(order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the trigger below only; admins can read them
+CREATE POLICY "Admins can view order status history"
+ON public.order_status_history FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Existing orders start their history with their current status
+INSERT INTO public.order_status_history (order_id, status, changed_by, created_at)
+SELECT o.id, o.status, NULL, o.created_at
+FROM public.orders o
+WHERE NOT EXISTS (SELECT 1 FROM public.order_status_history h WHERE h.order_id = o.id);
+
+CREATE OR REPLACE FUNCTION public.record_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.order_status_history (order_id, status)
+  VALUES (NEW.id, NEW.status);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_orders_status_insert
+AFTER INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.record_order_status();
+
+CREATE TRIGGER record_orders_status_update
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.record_order_status();
+
+-- Compare phone numbers by their last 10 digits so "+880 17..." matches "017..."
+CREATE OR REPLACE FUNCTION public.phone_matches(_a TEXT, _b TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT length(regexp_replace(coalesce(_a, ''), '\D', '', 'g')) >= 10
+    AND right(regexp_replace(_a, '\D', '', 'g'), 10) = right(regexp_replace(coalesce(_b, ''), '\D', '', 'g'), 10)
+$$;
+
+-- Returns the order's status, charges, line items and status timeline, or NULL when the
+-- ID and phone number do not match. Address and other customer details are not returned.
+CREATE OR REPLACE FUNCTION public.track_order(_order_id UUID, _phone TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'location_type', o.location_type,
+    'delivery_charge', o.delivery_charge,
+    'total_amount', o.total_amount,
+    'created_at', o.created_at,
+    'items', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'name', p.name,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    'history', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', h.status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  WHERE o.id = _order_id
+    AND public.phone_matches(_phone, o.phone)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.track_order(UUID, TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.track_order(UUID, TEXT) IS 'Order lookup for customers by order ID and checkout phone number';
@@ -0,0 +1,31 @@
+-- Lock down orders and order_items
+-- 20250102000000_fix_order_insert.sql made every order readable by anyone so that
+-- .insert().select('id') worked from the cart. That exposed every customer's name, phone and
+-- address. Orders are now created by the SECURITY DEFINER function place_order(), which returns
+-- only the new ID, and customers look orders up through track_order().
+
+-- 1. Orders: admin-only SELECT again
+DROP POLICY IF EXISTS "Anyone can read orders" ON public.orders;
+DROP POLICY IF EXISTS "Admins can view all orders" ON public.orders;
+
+CREATE POLICY "Admins can view all orders"
+ON public.orders FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- 2. Order items: admin-only SELECT (re-created in case it was changed by hand)
+DROP POLICY IF EXISTS "Anyone can read order items" ON public.order_items;
+DROP POLICY IF EXISTS "Admins can view all order items" ON public.order_items;
+
+CREATE POLICY "Admins can view all order items"
+ON public.order_items FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- 3. No direct inserts from the browser; place_order() is the only way to create an order
+DROP POLICY IF EXISTS "Anyone can create orders" ON public.orders;
+DROP POLICY IF EXISTS "Anyone can create order items" ON public.order_items;
+
+-- 4. Only the new ID ever leaves place_order()
+REVOKE ALL ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB) TO anon, authenticated;
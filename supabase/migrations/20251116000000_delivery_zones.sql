@@ -0,0 +1,308 @@
+-- Zone-based delivery pricing
+-- delivery_charges only knew inside_dhaka and outside_dhaka. Admins now define delivery zones
+-- (lists of districts or Dhaka sub-areas), each with its own pricing rules. The customer picks a
+-- district at checkout and the charge comes from the matching zone.
+
+CREATE TABLE IF NOT EXISTS public.delivery_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  areas TEXT[] NOT NULL DEFAULT '{}',
+  base_charge DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (base_charge >= 0),
+  per_extra_item_charge DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (per_extra_item_charge >= 0),
+  included_weight_kg DECIMAL(6, 2) NOT NULL DEFAULT 1 CHECK (included_weight_kg >= 0),
+  weight_surcharge_per_kg DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (weight_surcharge_per_kg >= 0),
+  free_delivery_threshold DECIMAL(10, 2) CHECK (free_delivery_threshold IS NULL OR free_delivery_threshold >= 0),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only one zone can catch the districts that no other zone lists
+CREATE UNIQUE INDEX IF NOT EXISTS idx_delivery_zones_single_default
+ON public.delivery_zones (is_default)
+WHERE is_default;
+
+ALTER TABLE public.delivery_zones ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read zones (needed for the checkout district list)
+CREATE POLICY "Anyone can view delivery zones"
+ON public.delivery_zones FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Admins can insert delivery zones"
+ON public.delivery_zones FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update delivery zones"
+ON public.delivery_zones FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete delivery zones"
+ON public.delivery_zones FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_delivery_zones_updated_at
+BEFORE UPDATE ON public.delivery_zones
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.delivery_zones IS 'Admin-defined delivery zones and their pricing rules';
+COMMENT ON COLUMN public.delivery_zones.areas IS 'Districts or sub-areas covered by the zone, matched case-insensitively against the checkout district';
+COMMENT ON COLUMN public.delivery_zones.free_delivery_threshold IS 'Orders with a subtotal at or above this amount ship free. NULL disables free delivery.';
+
+-- Seed the two old locations as zones, keeping the charges admins already set
+INSERT INTO public.delivery_zones (code, name, areas, base_charge, is_default, sort_order)
+SELECT 'inside_dhaka', 'ঢাকার ভিতরে', ARRAY['Dhaka'],
+  coalesce((SELECT charge FROM public.delivery_charges WHERE location_type = 'inside_dhaka'), 60), false, 1
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO public.delivery_zones (code, name, areas, base_charge, is_default, sort_order)
+SELECT 'outside_dhaka', 'ঢাকার বাইরে', '{}',
+  coalesce((SELECT charge FROM public.delivery_charges WHERE location_type = 'outside_dhaka'), 120), true, 2
+ON CONFLICT (code) DO NOTHING;
+
+COMMENT ON TABLE public.delivery_charges IS 'Superseded by delivery_zones (20251116000000_delivery_zones.sql); kept for reference';
+
+-- Product weight for the zone weight surcharge
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS weight_kg DECIMAL(6, 3) NOT NULL DEFAULT 0 CHECK (weight_kg >= 0);
+
+COMMENT ON COLUMN public.products.weight_kg IS 'Shipping weight in kilograms, used for delivery weight surcharges';
+
+-- Orders remember the district and zone. location_type now holds the zone code.
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_location_type_check;
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS district TEXT,
+ADD COLUMN IF NOT EXISTS delivery_zone_id UUID REFERENCES public.delivery_zones(id) ON DELETE SET NULL;
+
+UPDATE public.orders o
+SET delivery_zone_id = z.id
+FROM public.delivery_zones z
+WHERE o.delivery_zone_id IS NULL AND z.code = o.location_type;
+
+-- The zone that delivers to a district: an active zone listing it, else the active default zone
+CREATE OR REPLACE FUNCTION public.resolve_delivery_zone(_district TEXT)
+RETURNS public.delivery_zones
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT z.*
+  FROM public.delivery_zones z
+  WHERE z.is_active
+    AND (
+      EXISTS (SELECT 1 FROM unnest(z.areas) AS a WHERE lower(trim(a)) = lower(trim(_district)))
+      OR z.is_default
+    )
+  ORDER BY z.is_default, z.sort_order, z.created_at
+  LIMIT 1
+$$;
+
+-- Delivery charge for a district and a cart (JSON array of { product_id, quantity }).
+-- Raises invalid_location when no zone delivers to the district.
+CREATE OR REPLACE FUNCTION public.quote_delivery(_district TEXT, _items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _zone public.delivery_zones;
+  _subtotal DECIMAL(10, 2);
+  _quantity INTEGER;
+  _weight DECIMAL(10, 3);
+  _charge DECIMAL(10, 2);
+BEGIN
+  IF coalesce(trim(_district), '') = '' THEN
+    RAISE EXCEPTION 'invalid_location';
+  END IF;
+
+  _zone := public.resolve_delivery_zone(_district);
+
+  IF _zone.id IS NULL THEN
+    RAISE EXCEPTION 'invalid_location';
+  END IF;
+
+  SELECT coalesce(sum(p.price * c.quantity), 0),
+         coalesce(sum(c.quantity), 0),
+         coalesce(sum(p.weight_kg * c.quantity), 0)
+  INTO _subtotal, _quantity, _weight
+  FROM jsonb_to_recordset(coalesce(_items, '[]'::jsonb)) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id;
+
+  IF _zone.free_delivery_threshold IS NOT NULL AND _subtotal >= _zone.free_delivery_threshold THEN
+    _charge := 0;
+  ELSE
+    _charge := _zone.base_charge
+      + _zone.per_extra_item_charge * greatest(_quantity - 1, 0)
+      + _zone.weight_surcharge_per_kg * ceil(greatest(_weight - _zone.included_weight_kg, 0));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'zone_id', _zone.id,
+    'zone_code', _zone.code,
+    'zone_name', _zone.name,
+    'charge', _charge,
+    'free_delivery_threshold', _zone.free_delivery_threshold
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_delivery(TEXT, JSONB) TO anon, authenticated;
+
+-- place_order now takes the district instead of inside_dhaka / outside_dhaka
+DROP FUNCTION IF EXISTS public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _customer_name TEXT,
+  _phone TEXT,
+  _address TEXT,
+  _district TEXT,
+  _items JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _quote JSONB;
+  _delivery_charge DECIMAL(10, 2);
+  _subtotal DECIMAL(10, 2);
+  _cart JSONB;
+  _missing JSONB;
+  _short JSONB;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'empty_cart';
+  END IF;
+
+  IF coalesce(trim(_customer_name), '') = ''
+    OR coalesce(trim(_phone), '') = ''
+    OR coalesce(trim(_address), '') = '' THEN
+    RAISE EXCEPTION 'invalid_customer';
+  END IF;
+
+  -- Merge duplicate lines so each product is checked once
+  SELECT jsonb_agg(jsonb_build_object('product_id', l.product_id, 'quantity', l.quantity)) INTO _cart
+  FROM (
+    SELECT (line->>'product_id')::UUID AS product_id,
+           sum((line->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS line
+    GROUP BY 1
+  ) l;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+    WHERE c.product_id IS NULL OR c.quantity IS NULL OR c.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'invalid_quantity';
+  END IF;
+
+  -- Lock the product rows (in a stable order to avoid deadlocks) before reading price and stock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT c.product_id FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(c.product_id) INTO _missing
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = c.product_id
+  WHERE p.id IS NULL;
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'product_not_found' USING DETAIL = _missing::TEXT;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('id', p.id, 'name', p.name, 'stock', p.stock)) INTO _short
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id
+  WHERE p.stock < c.quantity;
+
+  IF _short IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = _short::TEXT;
+  END IF;
+
+  _quote := public.quote_delivery(_district, _cart);
+  _delivery_charge := (_quote->>'charge')::DECIMAL(10, 2);
+
+  SELECT sum(p.price * c.quantity) INTO _subtotal
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id;
+
+  INSERT INTO public.orders (
+    customer_name, phone, address, district, location_type, delivery_zone_id,
+    delivery_charge, total_amount, status
+  )
+  VALUES (
+    trim(_customer_name), trim(_phone), trim(_address), trim(_district), _quote->>'zone_code', (_quote->>'zone_id')::UUID,
+    _delivery_charge, _subtotal + _delivery_charge, 'pending'
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price)
+  SELECT _order_id, c.product_id, c.quantity, p.price
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB) IS 'Places an order atomically using current product prices and the delivery zone of the district. Returns the new order ID.';
+
+-- Tracking shows the district and zone name
+CREATE OR REPLACE FUNCTION public.track_order(_order_id UUID, _phone TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'location_type', o.location_type,
+    'district', o.district,
+    'delivery_zone', z.name,
+    'delivery_charge', o.delivery_charge,
+    'total_amount', o.total_amount,
+    'created_at', o.created_at,
+    'items', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'name', p.name,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    'history', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', h.status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  LEFT JOIN public.delivery_zones z ON z.id = o.delivery_zone_id
+  WHERE o.id = _order_id
+    AND public.phone_matches(_phone, o.phone)
+$$;
@@ -0,0 +1,400 @@
+-- Coupon and discount codes
+-- Promotions used to be done by editing product prices by hand. Admins now create coupon codes
+-- (percentage, fixed amount or free delivery) and customers enter them at checkout. The discount
+-- is worked out by the database, both for the checkout preview and inside place_order().
+
+-- 1. Categories, so a coupon can be limited to e.g. "Earbuds"
+CREATE TABLE IF NOT EXISTS public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  parent_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.product_categories (
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  PRIMARY KEY (product_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_categories_category_id ON public.product_categories(category_id);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories"
+ON public.categories FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Admins can manage categories"
+ON public.categories FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view product categories"
+ON public.product_categories FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Admins can manage product categories"
+ON public.product_categories FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_categories_updated_at
+BEFORE UPDATE ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Coupons
+CREATE TABLE IF NOT EXISTS public.coupons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL,
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'free_delivery')),
+  discount_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  max_discount DECIMAL(10, 2) CHECK (max_discount IS NULL OR max_discount >= 0),
+  min_order_amount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+  starts_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0),
+  product_ids UUID[] NOT NULL DEFAULT '{}',
+  category_ids UUID[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100)
+);
+
+-- Codes are matched case-insensitively
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coupons_code ON public.coupons (upper(code));
+
+-- Codes are not public; customers only reach them through quote_coupon() and place_order()
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage coupons"
+ON public.coupons FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_coupons_updated_at
+BEFORE UPDATE ON public.coupons
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.coupons IS 'Discount codes customers can enter at checkout';
+COMMENT ON COLUMN public.coupons.discount_value IS 'Percent for percentage coupons, taka for fixed coupons, unused for free_delivery';
+COMMENT ON COLUMN public.coupons.max_discount IS 'Upper limit for percentage discounts. NULL means no limit.';
+COMMENT ON COLUMN public.coupons.usage_limit IS 'Maximum number of non-cancelled orders that can use the code. NULL means unlimited.';
+COMMENT ON COLUMN public.coupons.product_ids IS 'Products the discount applies to. Empty together with category_ids means the whole cart.';
+
+-- 3. Orders remember the coupon and the discount given
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS coupon_id UUID REFERENCES public.coupons(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS coupon_code TEXT,
+ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_orders_coupon_id ON public.orders(coupon_id);
+
+COMMENT ON COLUMN public.orders.discount_amount IS 'Coupon discount, including any waived delivery charge. total_amount = items + delivery_charge - discount_amount.';
+
+-- 4. Usage statistics for the Admin page (cancelled orders do not count)
+CREATE OR REPLACE VIEW public.coupon_usage
+WITH (security_invoker = true) AS
+SELECT
+  c.id AS coupon_id,
+  count(o.id) FILTER (WHERE o.status <> 'cancelled') AS orders_count,
+  coalesce(sum(o.discount_amount) FILTER (WHERE o.status <> 'cancelled'), 0) AS discount_total,
+  coalesce(sum(o.total_amount) FILTER (WHERE o.status <> 'cancelled'), 0) AS revenue_total,
+  max(o.created_at) AS last_used_at
+FROM public.coupons c
+LEFT JOIN public.orders o ON o.coupon_id = c.id
+GROUP BY c.id;
+
+GRANT SELECT ON public.coupon_usage TO authenticated;
+
+-- 5. Works out the discount of a coupon for a cart.
+-- Raises coupon_not_found, coupon_not_started, coupon_expired, coupon_usage_limit,
+-- coupon_min_order (detail: minimum amount) or coupon_not_applicable.
+CREATE OR REPLACE FUNCTION public.evaluate_coupon(
+  _code TEXT,
+  _items JSONB,
+  _delivery_charge DECIMAL,
+  _lock BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _coupon public.coupons;
+  _used INTEGER;
+  _subtotal DECIMAL(10, 2);
+  _eligible DECIMAL(10, 2);
+  _item_discount DECIMAL(10, 2) := 0;
+  _delivery_discount DECIMAL(10, 2) := 0;
+BEGIN
+  IF _lock THEN
+    -- place_order() locks the coupon so two orders cannot both take the last use
+    SELECT * INTO _coupon FROM public.coupons
+    WHERE upper(code) = upper(trim(_code)) AND is_active
+    FOR UPDATE;
+  ELSE
+    SELECT * INTO _coupon FROM public.coupons
+    WHERE upper(code) = upper(trim(_code)) AND is_active;
+  END IF;
+
+  IF _coupon.id IS NULL THEN
+    RAISE EXCEPTION 'coupon_not_found';
+  END IF;
+
+  IF _coupon.starts_at IS NOT NULL AND _coupon.starts_at > now() THEN
+    RAISE EXCEPTION 'coupon_not_started';
+  END IF;
+
+  IF _coupon.expires_at IS NOT NULL AND _coupon.expires_at <= now() THEN
+    RAISE EXCEPTION 'coupon_expired';
+  END IF;
+
+  IF _coupon.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO _used
+    FROM public.orders
+    WHERE coupon_id = _coupon.id AND status <> 'cancelled';
+
+    IF _used >= _coupon.usage_limit THEN
+      RAISE EXCEPTION 'coupon_usage_limit';
+    END IF;
+  END IF;
+
+  SELECT coalesce(sum(p.price * c.quantity), 0) INTO _subtotal
+  FROM jsonb_to_recordset(coalesce(_items, '[]'::jsonb)) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id;
+
+  IF _subtotal < _coupon.min_order_amount THEN
+    RAISE EXCEPTION 'coupon_min_order' USING DETAIL = _coupon.min_order_amount::TEXT;
+  END IF;
+
+  SELECT coalesce(sum(p.price * c.quantity), 0) INTO _eligible
+  FROM jsonb_to_recordset(coalesce(_items, '[]'::jsonb)) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id
+  WHERE (cardinality(_coupon.product_ids) = 0 AND cardinality(_coupon.category_ids) = 0)
+    OR p.id = ANY(_coupon.product_ids)
+    OR EXISTS (
+      SELECT 1 FROM public.product_categories pc
+      WHERE pc.product_id = p.id AND pc.category_id = ANY(_coupon.category_ids)
+    );
+
+  IF _eligible = 0 THEN
+    RAISE EXCEPTION 'coupon_not_applicable';
+  END IF;
+
+  IF _coupon.discount_type = 'percentage' THEN
+    _item_discount := round(_eligible * _coupon.discount_value / 100, 2);
+    IF _coupon.max_discount IS NOT NULL THEN
+      _item_discount := least(_item_discount, _coupon.max_discount);
+    END IF;
+  ELSIF _coupon.discount_type = 'fixed' THEN
+    _item_discount := least(_coupon.discount_value, _eligible);
+  ELSE
+    _delivery_discount := coalesce(_delivery_charge, 0);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'coupon_id', _coupon.id,
+    'code', _coupon.code,
+    'discount_type', _coupon.discount_type,
+    'item_discount', _item_discount,
+    'delivery_discount', _delivery_discount,
+    'discount', _item_discount + _delivery_discount
+  );
+END;
+$$;
+
+-- Internal helper; the browser goes through quote_coupon() instead
+REVOKE ALL ON FUNCTION public.evaluate_coupon(TEXT, JSONB, DECIMAL, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Checkout preview of a code for the current cart and district
+CREATE OR REPLACE FUNCTION public.quote_coupon(_code TEXT, _district TEXT, _items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quote JSONB;
+BEGIN
+  _quote := public.quote_delivery(_district, _items);
+  RETURN public.evaluate_coupon(_code, _items, (_quote->>'charge')::DECIMAL(10, 2));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_coupon(TEXT, TEXT, JSONB) TO anon, authenticated;
+
+-- 6. place_order takes an optional coupon code
+DROP FUNCTION IF EXISTS public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _customer_name TEXT,
+  _phone TEXT,
+  _address TEXT,
+  _district TEXT,
+  _items JSONB,
+  _coupon_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _quote JSONB;
+  _coupon JSONB;
+  _delivery_charge DECIMAL(10, 2);
+  _discount DECIMAL(10, 2) := 0;
+  _subtotal DECIMAL(10, 2);
+  _cart JSONB;
+  _missing JSONB;
+  _short JSONB;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'empty_cart';
+  END IF;
+
+  IF coalesce(trim(_customer_name), '') = ''
+    OR coalesce(trim(_phone), '') = ''
+    OR coalesce(trim(_address), '') = '' THEN
+    RAISE EXCEPTION 'invalid_customer';
+  END IF;
+
+  -- Merge duplicate lines so each product is checked once
+  SELECT jsonb_agg(jsonb_build_object('product_id', l.product_id, 'quantity', l.quantity)) INTO _cart
+  FROM (
+    SELECT (line->>'product_id')::UUID AS product_id,
+           sum((line->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS line
+    GROUP BY 1
+  ) l;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+    WHERE c.product_id IS NULL OR c.quantity IS NULL OR c.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'invalid_quantity';
+  END IF;
+
+  -- Lock the product rows (in a stable order to avoid deadlocks) before reading price and stock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT c.product_id FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(c.product_id) INTO _missing
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = c.product_id
+  WHERE p.id IS NULL;
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'product_not_found' USING DETAIL = _missing::TEXT;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('id', p.id, 'name', p.name, 'stock', p.stock)) INTO _short
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id
+  WHERE p.stock < c.quantity;
+
+  IF _short IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = _short::TEXT;
+  END IF;
+
+  _quote := public.quote_delivery(_district, _cart);
+  _delivery_charge := (_quote->>'charge')::DECIMAL(10, 2);
+
+  IF coalesce(trim(_coupon_code), '') <> '' THEN
+    _coupon := public.evaluate_coupon(_coupon_code, _cart, _delivery_charge, true);
+    _discount := (_coupon->>'discount')::DECIMAL(10, 2);
+  END IF;
+
+  SELECT sum(p.price * c.quantity) INTO _subtotal
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id;
+
+  INSERT INTO public.orders (
+    customer_name, phone, address, district, location_type, delivery_zone_id,
+    delivery_charge, coupon_id, coupon_code, discount_amount, total_amount, status
+  )
+  VALUES (
+    trim(_customer_name), trim(_phone), trim(_address), trim(_district), _quote->>'zone_code', (_quote->>'zone_id')::UUID,
+    _delivery_charge, (_coupon->>'coupon_id')::UUID, _coupon->>'code', _discount,
+    _subtotal + _delivery_charge - _discount, 'pending'
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price)
+  SELECT _order_id, c.product_id, c.quantity, p.price
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB, TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB, TEXT) IS 'Places an order atomically using current product prices, the delivery zone of the district and an optional coupon. Returns the new order ID.';
+
+-- 7. Tracking shows the discount
+CREATE OR REPLACE FUNCTION public.track_order(_order_id UUID, _phone TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'location_type', o.location_type,
+    'district', o.district,
+    'delivery_zone', z.name,
+    'delivery_charge', o.delivery_charge,
+    'coupon_code', o.coupon_code,
+    'discount_amount', o.discount_amount,
+    'total_amount', o.total_amount,
+    'created_at', o.created_at,
+    'items', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'name', p.name,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    'history', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', h.status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  LEFT JOIN public.delivery_zones z ON z.id = o.delivery_zone_id
+  WHERE o.id = _order_id
+    AND public.phone_matches(_phone, o.phone)
+$$;
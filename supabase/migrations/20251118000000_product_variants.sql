@@ -0,0 +1,634 @@
+-- Product variants
+-- A phone sold in three colors used to be three products. A product can now have variants
+-- (e.g. { "color": "Black", "storage": "128GB" }), each with its own SKU, optional price,
+-- stock and images. products.stock of a product with variants is the sum of its active
+-- variants, so listings keep working unchanged.
+
+-- 1. Variants
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sku TEXT UNIQUE,
+  price DECIMAL(10, 2) CHECK (price IS NULL OR price >= 0),
+  stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  images JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (product_id, options)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON public.product_variants(product_id, sort_order);
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product variants"
+ON public.product_variants FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Admins can insert product variants"
+ON public.product_variants FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update product variants"
+ON public.product_variants FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete product variants"
+ON public.product_variants FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_product_variants_updated_at
+BEFORE UPDATE ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.product_variants IS 'Sellable options of a product (color, storage, size, ...) with their own stock';
+COMMENT ON COLUMN public.product_variants.options IS 'Option attributes, e.g. {"color": "Black", "storage": "128GB"}';
+COMMENT ON COLUMN public.product_variants.price IS 'Overrides products.price when set';
+
+-- Human readable label of a variant, e.g. "Black / 128GB"
+CREATE OR REPLACE FUNCTION public.variant_label(_options JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT string_agg(value, ' / ') FROM jsonb_each_text(coalesce(_options, '{}'::jsonb))
+$$;
+
+-- Products know whether they have variants so listings can send customers to the picker
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS has_variants BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Orders and the stock ledger record the variant
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS variant_label TEXT;
+
+ALTER TABLE public.stock_movements
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.order_items.variant_label IS 'Variant options at the time of the order, kept if the variant is later deleted';
+
+-- 3. Variant stock changes are logged like product stock changes
+CREATE OR REPLACE FUNCTION public.log_variant_stock_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _change INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    _change := NEW.stock;
+  ELSE
+    _change := NEW.stock - OLD.stock;
+  END IF;
+
+  IF _change = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.stock_movements (product_id, variant_id, order_id, quantity_change, stock_after, reason)
+  VALUES (
+    NEW.product_id,
+    NEW.id,
+    nullif(current_setting('app.stock_order_id', true), '')::UUID,
+    _change,
+    NEW.stock,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'initial_stock'
+      ELSE coalesce(nullif(current_setting('app.stock_reason', true), ''), 'manual_adjustment')
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_product_variants_stock_insert
+AFTER INSERT ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.log_variant_stock_change();
+
+CREATE TRIGGER log_product_variants_stock_update
+AFTER UPDATE OF stock ON public.product_variants
+FOR EACH ROW
+WHEN (OLD.stock IS DISTINCT FROM NEW.stock)
+EXECUTE FUNCTION public.log_variant_stock_change();
+
+-- Product stock that is only a sum of variant stock is not logged a second time
+CREATE OR REPLACE FUNCTION public.log_product_stock_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _change INTEGER;
+BEGIN
+  IF current_setting('app.stock_sync', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    _change := NEW.stock;
+  ELSE
+    _change := NEW.stock - OLD.stock;
+  END IF;
+
+  IF _change = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.stock_movements (product_id, order_id, quantity_change, stock_after, reason)
+  VALUES (
+    NEW.id,
+    nullif(current_setting('app.stock_order_id', true), '')::UUID,
+    _change,
+    NEW.stock,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'initial_stock'
+      ELSE coalesce(nullif(current_setting('app.stock_reason', true), ''), 'manual_adjustment')
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Keep products.stock and products.has_variants in step with the variants
+CREATE OR REPLACE FUNCTION public.sync_product_variant_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+  _has_variants BOOLEAN;
+BEGIN
+  SELECT EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = _product_id) INTO _has_variants;
+
+  PERFORM set_config('app.stock_sync', 'on', true);
+
+  -- A product whose last variant was removed keeps its stock so the admin can take over from there
+  UPDATE public.products
+  SET has_variants = _has_variants,
+      stock = CASE
+        WHEN _has_variants THEN (
+          SELECT coalesce(sum(stock), 0)::INTEGER
+          FROM public.product_variants
+          WHERE product_id = _product_id AND is_active
+        )
+        ELSE stock
+      END
+  WHERE id = _product_id;
+
+  PERFORM set_config('app.stock_sync', '', true);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_product_variants_stock
+AFTER INSERT OR DELETE OR UPDATE OF stock, is_active, product_id ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_product_variant_stock();
+
+-- 4. Cart lines with the price that applies to them. Shared by quote_delivery(),
+-- evaluate_coupon() and place_order() so every total uses the same numbers.
+CREATE OR REPLACE FUNCTION public.cart_lines(_items JSONB)
+RETURNS TABLE (
+  product_id UUID,
+  variant_id UUID,
+  quantity INTEGER,
+  unit_price DECIMAL(10, 2),
+  weight_kg DECIMAL(10, 3)
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.product_id, v.id, c.quantity, coalesce(v.price, p.price), p.weight_kg
+  FROM jsonb_to_recordset(coalesce(_items, '[]'::jsonb)) AS c(product_id UUID, variant_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id AND v.product_id = c.product_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.quote_delivery(_district TEXT, _items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _zone public.delivery_zones;
+  _subtotal DECIMAL(10, 2);
+  _quantity INTEGER;
+  _weight DECIMAL(10, 3);
+  _charge DECIMAL(10, 2);
+BEGIN
+  IF coalesce(trim(_district), '') = '' THEN
+    RAISE EXCEPTION 'invalid_location';
+  END IF;
+
+  _zone := public.resolve_delivery_zone(_district);
+
+  IF _zone.id IS NULL THEN
+    RAISE EXCEPTION 'invalid_location';
+  END IF;
+
+  SELECT coalesce(sum(l.unit_price * l.quantity), 0),
+         coalesce(sum(l.quantity), 0),
+         coalesce(sum(l.weight_kg * l.quantity), 0)
+  INTO _subtotal, _quantity, _weight
+  FROM public.cart_lines(_items) l;
+
+  IF _zone.free_delivery_threshold IS NOT NULL AND _subtotal >= _zone.free_delivery_threshold THEN
+    _charge := 0;
+  ELSE
+    _charge := _zone.base_charge
+      + _zone.per_extra_item_charge * greatest(_quantity - 1, 0)
+      + _zone.weight_surcharge_per_kg * ceil(greatest(_weight - _zone.included_weight_kg, 0));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'zone_id', _zone.id,
+    'zone_code', _zone.code,
+    'zone_name', _zone.name,
+    'charge', _charge,
+    'free_delivery_threshold', _zone.free_delivery_threshold
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.evaluate_coupon(
+  _code TEXT,
+  _items JSONB,
+  _delivery_charge DECIMAL,
+  _lock BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _coupon public.coupons;
+  _used INTEGER;
+  _subtotal DECIMAL(10, 2);
+  _eligible DECIMAL(10, 2);
+  _item_discount DECIMAL(10, 2) := 0;
+  _delivery_discount DECIMAL(10, 2) := 0;
+BEGIN
+  IF _lock THEN
+    -- place_order() locks the coupon so two orders cannot both take the last use
+    SELECT * INTO _coupon FROM public.coupons
+    WHERE upper(code) = upper(trim(_code)) AND is_active
+    FOR UPDATE;
+  ELSE
+    SELECT * INTO _coupon FROM public.coupons
+    WHERE upper(code) = upper(trim(_code)) AND is_active;
+  END IF;
+
+  IF _coupon.id IS NULL THEN
+    RAISE EXCEPTION 'coupon_not_found';
+  END IF;
+
+  IF _coupon.starts_at IS NOT NULL AND _coupon.starts_at > now() THEN
+    RAISE EXCEPTION 'coupon_not_started';
+  END IF;
+
+  IF _coupon.expires_at IS NOT NULL AND _coupon.expires_at <= now() THEN
+    RAISE EXCEPTION 'coupon_expired';
+  END IF;
+
+  IF _coupon.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO _used
+    FROM public.orders
+    WHERE coupon_id = _coupon.id AND status <> 'cancelled';
+
+    IF _used >= _coupon.usage_limit THEN
+      RAISE EXCEPTION 'coupon_usage_limit';
+    END IF;
+  END IF;
+
+  SELECT coalesce(sum(l.unit_price * l.quantity), 0) INTO _subtotal
+  FROM public.cart_lines(_items) l;
+
+  IF _subtotal < _coupon.min_order_amount THEN
+    RAISE EXCEPTION 'coupon_min_order' USING DETAIL = _coupon.min_order_amount::TEXT;
+  END IF;
+
+  SELECT coalesce(sum(l.unit_price * l.quantity), 0) INTO _eligible
+  FROM public.cart_lines(_items) l
+  WHERE (cardinality(_coupon.product_ids) = 0 AND cardinality(_coupon.category_ids) = 0)
+    OR l.product_id = ANY(_coupon.product_ids)
+    OR EXISTS (
+      SELECT 1 FROM public.product_categories pc
+      WHERE pc.product_id = l.product_id AND pc.category_id = ANY(_coupon.category_ids)
+    );
+
+  IF _eligible = 0 THEN
+    RAISE EXCEPTION 'coupon_not_applicable';
+  END IF;
+
+  IF _coupon.discount_type = 'percentage' THEN
+    _item_discount := round(_eligible * _coupon.discount_value / 100, 2);
+    IF _coupon.max_discount IS NOT NULL THEN
+      _item_discount := least(_item_discount, _coupon.max_discount);
+    END IF;
+  ELSIF _coupon.discount_type = 'fixed' THEN
+    _item_discount := least(_coupon.discount_value, _eligible);
+  ELSE
+    _delivery_discount := coalesce(_delivery_charge, 0);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'coupon_id', _coupon.id,
+    'code', _coupon.code,
+    'discount_type', _coupon.discount_type,
+    'item_discount', _item_discount,
+    'delivery_discount', _delivery_discount,
+    'discount', _item_discount + _delivery_discount
+  );
+END;
+$$;
+
+-- 5. place_order accepts variant_id on each line.
+-- New errors: product_not_found now also lists unknown or inactive variant IDs, and
+-- variant_required (detail: product IDs) is raised for a product with variants ordered without one.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _customer_name TEXT,
+  _phone TEXT,
+  _address TEXT,
+  _district TEXT,
+  _items JSONB,
+  _coupon_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _quote JSONB;
+  _coupon JSONB;
+  _delivery_charge DECIMAL(10, 2);
+  _discount DECIMAL(10, 2) := 0;
+  _subtotal DECIMAL(10, 2);
+  _cart JSONB;
+  _missing JSONB;
+  _needs_variant JSONB;
+  _short JSONB;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'empty_cart';
+  END IF;
+
+  IF coalesce(trim(_customer_name), '') = ''
+    OR coalesce(trim(_phone), '') = ''
+    OR coalesce(trim(_address), '') = '' THEN
+    RAISE EXCEPTION 'invalid_customer';
+  END IF;
+
+  -- Merge duplicate lines so each product / variant is checked once
+  SELECT jsonb_agg(jsonb_build_object('product_id', l.product_id, 'variant_id', l.variant_id, 'quantity', l.quantity)) INTO _cart
+  FROM (
+    SELECT (line->>'product_id')::UUID AS product_id,
+           (line->>'variant_id')::UUID AS variant_id,
+           sum((line->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS line
+    GROUP BY 1, 2
+  ) l;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE c.product_id IS NULL OR c.quantity IS NULL OR c.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'invalid_quantity';
+  END IF;
+
+  -- Lock the product and variant rows (in a stable order to avoid deadlocks) before reading price and stock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT c.product_id FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.id IN (SELECT c.variant_id FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER))
+  ORDER BY v.id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(coalesce(c.variant_id, c.product_id)) INTO _missing
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id AND v.product_id = c.product_id AND v.is_active
+  WHERE p.id IS NULL OR (c.variant_id IS NOT NULL AND v.id IS NULL);
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'product_not_found' USING DETAIL = _missing::TEXT;
+  END IF;
+
+  SELECT jsonb_agg(DISTINCT c.product_id) INTO _needs_variant
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.variant_id IS NULL AND p.has_variants;
+
+  IF _needs_variant IS NOT NULL THEN
+    RAISE EXCEPTION 'variant_required' USING DETAIL = _needs_variant::TEXT;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'id', p.id,
+    'variant_id', v.id,
+    'name', CASE WHEN v.id IS NULL THEN p.name ELSE p.name || ' (' || public.variant_label(v.options) || ')' END,
+    'stock', coalesce(v.stock, p.stock)
+  )) INTO _short
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id
+  WHERE coalesce(v.stock, p.stock) < c.quantity;
+
+  IF _short IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = _short::TEXT;
+  END IF;
+
+  _quote := public.quote_delivery(_district, _cart);
+  _delivery_charge := (_quote->>'charge')::DECIMAL(10, 2);
+
+  IF coalesce(trim(_coupon_code), '') <> '' THEN
+    _coupon := public.evaluate_coupon(_coupon_code, _cart, _delivery_charge, true);
+    _discount := (_coupon->>'discount')::DECIMAL(10, 2);
+  END IF;
+
+  SELECT sum(l.unit_price * l.quantity) INTO _subtotal
+  FROM public.cart_lines(_cart) l;
+
+  INSERT INTO public.orders (
+    customer_name, phone, address, district, location_type, delivery_zone_id,
+    delivery_charge, coupon_id, coupon_code, discount_amount, total_amount, status
+  )
+  VALUES (
+    trim(_customer_name), trim(_phone), trim(_address), trim(_district), _quote->>'zone_code', (_quote->>'zone_id')::UUID,
+    _delivery_charge, (_coupon->>'coupon_id')::UUID, _coupon->>'code', _discount,
+    _subtotal + _delivery_charge - _discount, 'pending'
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, product_id, variant_id, variant_label, quantity, price)
+  SELECT _order_id, l.product_id, l.variant_id, public.variant_label(v.options), l.quantity, l.unit_price
+  FROM public.cart_lines(_cart) l
+  LEFT JOIN public.product_variants v ON v.id = l.variant_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- 6. Confirming or cancelling an order moves variant stock for variant lines
+CREATE OR REPLACE FUNCTION public.apply_order_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _was_holding BOOLEAN := public.order_status_holds_stock(OLD.status);
+  _now_holding BOOLEAN := public.order_status_holds_stock(NEW.status);
+  _direction INTEGER;
+  _reason TEXT;
+  _short JSONB;
+BEGIN
+  IF _was_holding = _now_holding THEN
+    RETURN NEW;
+  END IF;
+
+  IF _now_holding THEN
+    _direction := -1;
+    _reason := 'order_confirmed';
+  ELSE
+    _direction := 1;
+    _reason := CASE WHEN NEW.status = 'cancelled' THEN 'order_cancelled' ELSE 'order_reverted' END;
+  END IF;
+
+  -- Lock the products and variants in a stable order so concurrent transitions cannot interleave
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT oi.product_id FROM public.order_items oi WHERE oi.order_id = NEW.id)
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.id IN (SELECT oi.variant_id FROM public.order_items oi WHERE oi.order_id = NEW.id)
+  ORDER BY v.id
+  FOR UPDATE;
+
+  IF _direction < 0 THEN
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', p.id,
+      'variant_id', v.id,
+      'name', CASE WHEN v.id IS NULL THEN p.name ELSE p.name || ' (' || public.variant_label(v.options) || ')' END,
+      'stock', coalesce(v.stock, p.stock)
+    )) INTO _short
+    FROM (
+      SELECT product_id, variant_id, sum(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id
+      GROUP BY product_id, variant_id
+    ) i
+    JOIN public.products p ON p.id = i.product_id
+    LEFT JOIN public.product_variants v ON v.id = i.variant_id
+    WHERE coalesce(v.stock, p.stock) < i.quantity;
+
+    IF _short IS NOT NULL THEN
+      RAISE EXCEPTION 'insufficient_stock' USING DETAIL = _short::TEXT;
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.stock_order_id', NEW.id::TEXT, true);
+  PERFORM set_config('app.stock_reason', _reason, true);
+
+  UPDATE public.product_variants v
+  SET stock = v.stock + _direction * i.quantity
+  FROM (
+    SELECT variant_id, sum(quantity)::INTEGER AS quantity
+    FROM public.order_items
+    WHERE order_id = NEW.id AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) i
+  WHERE v.id = i.variant_id;
+
+  UPDATE public.products p
+  SET stock = p.stock + _direction * i.quantity
+  FROM (
+    SELECT product_id, sum(quantity)::INTEGER AS quantity
+    FROM public.order_items
+    WHERE order_id = NEW.id AND variant_id IS NULL
+    GROUP BY product_id
+  ) i
+  WHERE p.id = i.product_id;
+
+  PERFORM set_config('app.stock_order_id', '', true);
+  PERFORM set_config('app.stock_reason', '', true);
+
+  RETURN NEW;
+END;
+$$;
+
+-- 7. Tracking shows the variant of each item
+CREATE OR REPLACE FUNCTION public.track_order(_order_id UUID, _phone TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'location_type', o.location_type,
+    'district', o.district,
+    'delivery_zone', z.name,
+    'delivery_charge', o.delivery_charge,
+    'coupon_code', o.coupon_code,
+    'discount_amount', o.discount_amount,
+    'total_amount', o.total_amount,
+    'created_at', o.created_at,
+    'items', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'name', p.name,
+        'variant_label', oi.variant_label,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    'history', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', h.status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  LEFT JOIN public.delivery_zones z ON z.id = o.delivery_zone_id
+  WHERE o.id = _order_id
+    AND public.phone_matches(_phone, o.phone)
+$$;
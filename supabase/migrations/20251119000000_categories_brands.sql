@@ -0,0 +1,73 @@
+-- Categories and brands
+-- categories / product_categories were added with coupons (20251117000000_coupons.sql).
+-- This adds brands, lets categories nest safely and indexes the lookups Home filters on.
+
+-- 1. Brands (a product has at most one)
+CREATE TABLE IF NOT EXISTS public.brands (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  logo_url TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.brands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view brands"
+ON public.brands FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Admins can manage brands"
+ON public.brands FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_brands_updated_at
+BEFORE UPDATE ON public.brands
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS brand_id UUID REFERENCES public.brands(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_brand_id ON public.products(brand_id);
+
+-- 2. Nested categories
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON public.categories(parent_id);
+
+COMMENT ON COLUMN public.categories.parent_id IS 'Parent category; a product in a child category also shows up under its parents';
+
+-- A category cannot be moved under itself or one of its own children
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT c.id, c.parent_id FROM public.categories c WHERE c.id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id FROM public.categories c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'category_cycle';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_categories_parent
+BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.check_category_parent();
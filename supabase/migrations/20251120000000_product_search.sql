@@ -0,0 +1,279 @@
+-- Server-side product search
+-- Home used to download every product and filter/sort/paginate in the browser.
+-- search_products() does the matching, facet filters, sorting and keyset pagination in Postgres.
+
+-- 1. Search index
+-- The 'simple' config keeps Bengali words as they are; 'english' adds stems so
+-- "chargers" also finds "charger". Names weigh more than descriptions.
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON public.products USING GIN (search_vector);
+
+-- The text search parser can split Bengali words at vowel signs, so substring
+-- matches on name/description are also allowed and backed by trigram indexes
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm ON public.products USING GIN (name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_description_trgm ON public.products USING GIN (description extensions.gin_trgm_ops);
+
+-- Indexes for the sort orders
+CREATE INDEX IF NOT EXISTS idx_products_priority_created ON public.products(priority, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_products_price ON public.products(price);
+CREATE INDEX IF NOT EXISTS idx_products_created_at ON public.products(created_at);
+CREATE INDEX IF NOT EXISTS idx_product_categories_category_id ON public.product_categories(category_id);
+
+-- 2. Query text -> tsquery
+-- Every word is matched as a prefix ("ear" finds "earbuds"), OR-ed with the
+-- English parse of the whole query
+CREATE OR REPLACE FUNCTION public.product_search_query(_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery('simple', string_agg('''' || term || ''':*', ' & '))
+    || websearch_to_tsquery('english', _query)
+  FROM regexp_split_to_table(regexp_replace(lower(_query), '[&|!():*''\\<>]', ' ', 'g'), '\s+') AS term
+  WHERE term <> '';
+$$;
+
+-- 3. Products matching the search text and facet filters, with a relevance score
+-- A selected category also matches products in its sub-categories.
+CREATE OR REPLACE FUNCTION public.match_products(
+  _query TEXT DEFAULT NULL,
+  _category_slugs TEXT[] DEFAULT NULL,
+  _brand_slugs TEXT[] DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _in_stock BOOLEAN DEFAULT false
+)
+RETURNS TABLE (product_id UUID, rank REAL)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _q TEXT := nullif(trim(coalesce(_query, '')), '');
+  _escaped TEXT;
+  _tsq tsquery;
+BEGIN
+  IF _q IS NOT NULL THEN
+    _escaped := regexp_replace(_q, '([%_\\])', '\\\1', 'g');
+    _tsq := public.product_search_query(_q);
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE selected_categories AS (
+    SELECT c.id FROM public.categories c WHERE c.slug = ANY (_category_slugs)
+    UNION
+    SELECT c.id FROM public.categories c JOIN selected_categories s ON c.parent_id = s.id
+  )
+  SELECT
+    p.id,
+    CASE
+      WHEN _q IS NULL THEN 0::real
+      ELSE coalesce(ts_rank_cd(p.search_vector, _tsq), 0)
+        + CASE
+            WHEN p.name ILIKE _escaped || '%' THEN 1
+            WHEN p.name ILIKE '%' || _escaped || '%' THEN 0.5
+            ELSE 0
+          END
+    END::real
+  FROM public.products p
+  WHERE (
+      _q IS NULL
+      OR p.search_vector @@ _tsq
+      OR p.name ILIKE '%' || _escaped || '%'
+      OR p.description ILIKE '%' || _escaped || '%'
+    )
+    AND (
+      coalesce(cardinality(_category_slugs), 0) = 0
+      OR EXISTS (
+        SELECT 1
+        FROM public.product_categories pc
+        JOIN selected_categories s ON s.id = pc.category_id
+        WHERE pc.product_id = p.id
+      )
+    )
+    AND (
+      coalesce(cardinality(_brand_slugs), 0) = 0
+      OR p.brand_id IN (SELECT b.id FROM public.brands b WHERE b.slug = ANY (_brand_slugs))
+    )
+    AND (_min_price IS NULL OR p.price >= _min_price)
+    AND (_max_price IS NULL OR p.price <= _max_price)
+    AND (NOT coalesce(_in_stock, false) OR p.stock > 0);
+END;
+$$;
+
+-- 4. One page of results
+-- Pages are fetched with a keyset cursor ({k1, k2, k3, id} of the last row of the
+-- previous page). _offset is only used when jumping to a page whose cursor the
+-- client does not have yet.
+CREATE OR REPLACE FUNCTION public.search_products(
+  _query TEXT DEFAULT NULL,
+  _category_slugs TEXT[] DEFAULT NULL,
+  _brand_slugs TEXT[] DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _in_stock BOOLEAN DEFAULT false,
+  _sort TEXT DEFAULT 'priority',
+  _cursor JSONB DEFAULT NULL,
+  _offset INTEGER DEFAULT 0,
+  _limit INTEGER DEFAULT 12
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _k1 TEXT := '0::numeric';
+  _k2 TEXT := '0::numeric';
+  _k3 TEXT := '''''::text';
+  _desc BOOLEAN := false;
+  _result JSONB;
+BEGIN
+  _limit := least(greatest(coalesce(_limit, 12), 1), 48);
+
+  IF _sort = 'relevance' AND nullif(trim(coalesce(_query, '')), '') IS NULL THEN
+    _sort := 'priority';
+  END IF;
+
+  -- Every sort is expressed as (k1, k2, k3, id) in a single direction so the
+  -- cursor comparison is a plain row comparison
+  CASE coalesce(_sort, 'priority')
+    WHEN 'relevance' THEN
+      _k1 := 'm.rank::numeric';
+      _desc := true;
+    WHEN 'price-low' THEN
+      _k1 := 'p.price';
+    WHEN 'price-high' THEN
+      _k1 := 'p.price';
+      _desc := true;
+    WHEN 'name-asc' THEN
+      _k3 := 'lower(p.name)';
+    WHEN 'name-desc' THEN
+      _k3 := 'lower(p.name)';
+      _desc := true;
+    WHEN 'newest' THEN
+      _k1 := 'extract(epoch FROM p.created_at)';
+      _desc := true;
+    WHEN 'oldest' THEN
+      _k1 := 'extract(epoch FROM p.created_at)';
+    ELSE
+      -- priority: lower number first, then newest first
+      _k1 := 'coalesce(p.priority, 999)::numeric';
+      _k2 := '-extract(epoch FROM p.created_at)';
+  END CASE;
+
+  EXECUTE format(
+    $sql$
+    WITH matched AS (
+      SELECT p.*, %1$s AS k1, %2$s AS k2, %3$s AS k3
+      FROM public.match_products($1, $2, $3, $4, $5, $6) m
+      JOIN public.products p ON p.id = m.product_id
+    ),
+    page AS (
+      SELECT *
+      FROM matched
+      WHERE $7 IS NULL
+        OR (k1, k2, k3, id) %4$s (($7->>'k1')::numeric, ($7->>'k2')::numeric, $7->>'k3', ($7->>'id')::uuid)
+      ORDER BY k1 %5$s, k2 %5$s, k3 %5$s, id %5$s
+      OFFSET CASE WHEN $7 IS NULL THEN greatest(coalesce($8, 0), 0) ELSE 0 END
+      LIMIT $9 + 1
+    ),
+    numbered AS (
+      SELECT *, row_number() OVER (ORDER BY k1 %5$s, k2 %5$s, k3 %5$s, id %5$s) AS rn
+      FROM page
+    )
+    SELECT jsonb_build_object(
+      'items', coalesce((
+        SELECT jsonb_agg(jsonb_build_object(
+          'id', n.id,
+          'name', n.name,
+          'description', n.description,
+          'price', n.price,
+          'image_url', n.image_url,
+          'images', n.images,
+          'stock', n.stock,
+          'priority', n.priority,
+          'has_variants', n.has_variants,
+          'brand_id', n.brand_id,
+          'created_at', n.created_at
+        ) ORDER BY n.rn)
+        FROM numbered n
+        WHERE n.rn <= $9
+      ), '[]'::jsonb),
+      'next_cursor', (
+        SELECT jsonb_build_object('k1', n.k1, 'k2', n.k2, 'k3', n.k3, 'id', n.id)
+        FROM numbered n
+        WHERE n.rn = $9
+          AND EXISTS (SELECT 1 FROM numbered x WHERE x.rn = $9 + 1)
+      ),
+      'total_count', (SELECT count(*) FROM matched)
+    )
+    $sql$,
+    _k1, _k2, _k3,
+    CASE WHEN _desc THEN '<' ELSE '>' END,
+    CASE WHEN _desc THEN 'DESC' ELSE 'ASC' END
+  )
+  INTO _result
+  USING _query, _category_slugs, _brand_slugs, _min_price, _max_price, _in_stock, _cursor, _offset, _limit;
+
+  RETURN _result;
+END;
+$$;
+
+-- 5. Facet counts and price range for the filter panel
+-- Counted over the search results only, so each option shows how many products
+-- it would narrow the current search to. A category counts its sub-categories too.
+CREATE OR REPLACE FUNCTION public.product_search_facets(_query TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE matched AS (
+    SELECT p.id, p.price, p.brand_id
+    FROM public.match_products(_query) m
+    JOIN public.products p ON p.id = m.product_id
+  ),
+  category_tree AS (
+    SELECT c.id AS ancestor_id, c.id AS category_id FROM public.categories c
+    UNION ALL
+    SELECT t.ancestor_id, c.id FROM category_tree t JOIN public.categories c ON c.parent_id = t.category_id
+  )
+  SELECT jsonb_build_object(
+    'categories', coalesce((
+      SELECT jsonb_object_agg(counts.ancestor_id, counts.products)
+      FROM (
+        SELECT t.ancestor_id, count(DISTINCT pc.product_id) AS products
+        FROM category_tree t
+        JOIN public.product_categories pc ON pc.category_id = t.category_id
+        JOIN matched m ON m.id = pc.product_id
+        GROUP BY t.ancestor_id
+      ) counts
+    ), '{}'::jsonb),
+    'brands', coalesce((
+      SELECT jsonb_object_agg(counts.brand_id, counts.products)
+      FROM (
+        SELECT m.brand_id, count(*) AS products
+        FROM matched m
+        WHERE m.brand_id IS NOT NULL
+        GROUP BY m.brand_id
+      ) counts
+    ), '{}'::jsonb),
+    'min_price', (SELECT min(m.price) FROM matched m),
+    'max_price', (SELECT max(m.price) FROM matched m)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, BOOLEAN, TEXT, JSONB, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.product_search_facets(TEXT) TO anon, authenticated;
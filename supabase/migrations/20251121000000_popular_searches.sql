@@ -0,0 +1,34 @@
+-- Popular searches for the Header search dropdown
+-- user_activity is only readable by admins, so the storefront gets the top
+-- search terms through this function instead of reading the rows.
+
+CREATE INDEX IF NOT EXISTS idx_user_activity_type_created ON public.user_activity(activity_type, created_at DESC);
+
+-- Most searched terms of the last _days days, counted once per session. Anyone can log
+-- search events, so only terms that find at least one product are suggested; anything
+-- else typed or forged into the log never reaches the dropdown.
+CREATE OR REPLACE FUNCTION public.popular_searches(_limit INTEGER DEFAULT 5, _days INTEGER DEFAULT 30)
+RETURNS TABLE (query TEXT, searches BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH terms AS (
+    SELECT lower(trim(a.metadata->>'search_query')) AS query, count(DISTINCT a.session_id) AS searches
+    FROM public.user_activity a
+    WHERE a.activity_type = 'search'
+      AND a.created_at > now() - make_interval(days => least(greatest(coalesce(_days, 30), 1), 365))
+      AND length(trim(a.metadata->>'search_query')) BETWEEN 2 AND 50
+    GROUP BY 1
+    -- A term searched in a single session is more likely a typo than a trend
+    HAVING count(DISTINCT a.session_id) > 1
+  )
+  SELECT t.query, t.searches
+  FROM terms t
+  WHERE EXISTS (SELECT 1 FROM public.match_products(t.query))
+  ORDER BY t.searches DESC, t.query
+  LIMIT least(greatest(coalesce(_limit, 5), 1), 20);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.popular_searches(INTEGER, INTEGER) TO anon, authenticated;
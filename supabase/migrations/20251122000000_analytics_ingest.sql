@@ -0,0 +1,99 @@
+-- Batched analytics ingest
+-- The storefront used to insert into user_activity directly, one request per event,
+-- after looking up its own IP with a third-party service. Events are now sent in
+-- batches to track_events(), which takes the IP and user agent from the request.
+
+-- 1. Idempotent events
+-- Each event carries a client-generated id, so a batch that is retried (or sent
+-- again from the offline queue) is only stored once.
+ALTER TABLE public.user_activity
+ADD COLUMN IF NOT EXISTS event_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_activity_event_id ON public.user_activity(event_id);
+
+-- 2. No more direct inserts; everything goes through track_events()
+DROP POLICY IF EXISTS "Anyone can insert activity" ON public.user_activity;
+
+-- 3. Ingest
+-- _events: [{event_id, session_id, activity_type, page_path, product_id?, product_name?, metadata?, occurred_at?}]
+-- Returns the number of new rows. Events with an unknown type or missing ids are skipped.
+CREATE OR REPLACE FUNCTION public.track_events(_events JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _headers JSONB := nullif(current_setting('request.headers', true), '')::jsonb;
+  _ip TEXT;
+  _user_agent TEXT;
+  _inserted INTEGER;
+BEGIN
+  IF _events IS NULL OR jsonb_typeof(_events) <> 'array' THEN
+    RAISE EXCEPTION 'invalid_events';
+  END IF;
+
+  IF jsonb_array_length(_events) > 50 THEN
+    RAISE EXCEPTION 'too_many_events';
+  END IF;
+
+  -- First address in the proxy chain is the client
+  _ip := nullif(trim(split_part(coalesce(
+    _headers->>'cf-connecting-ip',
+    _headers->>'x-forwarded-for',
+    _headers->>'x-real-ip',
+    ''
+  ), ',', 1)), '');
+  _user_agent := left(_headers->>'user-agent', 500);
+
+  INSERT INTO public.user_activity (
+    event_id, session_id, user_agent, ip_address, activity_type,
+    page_path, product_id, product_name, metadata, created_at
+  )
+  SELECT
+    (e->>'event_id')::uuid,
+    left(e->>'session_id', 100),
+    _user_agent,
+    _ip,
+    e->>'activity_type',
+    left(e->>'page_path', 500),
+    p.id,
+    left(e->>'product_name', 200),
+    CASE WHEN jsonb_typeof(e->'metadata') = 'object' THEN e->'metadata' ELSE '{}'::jsonb END,
+    -- Queued events keep the time they happened, within the last week
+    CASE
+      WHEN e->>'occurred_at' ~ '^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}'
+        THEN least(now(), greatest((e->>'occurred_at')::timestamptz, now() - interval '7 days'))
+      ELSE now()
+    END
+  FROM jsonb_array_elements(_events) AS e
+  -- Products deleted since the event was queued are stored without the link
+  LEFT JOIN public.products p
+    ON p.id = CASE WHEN e->>'product_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+                   THEN (e->>'product_id')::uuid END
+  WHERE e->>'event_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    AND coalesce(e->>'session_id', '') <> ''
+    AND e->>'activity_type' IN (
+      'page_view', 'product_view', 'product_click', 'add_to_cart',
+      'remove_from_cart', 'order_placed', 'search', 'button_click'
+    )
+  ON CONFLICT (event_id) DO NOTHING;
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+  RETURN _inserted;
+END;
+$$;
+
+-- navigator.sendBeacon cannot set headers, so it posts the batch as text/plain
+-- to this single-parameter variant (PostgREST passes the raw body through)
+CREATE OR REPLACE FUNCTION public.track_events_beacon(TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.track_events($1::jsonb);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.track_events(JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.track_events_beacon(TEXT) TO anon, authenticated;
@@ -0,0 +1,131 @@
+-- Funnel report for the Admin activity tab
+-- Follows each session (user_activity.session_id) from product_view to add_to_cart
+-- to order_placed and reports conversion per step, per product and per referrer.
+-- Runs with the caller's rights, so only admins (who can read user_activity) get numbers.
+
+-- _from inclusive, _to exclusive
+CREATE OR REPLACE FUNCTION public.activity_funnel(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH events AS (
+    SELECT a.session_id, a.activity_type, a.product_id, a.product_name, a.metadata, a.created_at
+    FROM public.user_activity a
+    WHERE a.created_at >= _from
+      AND a.created_at < _to
+      AND a.activity_type IN ('page_view', 'product_view', 'add_to_cart', 'order_placed')
+  ),
+  sessions AS (
+    SELECT
+      e.session_id,
+      min(e.created_at) FILTER (WHERE e.activity_type = 'product_view') AS viewed_at,
+      min(e.created_at) FILTER (WHERE e.activity_type = 'add_to_cart') AS carted_at,
+      min(e.created_at) FILTER (WHERE e.activity_type = 'order_placed') AS ordered_at,
+      -- Where the visitor came from: the referrer of the session's first page view
+      (array_agg(e.metadata->>'referrer' ORDER BY e.created_at) FILTER (WHERE e.activity_type = 'page_view'))[1] AS referrer
+    FROM events e
+    GROUP BY e.session_id
+  ),
+  -- Each step only counts sessions that also reached the step before it
+  steps AS (
+    SELECT
+      s.*,
+      s.viewed_at IS NOT NULL AS viewed,
+      s.viewed_at IS NOT NULL AND s.carted_at IS NOT NULL AS carted,
+      s.viewed_at IS NOT NULL AND s.carted_at IS NOT NULL AND s.ordered_at IS NOT NULL AS ordered,
+      coalesce(substring(s.referrer FROM '^https?://(?:www\.)?([^/:?#]+)'), 'direct') AS source
+    FROM sessions s
+  ),
+  totals AS (
+    SELECT
+      count(*) AS sessions,
+      count(*) FILTER (WHERE viewed) AS viewed,
+      count(*) FILTER (WHERE carted) AS carted,
+      count(*) FILTER (WHERE ordered) AS ordered,
+      -- Any session that added to cart but did not order, whether or not it viewed a product page
+      count(*) FILTER (WHERE carted_at IS NOT NULL) AS any_carted,
+      count(*) FILTER (WHERE carted_at IS NOT NULL AND ordered_at IS NULL) AS abandoned,
+      avg(extract(epoch FROM ordered_at - viewed_at)) FILTER (WHERE ordered AND ordered_at >= viewed_at) AS avg_seconds_to_purchase
+    FROM steps
+  ),
+  product_sessions AS (
+    SELECT
+      e.product_id,
+      max(e.product_name) AS product_name,
+      count(DISTINCT e.session_id) FILTER (WHERE e.activity_type = 'product_view') AS viewed,
+      count(DISTINCT e.session_id) FILTER (WHERE e.activity_type = 'add_to_cart') AS carted
+    FROM events e
+    WHERE e.product_id IS NOT NULL
+    GROUP BY e.product_id
+  ),
+  -- order_placed events carry the order id; the order's items say which products were bought
+  product_orders AS (
+    SELECT oi.product_id, count(DISTINCT e.session_id) AS ordered
+    FROM events e
+    JOIN public.order_items oi ON oi.order_id::text = e.metadata->>'order_id'
+    WHERE e.activity_type = 'order_placed'
+    GROUP BY oi.product_id
+  ),
+  products_report AS (
+    SELECT
+      ps.product_id,
+      coalesce(p.name, ps.product_name) AS name,
+      ps.viewed,
+      ps.carted,
+      coalesce(po.ordered, 0) AS ordered
+    FROM product_sessions ps
+    LEFT JOIN product_orders po ON po.product_id = ps.product_id
+    LEFT JOIN public.products p ON p.id = ps.product_id
+    ORDER BY ps.viewed DESC, ps.carted DESC
+    LIMIT 20
+  ),
+  referrers_report AS (
+    SELECT
+      source,
+      count(*) AS sessions,
+      count(*) FILTER (WHERE viewed) AS viewed,
+      count(*) FILTER (WHERE carted) AS carted,
+      count(*) FILTER (WHERE ordered) AS ordered
+    FROM steps
+    GROUP BY source
+    ORDER BY count(*) DESC
+    LIMIT 20
+  )
+  SELECT jsonb_build_object(
+    'sessions', t.sessions,
+    'viewed', t.viewed,
+    'carted', t.carted,
+    'ordered', t.ordered,
+    'cart_abandonment_rate', round(100.0 * t.abandoned / nullif(t.any_carted, 0), 1),
+    'avg_seconds_to_purchase', round(t.avg_seconds_to_purchase),
+    'products', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', r.product_id,
+        'name', r.name,
+        'viewed', r.viewed,
+        'carted', r.carted,
+        'ordered', r.ordered,
+        'cart_rate', round(100.0 * r.carted / nullif(r.viewed, 0), 1),
+        'order_rate', round(100.0 * r.ordered / nullif(r.viewed, 0), 1)
+      ) ORDER BY r.viewed DESC, r.carted DESC)
+      FROM products_report r
+    ), '[]'::jsonb),
+    'referrers', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'source', r.source,
+        'sessions', r.sessions,
+        'viewed', r.viewed,
+        'carted', r.carted,
+        'ordered', r.ordered,
+        'conversion_rate', round(100.0 * r.ordered / nullif(r.sessions, 0), 1)
+      ) ORDER BY r.sessions DESC)
+      FROM referrers_report r
+    ), '[]'::jsonb)
+  )
+  FROM totals t;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.activity_funnel(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.activity_funnel(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
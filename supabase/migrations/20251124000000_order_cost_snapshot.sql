@@ -0,0 +1,292 @@
+-- Historical cost of goods
+-- Profit used to be computed from products.cost_price at the time the report was viewed, so
+-- changing a product's cost rewrote past profit, and deleting a product deleted its order lines.
+-- Order lines now keep the cost price and product name from when the order was placed, and
+-- orders keep what the courier charges the shop for the delivery.
+
+-- 1. Snapshot columns
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS cost_price DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS product_name TEXT;
+
+COMMENT ON COLUMN public.order_items.cost_price IS 'Unit cost price of the product when the order was placed';
+
+-- What the courier charges the shop per order in this zone (the customer pays delivery_charge)
+ALTER TABLE public.delivery_zones
+ADD COLUMN IF NOT EXISTS delivery_cost DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (delivery_cost >= 0);
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS delivery_cost DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Existing lines get today's cost: the best that is known about them
+UPDATE public.order_items oi
+SET cost_price = coalesce(p.cost_price, 0),
+    product_name = p.name
+FROM public.products p
+WHERE p.id = oi.product_id
+  AND oi.product_name IS NULL;
+
+-- 2. Deleting a product keeps its order lines
+ALTER TABLE public.order_items ALTER COLUMN product_id DROP NOT NULL;
+ALTER TABLE public.order_items DROP CONSTRAINT IF EXISTS order_items_product_id_fkey;
+ALTER TABLE public.order_items
+ADD CONSTRAINT order_items_product_id_fkey
+FOREIGN KEY (product_id) REFERENCES public.products(id) ON DELETE SET NULL;
+
+-- 3. Take the snapshots when rows are inserted, whatever inserts them
+CREATE OR REPLACE FUNCTION public.snapshot_order_item_cost()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT coalesce(p.cost_price, 0), p.name
+  INTO NEW.cost_price, NEW.product_name
+  FROM public.products p
+  WHERE p.id = NEW.product_id;
+
+  NEW.cost_price := coalesce(NEW.cost_price, 0);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS snapshot_order_item_cost ON public.order_items;
+CREATE TRIGGER snapshot_order_item_cost
+BEFORE INSERT ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_order_item_cost();
+
+CREATE OR REPLACE FUNCTION public.snapshot_order_delivery_cost()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.delivery_cost := coalesce(
+    (SELECT z.delivery_cost FROM public.delivery_zones z WHERE z.id = NEW.delivery_zone_id),
+    0
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS snapshot_order_delivery_cost ON public.orders;
+CREATE TRIGGER snapshot_order_delivery_cost
+BEFORE INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_order_delivery_cost();
+
+-- 4. Tracking shows the stored name of deleted products
+CREATE OR REPLACE FUNCTION public.track_order(_order_id UUID, _phone TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'location_type', o.location_type,
+    'district', o.district,
+    'delivery_zone', z.name,
+    'delivery_charge', o.delivery_charge,
+    'coupon_code', o.coupon_code,
+    'discount_amount', o.discount_amount,
+    'total_amount', o.total_amount,
+    'created_at', o.created_at,
+    'items', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'name', coalesce(p.name, oi.product_name),
+        'variant_label', oi.variant_label,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    'history', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', h.status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  LEFT JOIN public.delivery_zones z ON z.id = o.delivery_zone_id
+  WHERE o.id = _order_id
+    AND public.phone_matches(_phone, o.phone)
+$$;
+
+-- 5. Profit report for the Admin sales tab
+-- Sales are orders whose status holds stock (confirmed / delivered), placed in [_from, _to).
+-- Cancelled orders that had been confirmed still cost the shop their delivery.
+CREATE OR REPLACE FUNCTION public.profit_report(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_orders AS (
+    SELECT o.*
+    FROM public.orders o
+    WHERE o.created_at >= _from
+      AND o.created_at < _to
+  ),
+  sold AS (
+    SELECT * FROM period_orders o WHERE public.order_status_holds_stock(o.status)
+  ),
+  sold_lines AS (
+    SELECT
+      oi.order_id,
+      oi.product_id,
+      coalesce(p.name, oi.product_name) AS name,
+      oi.quantity,
+      oi.price * oi.quantity AS revenue,
+      oi.cost_price * oi.quantity AS cost
+    FROM sold o
+    JOIN public.order_items oi ON oi.order_id = o.id
+    LEFT JOIN public.products p ON p.id = oi.product_id
+  ),
+  order_totals AS (
+    SELECT
+      o.id,
+      o.created_at,
+      o.delivery_zone_id,
+      o.location_type,
+      o.delivery_charge,
+      o.delivery_cost,
+      coalesce(o.discount_amount, 0) AS discount,
+      coalesce((SELECT sum(l.revenue) FROM sold_lines l WHERE l.order_id = o.id), 0) AS revenue,
+      coalesce((SELECT sum(l.cost) FROM sold_lines l WHERE l.order_id = o.id), 0) AS cost
+    FROM sold o
+  ),
+  cancelled AS (
+    SELECT
+      count(*) AS orders,
+      coalesce(sum(o.total_amount), 0) AS value,
+      -- Only orders that were sent out (confirmed at some point) cost a delivery
+      coalesce(sum(o.delivery_cost) FILTER (WHERE EXISTS (
+        SELECT 1 FROM public.order_status_history h
+        WHERE h.order_id = o.id AND public.order_status_holds_stock(h.status)
+      )), 0) AS loss
+    FROM period_orders o
+    WHERE o.status = 'cancelled'
+  ),
+  by_month AS (
+    SELECT
+      to_char(date_trunc('month', t.created_at AT TIME ZONE 'Asia/Dhaka'), 'YYYY-MM') AS month,
+      count(*) AS orders,
+      sum(t.revenue) AS revenue,
+      sum(t.cost) AS cost,
+      sum(t.delivery_charge) AS delivery_charge,
+      sum(t.delivery_cost) AS delivery_cost,
+      sum(t.discount) AS discount
+    FROM order_totals t
+    GROUP BY 1
+  ),
+  by_zone AS (
+    SELECT
+      t.delivery_zone_id AS zone_id,
+      coalesce(z.name, t.location_type, '—') AS zone,
+      count(*) AS orders,
+      sum(t.revenue) AS revenue,
+      sum(t.cost) AS cost,
+      sum(t.delivery_charge) AS delivery_charge,
+      sum(t.delivery_cost) AS delivery_cost,
+      sum(t.discount) AS discount
+    FROM order_totals t
+    LEFT JOIN public.delivery_zones z ON z.id = t.delivery_zone_id
+    GROUP BY 1, 2
+  ),
+  by_product AS (
+    SELECT
+      l.product_id,
+      max(l.name) AS name,
+      sum(l.quantity) AS quantity,
+      sum(l.revenue) AS revenue,
+      sum(l.cost) AS cost
+    FROM sold_lines l
+    -- Lines of deleted products are told apart by their stored name
+    GROUP BY l.product_id, CASE WHEN l.product_id IS NULL THEN l.name END
+  ),
+  totals AS (
+    SELECT
+      count(*) AS orders,
+      coalesce(sum(t.revenue), 0) AS revenue,
+      coalesce(sum(t.cost), 0) AS cost,
+      coalesce(sum(t.delivery_charge), 0) AS delivery_charge,
+      coalesce(sum(t.delivery_cost), 0) AS delivery_cost,
+      coalesce(sum(t.discount), 0) AS discount
+    FROM order_totals t
+  )
+  SELECT jsonb_build_object(
+    'summary', jsonb_build_object(
+      'orders', t.orders,
+      'revenue', t.revenue,
+      'cost', t.cost,
+      'gross_profit', t.revenue - t.cost,
+      'gross_margin', round(100 * (t.revenue - t.cost) / nullif(t.revenue, 0), 1),
+      'delivery_charge', t.delivery_charge,
+      'delivery_cost', t.delivery_cost,
+      'discount', t.discount,
+      'cancelled_orders', c.orders,
+      'cancelled_value', c.value,
+      'cancelled_loss', c.loss,
+      'net_profit', t.revenue - t.cost + t.delivery_charge - t.delivery_cost - t.discount - c.loss
+    ),
+    'by_month', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'month', m.month,
+        'orders', m.orders,
+        'revenue', m.revenue,
+        'cost', m.cost,
+        'gross_profit', m.revenue - m.cost,
+        'gross_margin', round(100 * (m.revenue - m.cost) / nullif(m.revenue, 0), 1),
+        'delivery_charge', m.delivery_charge,
+        'delivery_cost', m.delivery_cost,
+        'discount', m.discount,
+        'net_profit', m.revenue - m.cost + m.delivery_charge - m.delivery_cost - m.discount
+      ) ORDER BY m.month)
+      FROM by_month m
+    ), '[]'::jsonb),
+    'by_zone', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'zone_id', z.zone_id,
+        'zone', z.zone,
+        'orders', z.orders,
+        'revenue', z.revenue,
+        'cost', z.cost,
+        'gross_profit', z.revenue - z.cost,
+        'gross_margin', round(100 * (z.revenue - z.cost) / nullif(z.revenue, 0), 1),
+        'delivery_charge', z.delivery_charge,
+        'delivery_cost', z.delivery_cost,
+        'discount', z.discount,
+        'net_profit', z.revenue - z.cost + z.delivery_charge - z.delivery_cost - z.discount
+      ) ORDER BY z.revenue DESC)
+      FROM by_zone z
+    ), '[]'::jsonb),
+    'by_product', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.product_id,
+        'name', p.name,
+        'quantity', p.quantity,
+        'revenue', p.revenue,
+        'cost', p.cost,
+        'gross_profit', p.revenue - p.cost,
+        'gross_margin', round(100 * (p.revenue - p.cost) / nullif(p.revenue, 0), 1)
+      ) ORDER BY p.revenue - p.cost DESC)
+      FROM by_product p
+    ), '[]'::jsonb)
+  )
+  FROM totals t, cancelled c;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.profit_report(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.profit_report(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,11 @@
+-- Product SKUs
+-- Products get an optional SKU of their own (variants already have one), so a bulk
+-- import can update existing products by SKU instead of by name.
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS sku TEXT CHECK (sku IS NULL OR trim(sku) <> '');
+
+-- Case-insensitive, as the import matches SKUs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_sku ON public.products(lower(sku));
+
+COMMENT ON COLUMN public.products.sku IS 'Stock keeping unit, unique regardless of case when set';
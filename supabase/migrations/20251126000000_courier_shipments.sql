@@ -0,0 +1,120 @@
+-- Courier shipments
+-- Admins book a confirmed order with a courier through the courier-create-shipment edge
+-- function, which stores the consignment on the order. Couriers report progress to the
+-- courier-webhook function; record_courier_status() logs each report and moves the order on.
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS courier_provider TEXT,
+ADD COLUMN IF NOT EXISTS courier_consignment_id TEXT,
+ADD COLUMN IF NOT EXISTS courier_tracking_code TEXT,
+ADD COLUMN IF NOT EXISTS courier_status TEXT,
+ADD COLUMN IF NOT EXISTS courier_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_courier_consignment
+ON public.orders(courier_provider, courier_consignment_id)
+WHERE courier_consignment_id IS NOT NULL;
+
+COMMENT ON COLUMN public.orders.courier_status IS
+  'booked, picked_up, in_transit, delivered, returned or cancelled; providers map their own codes onto these. booking while courier-create-shipment is booking the order';
+
+-- Every status report received from a courier, with the payload as sent
+CREATE TABLE IF NOT EXISTS public.courier_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  status TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_courier_events_order ON public.courier_events(order_id, created_at);
+
+ALTER TABLE public.courier_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by record_courier_status() only; admins can read them
+CREATE POLICY "Admins can view courier events"
+ON public.courier_events FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Order status a courier status leads to, if any. A returned parcel cancels the order,
+-- which puts its stock back.
+CREATE OR REPLACE FUNCTION public.courier_status_order_status(_courier_status TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _courier_status
+    WHEN 'delivered' THEN 'delivered'
+    WHEN 'returned' THEN 'cancelled'
+  END
+$$;
+
+-- Couriers may deliver webhooks out of order, so a later step is never replaced by an earlier one
+CREATE OR REPLACE FUNCTION public.courier_status_rank(_courier_status TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _courier_status
+    WHEN 'booked' THEN 1
+    WHEN 'picked_up' THEN 2
+    WHEN 'in_transit' THEN 3
+    WHEN 'delivered' THEN 4
+    WHEN 'returned' THEN 4
+    WHEN 'cancelled' THEN 4
+    ELSE 0
+  END
+$$;
+
+-- Called by the courier-webhook edge function with the service role. Only a confirmed
+-- order is moved, so a status an admin has set by hand is never overwritten.
+CREATE OR REPLACE FUNCTION public.record_courier_status(
+  _provider TEXT,
+  _consignment_id TEXT,
+  _status TEXT,
+  _payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _next_status TEXT;
+BEGIN
+  IF public.courier_status_rank(_status) = 0 THEN
+    RAISE EXCEPTION 'invalid_courier_status';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE courier_provider = _provider AND courier_consignment_id = _consignment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'consignment_not_found';
+  END IF;
+
+  INSERT INTO public.courier_events (order_id, provider, status, payload)
+  VALUES (_order.id, _provider, _status, coalesce(_payload, '{}'::jsonb));
+
+  IF public.courier_status_rank(_status) >= public.courier_status_rank(_order.courier_status) THEN
+    UPDATE public.orders
+    SET courier_status = _status, courier_updated_at = now()
+    WHERE id = _order.id;
+
+    _next_status := public.courier_status_order_status(_status);
+    IF _next_status IS NOT NULL AND _order.status = 'confirmed' THEN
+      UPDATE public.orders SET status = _next_status WHERE id = _order.id;
+      _order.status := _next_status;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('order_id', _order.id, 'order_status', _order.status);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_courier_status(TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_courier_status(TEXT, TEXT, TEXT, JSONB) TO service_role;
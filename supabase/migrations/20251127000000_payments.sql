@@ -0,0 +1,408 @@
+-- Online payments
+-- An order is paid cash on delivery (cod), has its delivery charge paid in advance with the
+-- rest collected on delivery (advance), or is paid in full online (online). Online payments
+-- are started by the payment-create edge function and settled by payment-callback when the
+-- gateway reports back.
+
+-- 1. Payment columns on orders
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS payment_method TEXT NOT NULL DEFAULT 'cod'
+  CHECK (payment_method IN ('cod', 'advance', 'online')),
+ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'unpaid'
+  CHECK (payment_status IN ('unpaid', 'partially_paid', 'paid')),
+ADD COLUMN IF NOT EXISTS prepay_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.orders.prepay_amount IS
+  'Amount to pay online before delivery: the delivery charge for advance, the total for online, 0 for cod';
+COMMENT ON COLUMN public.orders.amount_paid IS
+  'Sum of paid payments. The courier collects total_amount - amount_paid.';
+
+-- 2. Payments
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  -- The gateway's ID for the payment, set once the gateway has accepted it
+  provider_ref TEXT,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'BDT',
+  status TEXT NOT NULL DEFAULT 'initiated' CHECK (status IN ('initiated', 'paid', 'failed', 'cancelled')),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_order ON public.payments(order_id, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_provider_ref
+ON public.payments(provider, provider_ref)
+WHERE provider_ref IS NOT NULL;
+
+CREATE TRIGGER update_payments_updated_at
+BEFORE UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Results reported by gateways. The same result often arrives more than once (browser
+-- redirect and server notification, retries), so each event is applied once by its ID.
+CREATE TABLE IF NOT EXISTS public.payment_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment ON public.payment_events(payment_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the functions below only; admins can read them
+CREATE POLICY "Admins can view payments"
+ON public.payments FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view payment events"
+ON public.payment_events FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- 3. place_order takes the payment method.
+-- New error: invalid_payment_method. Advance payment on an order with free delivery falls
+-- back to cash on delivery, as there is nothing to pay in advance.
+DROP FUNCTION IF EXISTS public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _customer_name TEXT,
+  _phone TEXT,
+  _address TEXT,
+  _district TEXT,
+  _items JSONB,
+  _coupon_code TEXT DEFAULT NULL,
+  _payment_method TEXT DEFAULT 'cod'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _quote JSONB;
+  _coupon JSONB;
+  _delivery_charge DECIMAL(10, 2);
+  _discount DECIMAL(10, 2) := 0;
+  _subtotal DECIMAL(10, 2);
+  _total DECIMAL(10, 2);
+  _method TEXT := coalesce(_payment_method, 'cod');
+  _prepay DECIMAL(10, 2) := 0;
+  _cart JSONB;
+  _missing JSONB;
+  _needs_variant JSONB;
+  _short JSONB;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'empty_cart';
+  END IF;
+
+  IF coalesce(trim(_customer_name), '') = ''
+    OR coalesce(trim(_phone), '') = ''
+    OR coalesce(trim(_address), '') = '' THEN
+    RAISE EXCEPTION 'invalid_customer';
+  END IF;
+
+  IF _method NOT IN ('cod', 'advance', 'online') THEN
+    RAISE EXCEPTION 'invalid_payment_method';
+  END IF;
+
+  -- Merge duplicate lines so each product / variant is checked once
+  SELECT jsonb_agg(jsonb_build_object('product_id', l.product_id, 'variant_id', l.variant_id, 'quantity', l.quantity)) INTO _cart
+  FROM (
+    SELECT (line->>'product_id')::UUID AS product_id,
+           (line->>'variant_id')::UUID AS variant_id,
+           sum((line->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS line
+    GROUP BY 1, 2
+  ) l;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE c.product_id IS NULL OR c.quantity IS NULL OR c.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'invalid_quantity';
+  END IF;
+
+  -- Lock the product and variant rows (in a stable order to avoid deadlocks) before reading price and stock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT c.product_id FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.id IN (SELECT c.variant_id FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER))
+  ORDER BY v.id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(coalesce(c.variant_id, c.product_id)) INTO _missing
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id AND v.product_id = c.product_id AND v.is_active
+  WHERE p.id IS NULL OR (c.variant_id IS NOT NULL AND v.id IS NULL);
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'product_not_found' USING DETAIL = _missing::TEXT;
+  END IF;
+
+  SELECT jsonb_agg(DISTINCT c.product_id) INTO _needs_variant
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.variant_id IS NULL AND p.has_variants;
+
+  IF _needs_variant IS NOT NULL THEN
+    RAISE EXCEPTION 'variant_required' USING DETAIL = _needs_variant::TEXT;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'id', p.id,
+    'variant_id', v.id,
+    'name', CASE WHEN v.id IS NULL THEN p.name ELSE p.name || ' (' || public.variant_label(v.options) || ')' END,
+    'stock', coalesce(v.stock, p.stock)
+  )) INTO _short
+  FROM jsonb_to_recordset(_cart) AS c(product_id UUID, variant_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id
+  WHERE coalesce(v.stock, p.stock) < c.quantity;
+
+  IF _short IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = _short::TEXT;
+  END IF;
+
+  _quote := public.quote_delivery(_district, _cart);
+  _delivery_charge := (_quote->>'charge')::DECIMAL(10, 2);
+
+  IF coalesce(trim(_coupon_code), '') <> '' THEN
+    _coupon := public.evaluate_coupon(_coupon_code, _cart, _delivery_charge, true);
+    _discount := (_coupon->>'discount')::DECIMAL(10, 2);
+  END IF;
+
+  SELECT sum(l.unit_price * l.quantity) INTO _subtotal
+  FROM public.cart_lines(_cart) l;
+
+  _total := _subtotal + _delivery_charge - _discount;
+
+  IF _method = 'advance' THEN
+    -- The delivery charge the customer still pays after any free-delivery coupon
+    _prepay := least(_delivery_charge - coalesce((_coupon->>'delivery_discount')::DECIMAL(10, 2), 0), _total);
+    IF _prepay <= 0 THEN
+      _method := 'cod';
+      _prepay := 0;
+    END IF;
+  ELSIF _method = 'online' THEN
+    _prepay := _total;
+  END IF;
+
+  INSERT INTO public.orders (
+    customer_name, phone, address, district, location_type, delivery_zone_id,
+    delivery_charge, coupon_id, coupon_code, discount_amount, total_amount, status,
+    payment_method, prepay_amount
+  )
+  VALUES (
+    trim(_customer_name), trim(_phone), trim(_address), trim(_district), _quote->>'zone_code', (_quote->>'zone_id')::UUID,
+    _delivery_charge, (_coupon->>'coupon_id')::UUID, _coupon->>'code', _discount, _total, 'pending',
+    _method, _prepay
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, product_id, variant_id, variant_label, quantity, price)
+  SELECT _order_id, l.product_id, l.variant_id, public.variant_label(v.options), l.quantity, l.unit_price
+  FROM public.cart_lines(_cart) l
+  LEFT JOIN public.product_variants v ON v.id = l.variant_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.place_order(TEXT, TEXT, TEXT, TEXT, JSONB, TEXT, TEXT) TO anon, authenticated;
+
+-- 4. Starting a payment. Called by the payment-create edge function with the service role,
+-- after the customer has given the order ID and phone number as on the tracking page.
+-- Payments started in the last 30 minutes and not yet settled count as pending, so a second
+-- tab or a double click cannot ask for the same amount twice. Older ones are taken as
+-- abandoned gateway sessions.
+-- Errors: order_not_found, order_cancelled, nothing_to_pay, payment_in_progress.
+CREATE OR REPLACE FUNCTION public.start_payment(_order_id UUID, _phone TEXT, _provider TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _amount DECIMAL(10, 2);
+  _pending DECIMAL(10, 2);
+  _payment_id UUID;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.phone_matches(_phone, _order.phone) THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'order_cancelled';
+  END IF;
+
+  _amount := _order.prepay_amount - _order.amount_paid;
+  IF _amount <= 0 THEN
+    RAISE EXCEPTION 'nothing_to_pay';
+  END IF;
+
+  SELECT coalesce(sum(amount), 0) INTO _pending
+  FROM public.payments
+  WHERE order_id = _order.id
+    AND status = 'initiated'
+    AND created_at > now() - interval '30 minutes';
+
+  _amount := _amount - _pending;
+  IF _amount <= 0 THEN
+    RAISE EXCEPTION 'payment_in_progress';
+  END IF;
+
+  INSERT INTO public.payments (order_id, provider, amount)
+  VALUES (_order.id, _provider, _amount)
+  RETURNING id INTO _payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', _payment_id,
+    'order_id', _order.id,
+    'amount', _amount,
+    'customer_name', _order.customer_name,
+    'phone', _order.phone
+  );
+END;
+$$;
+
+-- 5. Applying a gateway result. Called by the payment-callback edge function with the service
+-- role. A repeated event is ignored, and a payment that already has a result keeps it.
+-- A paid result for a different amount than was asked for is recorded as failed.
+-- Errors: invalid_payment_status, payment_not_found.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  _provider TEXT,
+  _provider_ref TEXT,
+  _event_id TEXT,
+  _status TEXT,
+  _amount DECIMAL DEFAULT NULL,
+  _payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _result TEXT := _status;
+BEGIN
+  IF _status NOT IN ('paid', 'failed', 'cancelled') THEN
+    RAISE EXCEPTION 'invalid_payment_status';
+  END IF;
+
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE provider = _provider AND provider_ref = _provider_ref
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'payment_not_found';
+  END IF;
+
+  INSERT INTO public.payment_events (provider, event_id, payment_id, status, payload)
+  VALUES (_provider, _event_id, _payment.id, _status, coalesce(_payload, '{}'::jsonb))
+  ON CONFLICT (provider, event_id) DO NOTHING;
+
+  IF NOT FOUND OR _payment.status <> 'initiated' THEN
+    RETURN jsonb_build_object('order_id', _payment.order_id, 'status', _payment.status);
+  END IF;
+
+  IF _result = 'paid' AND _amount IS NOT NULL AND _amount <> _payment.amount THEN
+    _result := 'failed';
+  END IF;
+
+  UPDATE public.payments
+  SET status = _result,
+      paid_at = CASE WHEN _result = 'paid' THEN now() END
+  WHERE id = _payment.id;
+
+  IF _result = 'paid' THEN
+    UPDATE public.orders
+    SET amount_paid = amount_paid + _payment.amount,
+        payment_status = CASE WHEN amount_paid + _payment.amount >= total_amount THEN 'paid' ELSE 'partially_paid' END
+    WHERE id = _payment.order_id;
+  END IF;
+
+  RETURN jsonb_build_object('order_id', _payment.order_id, 'status', _result);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_payment(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_payment(UUID, TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.record_payment_result(TEXT, TEXT, TEXT, TEXT, DECIMAL, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(TEXT, TEXT, TEXT, TEXT, DECIMAL, JSONB) TO service_role;
+
+-- 6. Tracking shows what has been paid and what is left to pay online
+CREATE OR REPLACE FUNCTION public.track_order(_order_id UUID, _phone TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'location_type', o.location_type,
+    'district', o.district,
+    'delivery_zone', z.name,
+    'delivery_charge', o.delivery_charge,
+    'coupon_code', o.coupon_code,
+    'discount_amount', o.discount_amount,
+    'total_amount', o.total_amount,
+    'payment_method', o.payment_method,
+    'payment_status', o.payment_status,
+    'prepay_amount', o.prepay_amount,
+    'amount_paid', o.amount_paid,
+    'created_at', o.created_at,
+    'items', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'name', coalesce(p.name, oi.product_name),
+        'variant_label', oi.variant_label,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    'history', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', h.status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  LEFT JOIN public.delivery_zones z ON z.id = o.delivery_zone_id
+  WHERE o.id = _order_id
+    AND public.phone_matches(_phone, o.phone)
+$$;
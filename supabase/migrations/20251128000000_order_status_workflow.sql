@@ -0,0 +1,541 @@
+-- Order status workflow
+-- Orders move through pending -> confirmed -> processing -> shipped -> delivered, with
+-- failed_delivery, returned, refunded and cancelled on the side. Only the moves in
+-- order_status_transition_allowed() are accepted. Admins change the status with
+-- set_order_status(), which records who made the change along with an optional note.
+
+-- 1. Statuses
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_status_check CHECK (status IN (
+  'pending', 'confirmed', 'processing', 'shipped', 'delivered',
+  'failed_delivery', 'returned', 'refunded', 'cancelled'
+));
+
+-- An order holds its stock from confirmation until it is cancelled or comes back
+CREATE OR REPLACE FUNCTION public.order_status_holds_stock(_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _status IN ('confirmed', 'processing', 'shipped', 'delivered', 'failed_delivery')
+$$;
+
+-- A returned parcel puts its stock back under its own reason in the stock ledger
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reason_check;
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_reason_check CHECK (reason IN (
+  'order_confirmed', 'order_cancelled', 'order_returned', 'order_reverted', 'manual_adjustment', 'initial_stock'
+));
+
+CREATE OR REPLACE FUNCTION public.apply_order_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _was_holding BOOLEAN := public.order_status_holds_stock(OLD.status);
+  _now_holding BOOLEAN := public.order_status_holds_stock(NEW.status);
+  _direction INTEGER;
+  _reason TEXT;
+  _short JSONB;
+BEGIN
+  IF _was_holding = _now_holding THEN
+    RETURN NEW;
+  END IF;
+
+  IF _now_holding THEN
+    _direction := -1;
+    _reason := 'order_confirmed';
+  ELSE
+    _direction := 1;
+    _reason := CASE NEW.status
+      WHEN 'cancelled' THEN 'order_cancelled'
+      WHEN 'returned' THEN 'order_returned'
+      ELSE 'order_reverted'
+    END;
+  END IF;
+
+  -- Lock the products and variants in a stable order so concurrent transitions cannot interleave
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT oi.product_id FROM public.order_items oi WHERE oi.order_id = NEW.id)
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.id IN (SELECT oi.variant_id FROM public.order_items oi WHERE oi.order_id = NEW.id)
+  ORDER BY v.id
+  FOR UPDATE;
+
+  IF _direction < 0 THEN
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', p.id,
+      'variant_id', v.id,
+      'name', CASE WHEN v.id IS NULL THEN p.name ELSE p.name || ' (' || public.variant_label(v.options) || ')' END,
+      'stock', coalesce(v.stock, p.stock)
+    )) INTO _short
+    FROM (
+      SELECT product_id, variant_id, sum(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id
+      GROUP BY product_id, variant_id
+    ) i
+    JOIN public.products p ON p.id = i.product_id
+    LEFT JOIN public.product_variants v ON v.id = i.variant_id
+    WHERE coalesce(v.stock, p.stock) < i.quantity;
+
+    IF _short IS NOT NULL THEN
+      RAISE EXCEPTION 'insufficient_stock' USING DETAIL = _short::TEXT;
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.stock_order_id', NEW.id::TEXT, true);
+  PERFORM set_config('app.stock_reason', _reason, true);
+
+  UPDATE public.product_variants v
+  SET stock = v.stock + _direction * i.quantity
+  FROM (
+    SELECT variant_id, sum(quantity)::INTEGER AS quantity
+    FROM public.order_items
+    WHERE order_id = NEW.id AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) i
+  WHERE v.id = i.variant_id;
+
+  UPDATE public.products p
+  SET stock = p.stock + _direction * i.quantity
+  FROM (
+    SELECT product_id, sum(quantity)::INTEGER AS quantity
+    FROM public.order_items
+    WHERE order_id = NEW.id AND variant_id IS NULL
+    GROUP BY product_id
+  ) i
+  WHERE p.id = i.product_id;
+
+  PERFORM set_config('app.stock_order_id', '', true);
+  PERFORM set_config('app.stock_reason', '', true);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Must match ORDER_STATUS_TRANSITIONS in src/lib/orderStatus.ts.
+-- A refund follows a return or a cancellation, so refunded orders never hold stock.
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM (VALUES
+      ('pending', 'confirmed'),
+      ('pending', 'cancelled'),
+      ('confirmed', 'pending'),
+      ('confirmed', 'processing'),
+      ('confirmed', 'shipped'),
+      ('confirmed', 'delivered'),
+      ('confirmed', 'cancelled'),
+      ('processing', 'confirmed'),
+      ('processing', 'shipped'),
+      ('processing', 'delivered'),
+      ('processing', 'cancelled'),
+      ('shipped', 'delivered'),
+      ('shipped', 'failed_delivery'),
+      ('shipped', 'returned'),
+      ('failed_delivery', 'shipped'),
+      ('failed_delivery', 'delivered'),
+      ('failed_delivery', 'returned'),
+      ('delivered', 'returned'),
+      ('returned', 'refunded'),
+      ('cancelled', 'pending'),
+      ('cancelled', 'refunded')
+    ) AS t(from_status, to_status)
+    WHERE t.from_status = _from AND t.to_status = _to
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'invalid_status_transition'
+      USING DETAIL = jsonb_build_object('from', OLD.status, 'to', NEW.status)::TEXT;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_orders_status_transition
+BEFORE UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.enforce_order_status_transition();
+
+-- 2. Notes
+-- internal_note is for admins only; customer_note is shown on the tracking page
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS internal_note TEXT,
+ADD COLUMN IF NOT EXISTS customer_note TEXT;
+
+ALTER TABLE public.order_status_history
+ADD COLUMN IF NOT EXISTS note TEXT;
+
+-- set_order_status() passes its note to the history trigger through app.order_status_note
+CREATE OR REPLACE FUNCTION public.record_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.order_status_history (order_id, status, note)
+  VALUES (NEW.id, NEW.status, nullif(current_setting('app.order_status_note', true), ''));
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Changing the status
+-- Errors: forbidden, order_not_found, invalid_status_transition, insufficient_stock.
+CREATE OR REPLACE FUNCTION public.set_order_status(_order_id UUID, _status TEXT, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(trim(_note), ''), true);
+
+  UPDATE public.orders SET status = _status WHERE id = _order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_order_status(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_order_status(UUID, TEXT, TEXT) TO authenticated;
+
+-- Status timeline for the Admin order details, with the email of whoever made each change
+-- (null for changes made by the system, e.g. courier updates)
+CREATE OR REPLACE FUNCTION public.order_history(_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'status', h.status,
+      'note', h.note,
+      'changed_by', u.email,
+      'created_at', h.created_at
+    ) ORDER BY h.created_at)
+    FROM public.order_status_history h
+    LEFT JOIN auth.users u ON u.id = h.changed_by
+    WHERE h.order_id = _order_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.order_history(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.order_history(UUID) TO authenticated;
+
+-- 4. Couriers move an order through shipped, delivered and returned. Only an order the
+-- courier is handling is moved, and only along the allowed transitions, so a status an
+-- admin has set by hand is never overwritten.
+CREATE OR REPLACE FUNCTION public.courier_status_order_status(_courier_status TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _courier_status
+    WHEN 'picked_up' THEN 'shipped'
+    WHEN 'in_transit' THEN 'shipped'
+    WHEN 'delivered' THEN 'delivered'
+    WHEN 'returned' THEN 'returned'
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_courier_status(
+  _provider TEXT,
+  _consignment_id TEXT,
+  _status TEXT,
+  _payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _next_status TEXT;
+BEGIN
+  IF public.courier_status_rank(_status) = 0 THEN
+    RAISE EXCEPTION 'invalid_courier_status';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE courier_provider = _provider AND courier_consignment_id = _consignment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'consignment_not_found';
+  END IF;
+
+  INSERT INTO public.courier_events (order_id, provider, status, payload)
+  VALUES (_order.id, _provider, _status, coalesce(_payload, '{}'::jsonb));
+
+  IF public.courier_status_rank(_status) >= public.courier_status_rank(_order.courier_status) THEN
+    UPDATE public.orders
+    SET courier_status = _status, courier_updated_at = now()
+    WHERE id = _order.id;
+
+    _next_status := public.courier_status_order_status(_status);
+    IF _next_status IS NOT NULL
+      AND _order.status IN ('confirmed', 'processing', 'shipped', 'failed_delivery')
+      AND public.order_status_transition_allowed(_order.status, _next_status) THEN
+      PERFORM set_config('app.order_status_note', 'courier ' || _provider || ': ' || _status, true);
+      UPDATE public.orders SET status = _next_status WHERE id = _order.id;
+      PERFORM set_config('app.order_status_note', '', true);
+      _order.status := _next_status;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('order_id', _order.id, 'order_status', _order.status);
+END;
+$$;
+
+-- 5. Tracking shows the note meant for the customer
+CREATE OR REPLACE FUNCTION public.track_order(_order_id UUID, _phone TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'customer_note', o.customer_note,
+    'location_type', o.location_type,
+    'district', o.district,
+    'delivery_zone', z.name,
+    'delivery_charge', o.delivery_charge,
+    'coupon_code', o.coupon_code,
+    'discount_amount', o.discount_amount,
+    'total_amount', o.total_amount,
+    'payment_method', o.payment_method,
+    'payment_status', o.payment_status,
+    'prepay_amount', o.prepay_amount,
+    'amount_paid', o.amount_paid,
+    'created_at', o.created_at,
+    'items', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'name', coalesce(p.name, oi.product_name),
+        'variant_label', oi.variant_label,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    'history', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', h.status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  LEFT JOIN public.delivery_zones z ON z.id = o.delivery_zone_id
+  WHERE o.id = _order_id
+    AND public.phone_matches(_phone, o.phone)
+$$;
+
+-- 6. Profit report: returned and refunded orders are lost sales like cancelled ones
+CREATE OR REPLACE FUNCTION public.profit_report(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_orders AS (
+    SELECT o.*
+    FROM public.orders o
+    WHERE o.created_at >= _from
+      AND o.created_at < _to
+  ),
+  sold AS (
+    SELECT * FROM period_orders o WHERE public.order_status_holds_stock(o.status)
+  ),
+  sold_lines AS (
+    SELECT
+      oi.order_id,
+      oi.product_id,
+      coalesce(p.name, oi.product_name) AS name,
+      oi.quantity,
+      oi.price * oi.quantity AS revenue,
+      oi.cost_price * oi.quantity AS cost
+    FROM sold o
+    JOIN public.order_items oi ON oi.order_id = o.id
+    LEFT JOIN public.products p ON p.id = oi.product_id
+  ),
+  order_totals AS (
+    SELECT
+      o.id,
+      o.created_at,
+      o.delivery_zone_id,
+      o.location_type,
+      o.delivery_charge,
+      o.delivery_cost,
+      coalesce(o.discount_amount, 0) AS discount,
+      coalesce((SELECT sum(l.revenue) FROM sold_lines l WHERE l.order_id = o.id), 0) AS revenue,
+      coalesce((SELECT sum(l.cost) FROM sold_lines l WHERE l.order_id = o.id), 0) AS cost
+    FROM sold o
+  ),
+  cancelled AS (
+    SELECT
+      count(*) AS orders,
+      coalesce(sum(o.total_amount), 0) AS value,
+      -- Only orders that were sent out (confirmed at some point) cost a delivery
+      coalesce(sum(o.delivery_cost) FILTER (WHERE EXISTS (
+        SELECT 1 FROM public.order_status_history h
+        WHERE h.order_id = o.id AND public.order_status_holds_stock(h.status)
+      )), 0) AS loss
+    FROM period_orders o
+    WHERE o.status IN ('cancelled', 'returned', 'refunded')
+  ),
+  by_month AS (
+    SELECT
+      to_char(date_trunc('month', t.created_at AT TIME ZONE 'Asia/Dhaka'), 'YYYY-MM') AS month,
+      count(*) AS orders,
+      sum(t.revenue) AS revenue,
+      sum(t.cost) AS cost,
+      sum(t.delivery_charge) AS delivery_charge,
+      sum(t.delivery_cost) AS delivery_cost,
+      sum(t.discount) AS discount
+    FROM order_totals t
+    GROUP BY 1
+  ),
+  by_zone AS (
+    SELECT
+      t.delivery_zone_id AS zone_id,
+      coalesce(z.name, t.location_type, '—') AS zone,
+      count(*) AS orders,
+      sum(t.revenue) AS revenue,
+      sum(t.cost) AS cost,
+      sum(t.delivery_charge) AS delivery_charge,
+      sum(t.delivery_cost) AS delivery_cost,
+      sum(t.discount) AS discount
+    FROM order_totals t
+    LEFT JOIN public.delivery_zones z ON z.id = t.delivery_zone_id
+    GROUP BY 1, 2
+  ),
+  by_product AS (
+    SELECT
+      l.product_id,
+      max(l.name) AS name,
+      sum(l.quantity) AS quantity,
+      sum(l.revenue) AS revenue,
+      sum(l.cost) AS cost
+    FROM sold_lines l
+    -- Lines of deleted products are told apart by their stored name
+    GROUP BY l.product_id, CASE WHEN l.product_id IS NULL THEN l.name END
+  ),
+  totals AS (
+    SELECT
+      count(*) AS orders,
+      coalesce(sum(t.revenue), 0) AS revenue,
+      coalesce(sum(t.cost), 0) AS cost,
+      coalesce(sum(t.delivery_charge), 0) AS delivery_charge,
+      coalesce(sum(t.delivery_cost), 0) AS delivery_cost,
+      coalesce(sum(t.discount), 0) AS discount
+    FROM order_totals t
+  )
+  SELECT jsonb_build_object(
+    'summary', jsonb_build_object(
+      'orders', t.orders,
+      'revenue', t.revenue,
+      'cost', t.cost,
+      'gross_profit', t.revenue - t.cost,
+      'gross_margin', round(100 * (t.revenue - t.cost) / nullif(t.revenue, 0), 1),
+      'delivery_charge', t.delivery_charge,
+      'delivery_cost', t.delivery_cost,
+      'discount', t.discount,
+      'cancelled_orders', c.orders,
+      'cancelled_value', c.value,
+      'cancelled_loss', c.loss,
+      'net_profit', t.revenue - t.cost + t.delivery_charge - t.delivery_cost - t.discount - c.loss
+    ),
+    'by_month', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'month', m.month,
+        'orders', m.orders,
+        'revenue', m.revenue,
+        'cost', m.cost,
+        'gross_profit', m.revenue - m.cost,
+        'gross_margin', round(100 * (m.revenue - m.cost) / nullif(m.revenue, 0), 1),
+        'delivery_charge', m.delivery_charge,
+        'delivery_cost', m.delivery_cost,
+        'discount', m.discount,
+        'net_profit', m.revenue - m.cost + m.delivery_charge - m.delivery_cost - m.discount
+      ) ORDER BY m.month)
+      FROM by_month m
+    ), '[]'::jsonb),
+    'by_zone', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'zone_id', z.zone_id,
+        'zone', z.zone,
+        'orders', z.orders,
+        'revenue', z.revenue,
+        'cost', z.cost,
+        'gross_profit', z.revenue - z.cost,
+        'gross_margin', round(100 * (z.revenue - z.cost) / nullif(z.revenue, 0), 1),
+        'delivery_charge', z.delivery_charge,
+        'delivery_cost', z.delivery_cost,
+        'discount', z.discount,
+        'net_profit', z.revenue - z.cost + z.delivery_charge - z.delivery_cost - z.discount
+      ) ORDER BY z.revenue DESC)
+      FROM by_zone z
+    ), '[]'::jsonb),
+    'by_product', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.product_id,
+        'name', p.name,
+        'quantity', p.quantity,
+        'revenue', p.revenue,
+        'cost', p.cost,
+        'gross_profit', p.revenue - p.cost,
+        'gross_margin', round(100 * (p.revenue - p.cost) / nullif(p.revenue, 0), 1)
+      ) ORDER BY p.revenue - p.cost DESC)
+      FROM by_product p
+    ), '[]'::jsonb)
+  )
+  FROM totals t, cancelled c;
+$$;
+
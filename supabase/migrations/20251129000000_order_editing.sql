@@ -0,0 +1,637 @@
+-- Order editing
+-- Admins correct an order after it was placed: customer details, delivery area, line items
+-- and a manual discount. edit_order() applies the whole edit at once, moves stock for an
+-- order that holds it, recomputes the delivery charge and total, and records what changed
+-- in order_audit_log.
+
+-- 1. Manual discount, given by an admin on top of any coupon discount
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS manual_discount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (manual_discount >= 0);
+
+COMMENT ON COLUMN public.orders.manual_discount IS
+  'Discount given by an admin when editing the order; total_amount = items + delivery_charge - discount_amount - manual_discount';
+
+-- 2. Audit log
+CREATE TABLE IF NOT EXISTS public.order_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  changed_by UUID DEFAULT auth.uid(),
+  action TEXT NOT NULL,
+  -- { field: { from, to } } for order fields and { added, removed, changed } for items
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_audit_log_order ON public.order_audit_log(order_id, created_at);
+
+ALTER TABLE public.order_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by edit_order() only; admins can read them
+CREATE POLICY "Admins can view order audit log"
+ON public.order_audit_log FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Stock moved by an edit is logged with its own reason
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reason_check;
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_reason_check CHECK (reason IN (
+  'order_confirmed', 'order_cancelled', 'order_returned', 'order_reverted', 'order_edited',
+  'manual_adjustment', 'initial_stock'
+));
+
+-- 3. Editing
+-- _items lists every line the order should have: existing lines by their order_items id
+-- ({ id, quantity }) and new lines by product ({ product_id, variant_id, quantity }).
+-- Existing lines keep the price they were sold at; new lines get today's price. The delivery
+-- charge is quoted again when the items or the district change. The coupon discount stays
+-- as it was at checkout.
+-- Errors: forbidden, order_not_found, order_not_editable, invalid_customer, empty_cart,
+-- invalid_quantity, duplicate_order_item, order_item_not_found, product_not_found, variant_required,
+-- insufficient_stock, invalid_location, invalid_discount.
+CREATE OR REPLACE FUNCTION public.edit_order(
+  _order_id UUID,
+  _customer_name TEXT,
+  _phone TEXT,
+  _address TEXT,
+  _district TEXT,
+  _items JSONB,
+  _manual_discount DECIMAL DEFAULT 0,
+  _internal_note TEXT DEFAULT NULL,
+  _customer_note TEXT DEFAULT NULL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _updated public.orders%ROWTYPE;
+  _district_clean TEXT := nullif(trim(_district), '');
+  _manual DECIMAL(10, 2) := coalesce(_manual_discount, 0);
+  _unknown JSONB;
+  _missing JSONB;
+  _needs_variant JSONB;
+  _lines JSONB;
+  _deltas JSONB;
+  _short JSONB;
+  _item_changes JSONB;
+  _cart JSONB;
+  _quote JSONB;
+  _delivery_charge DECIMAL(10, 2);
+  _zone_id UUID;
+  _location_type TEXT;
+  _delivery_cost DECIMAL(10, 2);
+  _subtotal DECIMAL(10, 2);
+  _total DECIMAL(10, 2);
+  _changes JSONB := '{}'::jsonb;
+  _field TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  -- Once the parcel has left or is booked with a courier, its contents and COD amount are fixed
+  IF _order.status NOT IN ('pending', 'confirmed', 'processing')
+    OR (_order.courier_consignment_id IS NOT NULL AND _order.courier_status IS DISTINCT FROM 'cancelled') THEN
+    RAISE EXCEPTION 'order_not_editable';
+  END IF;
+
+  IF coalesce(trim(_customer_name), '') = ''
+    OR coalesce(trim(_phone), '') = ''
+    OR coalesce(trim(_address), '') = ''
+    OR _district_clean IS NULL THEN
+    RAISE EXCEPTION 'invalid_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'empty_cart';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS r(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE r.quantity IS NULL OR r.quantity <= 0 OR (r.id IS NULL AND r.product_id IS NULL)
+  ) THEN
+    RAISE EXCEPTION 'invalid_quantity';
+  END IF;
+
+  -- Each existing line may be listed once; a repeated id would count its quantity twice
+  -- in the stock movement but be written only once
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS r(id UUID)
+    WHERE r.id IS NOT NULL
+    GROUP BY r.id
+    HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'duplicate_order_item';
+  END IF;
+
+  IF _manual < 0 THEN
+    RAISE EXCEPTION 'invalid_discount';
+  END IF;
+
+  SELECT jsonb_agg(r.id) INTO _unknown
+  FROM jsonb_to_recordset(_items) AS r(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+  LEFT JOIN public.order_items oi ON oi.id = r.id AND oi.order_id = _order.id
+  WHERE r.id IS NOT NULL AND oi.id IS NULL;
+
+  IF _unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'order_item_not_found' USING DETAIL = _unknown::TEXT;
+  END IF;
+
+  -- The order's lines after the edit: existing lines with their new quantity, and new lines
+  -- merged so each product / variant is added once
+  SELECT jsonb_agg(jsonb_build_object('id', x.id, 'product_id', x.product_id, 'variant_id', x.variant_id, 'quantity', x.quantity)) INTO _lines
+  FROM (
+    SELECT oi.id, oi.product_id, oi.variant_id, r.quantity
+    FROM jsonb_to_recordset(_items) AS r(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    JOIN public.order_items oi ON oi.id = r.id
+    UNION ALL
+    SELECT NULL::UUID, r.product_id, r.variant_id, sum(r.quantity)::INTEGER
+    FROM jsonb_to_recordset(_items) AS r(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE r.id IS NULL
+    GROUP BY r.product_id, r.variant_id
+  ) x;
+
+  -- Lock the product and variant rows (in a stable order to avoid deadlocks) before reading stock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (
+    SELECT l.product_id FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    UNION SELECT product_id FROM public.order_items WHERE order_id = _order.id
+  )
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.id IN (
+    SELECT l.variant_id FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    UNION SELECT variant_id FROM public.order_items WHERE order_id = _order.id
+  )
+  ORDER BY v.id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(coalesce(l.variant_id, l.product_id)) INTO _missing
+  FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = l.product_id
+  LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id AND v.is_active
+  WHERE l.id IS NULL AND (p.id IS NULL OR (l.variant_id IS NOT NULL AND v.id IS NULL));
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'product_not_found' USING DETAIL = _missing::TEXT;
+  END IF;
+
+  SELECT jsonb_agg(DISTINCT l.product_id) INTO _needs_variant
+  FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = l.product_id
+  WHERE l.id IS NULL AND l.variant_id IS NULL AND p.has_variants;
+
+  IF _needs_variant IS NOT NULL THEN
+    RAISE EXCEPTION 'variant_required' USING DETAIL = _needs_variant::TEXT;
+  END IF;
+
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'added', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', p.name,
+        'variant_label', public.variant_label(v.options),
+        'quantity', l.quantity,
+        'price', cl.unit_price
+      ))
+      FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+      JOIN public.products p ON p.id = l.product_id
+      LEFT JOIN public.product_variants v ON v.id = l.variant_id
+      CROSS JOIN LATERAL public.cart_lines(jsonb_build_array(jsonb_build_object(
+        'product_id', l.product_id, 'variant_id', l.variant_id, 'quantity', l.quantity
+      ))) cl
+      WHERE l.id IS NULL
+    ),
+    'removed', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', coalesce(p.name, oi.product_name),
+        'variant_label', oi.variant_label,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ))
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = _order.id
+        AND oi.id NOT IN (
+          SELECT l.id FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+          WHERE l.id IS NOT NULL
+        )
+    ),
+    'changed', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', coalesce(p.name, oi.product_name),
+        'variant_label', oi.variant_label,
+        'from', oi.quantity,
+        'to', l.quantity
+      ))
+      FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+      JOIN public.order_items oi ON oi.id = l.id
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE l.quantity <> oi.quantity
+    )
+  )) INTO _item_changes;
+
+  IF _item_changes <> '{}'::jsonb THEN
+    _changes := _changes || jsonb_build_object('items', _item_changes);
+
+    -- Stock the order holds moves with its quantities
+    IF public.order_status_holds_stock(_order.status) THEN
+      SELECT jsonb_agg(jsonb_build_object('product_id', d.product_id, 'variant_id', d.variant_id, 'quantity', d.quantity)) INTO _deltas
+      FROM (
+        SELECT x.product_id, x.variant_id, sum(x.quantity)::INTEGER AS quantity
+        FROM (
+          SELECT l.product_id, l.variant_id, l.quantity
+          FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+          UNION ALL
+          SELECT oi.product_id, oi.variant_id, -oi.quantity FROM public.order_items oi WHERE oi.order_id = _order.id
+        ) x
+        WHERE x.product_id IS NOT NULL
+        GROUP BY x.product_id, x.variant_id
+      ) d
+      WHERE d.quantity <> 0;
+
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'variant_id', v.id,
+        'name', CASE WHEN v.id IS NULL THEN p.name ELSE p.name || ' (' || public.variant_label(v.options) || ')' END,
+        'stock', coalesce(v.stock, p.stock)
+      )) INTO _short
+      FROM jsonb_to_recordset(coalesce(_deltas, '[]'::jsonb)) AS d(product_id UUID, variant_id UUID, quantity INTEGER)
+      JOIN public.products p ON p.id = d.product_id
+      LEFT JOIN public.product_variants v ON v.id = d.variant_id
+      WHERE d.quantity > 0 AND coalesce(v.stock, p.stock) < d.quantity;
+
+      IF _short IS NOT NULL THEN
+        RAISE EXCEPTION 'insufficient_stock' USING DETAIL = _short::TEXT;
+      END IF;
+
+      PERFORM set_config('app.stock_order_id', _order.id::TEXT, true);
+      PERFORM set_config('app.stock_reason', 'order_edited', true);
+
+      UPDATE public.product_variants v
+      SET stock = v.stock - d.quantity
+      FROM jsonb_to_recordset(coalesce(_deltas, '[]'::jsonb)) AS d(product_id UUID, variant_id UUID, quantity INTEGER)
+      WHERE v.id = d.variant_id;
+
+      UPDATE public.products p
+      SET stock = p.stock - d.quantity
+      FROM jsonb_to_recordset(coalesce(_deltas, '[]'::jsonb)) AS d(product_id UUID, variant_id UUID, quantity INTEGER)
+      WHERE p.id = d.product_id AND d.variant_id IS NULL;
+
+      PERFORM set_config('app.stock_order_id', '', true);
+      PERFORM set_config('app.stock_reason', '', true);
+    END IF;
+
+    DELETE FROM public.order_items
+    WHERE order_id = _order.id
+      AND id NOT IN (
+        SELECT l.id FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+        WHERE l.id IS NOT NULL
+      );
+
+    UPDATE public.order_items oi
+    SET quantity = l.quantity
+    FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE oi.id = l.id AND oi.quantity <> l.quantity;
+
+    INSERT INTO public.order_items (order_id, product_id, variant_id, variant_label, quantity, price)
+    SELECT _order.id, cl.product_id, cl.variant_id, public.variant_label(v.options), cl.quantity, cl.unit_price
+    FROM public.cart_lines((
+      SELECT jsonb_agg(jsonb_build_object('product_id', l.product_id, 'variant_id', l.variant_id, 'quantity', l.quantity))
+      FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+      WHERE l.id IS NULL
+    )) cl
+    LEFT JOIN public.product_variants v ON v.id = cl.variant_id;
+  END IF;
+
+  _delivery_charge := _order.delivery_charge;
+  _zone_id := _order.delivery_zone_id;
+  _location_type := _order.location_type;
+  _delivery_cost := _order.delivery_cost;
+
+  IF _item_changes <> '{}'::jsonb OR _district_clean IS DISTINCT FROM _order.district THEN
+    SELECT jsonb_agg(jsonb_build_object('product_id', oi.product_id, 'variant_id', oi.variant_id, 'quantity', oi.quantity)) INTO _cart
+    FROM public.order_items oi
+    WHERE oi.order_id = _order.id AND oi.product_id IS NOT NULL;
+
+    _quote := public.quote_delivery(_district_clean, _cart);
+    _delivery_charge := (_quote->>'charge')::DECIMAL(10, 2);
+    _zone_id := (_quote->>'zone_id')::UUID;
+    _location_type := _quote->>'zone_code';
+    SELECT z.delivery_cost INTO _delivery_cost FROM public.delivery_zones z WHERE z.id = _zone_id;
+  END IF;
+
+  SELECT coalesce(sum(oi.price * oi.quantity), 0) INTO _subtotal
+  FROM public.order_items oi
+  WHERE oi.order_id = _order.id;
+
+  _total := _subtotal + _delivery_charge - coalesce(_order.discount_amount, 0) - _manual;
+  IF _total < 0 THEN
+    RAISE EXCEPTION 'invalid_discount';
+  END IF;
+
+  UPDATE public.orders
+  SET customer_name = trim(_customer_name),
+      phone = trim(_phone),
+      address = trim(_address),
+      district = _district_clean,
+      delivery_zone_id = _zone_id,
+      location_type = _location_type,
+      delivery_charge = _delivery_charge,
+      delivery_cost = coalesce(_delivery_cost, 0),
+      manual_discount = _manual,
+      total_amount = _total,
+      internal_note = nullif(trim(_internal_note), ''),
+      customer_note = nullif(trim(_customer_note), ''),
+      -- An order paid online in full pays the new total; what has been paid stays paid
+      prepay_amount = CASE payment_method WHEN 'online' THEN _total ELSE least(prepay_amount, _total) END,
+      payment_status = CASE
+        WHEN amount_paid <= 0 THEN 'unpaid'
+        WHEN amount_paid >= _total THEN 'paid'
+        ELSE 'partially_paid'
+      END
+  WHERE id = _order.id
+  RETURNING * INTO _updated;
+
+  FOREACH _field IN ARRAY ARRAY[
+    'customer_name', 'phone', 'address', 'district', 'delivery_charge',
+    'manual_discount', 'total_amount', 'internal_note', 'customer_note'
+  ] LOOP
+    IF to_jsonb(_order)->_field IS DISTINCT FROM to_jsonb(_updated)->_field THEN
+      _changes := _changes || jsonb_build_object(_field, jsonb_build_object(
+        'from', to_jsonb(_order)->_field,
+        'to', to_jsonb(_updated)->_field
+      ));
+    END IF;
+  END LOOP;
+
+  IF _changes <> '{}'::jsonb THEN
+    INSERT INTO public.order_audit_log (order_id, action, changes, note)
+    VALUES (_order.id, 'edit', _changes, nullif(trim(_reason), ''));
+  END IF;
+
+  RETURN _changes;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.edit_order(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, DECIMAL, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.edit_order(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, DECIMAL, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Audit entries for the Admin order page, with the email of whoever made each edit
+CREATE OR REPLACE FUNCTION public.order_audit_entries(_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', a.id,
+      'action', a.action,
+      'changes', a.changes,
+      'note', a.note,
+      'changed_by', u.email,
+      'created_at', a.created_at
+    ) ORDER BY a.created_at DESC)
+    FROM public.order_audit_log a
+    LEFT JOIN auth.users u ON u.id = a.changed_by
+    WHERE a.order_id = _order_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.order_audit_entries(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.order_audit_entries(UUID) TO authenticated;
+
+-- 4. Tracking and the profit report include the manual discount
+CREATE OR REPLACE FUNCTION public.track_order(_order_id UUID, _phone TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'customer_note', o.customer_note,
+    'location_type', o.location_type,
+    'district', o.district,
+    'delivery_zone', z.name,
+    'delivery_charge', o.delivery_charge,
+    'coupon_code', o.coupon_code,
+    'discount_amount', o.discount_amount,
+    'manual_discount', o.manual_discount,
+    'total_amount', o.total_amount,
+    'payment_method', o.payment_method,
+    'payment_status', o.payment_status,
+    'prepay_amount', o.prepay_amount,
+    'amount_paid', o.amount_paid,
+    'created_at', o.created_at,
+    'items', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'name', coalesce(p.name, oi.product_name),
+        'variant_label', oi.variant_label,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    'history', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', h.status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  LEFT JOIN public.delivery_zones z ON z.id = o.delivery_zone_id
+  WHERE o.id = _order_id
+    AND public.phone_matches(_phone, o.phone)
+$$;
+
+CREATE OR REPLACE FUNCTION public.profit_report(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_orders AS (
+    SELECT o.*
+    FROM public.orders o
+    WHERE o.created_at >= _from
+      AND o.created_at < _to
+  ),
+  sold AS (
+    SELECT * FROM period_orders o WHERE public.order_status_holds_stock(o.status)
+  ),
+  sold_lines AS (
+    SELECT
+      oi.order_id,
+      oi.product_id,
+      coalesce(p.name, oi.product_name) AS name,
+      oi.quantity,
+      oi.price * oi.quantity AS revenue,
+      oi.cost_price * oi.quantity AS cost
+    FROM sold o
+    JOIN public.order_items oi ON oi.order_id = o.id
+    LEFT JOIN public.products p ON p.id = oi.product_id
+  ),
+  order_totals AS (
+    SELECT
+      o.id,
+      o.created_at,
+      o.delivery_zone_id,
+      o.location_type,
+      o.delivery_charge,
+      o.delivery_cost,
+      coalesce(o.discount_amount, 0) + o.manual_discount AS discount,
+      coalesce((SELECT sum(l.revenue) FROM sold_lines l WHERE l.order_id = o.id), 0) AS revenue,
+      coalesce((SELECT sum(l.cost) FROM sold_lines l WHERE l.order_id = o.id), 0) AS cost
+    FROM sold o
+  ),
+  cancelled AS (
+    SELECT
+      count(*) AS orders,
+      coalesce(sum(o.total_amount), 0) AS value,
+      -- Only orders that were sent out (confirmed at some point) cost a delivery
+      coalesce(sum(o.delivery_cost) FILTER (WHERE EXISTS (
+        SELECT 1 FROM public.order_status_history h
+        WHERE h.order_id = o.id AND public.order_status_holds_stock(h.status)
+      )), 0) AS loss
+    FROM period_orders o
+    WHERE o.status IN ('cancelled', 'returned', 'refunded')
+  ),
+  by_month AS (
+    SELECT
+      to_char(date_trunc('month', t.created_at AT TIME ZONE 'Asia/Dhaka'), 'YYYY-MM') AS month,
+      count(*) AS orders,
+      sum(t.revenue) AS revenue,
+      sum(t.cost) AS cost,
+      sum(t.delivery_charge) AS delivery_charge,
+      sum(t.delivery_cost) AS delivery_cost,
+      sum(t.discount) AS discount
+    FROM order_totals t
+    GROUP BY 1
+  ),
+  by_zone AS (
+    SELECT
+      t.delivery_zone_id AS zone_id,
+      coalesce(z.name, t.location_type, '—') AS zone,
+      count(*) AS orders,
+      sum(t.revenue) AS revenue,
+      sum(t.cost) AS cost,
+      sum(t.delivery_charge) AS delivery_charge,
+      sum(t.delivery_cost) AS delivery_cost,
+      sum(t.discount) AS discount
+    FROM order_totals t
+    LEFT JOIN public.delivery_zones z ON z.id = t.delivery_zone_id
+    GROUP BY 1, 2
+  ),
+  by_product AS (
+    SELECT
+      l.product_id,
+      max(l.name) AS name,
+      sum(l.quantity) AS quantity,
+      sum(l.revenue) AS revenue,
+      sum(l.cost) AS cost
+    FROM sold_lines l
+    -- Lines of deleted products are told apart by their stored name
+    GROUP BY l.product_id, CASE WHEN l.product_id IS NULL THEN l.name END
+  ),
+  totals AS (
+    SELECT
+      count(*) AS orders,
+      coalesce(sum(t.revenue), 0) AS revenue,
+      coalesce(sum(t.cost), 0) AS cost,
+      coalesce(sum(t.delivery_charge), 0) AS delivery_charge,
+      coalesce(sum(t.delivery_cost), 0) AS delivery_cost,
+      coalesce(sum(t.discount), 0) AS discount
+    FROM order_totals t
+  )
+  SELECT jsonb_build_object(
+    'summary', jsonb_build_object(
+      'orders', t.orders,
+      'revenue', t.revenue,
+      'cost', t.cost,
+      'gross_profit', t.revenue - t.cost,
+      'gross_margin', round(100 * (t.revenue - t.cost) / nullif(t.revenue, 0), 1),
+      'delivery_charge', t.delivery_charge,
+      'delivery_cost', t.delivery_cost,
+      'discount', t.discount,
+      'cancelled_orders', c.orders,
+      'cancelled_value', c.value,
+      'cancelled_loss', c.loss,
+      'net_profit', t.revenue - t.cost + t.delivery_charge - t.delivery_cost - t.discount - c.loss
+    ),
+    'by_month', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'month', m.month,
+        'orders', m.orders,
+        'revenue', m.revenue,
+        'cost', m.cost,
+        'gross_profit', m.revenue - m.cost,
+        'gross_margin', round(100 * (m.revenue - m.cost) / nullif(m.revenue, 0), 1),
+        'delivery_charge', m.delivery_charge,
+        'delivery_cost', m.delivery_cost,
+        'discount', m.discount,
+        'net_profit', m.revenue - m.cost + m.delivery_charge - m.delivery_cost - m.discount
+      ) ORDER BY m.month)
+      FROM by_month m
+    ), '[]'::jsonb),
+    'by_zone', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'zone_id', z.zone_id,
+        'zone', z.zone,
+        'orders', z.orders,
+        'revenue', z.revenue,
+        'cost', z.cost,
+        'gross_profit', z.revenue - z.cost,
+        'gross_margin', round(100 * (z.revenue - z.cost) / nullif(z.revenue, 0), 1),
+        'delivery_charge', z.delivery_charge,
+        'delivery_cost', z.delivery_cost,
+        'discount', z.discount,
+        'net_profit', z.revenue - z.cost + z.delivery_charge - z.delivery_cost - z.discount
+      ) ORDER BY z.revenue DESC)
+      FROM by_zone z
+    ), '[]'::jsonb),
+    'by_product', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.product_id,
+        'name', p.name,
+        'quantity', p.quantity,
+        'revenue', p.revenue,
+        'cost', p.cost,
+        'gross_profit', p.revenue - p.cost,
+        'gross_margin', round(100 * (p.revenue - p.cost) / nullif(p.revenue, 0), 1)
+      ) ORDER BY p.revenue - p.cost DESC)
+      FROM by_product p
+    ), '[]'::jsonb)
+  )
+  FROM totals t, cancelled c;
+$$;
+
@@ -0,0 +1,10 @@
+-- Staff roles for the Admin area. What each role may do is decided by
+-- role_permissions() in 20251201000000_role_permissions.sql.
+--
+-- New enum values cannot be used in the transaction that adds them, so this runs as its
+-- own migration before the policies that use them.
+
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'owner';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'manager';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'order_staff';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'analyst';
@@ -0,0 +1,693 @@
+-- Role permissions for the Admin area
+-- Until now every check was has_role(auth.uid(), 'admin'), and the storage policies let any
+-- signed-in user change product media. Each staff role now maps to a set of permissions and
+-- the policies check the permission instead of the role:
+--
+--   owner, admin  everything
+--   manager       everything except managing the team
+--   order_staff   orders.view, orders.manage
+--   analyst       orders.view, reports.view
+--
+-- The map is mirrored in ROLE_PERMISSIONS in src/lib/permissions.ts. Keep the two in sync.
+
+-- 1. Existing admins become owners. 'admin' keeps the owner's permissions so older setups
+--    that still assign it keep working.
+INSERT INTO public.user_roles (user_id, role)
+SELECT user_id, 'owner' FROM public.user_roles WHERE role = 'admin'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+DELETE FROM public.user_roles WHERE role = 'admin';
+
+-- 2. The permission map
+CREATE OR REPLACE FUNCTION public.role_permissions(_role app_role)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _role
+    WHEN 'owner' THEN ARRAY[
+      'orders.view', 'orders.manage', 'products.manage', 'coupons.manage',
+      'settings.manage', 'reports.view', 'team.manage'
+    ]
+    WHEN 'admin' THEN ARRAY[
+      'orders.view', 'orders.manage', 'products.manage', 'coupons.manage',
+      'settings.manage', 'reports.view', 'team.manage'
+    ]
+    WHEN 'manager' THEN ARRAY[
+      'orders.view', 'orders.manage', 'products.manage', 'coupons.manage',
+      'settings.manage', 'reports.view'
+    ]
+    WHEN 'order_staff' THEN ARRAY['orders.view', 'orders.manage']
+    WHEN 'analyst' THEN ARRAY['orders.view', 'reports.view']
+    ELSE ARRAY[]::TEXT[]
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND _permission = ANY(public.role_permissions(role))
+  )
+$$;
+
+REVOKE ALL ON FUNCTION public.has_permission(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_permission(UUID, TEXT) TO authenticated, service_role;
+
+-- 3. Product media: only staff who manage products may change it
+DROP POLICY IF EXISTS "Authenticated users can upload products" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update products" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete products" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can upload products" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can update products" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can delete products" ON storage.objects;
+
+CREATE POLICY "Staff can upload products"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'products'
+  AND (storage.foldername(name))[1] IN ('images', 'videos')
+  AND public.has_permission(auth.uid(), 'products.manage')
+);
+
+CREATE POLICY "Staff can update products"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'products' AND public.has_permission(auth.uid(), 'products.manage'))
+WITH CHECK (bucket_id = 'products' AND public.has_permission(auth.uid(), 'products.manage'));
+
+CREATE POLICY "Staff can delete products"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'products' AND public.has_permission(auth.uid(), 'products.manage'));
+
+-- 4. Catalog
+DROP POLICY IF EXISTS "Admins can insert products" ON public.products;
+DROP POLICY IF EXISTS "Admins can update products" ON public.products;
+DROP POLICY IF EXISTS "Admins can delete products" ON public.products;
+
+CREATE POLICY "Staff can insert products"
+ON public.products FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'products.manage'));
+
+CREATE POLICY "Staff can update products"
+ON public.products FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'products.manage'));
+
+CREATE POLICY "Staff can delete products"
+ON public.products FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'products.manage'));
+
+DROP POLICY IF EXISTS "Admins can insert product variants" ON public.product_variants;
+DROP POLICY IF EXISTS "Admins can update product variants" ON public.product_variants;
+DROP POLICY IF EXISTS "Admins can delete product variants" ON public.product_variants;
+
+CREATE POLICY "Staff can insert product variants"
+ON public.product_variants FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'products.manage'));
+
+CREATE POLICY "Staff can update product variants"
+ON public.product_variants FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'products.manage'));
+
+CREATE POLICY "Staff can delete product variants"
+ON public.product_variants FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'products.manage'));
+
+DROP POLICY IF EXISTS "Admins can manage categories" ON public.categories;
+CREATE POLICY "Staff can manage categories"
+ON public.categories FOR ALL
+TO authenticated
+USING (public.has_permission(auth.uid(), 'products.manage'))
+WITH CHECK (public.has_permission(auth.uid(), 'products.manage'));
+
+DROP POLICY IF EXISTS "Admins can manage product categories" ON public.product_categories;
+CREATE POLICY "Staff can manage product categories"
+ON public.product_categories FOR ALL
+TO authenticated
+USING (public.has_permission(auth.uid(), 'products.manage'))
+WITH CHECK (public.has_permission(auth.uid(), 'products.manage'));
+
+DROP POLICY IF EXISTS "Admins can manage brands" ON public.brands;
+CREATE POLICY "Staff can manage brands"
+ON public.brands FOR ALL
+TO authenticated
+USING (public.has_permission(auth.uid(), 'products.manage'))
+WITH CHECK (public.has_permission(auth.uid(), 'products.manage'));
+
+DROP POLICY IF EXISTS "Admins can view stock movements" ON public.stock_movements;
+CREATE POLICY "Staff can view stock movements"
+ON public.stock_movements FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'products.manage'));
+
+-- 5. Orders and what hangs off them
+DROP POLICY IF EXISTS "Admins can view all orders" ON public.orders;
+DROP POLICY IF EXISTS "Admins can update orders" ON public.orders;
+
+CREATE POLICY "Staff can view all orders"
+ON public.orders FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'orders.view'));
+
+CREATE POLICY "Staff can update orders"
+ON public.orders FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'orders.manage'));
+
+DROP POLICY IF EXISTS "Admins can view all order items" ON public.order_items;
+CREATE POLICY "Staff can view all order items"
+ON public.order_items FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'orders.view'));
+
+DROP POLICY IF EXISTS "Admins can view order status history" ON public.order_status_history;
+CREATE POLICY "Staff can view order status history"
+ON public.order_status_history FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'orders.view'));
+
+DROP POLICY IF EXISTS "Admins can view order audit log" ON public.order_audit_log;
+CREATE POLICY "Staff can view order audit log"
+ON public.order_audit_log FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'orders.view'));
+
+DROP POLICY IF EXISTS "Admins can view courier events" ON public.courier_events;
+CREATE POLICY "Staff can view courier events"
+ON public.courier_events FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'orders.view'));
+
+DROP POLICY IF EXISTS "Admins can view payments" ON public.payments;
+CREATE POLICY "Staff can view payments"
+ON public.payments FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'orders.view'));
+
+DROP POLICY IF EXISTS "Admins can view payment events" ON public.payment_events;
+CREATE POLICY "Staff can view payment events"
+ON public.payment_events FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'orders.view'));
+
+-- 6. Coupons, delivery settings and analytics
+DROP POLICY IF EXISTS "Admins can manage coupons" ON public.coupons;
+CREATE POLICY "Staff can manage coupons"
+ON public.coupons FOR ALL
+TO authenticated
+USING (public.has_permission(auth.uid(), 'coupons.manage'))
+WITH CHECK (public.has_permission(auth.uid(), 'coupons.manage'));
+
+DROP POLICY IF EXISTS "Admins can insert delivery zones" ON public.delivery_zones;
+DROP POLICY IF EXISTS "Admins can update delivery zones" ON public.delivery_zones;
+DROP POLICY IF EXISTS "Admins can delete delivery zones" ON public.delivery_zones;
+
+CREATE POLICY "Staff can insert delivery zones"
+ON public.delivery_zones FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'settings.manage'));
+
+CREATE POLICY "Staff can update delivery zones"
+ON public.delivery_zones FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'settings.manage'));
+
+CREATE POLICY "Staff can delete delivery zones"
+ON public.delivery_zones FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'settings.manage'));
+
+DROP POLICY IF EXISTS "Admins can update delivery charges" ON public.delivery_charges;
+DROP POLICY IF EXISTS "Admins can insert delivery charges" ON public.delivery_charges;
+
+CREATE POLICY "Staff can update delivery charges"
+ON public.delivery_charges FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'settings.manage'));
+
+CREATE POLICY "Staff can insert delivery charges"
+ON public.delivery_charges FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'settings.manage'));
+
+DROP POLICY IF EXISTS "Admins can view activity" ON public.user_activity;
+CREATE POLICY "Staff can view activity"
+ON public.user_activity FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'reports.view'));
+
+-- 7. Roles: only the owner manages the team
+DROP POLICY IF EXISTS "Admins can view all roles" ON public.user_roles;
+DROP POLICY IF EXISTS "Admins can insert roles" ON public.user_roles;
+
+CREATE POLICY "Owners can view all roles"
+ON public.user_roles FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'team.manage'));
+
+CREATE POLICY "Owners can insert roles"
+ON public.user_roles FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'team.manage'));
+
+-- 8. Order functions check the permission for what they do
+CREATE OR REPLACE FUNCTION public.set_order_status(_order_id UUID, _status TEXT, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'orders.manage') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(trim(_note), ''), true);
+
+  UPDATE public.orders SET status = _status WHERE id = _order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_order_status(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_order_status(UUID, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.order_history(_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'orders.view') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'status', h.status,
+      'note', h.note,
+      'changed_by', u.email,
+      'created_at', h.created_at
+    ) ORDER BY h.created_at)
+    FROM public.order_status_history h
+    LEFT JOIN auth.users u ON u.id = h.changed_by
+    WHERE h.order_id = _order_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.order_history(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.order_history(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.edit_order(
+  _order_id UUID,
+  _customer_name TEXT,
+  _phone TEXT,
+  _address TEXT,
+  _district TEXT,
+  _items JSONB,
+  _manual_discount DECIMAL DEFAULT 0,
+  _internal_note TEXT DEFAULT NULL,
+  _customer_note TEXT DEFAULT NULL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _updated public.orders%ROWTYPE;
+  _district_clean TEXT := nullif(trim(_district), '');
+  _manual DECIMAL(10, 2) := coalesce(_manual_discount, 0);
+  _unknown JSONB;
+  _missing JSONB;
+  _needs_variant JSONB;
+  _lines JSONB;
+  _deltas JSONB;
+  _short JSONB;
+  _item_changes JSONB;
+  _cart JSONB;
+  _quote JSONB;
+  _delivery_charge DECIMAL(10, 2);
+  _zone_id UUID;
+  _location_type TEXT;
+  _delivery_cost DECIMAL(10, 2);
+  _subtotal DECIMAL(10, 2);
+  _total DECIMAL(10, 2);
+  _changes JSONB := '{}'::jsonb;
+  _field TEXT;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'orders.manage') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  -- Once the parcel has left or is booked with a courier, its contents and COD amount are fixed
+  IF _order.status NOT IN ('pending', 'confirmed', 'processing')
+    OR (_order.courier_consignment_id IS NOT NULL AND _order.courier_status IS DISTINCT FROM 'cancelled') THEN
+    RAISE EXCEPTION 'order_not_editable';
+  END IF;
+
+  IF coalesce(trim(_customer_name), '') = ''
+    OR coalesce(trim(_phone), '') = ''
+    OR coalesce(trim(_address), '') = ''
+    OR _district_clean IS NULL THEN
+    RAISE EXCEPTION 'invalid_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'empty_cart';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS r(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE r.quantity IS NULL OR r.quantity <= 0 OR (r.id IS NULL AND r.product_id IS NULL)
+  ) THEN
+    RAISE EXCEPTION 'invalid_quantity';
+  END IF;
+
+  -- Each existing line may be listed once; a repeated id would count its quantity twice
+  -- in the stock movement but be written only once
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS r(id UUID)
+    WHERE r.id IS NOT NULL
+    GROUP BY r.id
+    HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'duplicate_order_item';
+  END IF;
+
+  IF _manual < 0 THEN
+    RAISE EXCEPTION 'invalid_discount';
+  END IF;
+
+  SELECT jsonb_agg(r.id) INTO _unknown
+  FROM jsonb_to_recordset(_items) AS r(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+  LEFT JOIN public.order_items oi ON oi.id = r.id AND oi.order_id = _order.id
+  WHERE r.id IS NOT NULL AND oi.id IS NULL;
+
+  IF _unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'order_item_not_found' USING DETAIL = _unknown::TEXT;
+  END IF;
+
+  -- The order's lines after the edit: existing lines with their new quantity, and new lines
+  -- merged so each product / variant is added once
+  SELECT jsonb_agg(jsonb_build_object('id', x.id, 'product_id', x.product_id, 'variant_id', x.variant_id, 'quantity', x.quantity)) INTO _lines
+  FROM (
+    SELECT oi.id, oi.product_id, oi.variant_id, r.quantity
+    FROM jsonb_to_recordset(_items) AS r(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    JOIN public.order_items oi ON oi.id = r.id
+    UNION ALL
+    SELECT NULL::UUID, r.product_id, r.variant_id, sum(r.quantity)::INTEGER
+    FROM jsonb_to_recordset(_items) AS r(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE r.id IS NULL
+    GROUP BY r.product_id, r.variant_id
+  ) x;
+
+  -- Lock the product and variant rows (in a stable order to avoid deadlocks) before reading stock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (
+    SELECT l.product_id FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    UNION SELECT product_id FROM public.order_items WHERE order_id = _order.id
+  )
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.id IN (
+    SELECT l.variant_id FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    UNION SELECT variant_id FROM public.order_items WHERE order_id = _order.id
+  )
+  ORDER BY v.id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(coalesce(l.variant_id, l.product_id)) INTO _missing
+  FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = l.product_id
+  LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id AND v.is_active
+  WHERE l.id IS NULL AND (p.id IS NULL OR (l.variant_id IS NOT NULL AND v.id IS NULL));
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'product_not_found' USING DETAIL = _missing::TEXT;
+  END IF;
+
+  SELECT jsonb_agg(DISTINCT l.product_id) INTO _needs_variant
+  FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = l.product_id
+  WHERE l.id IS NULL AND l.variant_id IS NULL AND p.has_variants;
+
+  IF _needs_variant IS NOT NULL THEN
+    RAISE EXCEPTION 'variant_required' USING DETAIL = _needs_variant::TEXT;
+  END IF;
+
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'added', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', p.name,
+        'variant_label', public.variant_label(v.options),
+        'quantity', l.quantity,
+        'price', cl.unit_price
+      ))
+      FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+      JOIN public.products p ON p.id = l.product_id
+      LEFT JOIN public.product_variants v ON v.id = l.variant_id
+      CROSS JOIN LATERAL public.cart_lines(jsonb_build_array(jsonb_build_object(
+        'product_id', l.product_id, 'variant_id', l.variant_id, 'quantity', l.quantity
+      ))) cl
+      WHERE l.id IS NULL
+    ),
+    'removed', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', coalesce(p.name, oi.product_name),
+        'variant_label', oi.variant_label,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ))
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = _order.id
+        AND oi.id NOT IN (
+          SELECT l.id FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+          WHERE l.id IS NOT NULL
+        )
+    ),
+    'changed', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', coalesce(p.name, oi.product_name),
+        'variant_label', oi.variant_label,
+        'from', oi.quantity,
+        'to', l.quantity
+      ))
+      FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+      JOIN public.order_items oi ON oi.id = l.id
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE l.quantity <> oi.quantity
+    )
+  )) INTO _item_changes;
+
+  IF _item_changes <> '{}'::jsonb THEN
+    _changes := _changes || jsonb_build_object('items', _item_changes);
+
+    -- Stock the order holds moves with its quantities
+    IF public.order_status_holds_stock(_order.status) THEN
+      SELECT jsonb_agg(jsonb_build_object('product_id', d.product_id, 'variant_id', d.variant_id, 'quantity', d.quantity)) INTO _deltas
+      FROM (
+        SELECT x.product_id, x.variant_id, sum(x.quantity)::INTEGER AS quantity
+        FROM (
+          SELECT l.product_id, l.variant_id, l.quantity
+          FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+          UNION ALL
+          SELECT oi.product_id, oi.variant_id, -oi.quantity FROM public.order_items oi WHERE oi.order_id = _order.id
+        ) x
+        WHERE x.product_id IS NOT NULL
+        GROUP BY x.product_id, x.variant_id
+      ) d
+      WHERE d.quantity <> 0;
+
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'variant_id', v.id,
+        'name', CASE WHEN v.id IS NULL THEN p.name ELSE p.name || ' (' || public.variant_label(v.options) || ')' END,
+        'stock', coalesce(v.stock, p.stock)
+      )) INTO _short
+      FROM jsonb_to_recordset(coalesce(_deltas, '[]'::jsonb)) AS d(product_id UUID, variant_id UUID, quantity INTEGER)
+      JOIN public.products p ON p.id = d.product_id
+      LEFT JOIN public.product_variants v ON v.id = d.variant_id
+      WHERE d.quantity > 0 AND coalesce(v.stock, p.stock) < d.quantity;
+
+      IF _short IS NOT NULL THEN
+        RAISE EXCEPTION 'insufficient_stock' USING DETAIL = _short::TEXT;
+      END IF;
+
+      PERFORM set_config('app.stock_order_id', _order.id::TEXT, true);
+      PERFORM set_config('app.stock_reason', 'order_edited', true);
+
+      UPDATE public.product_variants v
+      SET stock = v.stock - d.quantity
+      FROM jsonb_to_recordset(coalesce(_deltas, '[]'::jsonb)) AS d(product_id UUID, variant_id UUID, quantity INTEGER)
+      WHERE v.id = d.variant_id;
+
+      UPDATE public.products p
+      SET stock = p.stock - d.quantity
+      FROM jsonb_to_recordset(coalesce(_deltas, '[]'::jsonb)) AS d(product_id UUID, variant_id UUID, quantity INTEGER)
+      WHERE p.id = d.product_id AND d.variant_id IS NULL;
+
+      PERFORM set_config('app.stock_order_id', '', true);
+      PERFORM set_config('app.stock_reason', '', true);
+    END IF;
+
+    DELETE FROM public.order_items
+    WHERE order_id = _order.id
+      AND id NOT IN (
+        SELECT l.id FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+        WHERE l.id IS NOT NULL
+      );
+
+    UPDATE public.order_items oi
+    SET quantity = l.quantity
+    FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE oi.id = l.id AND oi.quantity <> l.quantity;
+
+    INSERT INTO public.order_items (order_id, product_id, variant_id, variant_label, quantity, price)
+    SELECT _order.id, cl.product_id, cl.variant_id, public.variant_label(v.options), cl.quantity, cl.unit_price
+    FROM public.cart_lines((
+      SELECT jsonb_agg(jsonb_build_object('product_id', l.product_id, 'variant_id', l.variant_id, 'quantity', l.quantity))
+      FROM jsonb_to_recordset(_lines) AS l(id UUID, product_id UUID, variant_id UUID, quantity INTEGER)
+      WHERE l.id IS NULL
+    )) cl
+    LEFT JOIN public.product_variants v ON v.id = cl.variant_id;
+  END IF;
+
+  _delivery_charge := _order.delivery_charge;
+  _zone_id := _order.delivery_zone_id;
+  _location_type := _order.location_type;
+  _delivery_cost := _order.delivery_cost;
+
+  IF _item_changes <> '{}'::jsonb OR _district_clean IS DISTINCT FROM _order.district THEN
+    SELECT jsonb_agg(jsonb_build_object('product_id', oi.product_id, 'variant_id', oi.variant_id, 'quantity', oi.quantity)) INTO _cart
+    FROM public.order_items oi
+    WHERE oi.order_id = _order.id AND oi.product_id IS NOT NULL;
+
+    _quote := public.quote_delivery(_district_clean, _cart);
+    _delivery_charge := (_quote->>'charge')::DECIMAL(10, 2);
+    _zone_id := (_quote->>'zone_id')::UUID;
+    _location_type := _quote->>'zone_code';
+    SELECT z.delivery_cost INTO _delivery_cost FROM public.delivery_zones z WHERE z.id = _zone_id;
+  END IF;
+
+  SELECT coalesce(sum(oi.price * oi.quantity), 0) INTO _subtotal
+  FROM public.order_items oi
+  WHERE oi.order_id = _order.id;
+
+  _total := _subtotal + _delivery_charge - coalesce(_order.discount_amount, 0) - _manual;
+  IF _total < 0 THEN
+    RAISE EXCEPTION 'invalid_discount';
+  END IF;
+
+  UPDATE public.orders
+  SET customer_name = trim(_customer_name),
+      phone = trim(_phone),
+      address = trim(_address),
+      district = _district_clean,
+      delivery_zone_id = _zone_id,
+      location_type = _location_type,
+      delivery_charge = _delivery_charge,
+      delivery_cost = coalesce(_delivery_cost, 0),
+      manual_discount = _manual,
+      total_amount = _total,
+      internal_note = nullif(trim(_internal_note), ''),
+      customer_note = nullif(trim(_customer_note), ''),
+      -- An order paid online in full pays the new total; what has been paid stays paid
+      prepay_amount = CASE payment_method WHEN 'online' THEN _total ELSE least(prepay_amount, _total) END,
+      payment_status = CASE
+        WHEN amount_paid <= 0 THEN 'unpaid'
+        WHEN amount_paid >= _total THEN 'paid'
+        ELSE 'partially_paid'
+      END
+  WHERE id = _order.id
+  RETURNING * INTO _updated;
+
+  FOREACH _field IN ARRAY ARRAY[
+    'customer_name', 'phone', 'address', 'district', 'delivery_charge',
+    'manual_discount', 'total_amount', 'internal_note', 'customer_note'
+  ] LOOP
+    IF to_jsonb(_order)->_field IS DISTINCT FROM to_jsonb(_updated)->_field THEN
+      _changes := _changes || jsonb_build_object(_field, jsonb_build_object(
+        'from', to_jsonb(_order)->_field,
+        'to', to_jsonb(_updated)->_field
+      ));
+    END IF;
+  END LOOP;
+
+  IF _changes <> '{}'::jsonb THEN
+    INSERT INTO public.order_audit_log (order_id, action, changes, note)
+    VALUES (_order.id, 'edit', _changes, nullif(trim(_reason), ''));
+  END IF;
+
+  RETURN _changes;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.edit_order(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, DECIMAL, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.edit_order(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, DECIMAL, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.order_audit_entries(_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'orders.view') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', a.id,
+      'action', a.action,
+      'changes', a.changes,
+      'note', a.note,
+      'changed_by', u.email,
+      'created_at', a.created_at
+    ) ORDER BY a.created_at DESC)
+    FROM public.order_audit_log a
+    LEFT JOIN auth.users u ON u.id = a.changed_by
+    WHERE a.order_id = _order_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.order_audit_entries(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.order_audit_entries(UUID) TO authenticated;
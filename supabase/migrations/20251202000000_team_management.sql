@@ -0,0 +1,329 @@
+-- Team management
+-- The owner invites staff by email (team-invite edge function), changes or revokes their role
+-- from the Admin Team tab, and can turn off public signup. Every change to user_roles is
+-- recorded in role_audit_log.
+
+-- 1. Role change log, written by a trigger so changes made in SQL are recorded too
+CREATE TABLE IF NOT EXISTS public.role_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role app_role NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('granted', 'revoked')),
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS role_audit_log_created_at_idx ON public.role_audit_log (created_at DESC);
+
+ALTER TABLE public.role_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view role audit log"
+ON public.role_audit_log FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'team.manage'));
+
+CREATE OR REPLACE FUNCTION public.record_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('DELETE', 'UPDATE') THEN
+    INSERT INTO public.role_audit_log (user_id, role, action)
+    VALUES (OLD.user_id, OLD.role, 'revoked');
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    INSERT INTO public.role_audit_log (user_id, role, action)
+    VALUES (NEW.user_id, NEW.role, 'granted');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_role_change ON public.user_roles;
+CREATE TRIGGER record_role_change
+AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW
+EXECUTE FUNCTION public.record_role_change();
+
+-- 2. Shop settings changed from the Admin area
+CREATE TABLE IF NOT EXISTS public.app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Read and written through the functions below only
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_app_settings_updated_at
+BEFORE UPDATE ON public.app_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.app_settings (key, value)
+VALUES ('public_signup', 'true'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.public_signup_enabled()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((SELECT (value)::BOOLEAN FROM public.app_settings WHERE key = 'public_signup'), true)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.public_signup_enabled() TO anon, authenticated;
+
+-- Errors: forbidden.
+CREATE OR REPLACE FUNCTION public.set_public_signup(_enabled BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'team.manage') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  INSERT INTO public.app_settings (key, value)
+  VALUES ('public_signup', to_jsonb(coalesce(_enabled, true)))
+  ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_public_signup(BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_public_signup(BOOLEAN) TO authenticated;
+
+-- Emails the owner has invited; with public signup off, only these can get an account
+CREATE TABLE IF NOT EXISTS public.staff_invites (
+  email TEXT PRIMARY KEY CHECK (email = lower(email)),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.staff_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view staff invites"
+ON public.staff_invites FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'team.manage'));
+
+-- Hiding the button on the sign-in page is not enough: signUp() can be called with the
+-- public key from anywhere. Auth creates an invited user before it sets invited_at, so
+-- invites are recognised by their email.
+CREATE OR REPLACE FUNCTION public.check_public_signup()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.public_signup_enabled()
+    AND NOT EXISTS (SELECT 1 FROM public.staff_invites WHERE email = lower(NEW.email)) THEN
+    RAISE EXCEPTION 'signup_disabled';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_public_signup ON auth.users;
+CREATE TRIGGER check_public_signup
+BEFORE INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.check_public_signup();
+
+-- 3. Team functions for the owner
+
+-- Owners, managers, order staff and analysts; 'admin' is listed as the owner it stands for
+CREATE OR REPLACE FUNCTION public.team_members()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'team.manage') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'user_id', u.id,
+      'email', u.email,
+      'roles', m.roles,
+      'invited_at', u.invited_at,
+      'confirmed_at', u.confirmed_at,
+      'last_sign_in_at', u.last_sign_in_at
+    ) ORDER BY u.email)
+    FROM (
+      SELECT r.user_id, array_agg(r.role ORDER BY r.role) AS roles
+      FROM public.user_roles r
+      WHERE r.role <> 'user'
+      GROUP BY r.user_id
+    ) m
+    JOIN auth.users u ON u.id = m.user_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.team_members() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.team_members() TO authenticated;
+
+-- True when the user is the only one left who can manage the team
+CREATE OR REPLACE FUNCTION public.is_last_owner(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission(_user_id, 'team.manage')
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.user_roles r
+      WHERE r.user_id <> _user_id
+        AND 'team.manage' = ANY(public.role_permissions(r.role))
+    )
+$$;
+
+REVOKE ALL ON FUNCTION public.is_last_owner(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Gives a staff member exactly one staff role, replacing any they had.
+-- Errors: forbidden, invalid_role, user_not_found, last_owner.
+CREATE OR REPLACE FUNCTION public.set_staff_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'team.manage') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  IF _role IS NULL OR _role::TEXT NOT IN ('owner', 'manager', 'order_staff', 'analyst') THEN
+    RAISE EXCEPTION 'invalid_role';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = _user_id) THEN
+    RAISE EXCEPTION 'user_not_found';
+  END IF;
+
+  IF _role <> 'owner' AND public.is_last_owner(_user_id) THEN
+    RAISE EXCEPTION 'last_owner';
+  END IF;
+
+  DELETE FROM public.user_roles
+  WHERE user_id = _user_id AND role <> 'user' AND role <> _role;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, _role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_staff_role(UUID, app_role) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_staff_role(UUID, app_role) TO authenticated;
+
+-- Removes every staff role; the account itself stays.
+-- Errors: forbidden, last_owner.
+CREATE OR REPLACE FUNCTION public.revoke_staff(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'team.manage') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  IF public.is_last_owner(_user_id) THEN
+    RAISE EXCEPTION 'last_owner';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id AND role <> 'user';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.revoke_staff(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_staff(UUID) TO authenticated;
+
+-- Latest role changes with the emails of the staff member and of whoever made the change
+CREATE OR REPLACE FUNCTION public.role_audit_entries(_limit INTEGER DEFAULT 50)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'team.manage') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(e ORDER BY e.created_at DESC)
+    FROM (
+      SELECT a.id, a.role, a.action, u.email AS user_email, c.email AS changed_by, a.created_at
+      FROM public.role_audit_log a
+      LEFT JOIN auth.users u ON u.id = a.user_id
+      LEFT JOIN auth.users c ON c.id = a.changed_by
+      ORDER BY a.created_at DESC
+      LIMIT least(greatest(coalesce(_limit, 50), 1), 200)
+    ) e
+  ), '[]'::jsonb);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.role_audit_entries(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.role_audit_entries(INTEGER) TO authenticated;
+
+-- Called by the team-invite edge function before it sends the invite.
+-- Errors: forbidden, invalid_email.
+CREATE OR REPLACE FUNCTION public.record_staff_invite(_email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'team.manage') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  IF coalesce(trim(_email), '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'invalid_email';
+  END IF;
+
+  INSERT INTO public.staff_invites (email)
+  VALUES (lower(trim(_email)))
+  ON CONFLICT (email) DO UPDATE SET invited_by = auth.uid(), created_at = now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_staff_invite(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_staff_invite(TEXT) TO authenticated;
+
+-- For the team-invite edge function: the account an email belongs to, if there is one
+CREATE OR REPLACE FUNCTION public.auth_user_id_by_email(_email TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM auth.users WHERE lower(email) = lower(trim(_email)) LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.auth_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.auth_user_id_by_email(TEXT) TO service_role;
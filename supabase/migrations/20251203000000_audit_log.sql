@@ -0,0 +1,220 @@
+-- Audit log for the Admin area
+-- Triggers record every insert, update and delete on products, variants, orders, order lines,
+-- delivery pricing and staff roles, with who made it and what changed. Changes made by
+-- customers (placing an order) or by the courier and payment webhooks have no actor.
+
+-- 1. Owners and managers may read it
+CREATE OR REPLACE FUNCTION public.role_permissions(_role app_role)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _role
+    WHEN 'owner' THEN ARRAY[
+      'orders.view', 'orders.manage', 'products.manage', 'coupons.manage',
+      'settings.manage', 'reports.view', 'team.manage', 'audit.view'
+    ]
+    WHEN 'admin' THEN ARRAY[
+      'orders.view', 'orders.manage', 'products.manage', 'coupons.manage',
+      'settings.manage', 'reports.view', 'team.manage', 'audit.view'
+    ]
+    WHEN 'manager' THEN ARRAY[
+      'orders.view', 'orders.manage', 'products.manage', 'coupons.manage',
+      'settings.manage', 'reports.view', 'audit.view'
+    ]
+    WHEN 'order_staff' THEN ARRAY['orders.view', 'orders.manage']
+    WHEN 'analyst' THEN ARRAY['orders.view', 'reports.view']
+    ELSE ARRAY[]::TEXT[]
+  END
+$$;
+
+-- 2. The log
+-- entity_id is the product, order, zone or user the change belongs to, so a variant or an
+-- order line shows up in the history of its product or order. The id is a sequence rather
+-- than a UUID because all rows written by one transaction share created_at, and the viewer
+-- pages by id.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  entity TEXT NOT NULL CHECK (entity IN ('product', 'order', 'delivery_zone', 'delivery_charge', 'role')),
+  entity_id UUID,
+  table_name TEXT NOT NULL,
+  record_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON public.audit_log (entity, entity_id, id DESC);
+CREATE INDEX IF NOT EXISTS audit_log_actor_idx ON public.audit_log (actor, id DESC);
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON public.audit_log (created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view audit log"
+ON public.audit_log FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'audit.view'));
+
+-- { column: { from, to } } for the columns that differ; from is null on insert, to on delete
+CREATE OR REPLACE FUNCTION public.audit_diff(_old JSONB, _new JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(jsonb_object_agg(k, jsonb_build_object('from', _old -> k, 'to', _new -> k)), '{}'::jsonb)
+  FROM jsonb_object_keys(coalesce(_old, '{}'::jsonb) || coalesce(_new, '{}'::jsonb)) AS k
+  WHERE k NOT IN ('updated_at', 'search_vector')
+    AND coalesce(_old -> k, 'null'::jsonb) IS DISTINCT FROM coalesce(_new -> k, 'null'::jsonb)
+$$;
+
+-- TG_ARGV[0] is the entity, TG_ARGV[1] the column holding its id
+CREATE OR REPLACE FUNCTION public.record_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB;
+  _new JSONB;
+  _row JSONB;
+  _changes JSONB;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    _old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    _new := to_jsonb(NEW);
+  END IF;
+
+  _row := coalesce(_new, _old);
+  _changes := public.audit_diff(_old, _new);
+
+  -- Updates that only touched updated_at
+  IF TG_OP = 'UPDATE' AND _changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (entity, entity_id, table_name, record_id, action, changes)
+  VALUES (
+    TG_ARGV[0],
+    (_row ->> TG_ARGV[1])::UUID,
+    TG_TABLE_NAME,
+    (_row ->> 'id')::UUID,
+    lower(TG_OP),
+    _changes
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_products ON public.products;
+CREATE TRIGGER audit_products
+AFTER INSERT OR UPDATE OR DELETE ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit('product', 'id');
+
+DROP TRIGGER IF EXISTS audit_product_variants ON public.product_variants;
+CREATE TRIGGER audit_product_variants
+AFTER INSERT OR UPDATE OR DELETE ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit('product', 'product_id');
+
+DROP TRIGGER IF EXISTS audit_orders ON public.orders;
+CREATE TRIGGER audit_orders
+AFTER INSERT OR UPDATE OR DELETE ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit('order', 'id');
+
+DROP TRIGGER IF EXISTS audit_order_items ON public.order_items;
+CREATE TRIGGER audit_order_items
+AFTER INSERT OR UPDATE OR DELETE ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit('order', 'order_id');
+
+-- Delivery prices live in delivery_zones; delivery_charges is only kept for reference
+DROP TRIGGER IF EXISTS audit_delivery_zones ON public.delivery_zones;
+CREATE TRIGGER audit_delivery_zones
+AFTER INSERT OR UPDATE OR DELETE ON public.delivery_zones
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit('delivery_zone', 'id');
+
+DROP TRIGGER IF EXISTS audit_delivery_charges ON public.delivery_charges;
+CREATE TRIGGER audit_delivery_charges
+AFTER INSERT OR UPDATE OR DELETE ON public.delivery_charges
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit('delivery_charge', 'id');
+
+DROP TRIGGER IF EXISTS audit_user_roles ON public.user_roles;
+CREATE TRIGGER audit_user_roles
+AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit('role', 'user_id');
+
+-- 3. Reading it
+-- Newest first, _limit at a time; pass the last id seen as _before_id for the next page.
+-- _actor matches part of the actor's email. Errors: forbidden.
+CREATE OR REPLACE FUNCTION public.audit_entries(
+  _entity TEXT DEFAULT NULL,
+  _entity_id UUID DEFAULT NULL,
+  _actor TEXT DEFAULT NULL,
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _before_id BIGINT DEFAULT NULL,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'audit.view') THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(e ORDER BY e.id DESC)
+    FROM (
+      SELECT
+        a.id,
+        a.entity,
+        a.entity_id,
+        a.table_name,
+        a.record_id,
+        a.action,
+        a.changes,
+        a.created_at,
+        u.email AS actor_email,
+        -- Deleted products and orders keep the name they had in their delete entry
+        coalesce(
+          p.name, o.customer_name, z.name, dc.location_type, ru.email,
+          a.changes -> 'name' ->> 'from', a.changes -> 'customer_name' ->> 'from'
+        ) AS entity_label
+      FROM public.audit_log a
+      LEFT JOIN auth.users u ON u.id = a.actor
+      LEFT JOIN public.products p ON a.entity = 'product' AND p.id = a.entity_id
+      LEFT JOIN public.orders o ON a.entity = 'order' AND o.id = a.entity_id
+      LEFT JOIN public.delivery_zones z ON a.entity = 'delivery_zone' AND z.id = a.entity_id
+      LEFT JOIN public.delivery_charges dc ON a.entity = 'delivery_charge' AND dc.id = a.entity_id
+      LEFT JOIN auth.users ru ON a.entity = 'role' AND ru.id = a.entity_id
+      WHERE (_entity IS NULL OR a.entity = _entity)
+        AND (_entity_id IS NULL OR a.entity_id = _entity_id)
+        AND (coalesce(trim(_actor), '') = '' OR u.email ILIKE '%' || trim(_actor) || '%')
+        AND (_from IS NULL OR a.created_at >= _from)
+        AND (_to IS NULL OR a.created_at < _to)
+        AND (_before_id IS NULL OR a.id < _before_id)
+      ORDER BY a.id DESC
+      LIMIT least(greatest(coalesce(_limit, 50), 1), 200)
+    ) e
+  ), '[]'::jsonb);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.audit_entries(TEXT, UUID, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, BIGINT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.audit_entries(TEXT, UUID, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, BIGINT, INTEGER) TO authenticated;
@@ -0,0 +1,182 @@
+-- Customer accounts
+-- Customers may sign in with a one-time code sent to their phone or email. Orders placed
+-- while signed in are linked to the account, and the account keeps saved addresses for
+-- checkout. Guest checkout is unchanged.
+
+-- 1. Orders remember who placed them
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS orders_user_id_idx ON public.orders (user_id, created_at DESC);
+
+-- place_order() runs as its caller's session, so auth.uid() is the signed-in customer (or
+-- null for a guest)
+CREATE OR REPLACE FUNCTION public.set_order_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    NEW.user_id := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_order_user ON public.orders;
+CREATE TRIGGER set_order_user
+BEFORE INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.set_order_user();
+
+-- 2. Saved addresses
+-- district is the delivery area picked at checkout, which decides the delivery zone
+CREATE TABLE IF NOT EXISTS public.customer_addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  label TEXT,
+  customer_name TEXT NOT NULL CHECK (trim(customer_name) <> ''),
+  phone TEXT NOT NULL CHECK (trim(phone) <> ''),
+  address TEXT NOT NULL CHECK (trim(address) <> ''),
+  district TEXT NOT NULL CHECK (trim(district) <> ''),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS customer_addresses_user_id_idx ON public.customer_addresses (user_id);
+
+-- One default address per customer
+CREATE UNIQUE INDEX IF NOT EXISTS customer_addresses_one_default_idx
+ON public.customer_addresses (user_id)
+WHERE is_default;
+
+CREATE TRIGGER update_customer_addresses_updated_at
+BEFORE UPDATE ON public.customer_addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.customer_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view their addresses"
+ON public.customer_addresses FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Customers can add addresses"
+ON public.customer_addresses FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Customers can update their addresses"
+ON public.customer_addresses FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Customers can delete their addresses"
+ON public.customer_addresses FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Makes one of the customer's addresses the default in a single transaction, so a failure
+-- never leaves them without one. The old default is cleared first because the unique index
+-- is checked row by row. Errors: address_not_found.
+CREATE OR REPLACE FUNCTION public.set_default_address(_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.customer_addresses
+  SET is_default = false
+  WHERE user_id = auth.uid() AND is_default AND id <> _id;
+
+  UPDATE public.customer_addresses
+  SET is_default = true
+  WHERE id = _id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'address_not_found';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_default_address(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_default_address(UUID) TO authenticated;
+
+-- 3. Order history
+-- Orders placed while signed in, plus guest orders with the phone number the customer
+-- verified by code. Only what track_order() shows; internal notes and costs stay hidden.
+CREATE OR REPLACE FUNCTION public.my_orders()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'customer_name', o.customer_name,
+    'phone', o.phone,
+    'address', o.address,
+    'district', o.district,
+    'delivery_zone', z.name,
+    'total_amount', o.total_amount,
+    'payment_method', o.payment_method,
+    'payment_status', o.payment_status,
+    'created_at', o.created_at,
+    'items', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'variant_id', oi.variant_id,
+        'name', coalesce(p.name, oi.product_name),
+        'variant_label', oi.variant_label,
+        'quantity', oi.quantity,
+        'price', oi.price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb)
+  ) ORDER BY o.created_at DESC), '[]'::jsonb)
+  FROM public.orders o
+  LEFT JOIN public.delivery_zones z ON z.id = o.delivery_zone_id
+  WHERE auth.uid() IS NOT NULL
+    AND (
+      o.user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1
+        FROM auth.users u
+        WHERE u.id = auth.uid()
+          AND u.phone_confirmed_at IS NOT NULL
+          AND public.phone_matches(u.phone, o.phone)
+      )
+    )
+$$;
+
+REVOKE ALL ON FUNCTION public.my_orders() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.my_orders() TO authenticated;
+
+-- 4. The public signup switch from 20251202000000_team_management.sql is about the password
+-- signup on the staff login page. Customers signing in by code have no password and are
+-- always let in; they get no staff role.
+CREATE OR REPLACE FUNCTION public.check_public_signup()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(NEW.encrypted_password, '') <> ''
+    AND NOT public.public_signup_enabled()
+    AND NOT EXISTS (SELECT 1 FROM public.staff_invites WHERE email = lower(NEW.email)) THEN
+    RAISE EXCEPTION 'signup_disabled';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,192 @@
+-- Server-side cart for signed-in customers
+-- The browser keeps the cart in localStorage as before. For signed-in customers it is also
+-- stored here, so it follows them across devices. On sign-in the local cart is merged into
+-- the stored one. cart_details() gives the current name, price, image and stock of any
+-- cart, signed in or not, so stale lines can be flagged.
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS public.carts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.cart_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cart_id UUID NOT NULL REFERENCES public.carts(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  -- The price the customer saw, so a later change can be pointed out; never charged
+  price DECIMAL(10, 2),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One line per product, or per variant of a product
+CREATE UNIQUE INDEX IF NOT EXISTS cart_items_line_idx
+ON public.cart_items (cart_id, product_id, coalesce(variant_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+CREATE TRIGGER update_carts_updated_at
+BEFORE UPDATE ON public.carts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_cart_items_updated_at
+BEFORE UPDATE ON public.cart_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.carts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cart_items ENABLE ROW LEVEL SECURITY;
+
+-- Written through save_cart() and merge_cart() only
+CREATE POLICY "Customers can view their cart"
+ON public.carts FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Customers can view their cart items"
+ON public.cart_items FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.carts c WHERE c.id = cart_id AND c.user_id = auth.uid()));
+
+-- 2. Current details of cart lines
+-- _items is [{ product_id, variant_id, quantity }] as sent to place_order(). Returns one entry
+-- per line in the same order, with status 'ok', 'unavailable' (product or variant gone or
+-- hidden) or 'variant_required' (the product got variants after the line was added).
+CREATE OR REPLACE FUNCTION public.cart_details(_items JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'product_id', c.product_id,
+    'variant_id', c.variant_id,
+    'quantity', c.quantity,
+    'status', CASE
+      WHEN p.id IS NULL THEN 'unavailable'
+      WHEN c.variant_id IS NOT NULL AND (v.id IS NULL OR NOT v.is_active) THEN 'unavailable'
+      WHEN c.variant_id IS NULL AND p.has_variants THEN 'variant_required'
+      ELSE 'ok'
+    END,
+    'name', p.name,
+    'variant_label', public.variant_label(v.options),
+    'price', coalesce(v.price, p.price),
+    'image_url', coalesce(nullif(v.images ->> 0, ''), nullif(p.image_url, ''), nullif(p.images ->> 0, '')),
+    'stock', CASE WHEN c.variant_id IS NOT NULL THEN v.stock ELSE p.stock END
+  ) ORDER BY c.position), '[]'::jsonb)
+  FROM jsonb_to_recordset(coalesce(_items, '[]'::jsonb)) WITH ORDINALITY
+    AS c(product_id UUID, variant_id UUID, quantity INTEGER, position BIGINT)
+  LEFT JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id AND v.product_id = c.product_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cart_details(JSONB) TO anon, authenticated;
+
+-- 3. Writing the stored cart
+CREATE OR REPLACE FUNCTION public.customer_cart_id()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'unauthorized';
+  END IF;
+
+  INSERT INTO public.carts (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE SET updated_at = now()
+  RETURNING id INTO _cart_id;
+
+  RETURN _cart_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.customer_cart_id() FROM PUBLIC, anon, authenticated;
+
+-- The stored cart as [{ product_id, variant_id, quantity, price }], oldest line first
+CREATE OR REPLACE FUNCTION public.stored_cart_lines(_cart_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'product_id', i.product_id,
+    'variant_id', i.variant_id,
+    'quantity', i.quantity,
+    'price', i.price
+  ) ORDER BY i.created_at, i.id), '[]'::jsonb)
+  FROM public.cart_items i
+  WHERE i.cart_id = _cart_id
+$$;
+
+REVOKE ALL ON FUNCTION public.stored_cart_lines(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Replaces the stored cart with _items ([{ product_id, variant_id, quantity, price }]). Lines for products or variants that no longer
+-- exist are dropped. Errors: unauthorized.
+CREATE OR REPLACE FUNCTION public.save_cart(_items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID := public.customer_cart_id();
+BEGIN
+  DELETE FROM public.cart_items WHERE cart_id = _cart_id;
+
+  INSERT INTO public.cart_items (cart_id, product_id, variant_id, quantity, price)
+  SELECT _cart_id, c.product_id, v.id, sum(c.quantity), max(c.price)
+  FROM jsonb_to_recordset(coalesce(_items, '[]'::jsonb))
+    AS c(product_id UUID, variant_id UUID, quantity INTEGER, price DECIMAL(10, 2))
+  JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id AND v.product_id = c.product_id
+  WHERE c.quantity > 0
+    AND (c.variant_id IS NULL OR v.id IS NOT NULL)
+  GROUP BY c.product_id, v.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_cart(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_cart(JSONB) TO authenticated;
+
+-- Adds the cart a customer built before signing in to their stored cart and returns the
+-- result. A line in both keeps the larger quantity rather than the sum, so signing in
+-- again on the same device does not double it, and keeps the price first stored.
+-- Errors: unauthorized.
+CREATE OR REPLACE FUNCTION public.merge_cart(_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID := public.customer_cart_id();
+BEGIN
+  INSERT INTO public.cart_items (cart_id, product_id, variant_id, quantity, price)
+  SELECT _cart_id, c.product_id, v.id, max(c.quantity), max(c.price)
+  FROM jsonb_to_recordset(coalesce(_items, '[]'::jsonb))
+    AS c(product_id UUID, variant_id UUID, quantity INTEGER, price DECIMAL(10, 2))
+  JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id AND v.product_id = c.product_id
+  WHERE c.quantity > 0
+    AND (c.variant_id IS NULL OR v.id IS NOT NULL)
+  GROUP BY c.product_id, v.id
+  ON CONFLICT (cart_id, product_id, coalesce(variant_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  DO UPDATE SET quantity = greatest(public.cart_items.quantity, EXCLUDED.quantity);
+
+  RETURN public.stored_cart_lines(_cart_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.merge_cart(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_cart(JSONB) TO authenticated;
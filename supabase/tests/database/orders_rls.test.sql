@@ -0,0 +1,71 @@
+-- Orders must not be readable or writable by the public.
+-- Run against a local stack with: supabase start && supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+INSERT INTO public.products (id, name, price, stock)
+VALUES ('00000000-0000-0000-0000-0000000000a1', 'RLS test product', 100, 5);
+
+-- Anonymous visitor
+SET LOCAL ROLE anon;
+
+SELECT lives_ok(
+  $$ SELECT set_config('test.order_id', public.place_order(
+       'RLS Test', '01700000000', 'Mirpur 10', 'Dhaka',
+       '[{"product_id": "00000000-0000-0000-0000-0000000000a1", "quantity": 1}]'::jsonb
+     )::text, true) $$,
+  'anon can place an order through place_order()'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.orders $$,
+  'anon cannot list orders'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.order_items $$,
+  'anon cannot list order items'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.orders (customer_name, phone, address, location_type, total_amount)
+     VALUES ('x', '01700000000', 'x', 'inside_dhaka', 1) $$,
+  '42501',
+  NULL,
+  'anon cannot insert orders directly'
+);
+
+SELECT isnt(
+  public.track_order(current_setting('test.order_id')::uuid, '+880 1700-000000'),
+  NULL,
+  'anon can track its own order with the checkout phone number'
+);
+
+SELECT is(
+  public.track_order(current_setting('test.order_id')::uuid, '01800000000'),
+  NULL,
+  'track_order returns nothing for a different phone number'
+);
+
+-- Signed-in user without the admin role
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b1", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.orders $$,
+  'non-admin users cannot list orders'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT count(*)::int FROM public.orders WHERE id = current_setting('test.order_id')::uuid),
+  1,
+  'the order placed by anon exists'
+);
+
+SELECT * FROM finish();
+ROLLBACK;